@@ -729,7 +729,6 @@ function generateInfrastructureComponents(type: string, complexity: string): any
           storage_type: "gp2",
           db_name: "mydatabase",
           username: "admin",
-          password: "password123",
           backup_retention_period: 7,
           backup_window: "03:00-04:00",
           maintenance_window: "sun:04:00-sun:05:00"
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs/promises'
-import path from 'path'
+import { loadServiceConfig } from '@/lib/service-config-store'
 
 export async function GET(
   request: NextRequest,
@@ -8,14 +7,10 @@ export async function GET(
 ) {
   const { provider, serviceId } = params
 
-  try {
-    const filePath = path.join(process.cwd(), 'config', provider, `${serviceId}.json`)
-    const fileContent = await fs.readFile(filePath, 'utf8')
-    const config = JSON.parse(fileContent)
-
-    return NextResponse.json(config)
-  } catch (error) {
-    console.warn(`Failed to load config for ${provider}/${serviceId}:`, error)
+  const config = await loadServiceConfig(provider, serviceId)
+  if (!config) {
     return NextResponse.json({ error: 'Config not found' }, { status: 404 })
   }
+
+  return NextResponse.json(config)
 }
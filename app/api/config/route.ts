@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs/promises'
-import path from 'path'
+import { loadServiceConfig } from '@/lib/service-config-store'
 
 // Static configuration for available providers and services
 const AVAILABLE_PROVIDERS = ['aws', 'azure', 'gcp', 'supabase', 'stripe'] as const
@@ -8,11 +7,15 @@ const AVAILABLE_PROVIDERS = ['aws', 'azure', 'gcp', 'supabase', 'stripe'] as con
 const PROVIDER_SERVICES: Record<string, string[]> = {
   aws: [
     'api_gateway',
+    'cloudfront',
     'cloudwatch',
     'cognito',
     'dynamodb',
+    'ebs',
     'ec2',
     'fargate',
+    'internet_gateway',
+    'kubernetes',
     'lambda',
     'rds',
     's3',
@@ -21,8 +24,30 @@ const PROVIDER_SERVICES: Record<string, string[]> = {
     'step_functions',
     'vpc'
   ],
-  azure: ['vm'],
-  gcp: ['compute'],
+  azure: [
+    'app_service',
+    'blob',
+    'functions',
+    'key_vault',
+    'lb',
+    'nsg',
+    'sql',
+    'subnet',
+    'vm',
+    'vnet'
+  ],
+  gcp: [
+    'cloud_run',
+    'compute',
+    'firewall',
+    'functions',
+    'lb',
+    'network',
+    'pubsub',
+    'sql',
+    'storage',
+    'subnetwork'
+  ],
   supabase: ['database', 'auth'],
   stripe: ['payment']
 }
@@ -64,14 +89,3 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to load configs' }, { status: 500 })
   }
 }
-
-async function loadServiceConfig(provider: string, serviceId: string) {
-  try {
-    const filePath = path.join(process.cwd(), 'config', provider, `${serviceId}.json`)
-    const fileContent = await fs.readFile(filePath, 'utf8')
-    return JSON.parse(fileContent)
-  } catch (error) {
-    console.warn(`Failed to load config for ${provider}/${serviceId}:`, error)
-    return null
-  }
-}
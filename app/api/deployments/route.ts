@@ -0,0 +1,46 @@
+import { workspaces } from '@/lib/workspace-registry'
+import type { DeploymentStatus } from '@/types/deployment'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Get deployment history, optionally filtered with ?workspaceId=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId') || undefined
+    return NextResponse.json({ deployments: workspaces.getDeployments(workspaceId) })
+  } catch (error) {
+    console.error('Error getting deployment history:', error)
+    return NextResponse.json(
+      { error: 'Failed to get deployment history' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Record a deployment (insert or update by id)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const deployment: DeploymentStatus | undefined = body.deployment
+
+    if (!deployment?.id || !deployment.status || !deployment.createdAt) {
+      return NextResponse.json(
+        { error: 'Missing required fields: deployment.id, deployment.status, deployment.createdAt' },
+        { status: 400 }
+      )
+    }
+
+    workspaces.recordDeployment({ ...deployment, logs: Array.isArray(deployment.logs) ? deployment.logs : [] })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error recording deployment:', error)
+    return NextResponse.json(
+      { error: 'Failed to record deployment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { cancelJob, getJob } from '@/lib/terraform-runner'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Get the status and output of a terraform job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = getJob(params.id)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error getting job:', error)
+    return NextResponse.json(
+      { error: 'Failed to get job' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Cancel a queued or running terraform job
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = cancelJob(params.id)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidStateKey } from '@/lib/terraform-backend'
+import { stateStore, type StateLockInfo } from '@/lib/terraform-state-store'
+
+/**
+ * Lock a state for a terraform run. When it is already locked, terraform
+ * expects 423 with the current lock info so it can report who holds it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    if (!isValidStateKey(params.key)) {
+      return NextResponse.json({ error: 'Invalid state key' }, { status: 400 })
+    }
+
+    const info = await readLockInfo(request)
+    if (!info) {
+      return NextResponse.json({ error: 'Lock info with an ID is required' }, { status: 400 })
+    }
+
+    const result = stateStore.lock(params.key, info)
+    if (!result.acquired) {
+      return NextResponse.json(result.lock, { status: 423 })
+    }
+    return NextResponse.json(result.lock)
+  } catch (error) {
+    console.error('Error locking terraform state:', error)
+    return NextResponse.json(
+      { error: 'Failed to lock terraform state' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Unlock a state. Only the ID of the current lock unlocks it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    if (!isValidStateKey(params.key)) {
+      return NextResponse.json({ error: 'Invalid state key' }, { status: 400 })
+    }
+
+    const info = await readLockInfo(request)
+    if (!info) {
+      return NextResponse.json({ error: 'Lock info with an ID is required' }, { status: 400 })
+    }
+
+    const result = stateStore.unlock(params.key, info.ID)
+    if (!result.released) {
+      return NextResponse.json(result.lock, { status: 409 })
+    }
+    return new NextResponse(null, { status: 200 })
+  } catch (error) {
+    console.error('Error unlocking terraform state:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock terraform state' },
+      { status: 500 }
+    )
+  }
+}
+
+async function readLockInfo(request: NextRequest): Promise<StateLockInfo | null> {
+  try {
+    const info = await request.json()
+    return info && typeof info.ID === 'string' && info.ID ? info : null
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidStateKey } from '@/lib/terraform-backend'
+import { stateStore } from '@/lib/terraform-state-store'
+
+/*
+ * Built-in state server for Terraform's HTTP backend. Terraform reads the
+ * state with GET, writes it with POST (passing the lock ID as `?ID=` while
+ * locked) and removes it with DELETE. Locking is in ./lock.
+ */
+
+/**
+ * Get the state stored under a key. Terraform treats 404 as no state yet.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    if (!isValidStateKey(params.key)) {
+      return NextResponse.json({ error: 'Invalid state key' }, { status: 400 })
+    }
+
+    const state = stateStore.read(params.key)
+    if (state === null) {
+      return NextResponse.json({ error: 'State not found' }, { status: 404 })
+    }
+    return new NextResponse(state, { headers: { 'Content-Type': 'application/json' } })
+  } catch (error) {
+    console.error('Error getting terraform state:', error)
+    return NextResponse.json(
+      { error: 'Failed to get terraform state' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Store the state under a key. A locked state is only written by its lock holder.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    if (!isValidStateKey(params.key)) {
+      return NextResponse.json({ error: 'Invalid state key' }, { status: 400 })
+    }
+
+    const lock = stateStore.getLock(params.key)
+    const lockId = request.nextUrl.searchParams.get('ID')
+    if (lock && lock.ID !== lockId) {
+      console.warn('🔒 Rejected write to locked terraform state:', { key: params.key, lockId, held: lock.ID })
+      return NextResponse.json(lock, { status: 423 })
+    }
+
+    const state = await request.text()
+    try {
+      JSON.parse(state)
+    } catch (error) {
+      return NextResponse.json({ error: 'State must be JSON' }, { status: 400 })
+    }
+
+    stateStore.write(params.key, state)
+    console.log('💾 Terraform state stored:', { key: params.key, bytes: state.length })
+    return new NextResponse(null, { status: 200 })
+  } catch (error) {
+    console.error('Error storing terraform state:', error)
+    return NextResponse.json(
+      { error: 'Failed to store terraform state' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove the state stored under a key, e.g. when terraform deletes a workspace
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    if (!isValidStateKey(params.key)) {
+      return NextResponse.json({ error: 'Invalid state key' }, { status: 400 })
+    }
+
+    const lock = stateStore.getLock(params.key)
+    if (lock) {
+      return NextResponse.json(lock, { status: 423 })
+    }
+
+    stateStore.delete(params.key)
+    return new NextResponse(null, { status: 200 })
+  } catch (error) {
+    console.error('Error deleting terraform state:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete terraform state' },
+      { status: 500 }
+    )
+  }
+}
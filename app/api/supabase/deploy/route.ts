@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseApiService } from '@/lib/supabase-api-service'
+import { describeConfigErrors, validateNodeConfigs } from '@/lib/config-validator'
+import { maskSecrets } from '@/lib/secret-masking'
+import { loadServiceConfig } from '@/lib/service-config-store'
+import type { NodeConfigErrors } from '@/types/deployment'
 import type { Node, Edge } from '@xyflow/react'
 
 export interface SupabaseDeploymentRequest {
@@ -41,6 +45,7 @@ export interface SupabaseDeploymentResult {
     }
   }
   error?: string
+  configErrors?: NodeConfigErrors[]
   logs?: string[]
 }
 
@@ -74,38 +79,13 @@ export async function POST(request: NextRequest) {
     }
 
     const config = databaseNode.data.config as any
-    console.log('📋 Database config:', config)
+    console.log('📋 Database config:', maskSecrets(config))
 
-    // Validate database configuration
-    if (!config?.project_name || !config?.db_password) {
+    // Check the configuration of every node against its service's schema
+    const configErrors = await validateNodeConfigs(body.nodes, loadServiceConfig)
+    if (configErrors.length > 0) {
       return NextResponse.json(
-        {
-          success: false,
-          error: 'Database configuration incomplete. Please provide project name and password.',
-        },
-        { status: 400 }
-      )
-    }
-
-    // Validate project name format (Supabase requirements)
-    const projectNamePattern = /^[a-z0-9-]+$/
-    if (!projectNamePattern.test(config.project_name)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Project name must contain only lowercase letters, numbers, and hyphens.',
-        },
-        { status: 400 }
-      )
-    }
-
-    // Validate password length
-    if (config.db_password.length < 6) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Database password must be at least 6 characters long.',
-        },
+        { success: false, error: describeConfigErrors(configErrors), configErrors },
         { status: 400 }
       )
     }
@@ -1,10 +1,12 @@
-import { spawn } from 'child_process'
 import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs'
 import { join, resolve, relative, isAbsolute } from 'path'
 import { tmpdir } from 'os'
 import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { CredentialManager } from '@/lib/credential-manager'
+import { executeTerraformCommand, getTargetArgs, type TerraformExecutor } from '@/lib/terraform-runner'
+import { streamTerraformResponse } from '@/lib/terraform-stream'
+import { lockWorkingDirectory, workspaceLockedResponse } from '@/lib/workspace-lock'
 
 // Define allowed sandbox root for Terraform operations
 // In production, this should be configured via environment variable
@@ -41,11 +43,9 @@ function isPathInSandbox(targetPath: string, sandboxRoot: string = TERRAFORM_SAN
 }
 
 export async function POST(request: NextRequest) {
-  let tempDir: string | null = null
-  
   try {
     const body = await request.json()
-    const { terraformCode, provider = 'aws', workingDirectory, planFile, planFileData, autoApprove = true, credentials } = body
+    const { terraformCode, provider = 'aws', workingDirectory, planFile, planFileData, autoApprove = true, credentials, targets, lockHolder, stream = false } = body
     
     console.log('🚀 Terraform Apply API called:', {
       hasTerraformCode: !!terraformCode,
@@ -82,7 +82,62 @@ export async function POST(request: NextRequest) {
       console.log('🔑 Using AWS credentials for terraform apply')
     }
 
-    let actualWorkingDir = workingDirectory
+    const targetArgs = getTargetArgs(targets)
+    if (!targetArgs) {
+      return NextResponse.json(
+        { error: 'Targets must be a list of resource addresses' },
+        { status: 400 }
+      )
+    }
+
+    // Only one operation at a time may run against a workspace's state; inline
+    // code runs in a fresh temporary directory, which needs no lock
+    const lock = lockWorkingDirectory(terraformCode ? undefined : workingDirectory, lockHolder, 'apply')
+    if (lock && !lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
+    }
+    const releaseLock = () => lock?.acquired && lock.release()
+
+    const options = { terraformCode, workingDirectory, planFile, planFileData, autoApprove, targetArgs }
+    const run = (execute: TerraformExecutor) => runApply(options, env, execute).finally(releaseLock)
+    if (stream) {
+      return streamTerraformResponse(run)
+    }
+
+    return await run(executeTerraformCommand)
+  } catch (error) {
+    console.error('💥 Error running terraform apply:', {
+      error: error instanceof Error ? error.message : error,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to run terraform apply' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Run terraform apply (initializing a temporary directory for inline code) and
+ * build the response, buffered or streamed
+ */
+async function runApply(
+  { terraformCode, workingDirectory, planFile, planFileData, autoApprove, targetArgs }: {
+    terraformCode?: string
+    workingDirectory?: string
+    planFile?: string
+    planFileData?: string
+    autoApprove: boolean
+    targetArgs: string[]
+  },
+  env: NodeJS.ProcessEnv,
+  execute: TerraformExecutor
+): Promise<NextResponse> {
+  let tempDir: string | null = null
+
+  try {
+    let actualWorkingDir: string
 
     // If terraformCode is provided, create a temporary directory INSIDE sandbox
     if (terraformCode) {
@@ -111,7 +166,7 @@ export async function POST(request: NextRequest) {
         '-upgrade=false',      // Don't check for newer provider versions
         '-backend=false',      // Skip backend initialization (not needed for apply)
       ]
-      const initResult = await executeTerraformCommand('init', initArgs, tempDir, env)
+      const initResult = await execute('init', initArgs, tempDir, env)
       
       if (!initResult.success) {
         console.error('❌ Terraform init failed:', initResult.error)
@@ -153,6 +208,7 @@ export async function POST(request: NextRequest) {
       }
       
       console.log('✅ Working directory validated and within sandbox')
+      actualWorkingDir = workingDirectory
     }
 
     // If planFileData is provided, write it to a file in the working directory
@@ -187,13 +243,17 @@ export async function POST(request: NextRequest) {
       // Use external plan file reference (legacy, may not work if file doesn't exist)
       args.push(planFile)
       console.log('📋 Using external plan file:', planFile)
-    } else if (autoApprove) {
-      args.push('-auto-approve')
-      console.log('⚡ Auto-approve enabled')
+    } else {
+      if (autoApprove) {
+        args.push('-auto-approve')
+        console.log('⚡ Auto-approve enabled')
+      }
+      // A saved plan already carries its targets; terraform rejects -target alongside it
+      args.push(...targetArgs)
     }
 
     console.log('🚀 Executing terraform apply command with args:', args)
-    const result = await executeTerraformCommand('apply', args, actualWorkingDir, env)
+    const result = await execute('apply', args, actualWorkingDir, env)
     
     console.log('📊 Terraform apply result:', {
       success: result.success,
@@ -210,16 +270,6 @@ export async function POST(request: NextRequest) {
     }
     
     return NextResponse.json(result)
-  } catch (error) {
-    console.error('💥 Error running terraform apply:', {
-      error: error instanceof Error ? error.message : error,
-      stack: error instanceof Error ? error.stack : undefined,
-      timestamp: new Date().toISOString()
-    })
-    return NextResponse.json(
-      { error: 'Failed to run terraform apply' },
-      { status: 500 }
-    )
   } finally {
     // Cleanup temporary directory
     if (tempDir && existsSync(tempDir)) {
@@ -232,147 +282,3 @@ export async function POST(request: NextRequest) {
     }
   }
 }
-
-function executeTerraformCommand(
-  command: string,
-  args: string[],
-  workingDirectory: string,
-  env?: NodeJS.ProcessEnv,
-  options?: {
-    timeoutMs?: number      // Default: 5 minutes for apply (can be longer than plan)
-    maxOutputBytes?: number // Default: 10MB
-  }
-): Promise<{ success: boolean; output: string; error?: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const fullCommand = `terraform ${command} ${args.join(' ')}`
-    const timeoutMs = options?.timeoutMs || 5 * 60 * 1000  // 5 minutes default
-    const maxOutputBytes = options?.maxOutputBytes || 10 * 1024 * 1024 // 10MB default
-    
-    console.log('🚀 Executing command:', {
-      command: fullCommand,
-      workingDirectory,
-      timeoutMs,
-      maxOutputBytes,
-      timestamp: new Date().toISOString()
-    })
-
-    const terraform = spawn('terraform', [command, ...args], {
-      cwd: workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: env || process.env
-    })
-
-    let output = ''
-    let error = ''
-    let outputTruncated = false
-    let errorTruncated = false
-    let timedOut = false
-    let processKilled = false
-
-    // Setup timeout
-    const timeoutId = setTimeout(() => {
-      timedOut = true
-      processKilled = true
-      terraform.kill('SIGTERM')
-      
-      // Force kill after 5 seconds if still running
-      setTimeout(() => {
-        if (!terraform.killed) {
-          terraform.kill('SIGKILL')
-        }
-      }, 5000)
-      
-      console.error('⏰ Terraform command timed out:', {
-        command: fullCommand,
-        timeoutMs,
-        outputLength: output.length,
-        errorLength: error.length
-      })
-    }, timeoutMs)
-
-    terraform.stdout?.on('data', (data) => {
-      const chunk = data.toString()
-      
-      // Check output size limit
-      if (output.length + chunk.length > maxOutputBytes) {
-        if (!outputTruncated) {
-          const remaining = maxOutputBytes - output.length
-          output += chunk.substring(0, remaining)
-          output += '\n\n[... Output truncated due to size limit ...]\n'
-          outputTruncated = true
-          console.warn('⚠️ Terraform stdout truncated at max size:', maxOutputBytes)
-        }
-      } else {
-        output += chunk
-        console.log('📤 Terraform stdout:', chunk.trim().substring(0, 200))
-      }
-    })
-
-    terraform.stderr?.on('data', (data) => {
-      const chunk = data.toString()
-      
-      // Check error size limit
-      if (error.length + chunk.length > maxOutputBytes) {
-        if (!errorTruncated) {
-          const remaining = maxOutputBytes - error.length
-          error += chunk.substring(0, remaining)
-          error += '\n\n[... Error output truncated due to size limit ...]\n'
-          errorTruncated = true
-          console.warn('⚠️ Terraform stderr truncated at max size:', maxOutputBytes)
-        }
-      } else {
-        error += chunk
-        console.log('📥 Terraform stderr:', chunk.trim().substring(0, 200))
-      }
-    })
-
-    terraform.on('close', (code) => {
-      clearTimeout(timeoutId)
-      
-      console.log('🏁 Terraform command finished:', {
-        command: fullCommand,
-        exitCode: code,
-        success: code === 0 && !timedOut,
-        outputLength: output.length,
-        errorLength: error.length,
-        outputTruncated,
-        errorTruncated,
-        timedOut,
-        processKilled
-      })
-      
-      if (timedOut) {
-        resolve({
-          success: false,
-          output,
-          error: `Command timed out after ${timeoutMs}ms. ${error}`,
-          exitCode: 124 // Standard timeout exit code
-        })
-      } else {
-        resolve({
-          success: code === 0,
-          output: outputTruncated ? output : output,
-          error: errorTruncated || error ? error || undefined : undefined,
-          exitCode: code || 1
-        })
-      }
-    })
-
-    terraform.on('error', (err) => {
-      clearTimeout(timeoutId)
-      
-      console.error('💥 Terraform spawn error:', {
-        command: fullCommand,
-        error: err.message,
-        code: (err as any).code
-      })
-      
-      resolve({
-        success: false,
-        output,
-        error: err.message,
-        exitCode: 1
-      })
-    })
-  })
-}
@@ -1,11 +1,13 @@
-import { spawn } from 'child_process'
 import { NextRequest, NextResponse } from 'next/server'
 import { CredentialManager } from '@/lib/credential-manager'
+import { executeTerraformCommand, getTargetArgs, type TerraformExecutor } from '@/lib/terraform-runner'
+import { streamTerraformResponse } from '@/lib/terraform-stream'
+import { lockWorkingDirectory, workspaceLockedResponse } from '@/lib/workspace-lock'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { workingDirectory, autoApprove, credentials } = body
+    const { workingDirectory, autoApprove, credentials, targets, lockHolder, stream = false } = body
 
     if (!workingDirectory) {
       return NextResponse.json(
@@ -34,10 +36,31 @@ export async function POST(request: NextRequest) {
       console.warn('⚠️ No AWS credentials provided for terraform destroy')
     }
 
-    const args = autoApprove ? ['-auto-approve'] : []
-    const result = await executeTerraformCommand('destroy', args, workingDirectory, env)
-    
-    return NextResponse.json(result)
+    const targetArgs = getTargetArgs(targets)
+    if (!targetArgs) {
+      return NextResponse.json(
+        { error: 'Targets must be a list of resource addresses' },
+        { status: 400 }
+      )
+    }
+
+    // Only one operation at a time may run against a workspace's state
+    const lock = lockWorkingDirectory(workingDirectory, lockHolder, 'destroy')
+    if (lock && !lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
+    }
+    const releaseLock = () => lock?.acquired && lock.release()
+
+    const args = [...(autoApprove ? ['-auto-approve'] : []), ...targetArgs]
+    const run = (execute: TerraformExecutor) => execute('destroy', args, workingDirectory, env)
+      .then(result => NextResponse.json(result))
+      .finally(releaseLock)
+
+    if (stream) {
+      return streamTerraformResponse(run)
+    }
+
+    return await run(executeTerraformCommand)
   } catch (error) {
     console.error('Error running terraform destroy:', error)
     return NextResponse.json(
@@ -46,47 +69,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-function executeTerraformCommand(
-  command: string,
-  args: string[],
-  workingDirectory: string,
-  env?: NodeJS.ProcessEnv
-): Promise<{ success: boolean; output: string; error?: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const terraform = spawn('terraform', [command, ...args], {
-      cwd: workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: env || process.env
-    })
-
-    let output = ''
-    let error = ''
-
-    terraform.stdout?.on('data', (data) => {
-      output += data.toString()
-    })
-
-    terraform.stderr?.on('data', (data) => {
-      error += data.toString()
-    })
-
-    terraform.on('close', (code) => {
-      resolve({
-        success: code === 0,
-        output,
-        error: error || undefined,
-        exitCode: code || 1
-      })
-    })
-
-    terraform.on('error', (err) => {
-      resolve({
-        success: false,
-        output,
-        error: err.message,
-        exitCode: 1
-      })
-    })
-  })
-}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
+import { describeConfigErrors, validateNodeConfigs } from '@/lib/config-validator'
+import { maskSensitiveCode } from '@/lib/secret-masking'
+import { loadServiceConfig } from '@/lib/service-config-store'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -23,8 +26,14 @@ function getBlockTypeMapping(provider: string): string {
 - iam_role → aws_iam_role
 - sns → aws_sns_topic
 - sqs → aws_sqs_queue
-- ecs → aws_ecs_cluster
-- eks → aws_eks_cluster
+- fargate → aws_ecs_service (with cluster and task definition)
+- kubernetes → aws_eks_cluster (with node group)
+- cognito → aws_cognito_user_pool
+- step_functions → aws_sfn_state_machine
+- secrets_manager → aws_secretsmanager_secret
+- cloudwatch → aws_cloudwatch_log_group
+- ebs → aws_ebs_volume
+- internet_gateway → aws_internet_gateway
 `
   } else if (provider === 'gcp') {
     return `
@@ -32,14 +41,26 @@ function getBlockTypeMapping(provider: string): string {
 - storage → google_storage_bucket
 - sql → google_sql_database_instance
 - functions → google_cloudfunctions_function
+- cloud_run → google_cloud_run_v2_service
+- lb → google_compute_url_map (HTTP(S) load balancer)
+- network → google_compute_network
+- subnetwork → google_compute_subnetwork
+- firewall → google_compute_firewall
+- pubsub → google_pubsub_topic
 - gke → google_container_cluster
 `
   } else if (provider === 'azure') {
     return `
-- vm → azurerm_virtual_machine
-- storage → azurerm_storage_account
-- sql → azurerm_sql_server
-- functions → azurerm_function_app
+- vm → azurerm_linux_virtual_machine
+- vnet → azurerm_virtual_network
+- subnet → azurerm_subnet
+- nsg → azurerm_network_security_group
+- blob → azurerm_storage_account (with a blob container)
+- sql → azurerm_mssql_server
+- functions → azurerm_linux_function_app
+- app_service → azurerm_linux_web_app
+- lb → azurerm_lb
+- key_vault → azurerm_key_vault
 - aks → azurerm_kubernetes_cluster
 `
   }
@@ -64,6 +85,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const configErrors = await validateNodeConfigs(
+      blocks.map((block: any) => ({
+        id: block.id,
+        position: { x: block.x, y: block.y },
+        data: { provider, id: block.type, name: block.name, config: block.config }
+      })),
+      loadServiceConfig
+    )
+    if (configErrors.length > 0) {
+      console.log('❌ Invalid block configuration:', configErrors.length)
+      return NextResponse.json(
+        { error: describeConfigErrors(configErrors), configErrors },
+        { status: 400 }
+      )
+    }
+
     // Build context for Claude
     const infrastructureContext = {
       blocks: blocks.map((block: any) => ({
@@ -218,7 +255,7 @@ output "instance_id" { ... }`,
     console.log('\n' + '='.repeat(80))
     console.log('📄 FULL GENERATED TERRAFORM CODE:')
     console.log('='.repeat(80))
-    console.log(terraformCode)
+    console.log(maskSensitiveCode(terraformCode))
     console.log('='.repeat(80) + '\n')
     console.log('✅ Terraform generation complete')
 
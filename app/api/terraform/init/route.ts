@@ -1,11 +1,13 @@
-import { spawn } from 'child_process'
 import { NextRequest, NextResponse } from 'next/server'
 import { CredentialManager } from '@/lib/credential-manager'
+import { executeTerraformCommand, type TerraformExecutor } from '@/lib/terraform-runner'
+import { streamTerraformResponse } from '@/lib/terraform-stream'
+import { lockWorkingDirectory, workspaceLockedResponse } from '@/lib/workspace-lock'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { workingDirectory, credentials } = body
+    const { workingDirectory, credentials, lockHolder, stream = false } = body
 
     // Set AWS credentials as environment variables if provided
     const env = { ...process.env }
@@ -40,34 +42,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    console.log('🚀 Executing terraform init command...')
-    const result = await executeTerraformCommand('init', [], workingDirectory, env)
-
-    console.log('📊 Terraform init result:', {
-      success: result.success,
-      exitCode: result.exitCode,
-      outputLength: result.output?.length || 0,
-      errorLength: result.error?.length || 0
-    })
-
-    if (result.output) {
-      console.log('📋 Terraform init output:', result.output)
-    }
-    if (result.error) {
-      console.error('⚠️ Terraform init error:', result.error)
+    // Only one operation at a time may run against a workspace's state
+    const lock = lockWorkingDirectory(workingDirectory, lockHolder, 'init')
+    if (lock && !lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
     }
+    const releaseLock = () => lock?.acquired && lock.release()
 
-    // If terraform init failed, return the actual error from terraform
-    if (!result.success) {
-      return NextResponse.json({
-        success: false,
-        error: result.error || 'Terraform init failed',
-        output: result.output,
-        exitCode: result.exitCode
-      })
+    const run = (execute: TerraformExecutor) => runInit(workingDirectory, env, execute).finally(releaseLock)
+    if (stream) {
+      return streamTerraformResponse(run)
     }
-    
-    return NextResponse.json(result)
+
+    return await run(executeTerraformCommand)
   } catch (error) {
     console.error('💥 Error running terraform init:', {
       error: error instanceof Error ? error.message : error,
@@ -81,71 +68,40 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function executeTerraformCommand(
-  command: string,
-  args: string[],
+/**
+ * Run terraform init and build the response, buffered or streamed
+ */
+async function runInit(
   workingDirectory: string,
-  env?: NodeJS.ProcessEnv
-): Promise<{ success: boolean; output: string; error?: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const fullCommand = `terraform ${command} ${args.join(' ')}`
-    console.log('🔧 Executing command:', {
-      command: fullCommand,
-      workingDirectory,
-      timestamp: new Date().toISOString()
-    })
-    
-    const terraform = spawn('terraform', [command, ...args], {
-      cwd: workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: env || process.env
-    })
+  env: NodeJS.ProcessEnv,
+  execute: TerraformExecutor
+): Promise<NextResponse> {
+  console.log('🚀 Executing terraform init command...')
+  const result = await execute('init', [], workingDirectory, env)
 
-    let output = ''
-    let error = ''
-
-    terraform.stdout?.on('data', (data) => {
-      const chunk = data.toString()
-      output += chunk
-      console.log('📤 Terraform stdout:', chunk.trim())
-    })
-
-    terraform.stderr?.on('data', (data) => {
-      const chunk = data.toString()
-      error += chunk
-      console.log('📥 Terraform stderr:', chunk.trim())
-    })
-
-    terraform.on('close', (code) => {
-      console.log('🏁 Terraform command finished:', {
-        command: fullCommand,
-        exitCode: code,
-        success: code === 0,
-        outputLength: output.length,
-        errorLength: error.length
-      })
+  console.log('📊 Terraform init result:', {
+    success: result.success,
+    exitCode: result.exitCode,
+    outputLength: result.output?.length || 0,
+    errorLength: result.error?.length || 0
+  })
 
-      resolve({
-        success: code === 0,
-        output,
-        error: error || (code !== 0 ? `Terraform exited with code ${code}` : undefined),
-        exitCode: code || 1
-      })
-    })
+  if (result.output) {
+    console.log('📋 Terraform init output:', result.output)
+  }
+  if (result.error) {
+    console.error('⚠️ Terraform init error:', result.error)
+  }
 
-    terraform.on('error', (err) => {
-      console.error('💥 Terraform spawn error:', {
-        command: fullCommand,
-        error: err.message,
-        code: (err as any).code
-      })
-      
-      resolve({
-        success: false,
-        output,
-        error: err.message,
-        exitCode: 1
-      })
+  // If terraform init failed, return the actual error from terraform
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      error: result.error || 'Terraform init failed',
+      output: result.output,
+      exitCode: result.exitCode
     })
-  })
+  }
+  
+  return NextResponse.json(result)
 }
@@ -1,10 +1,15 @@
-import { spawn } from 'child_process'
 import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync } from 'fs'
 import { join, resolve, relative, isAbsolute } from 'path'
 import { tmpdir } from 'os'
 import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { CredentialManager } from '@/lib/credential-manager'
+import { executeTerraformCommand, getTargetArgs, type TerraformExecutor } from '@/lib/terraform-runner'
+import { streamTerraformResponse } from '@/lib/terraform-stream'
+import { lockWorkingDirectory, workspaceLockedResponse } from '@/lib/workspace-lock'
+import { BACKEND_FILE, generateBackendCode, getStateServerUrl, isValidStateKey, validateBackendConfig } from '@/lib/terraform-backend'
+import { parsePlanJson, summarizeResourceChanges } from '@/lib/terraform-plan'
+import type { PlanResourceChange } from '@/types/deployment'
 
 // Define allowed sandbox root for Terraform operations
 // In production, this should be configured via environment variable
@@ -41,11 +46,9 @@ function isPathInSandbox(targetPath: string, sandboxRoot: string = TERRAFORM_SAN
 }
 
 export async function POST(request: NextRequest) {
-  let tempDir: string | null = null
-  
   try {
     const body = await request.json()
-    const { terraformCode, provider = 'aws', credentials, workingDirectory, planFile } = body
+    const { terraformCode, provider = 'aws', credentials, workingDirectory, planFile, targets, lockHolder, backend, stateKey, stream = false } = body
 
     // Set AWS credentials as environment variables if provided
     const env = { ...process.env }
@@ -84,7 +87,77 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString()
     })
 
-    let actualWorkingDir = workingDirectory
+    const targetArgs = getTargetArgs(targets)
+    if (!targetArgs) {
+      return NextResponse.json(
+        { error: 'Targets must be a list of resource addresses' },
+        { status: 400 }
+      )
+    }
+
+    // Inline code is planned against the project's remote state when it has one,
+    // so the plan shows changes to what is deployed rather than a fresh create
+    const backendErrors = backend ? validateBackendConfig(backend) : []
+    if (backend && (typeof stateKey !== 'string' || !isValidStateKey(stateKey))) {
+      backendErrors.push('a valid stateKey is required with a backend')
+    }
+    if (backendErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid state backend: ${backendErrors.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const backendCode = terraformCode && backend
+      ? generateBackendCode(backend, stateKey, getStateServerUrl(request.nextUrl.origin))
+      : ''
+
+    // Only one operation at a time may run against a workspace's state; inline
+    // code runs in a fresh temporary directory, which needs no lock
+    const lock = lockWorkingDirectory(terraformCode ? undefined : workingDirectory, lockHolder, 'plan')
+    if (lock && !lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
+    }
+    const releaseLock = () => lock?.acquired && lock.release()
+
+    const options = { terraformCode, backendCode, workingDirectory, planFile, targetArgs }
+    const run = (execute: TerraformExecutor) => runPlan(options, env, execute).finally(releaseLock)
+    if (stream) {
+      return streamTerraformResponse(run)
+    }
+
+    return await run(executeTerraformCommand)
+  } catch (error) {
+    console.error('💥 Error running terraform plan:', {
+      error: error instanceof Error ? error.message : error,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString()
+    })
+    return NextResponse.json(
+      { error: 'Failed to run terraform plan' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Run terraform plan (initializing a temporary directory for inline code) and
+ * build the response, buffered or streamed
+ */
+async function runPlan(
+  { terraformCode, backendCode, workingDirectory, planFile, targetArgs }: {
+    terraformCode?: string
+    backendCode?: string
+    workingDirectory?: string
+    planFile?: string
+    targetArgs: string[]
+  },
+  env: NodeJS.ProcessEnv,
+  execute: TerraformExecutor
+): Promise<NextResponse> {
+  let tempDir: string | null = null
+
+  try {
+    let actualWorkingDir: string
 
     // If terraformCode is provided, create a temporary directory INSIDE sandbox
     if (terraformCode) {
@@ -107,13 +180,20 @@ export async function POST(request: NextRequest) {
       writeFileSync(mainTfPath, terraformCode, 'utf-8')
       console.log('✅ Written main.tf')
 
+      if (backendCode) {
+        writeFileSync(join(tempDir, BACKEND_FILE), backendCode, 'utf-8')
+        console.log('✅ Written backend.tf')
+      }
+
       // Run terraform init with optimization flags for faster execution
       console.log('🔧 Running terraform init...')
-      const initArgs = [
-        '-upgrade=false',      // Don't check for newer provider versions
-        '-backend=false',      // Skip backend initialization (not needed for plan)
-      ]
-      const initResult = await executeTerraformCommand('init', initArgs, tempDir, env)
+      const initArgs = backendCode
+        ? ['-upgrade=false', '-input=false']
+        : [
+          '-upgrade=false',      // Don't check for newer provider versions
+          '-backend=false',      // Skip backend initialization (no state to plan against)
+        ]
+      const initResult = await execute('init', initArgs, tempDir, env)
       
       if (!initResult.success) {
         console.error('❌ Terraform init failed:', initResult.error)
@@ -155,11 +235,16 @@ export async function POST(request: NextRequest) {
       }
       
       console.log('✅ Working directory validated and within sandbox')
+      actualWorkingDir = workingDirectory
     }
 
-    const args = planFile ? ['-out', planFile] : []
+    // Always save the plan so its structured form can be read back with `terraform show -json`
+    const savedPlanFile = planFile || 'terraform.tfplan'
+    // A speculative plan of inline code only reads the remote state, so it leaves it unlocked
+    const lockArgs = terraformCode && backendCode ? ['-lock=false'] : []
+    const args = ['-out', savedPlanFile, ...lockArgs, ...targetArgs]
     console.log('🚀 Executing terraform plan command with args:', args)
-    const result = await executeTerraformCommand('plan', args, actualWorkingDir, env)
+    const result = await execute('plan', args, actualWorkingDir, env)
     
     console.log('📊 Terraform plan result:', {
       success: result.success,
@@ -175,46 +260,66 @@ export async function POST(request: NextRequest) {
       console.warn('⚠️ Terraform plan warnings/errors:', result.error)
     }
     
-    // Verify plan file was created if planFile was specified and read its contents
+    // Verify plan file was created and read its contents if the caller asked for it
+    const planFilePath = resolve(actualWorkingDir, savedPlanFile)
+    const planFileExists = existsSync(planFilePath)
+    console.log('📁 Plan file check:', {
+      planFile: savedPlanFile,
+      planFilePath,
+      exists: planFileExists
+    })
+
+    if (!planFileExists && result.success) {
+      console.warn('⚠️ Plan command succeeded but plan file was not created:', savedPlanFile)
+      return NextResponse.json(
+        { error: 'Plan file was not created despite successful plan command' },
+        { status: 500 }
+      )
+    }
+
     let planFileData: string | undefined
-    if (planFile) {
-      const planFilePath = join(actualWorkingDir, planFile)
-      const planFileExists = existsSync(planFilePath)
-      console.log('📁 Plan file check:', {
-        planFile,
-        planFilePath,
-        exists: planFileExists
-      })
-      
-      if (!planFileExists && result.success) {
-        console.warn('⚠️ Plan command succeeded but plan file was not created:', planFile)
+    if (planFile && planFileExists) {
+      try {
+        // Read plan file and encode as base64 for transmission
+        const planFileBuffer = readFileSync(planFilePath)
+        planFileData = planFileBuffer.toString('base64')
+        console.log('✅ Plan file read and encoded:', {
+          sizeBytes: planFileBuffer.length,
+          base64Length: planFileData.length
+        })
+      } catch (readError) {
+        console.error('❌ Failed to read plan file:', readError)
         return NextResponse.json(
-          { error: 'Plan file was not created despite successful plan command' },
+          { error: 'Failed to read plan file contents' },
           { status: 500 }
         )
       }
-      
-      if (planFileExists) {
+    }
+
+    // Read the structured plan back for per-resource changes
+    let resourceChanges: PlanResourceChange[] | undefined
+    if (planFileExists) {
+      const showResult = await executeTerraformCommand(
+        'show',
+        ['-json', savedPlanFile],
+        actualWorkingDir,
+        env,
+        { maxOutputBytes: 50 * 1024 * 1024, privateOutput: true }
+      )
+      if (showResult.success) {
         try {
-          // Read plan file and encode as base64 for transmission
-          const planFileBuffer = readFileSync(planFilePath)
-          planFileData = planFileBuffer.toString('base64')
-          console.log('✅ Plan file read and encoded:', {
-            sizeBytes: planFileBuffer.length,
-            base64Length: planFileData.length
-          })
-        } catch (readError) {
-          console.error('❌ Failed to read plan file:', readError)
-          return NextResponse.json(
-            { error: 'Failed to read plan file contents' },
-            { status: 500 }
-          )
+          resourceChanges = parsePlanJson(JSON.parse(showResult.output))
+          console.log('✅ Parsed structured plan:', { resourceChanges: resourceChanges.length })
+        } catch (parseError) {
+          console.warn('⚠️ Failed to parse terraform show -json output:', parseError)
         }
+      } else {
+        console.warn('⚠️ terraform show -json failed:', showResult.error)
       }
     }
     
-    // Parse the plan output to extract statistics
-    const planStats = parseTerraformPlan(result.output)
+    // Prefer statistics from the structured plan, falling back to the text summary
+    const planStats = parseTerraformPlan(result.output, resourceChanges)
     
     return NextResponse.json({
       ...result,
@@ -225,16 +330,6 @@ export async function POST(request: NextRequest) {
         size: Buffer.from(planFileData, 'base64').length
       } : undefined
     })
-  } catch (error) {
-    console.error('💥 Error running terraform plan:', {
-      error: error instanceof Error ? error.message : error,
-      stack: error instanceof Error ? error.stack : undefined,
-      timestamp: new Date().toISOString()
-    })
-    return NextResponse.json(
-      { error: 'Failed to run terraform plan' },
-      { status: 500 }
-    )
   } finally {
     // Cleanup temporary directory
     if (tempDir && existsSync(tempDir)) {
@@ -248,157 +343,26 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function executeTerraformCommand(
-  command: string,
-  args: string[],
-  workingDirectory: string,
-  env?: NodeJS.ProcessEnv,
-  options?: {
-    timeoutMs?: number      // Default: 5 minutes
-    maxOutputBytes?: number // Default: 10MB
-  }
-): Promise<{ success: boolean; output: string; error?: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const fullCommand = `terraform ${command} ${args.join(' ')}`
-    const timeoutMs = options?.timeoutMs || 5 * 60 * 1000  // 5 minutes default
-    const maxOutputBytes = options?.maxOutputBytes || 10 * 1024 * 1024 // 10MB default
-    
-    console.log('🚀 Executing command:', {
-      command: fullCommand,
-      workingDirectory,
-      timeoutMs,
-      maxOutputBytes,
-      timestamp: new Date().toISOString()
-    })
-
-    const terraform = spawn('terraform', [command, ...args], {
-      cwd: workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: env || process.env
-    })
-
-    let output = ''
-    let error = ''
-    let outputTruncated = false
-    let errorTruncated = false
-    let timedOut = false
-    let processKilled = false
-
-    // Setup timeout
-    const timeoutId = setTimeout(() => {
-      timedOut = true
-      processKilled = true
-      terraform.kill('SIGTERM')
-      
-      // Force kill after 5 seconds if still running
-      setTimeout(() => {
-        if (!terraform.killed) {
-          terraform.kill('SIGKILL')
-        }
-      }, 5000)
-      
-      console.error('⏰ Terraform command timed out:', {
-        command: fullCommand,
-        timeoutMs,
-        outputLength: output.length,
-        errorLength: error.length
-      })
-    }, timeoutMs)
-
-    terraform.stdout?.on('data', (data) => {
-      const chunk = data.toString()
-      
-      // Check output size limit
-      if (output.length + chunk.length > maxOutputBytes) {
-        if (!outputTruncated) {
-          const remaining = maxOutputBytes - output.length
-          output += chunk.substring(0, remaining)
-          output += '\n\n[... Output truncated due to size limit ...]\n'
-          outputTruncated = true
-          console.warn('⚠️ Terraform stdout truncated at max size:', maxOutputBytes)
-        }
-      } else {
-        output += chunk
-        console.log('📤 Terraform stdout:', chunk.trim().substring(0, 200))
-      }
-    })
-
-    terraform.stderr?.on('data', (data) => {
-      const chunk = data.toString()
-      
-      // Check error size limit
-      if (error.length + chunk.length > maxOutputBytes) {
-        if (!errorTruncated) {
-          const remaining = maxOutputBytes - error.length
-          error += chunk.substring(0, remaining)
-          error += '\n\n[... Error output truncated due to size limit ...]\n'
-          errorTruncated = true
-          console.warn('⚠️ Terraform stderr truncated at max size:', maxOutputBytes)
-        }
-      } else {
-        error += chunk
-        console.log('📥 Terraform stderr:', chunk.trim().substring(0, 200))
-      }
-    })
-
-    terraform.on('close', (code) => {
-      clearTimeout(timeoutId)
-      
-      console.log('🏁 Terraform command finished:', {
-        command: fullCommand,
-        exitCode: code,
-        success: code === 0 && !timedOut,
-        outputLength: output.length,
-        errorLength: error.length,
-        outputTruncated,
-        errorTruncated,
-        timedOut,
-        processKilled
-      })
-      
-      if (timedOut) {
-        resolve({
-          success: false,
-          output,
-          error: `Command timed out after ${timeoutMs}ms. ${error}`,
-          exitCode: 124 // Standard timeout exit code
-        })
-      } else {
-        resolve({
-          success: code === 0,
-          output: outputTruncated ? output : output,
-          error: errorTruncated || error ? error || undefined : undefined,
-          exitCode: code || 1
-        })
-      }
-    })
-
-    terraform.on('error', (err) => {
-      clearTimeout(timeoutId)
-      
-      console.error('💥 Terraform spawn error:', {
-        command: fullCommand,
-        error: err.message,
-        code: (err as any).code
-      })
-      
-      resolve({
-        success: false,
-        output,
-        error: err.message,
-        exitCode: 1
-      })
-    })
-  })
-}
-
-function parseTerraformPlan(output: string): {
+function parseTerraformPlan(output: string, resourceChanges?: PlanResourceChange[]): {
   plannedChanges: number
   toAdd: number
   toChange: number
   toDestroy: number
   planOutput: string
+  resourceChanges?: PlanResourceChange[]
 } {
+  if (resourceChanges) {
+    const { toAdd, toChange, toDestroy } = summarizeResourceChanges(resourceChanges)
+    return {
+      plannedChanges: toAdd + toChange + toDestroy,
+      toAdd,
+      toChange,
+      toDestroy,
+      planOutput: output,
+      resourceChanges
+    }
+  }
+
   const lines = output.split('\n')
   let toAdd = 0
   let toChange = 0
@@ -1,6 +1,6 @@
-import { spawn } from 'child_process'
 import { NextRequest, NextResponse } from 'next/server'
 import { CredentialManager } from '@/lib/credential-manager'
+import { executeTerraformCommand } from '@/lib/terraform-runner'
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,47 +45,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-function executeTerraformCommand(
-  command: string,
-  args: string[],
-  workingDirectory: string,
-  env?: NodeJS.ProcessEnv
-): Promise<{ success: boolean; output: string; error?: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const terraform = spawn('terraform', [command, ...args], {
-      cwd: workingDirectory,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: env || process.env
-    })
-
-    let output = ''
-    let error = ''
-
-    terraform.stdout?.on('data', (data) => {
-      output += data.toString()
-    })
-
-    terraform.stderr?.on('data', (data) => {
-      error += data.toString()
-    })
-
-    terraform.on('close', (code) => {
-      resolve({
-        success: code === 0,
-        output,
-        error: error || undefined,
-        exitCode: code || 1
-      })
-    })
-
-    terraform.on('error', (err) => {
-      resolve({
-        success: false,
-        output,
-        error: err.message,
-        exitCode: 1
-      })
-    })
-  })
-}
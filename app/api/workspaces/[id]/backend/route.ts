@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs'
+import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import { CredentialManager } from '@/lib/credential-manager'
+import {
+  BACKEND_FILE,
+  describeBackend,
+  generateBackendCode,
+  getStateKey,
+  getStateServerUrl,
+  isSameBackend,
+  validateBackendConfig,
+} from '@/lib/terraform-backend'
+import { executeTerraformCommand } from '@/lib/terraform-runner'
+import { acquireWorkspaceLock, workspaceLockedResponse } from '@/lib/workspace-lock'
+import { workspaces } from '@/lib/workspace-registry'
+import type { BackendConfig } from '@/types/deployment'
+
+/**
+ * Move a workspace's state to another backend. The new `backend.tf` is
+ * written and `terraform init -migrate-state` copies the current state over;
+ * if that fails the previous backend configuration is restored. The state in
+ * the old backend is left in place.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { backend, credentials, lockHolder } = body as {
+      backend: BackendConfig
+      credentials?: any
+      lockHolder?: string
+    }
+
+    const backendErrors = validateBackendConfig(backend)
+    if (backendErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid state backend: ${backendErrors.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isSameBackend(workspace.backend, backend)) {
+      return NextResponse.json({ success: true, migrated: false, workspace })
+    }
+
+    // Set AWS credentials as environment variables if provided
+    const env = { ...process.env }
+    if (credentials?.aws) {
+      const validationErrors = CredentialManager.validateAWSCredentials(credentials.aws)
+      if (validationErrors.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid AWS credentials: ${validationErrors.join(', ')}` },
+          { status: 400 }
+        )
+      }
+
+      env.AWS_ACCESS_KEY_ID = credentials.aws.accessKeyId
+      env.AWS_SECRET_ACCESS_KEY = credentials.aws.secretAccessKey
+      env.AWS_DEFAULT_REGION = credentials.aws.region
+    } else {
+      console.warn('⚠️ No AWS credentials provided for state migration')
+    }
+
+    const lock = acquireWorkspaceLock(workspace, lockHolder, 'migrate-state')
+    if (!lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
+    }
+
+    const backendPath = path.join(workspace.workingDirectory, BACKEND_FILE)
+    const previousBackendTf = await fs.readFile(backendPath, 'utf8').catch(() => null)
+
+    try {
+      console.log('🚚 Migrating workspace state:', {
+        workspaceId: workspace.id,
+        from: describeBackend(workspace.backend),
+        to: describeBackend(backend)
+      })
+
+      const backendTf = generateBackendCode(backend, getStateKey(workspace), getStateServerUrl(request.nextUrl.origin))
+      if (backendTf) {
+        await fs.writeFile(backendPath, backendTf, 'utf8')
+      } else {
+        await fs.rm(backendPath, { force: true })
+      }
+
+      // -force-copy answers terraform's "copy existing state?" prompt with yes
+      const result = await executeTerraformCommand(
+        'init',
+        ['-migrate-state', '-force-copy', '-input=false'],
+        workspace.workingDirectory,
+        env
+      )
+
+      if (!result.success) {
+        console.error('❌ State migration failed, restoring previous backend:', result.error)
+        if (previousBackendTf !== null) {
+          await fs.writeFile(backendPath, previousBackendTf, 'utf8')
+        } else {
+          await fs.rm(backendPath, { force: true })
+        }
+        return NextResponse.json({
+          success: false,
+          error: result.error || 'terraform init -migrate-state failed',
+          output: result.output,
+          exitCode: result.exitCode
+        })
+      }
+
+      // Re-read the workspace so changes made while terraform ran are kept
+      const updated = workspaces.get(workspace.id) || workspace
+      updated.backend = backend.type === 'local' ? undefined : backend
+      workspaces.set(updated.id, updated)
+
+      console.log('✅ Workspace state migrated:', { workspaceId: workspace.id, backend: describeBackend(backend) })
+      return NextResponse.json({ success: true, migrated: true, output: result.output, workspace: updated })
+    } finally {
+      lock.release()
+    }
+  } catch (error) {
+    console.error('💥 Error migrating workspace state:', error)
+    return NextResponse.json(
+      { error: 'Failed to migrate workspace state' },
+      { status: 500 }
+    )
+  }
+}
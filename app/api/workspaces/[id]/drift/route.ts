@@ -0,0 +1,209 @@
+import { rmSync } from 'fs'
+import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import { CredentialManager } from '@/lib/credential-manager'
+import { parseDriftJson } from '@/lib/terraform-plan'
+import { executeTerraformCommand, getTargetArgs } from '@/lib/terraform-runner'
+import { acquireWorkspaceLock, workspaceLockedResponse } from '@/lib/workspace-lock'
+import { workspaces } from '@/lib/workspace-registry'
+import type { DriftReport, TerraformWorkspace } from '@/types/deployment'
+
+const DRIFT_PLAN_FILE = 'drift.tfplan'
+
+// Lock operation recorded for each action
+const DRIFT_OPERATIONS: Record<string, string> = {
+  check: 'drift-check',
+  accept: 'accept-drift',
+  reapply: 'reapply',
+}
+
+/**
+ * Get the latest drift report of a workspace
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ drift: workspace.drift || null })
+  } catch (error) {
+    console.error('Error getting workspace drift:', error)
+    return NextResponse.json(
+      { error: 'Failed to get workspace drift' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Check a deployed workspace for drift, or resolve it:
+ * - `check` runs `terraform plan -refresh-only` and records what changed outside Cloudist
+ * - `accept` runs `terraform apply -refresh-only` so the state takes the deployed values,
+ *   optionally only for the resource addresses in `targets`
+ * - `reapply` runs `terraform apply` to put the infrastructure back to its configuration
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { action = 'check', targets = [], credentials, lockHolder } = body
+
+    // Only the actions themselves, not what every object inherits like `toString`
+    if (typeof action !== 'string' || !Object.prototype.hasOwnProperty.call(DRIFT_OPERATIONS, action)) {
+      return NextResponse.json(
+        { error: `Unknown drift action: ${action}` },
+        { status: 400 }
+      )
+    }
+
+    const targetArgs = getTargetArgs(targets)
+    if (!targetArgs) {
+      return NextResponse.json(
+        { error: 'Targets must be a list of resource addresses' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    if (workspace.status !== 'active') {
+      return NextResponse.json(
+        { error: `Drift can only be checked for active workspaces (workspace is ${workspace.status})` },
+        { status: 400 }
+      )
+    }
+
+    // Set AWS credentials as environment variables if provided
+    const env = { ...process.env }
+    if (credentials?.aws) {
+      const validationErrors = CredentialManager.validateAWSCredentials(credentials.aws)
+      if (validationErrors.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid AWS credentials: ${validationErrors.join(', ')}` },
+          { status: 400 }
+        )
+      }
+
+      env.AWS_ACCESS_KEY_ID = credentials.aws.accessKeyId
+      env.AWS_SECRET_ACCESS_KEY = credentials.aws.secretAccessKey
+      env.AWS_DEFAULT_REGION = credentials.aws.region
+    } else {
+      console.warn('⚠️ No AWS credentials provided for drift', action)
+    }
+
+    const lock = acquireWorkspaceLock(workspace, lockHolder, DRIFT_OPERATIONS[action])
+    if (!lock.acquired) {
+      return workspaceLockedResponse(lock.lock)
+    }
+
+    try {
+      console.log('🔍 Workspace drift action:', { workspaceId: workspace.id, action })
+
+      if (action === 'check') {
+        const drift = await checkDrift(workspace, env)
+        return NextResponse.json({ success: drift.status !== 'error', drift, workspace: saveDrift(workspace.id, drift) })
+      }
+
+      // Accepting keeps the deployed values; re-applying restores the configured ones
+      const args = action === 'accept'
+        ? ['-refresh-only', '-auto-approve', '-input=false', ...targetArgs]
+        : ['-auto-approve', '-input=false']
+      const result = await executeTerraformCommand('apply', args, workspace.workingDirectory, env)
+
+      if (!result.success) {
+        console.error(`❌ Drift ${action} failed:`, result.error)
+        return NextResponse.json({
+          success: false,
+          error: result.error || `terraform apply ${args.join(' ')} failed`,
+          output: result.output,
+          exitCode: result.exitCode
+        })
+      }
+
+      // A targeted accept leaves the drift of other resources in place
+      const remaining = action === 'accept' && targets.length > 0
+        ? (workspace.drift?.resources || []).filter(resource => !targets.includes(resource.address))
+        : []
+      const drift: DriftReport = {
+        checkedAt: new Date().toISOString(),
+        status: remaining.length > 0 ? 'drifted' : 'in-sync',
+        resources: remaining
+      }
+      return NextResponse.json({
+        success: true,
+        drift,
+        output: result.output,
+        workspace: saveDrift(workspace.id, drift, action === 'reapply')
+      })
+    } finally {
+      lock.release()
+    }
+  } catch (error) {
+    console.error('💥 Error handling workspace drift:', error)
+    return NextResponse.json(
+      { error: 'Failed to handle workspace drift' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Run a refresh-only plan and collect the resources that changed outside Terraform
+ */
+async function checkDrift(workspace: TerraformWorkspace, env: NodeJS.ProcessEnv): Promise<DriftReport> {
+  const checkedAt = new Date().toISOString()
+  const planPath = path.join(workspace.workingDirectory, DRIFT_PLAN_FILE)
+
+  try {
+    const plan = await executeTerraformCommand(
+      'plan',
+      ['-refresh-only', '-input=false', '-out', DRIFT_PLAN_FILE],
+      workspace.workingDirectory,
+      env
+    )
+    if (!plan.success) {
+      return { checkedAt, status: 'error', resources: [], error: plan.error || 'terraform plan -refresh-only failed' }
+    }
+
+    const show = await executeTerraformCommand('show', ['-json', DRIFT_PLAN_FILE], workspace.workingDirectory, env, { privateOutput: true })
+    if (!show.success) {
+      return { checkedAt, status: 'error', resources: [], error: show.error || 'terraform show failed' }
+    }
+
+    const resources = parseDriftJson(JSON.parse(show.output))
+    console.log('📊 Drift check result:', { workspaceId: workspace.id, driftedResources: resources.length })
+    return { checkedAt, status: resources.length > 0 ? 'drifted' : 'in-sync', resources }
+  } finally {
+    rmSync(planPath, { force: true })
+  }
+}
+
+/**
+ * Record a drift report on the latest copy of the workspace
+ */
+function saveDrift(workspaceId: string, drift: DriftReport, deployed: boolean = false): TerraformWorkspace | undefined {
+  const workspace = workspaces.get(workspaceId)
+  if (!workspace) return undefined
+
+  workspace.drift = drift
+  if (deployed) {
+    workspace.lastDeployed = drift.checkedAt
+  }
+  workspaces.set(workspaceId, workspace)
+  return workspace
+}
@@ -1,7 +1,7 @@
 import { promises as fs } from 'fs'
 import { NextRequest, NextResponse } from 'next/server'
 import path from 'path'
-import { workspaces } from '../../route'
+import { workspaces } from '@/lib/workspace-registry'
 
 /**
  * Get workspace files
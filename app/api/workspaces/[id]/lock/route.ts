@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { acquireWorkspaceLock, getWorkspaceLock, releaseWorkspaceLock, workspaceLockedResponse } from '@/lib/workspace-lock'
+import { workspaces } from '@/lib/workspace-registry'
+
+/**
+ * Get the lock currently held on a workspace
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!workspaces.get(params.id)) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ lock: getWorkspaceLock(params.id) })
+  } catch (error) {
+    console.error('Error getting workspace lock:', error)
+    return NextResponse.json(
+      { error: 'Failed to get workspace lock' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Lock a workspace for a multi-step operation such as a full deployment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { holder, operation } = body
+
+    if (!holder || !operation) {
+      return NextResponse.json(
+        { error: 'Lock holder and operation are required' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = acquireWorkspaceLock(workspace, holder, operation)
+    if (!result.acquired) {
+      return workspaceLockedResponse(result.lock)
+    }
+    return NextResponse.json({ lock: result.lock })
+  } catch (error) {
+    console.error('Error locking workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to lock workspace' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Release a workspace lock. `?holder=` releases your own lock; `?force=true`
+ * releases whoever holds it, for locks left behind by a closed tab or a crash.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const holder = request.nextUrl.searchParams.get('holder') || undefined
+    const force = request.nextUrl.searchParams.get('force') === 'true'
+
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const lock = getWorkspaceLock(params.id)
+    if (lock && !force && lock.holder !== holder) {
+      return workspaceLockedResponse(lock)
+    }
+
+    return NextResponse.json({ released: releaseWorkspaceLock(workspace, holder, force) })
+  } catch (error) {
+    console.error('Error unlocking workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs'
 import { NextRequest, NextResponse } from 'next/server'
-import { workspaces } from '../route'
+import { workspaces } from '@/lib/workspace-registry'
 
 /**
  * Get a specific workspace
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs'
+import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import { isRemoteBackend } from '@/lib/terraform-backend'
+import { executeTerraformCommand } from '@/lib/terraform-runner'
+import { workspaces } from '@/lib/workspace-registry'
+
+/**
+ * Get the Terraform state of a workspace, from its state file or, with a
+ * remote backend, through `terraform state pull`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const workspace = workspaces.get(params.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isRemoteBackend(workspace.backend)) {
+      const result = await executeTerraformCommand('state', ['pull'], workspace.workingDirectory)
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || 'Failed to pull workspace state from its backend' },
+          { status: 502 }
+        )
+      }
+      // An empty remote state pulls as no output
+      if (!result.output.trim()) {
+        return NextResponse.json(
+          { error: 'Workspace has no state' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json({ state: JSON.parse(result.output) })
+    }
+
+    const statePath = path.join(workspace.workingDirectory, 'terraform.tfstate')
+    let content: string
+    try {
+      content = await fs.readFile(statePath, 'utf8')
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Workspace has no state file' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ state: JSON.parse(content) })
+  } catch (error) {
+    console.error('Error getting workspace state:', error)
+    return NextResponse.json(
+      { error: 'Failed to get workspace state' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,10 @@
 import { TerraformGenerator } from '@/components/utils/terraform-generator'
+import { describeConfigErrors, validateNodeConfigs } from '@/lib/config-validator'
+import { applyEnvironment, isValidEnvironmentName } from '@/lib/environments'
+import { loadServiceConfig } from '@/lib/service-config-store'
+import { BACKEND_FILE, generateBackendCode, getStateKey, getStateServerUrl, isRemoteBackend, validateBackendConfig } from '@/lib/terraform-backend'
+import { WORKSPACES_DIRECTORY, workspaces } from '@/lib/workspace-registry'
+import type { BackendConfig } from '@/types/deployment'
 import type { Edge, Node } from '@xyflow/react'
 import { promises as fs } from 'fs'
 import { NextRequest, NextResponse } from 'next/server'
@@ -12,6 +18,9 @@ export interface TerraformWorkspace {
   createdAt: string
   status: 'active' | 'destroyed' | 'failed'
   lastDeployed?: string
+  projectId?: string
+  environment?: string
+  backend?: BackendConfig
 }
 
 export interface GeneratedFiles {
@@ -22,17 +31,13 @@ export interface GeneratedFiles {
   additionalFiles: Record<string, string>
 }
 
-// In-memory storage for workspaces (in production, use a database)
-const workspaces: Map<string, TerraformWorkspace> = new Map()
-const baseDirectory = path.join(process.cwd(), 'terraform-workspaces')
-
 /**
  * Create a new Terraform workspace
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { name, provider, nodes, edges } = body
+    const { name, provider, nodes, edges, projectId, environment, backend } = body
 
     if (!name || !provider || !nodes || !edges) {
       return NextResponse.json(
@@ -41,8 +46,40 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (environment !== undefined && (typeof environment !== 'string' || !isValidEnvironmentName(environment))) {
+      return NextResponse.json(
+        { error: `Invalid environment name: ${environment}` },
+        { status: 400 }
+      )
+    }
+
+    const backendErrors = backend ? validateBackendConfig(backend) : []
+    if (backendErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid state backend: ${backendErrors.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const configErrors = await validateNodeConfigs(applyEnvironment(nodes, environment), loadServiceConfig)
+    if (configErrors.length > 0) {
+      return NextResponse.json(
+        { error: describeConfigErrors(configErrors), configErrors },
+        { status: 400 }
+      )
+    }
+
+    // Redeploys go through PUT, so the environment's existing state is kept
+    const existing = projectId ? workspaces.findByProject(projectId, environment) : undefined
+    if (existing) {
+      return NextResponse.json(
+        { error: `Environment ${environment || 'default'} of this project already has workspace ${existing.id}. Update its files instead.`, workspace: existing },
+        { status: 409 }
+      )
+    }
+
     const workspaceId = `workspace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const workingDirectory = path.join(baseDirectory, workspaceId)
+    const workingDirectory = path.join(WORKSPACES_DIRECTORY, workspaceId)
 
     // Create workspace directory
     await fs.mkdir(workingDirectory, { recursive: true })
@@ -53,13 +90,16 @@ export async function POST(request: NextRequest) {
       provider,
       workingDirectory,
       createdAt: new Date().toISOString(),
-      status: 'active'
+      status: 'active',
+      projectId,
+      environment,
+      backend: isRemoteBackend(backend) ? backend : undefined
     }
 
     workspaces.set(workspaceId, workspace)
 
     // Generate Terraform files
-    await generateTerraformFiles(workspace, nodes, edges)
+    await generateTerraformFiles(workspace, nodes, edges, getStateServerUrl(request.nextUrl.origin))
 
     return NextResponse.json({ workspace })
   } catch (error) {
@@ -71,12 +111,58 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Regenerate the Terraform files of an existing workspace from the current canvas,
+ * e.g. before a targeted apply of nodes that changed since the last deployment
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { workspaceId, nodes, edges } = body
+
+    if (!workspaceId || !nodes || !edges) {
+      return NextResponse.json(
+        { error: 'Missing required fields: workspaceId, nodes, edges' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = workspaces.get(workspaceId)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const configErrors = await validateNodeConfigs(applyEnvironment(nodes, workspace.environment), loadServiceConfig)
+    if (configErrors.length > 0) {
+      return NextResponse.json(
+        { error: describeConfigErrors(configErrors), configErrors },
+        { status: 400 }
+      )
+    }
+
+    // The directory of a workspace that failed before its first apply may be gone
+    await fs.mkdir(workspace.workingDirectory, { recursive: true })
+    await generateTerraformFiles(workspace, nodes, edges, getStateServerUrl(request.nextUrl.origin))
+
+    return NextResponse.json({ workspace })
+  } catch (error) {
+    console.error('Error updating workspace files:', error)
+    return NextResponse.json(
+      { error: 'Failed to update workspace files' },
+      { status: 500 }
+    )
+  }
+}
+
 /**
  * Get all workspaces
  */
 export async function GET() {
   try {
-    const allWorkspaces = Array.from(workspaces.values()).sort((a, b) => 
+    const allWorkspaces = workspaces.values().sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     )
     return NextResponse.json({ workspaces: allWorkspaces })
@@ -95,30 +181,46 @@ export async function GET() {
 async function generateTerraformFiles(
   workspace: TerraformWorkspace,
   nodes: Node[],
-  edges: Edge[]
+  edges: Edge[],
+  stateServerUrl: string
 ): Promise<GeneratedFiles> {
-  const generator = new TerraformGenerator(workspace.provider, nodes, edges)
+  // Each environment's workspace is generated from the configs with its overrides applied
+  const generator = new TerraformGenerator(workspace.provider, applyEnvironment(nodes, workspace.environment), edges)
   const output = await generator.generate()
+  output.warnings.forEach((warning) => console.warn('⚠️ Terraform generation:', warning))
 
   // Generate main.tf with only resources (no variables, outputs, or provider config)
-  const mainTf = generateMainTfOnly(output.resources)
+  const mainTf = '# Resources\n\n' + generator.generateResourcesCode(output.resources)
   await fs.writeFile(path.join(workspace.workingDirectory, 'main.tf'), mainTf, 'utf8')
 
   // Generate variables.tf
-  const variablesTf = generateVariablesFile(output.variables)
+  const variablesTf = '# Variables\n\n' + generator.generateVariablesCode(output.variables)
   await fs.writeFile(path.join(workspace.workingDirectory, 'variables.tf'), variablesTf, 'utf8')
 
   // Generate outputs.tf
-  const outputsTf = generateOutputsFile(output.outputs)
+  const outputsTf = '# Outputs\n\n' + generator.generateOutputsCode(output.outputs)
   await fs.writeFile(path.join(workspace.workingDirectory, 'outputs.tf'), outputsTf, 'utf8')
 
   // Generate terraform.tf (provider configuration)
-  const terraformTf = generateTerraformConfigFile(workspace.provider)
+  const terraformTf = generateTerraformConfigFile(workspace.provider, nodes)
   await fs.writeFile(path.join(workspace.workingDirectory, 'terraform.tf'), terraformTf, 'utf8')
 
+  // Generate terraform.tfvars with the environment's variable values
+  if (workspace.environment) {
+    const tfvars = generator.generateTfvarsCode({ environment: workspace.environment })
+    await fs.writeFile(path.join(workspace.workingDirectory, 'terraform.tfvars'), tfvars, 'utf8')
+  }
+
   // Generate additional provider-specific files
   const additionalFiles = await generateAdditionalFiles(workspace, nodes)
 
+  // Generate backend.tf when the state is kept in a remote backend
+  const backendTf = generateBackendCode(workspace.backend, getStateKey(workspace), stateServerUrl)
+  if (backendTf) {
+    await fs.writeFile(path.join(workspace.workingDirectory, BACKEND_FILE), backendTf, 'utf8')
+    additionalFiles[BACKEND_FILE] = backendTf
+  }
+
   const generatedFiles: GeneratedFiles = {
     mainTf,
     variablesTf,
@@ -137,178 +239,10 @@ async function generateTerraformFiles(
   return generatedFiles
 }
 
-/**
- * Generate main.tf file with only resources
- */
-function generateMainTfOnly(resources: any[]): string {
-  let content = '# Resources\n\n'
-  
-  resources.forEach((resource) => {
-    content += `resource "${resource.type}" "${resource.name}" {\n`
-    
-    // Special handling for DynamoDB tables - add attribute blocks for keys
-    if (resource.type === 'aws_dynamodb_table') {
-      const hashKey = resource.config.hash_key
-      const rangeKey = resource.config.range_key
-      
-      if (hashKey) {
-        content += `  attribute {\n`
-        content += `    name = "${hashKey}"\n`
-        content += `    type = "S"\n`
-        content += `  }\n`
-      }
-      
-      if (rangeKey) {
-        content += `  attribute {\n`
-        content += `    name = "${rangeKey}"\n`
-        content += `    type = "S"\n`
-        content += `  }\n`
-      }
-    }
-    
-    // Format resource configuration
-    Object.entries(resource.config).forEach(([key, value]) => {
-      if (value === null || value === undefined) {
-        return
-      }
-      
-      if (typeof value === 'string') {
-        if (value.startsWith('var.') || value.startsWith('aws_') || value.startsWith('google_') || value.startsWith('azurerm_')) {
-          content += `  ${key} = ${value}\n`
-        } else {
-          content += `  ${key} = "${value}"\n`
-        }
-      } else if (typeof value === 'number' || typeof value === 'boolean') {
-        content += `  ${key} = ${value}\n`
-      } else if (Array.isArray(value)) {
-        content += `  ${key} = [${value.map(v => {
-          if (typeof v === 'string') {
-            // Check if it's a Terraform reference (like aws_security_group.default.id)
-            if (v.startsWith('var.') || v.startsWith('aws_') || v.startsWith('google_') || v.startsWith('azurerm_')) {
-              return v
-            } else {
-              return `"${v}"`
-            }
-          }
-          return v
-        }).join(', ')}]\n`
-      } else if (typeof value === 'object') {
-        // Special handling for different types of objects
-        if (key === 'tags') {
-          // Tags should always be arguments
-          content += `  ${key} = {\n`
-        } else if (key === 'versioning' || key === 'lifecycle' || key === 'provisioner') {
-          // These should be blocks
-          content += `  ${key} {\n`
-        } else {
-          content += `  ${key} {\n`
-        }
-        content += formatResourceConfig(value, 2, key)
-        content += `  }\n`
-      }
-    })
-    
-    if (resource.dependencies && resource.dependencies.length > 0) {
-      content += `  depends_on = [${resource.dependencies.map((dep: string) => dep).join(', ')}]\n`
-    }
-    
-    content += '}\n\n'
-  })
-  
-  return content
-}
-
-/**
- * Helper function to format nested resource configurations
- */
-function formatResourceConfig(config: Record<string, any>, indent: number, parentKey?: string): string {
-  let result = ''
-  const spaces = '  '.repeat(indent)
-  
-  Object.entries(config).forEach(([key, value]) => {
-    if (value === null || value === undefined) {
-      return
-    }
-    
-    if (typeof value === 'string') {
-      if (value.startsWith('var.') || value.startsWith('aws_') || value.startsWith('google_') || value.startsWith('azurerm_')) {
-        result += `${spaces}${key} = ${value}\n`
-      } else {
-        result += `${spaces}${key} = "${value}"\n`
-      }
-    } else if (typeof value === 'number' || typeof value === 'boolean') {
-      result += `${spaces}${key} = ${value}\n`
-    } else if (Array.isArray(value)) {
-      result += `${spaces}${key} = [${value.map(v => typeof v === 'string' ? `"${v}"` : v).join(', ')}]\n`
-    } else if (typeof value === 'object') {
-      // Special handling for different types of objects
-      if (key === 'tags' || parentKey === 'tags') {
-        // Tags should always be arguments
-        result += `${spaces}${key} = {\n`
-      } else if (key === 'versioning' || key === 'lifecycle' || key === 'provisioner') {
-        // These should be blocks
-        result += `${spaces}${key} {\n`
-      } else {
-        result += `${spaces}${key} {\n`
-      }
-      result += formatResourceConfig(value, indent + 1, key)
-      result += `${spaces}}\n`
-    }
-  })
-  
-  return result
-}
-
-/**
- * Generate variables.tf file
- */
-function generateVariablesFile(variables: Record<string, any>): string {
-  let content = '# Variables\n\n'
-
-  Object.entries(variables).forEach(([name, config]) => {
-    content += `variable "${name}" {\n`
-    Object.entries(config as Record<string, any>).forEach(([key, value]) => {
-      if (key === 'type' && value === 'string') {
-        content += `  ${key} = ${value}\n`
-      } else if (typeof value === 'string') {
-        content += `  ${key} = "${value}"\n`
-      } else if (typeof value === 'boolean') {
-        content += `  ${key} = ${value}\n`
-      } else {
-        content += `  ${key} = ${JSON.stringify(value)}\n`
-      }
-    })
-    content += '}\n\n'
-  })
-
-  return content
-}
-
-/**
- * Generate outputs.tf file
- */
-function generateOutputsFile(outputs: Record<string, any>): string {
-  let content = '# Outputs\n\n'
-
-  Object.entries(outputs).forEach(([name, config]) => {
-    content += `output "${name}" {\n`
-    Object.entries(config as Record<string, any>).forEach(([key, value]) => {
-      if (typeof value === 'string') {
-        content += `  ${key} = "${value}"\n`
-      } else {
-        content += `  ${key} = ${value}\n`
-      }
-    })
-    content += '}\n\n'
-  })
-
-  return content
-}
-
 /**
  * Generate terraform.tf file with provider configuration
  */
-function generateTerraformConfigFile(provider: string): string {
+function generateTerraformConfigFile(provider: string, nodes: Node[]): string {
   switch (provider) {
     case 'aws':
       return `terraform {
@@ -357,12 +291,9 @@ provider "google" {
 provider "azurerm" {
   features {}
 }
-
-resource "azurerm_resource_group" "main" {
-  name     = "rg-\${var.environment}"
-  location = var.region
-}
-`
+${nodes.some(node => node.data.id === 'key_vault') ? `
+data "azurerm_client_config" "current" {}
+` : ''}`
 
     default:
       return ''
@@ -379,30 +310,6 @@ async function generateAdditionalFiles(
   const additionalFiles: Record<string, string> = {}
 
   switch (workspace.provider) {
-    case 'aws':
-      // Generate security groups
-      const securityGroups = generateAWSSecurityGroups(nodes)
-      if (securityGroups) {
-        additionalFiles['security-groups.tf'] = securityGroups
-        await fs.writeFile(
-          path.join(workspace.workingDirectory, 'security-groups.tf'),
-          securityGroups,
-          'utf8'
-        )
-      }
-
-      // Generate VPC configuration
-      const vpcConfig = generateAWSVPCConfig(nodes)
-      if (vpcConfig) {
-        additionalFiles['vpc.tf'] = vpcConfig
-        await fs.writeFile(
-          path.join(workspace.workingDirectory, 'vpc.tf'),
-          vpcConfig,
-          'utf8'
-        )
-      }
-      break
-
     case 'gcp':
       // Generate GCP-specific configurations
       const gcpConfig = generateGCPConfig(nodes)
@@ -433,118 +340,13 @@ async function generateAdditionalFiles(
   return additionalFiles
 }
 
-/**
- * Generate AWS security groups
- */
-function generateAWSSecurityGroups(nodes: Node[]): string {
-  const hasSecurityGroup = nodes.some(node => node.data.id === 'security_group')
-  const hasVPC = nodes.some(node => node.data.id === 'vpc')
-
-  // Only generate security groups when there's an explicit security group or VPC node
-  if (!hasSecurityGroup && !hasVPC) return ''
-
-  return `# Security Groups
-resource "aws_security_group" "default" {
-  name_prefix = "default-sg-"
-  vpc_id      = aws_vpc.main.id
-
-  ingress {
-    from_port   = 22
-    to_port     = 22
-    protocol    = "tcp"
-    cidr_blocks = ["0.0.0.0/0"]
-  }
-
-  ingress {
-    from_port   = 80
-    to_port     = 80
-    protocol    = "tcp"
-    cidr_blocks = ["0.0.0.0/0"]
-  }
-
-  ingress {
-    from_port   = 443
-    to_port     = 443
-    protocol    = "tcp"
-    cidr_blocks = ["0.0.0.0/0"]
-  }
-
-  egress {
-    from_port   = 0
-    to_port     = 0
-    protocol    = "-1"
-    cidr_blocks = ["0.0.0.0/0"]
-  }
-
-  tags = {
-    Name = "default-security-group"
-  }
-}
-`
-}
-
-/**
- * Generate AWS VPC configuration
- */
-function generateAWSVPCConfig(nodes: Node[]): string {
-  const hasVPC = nodes.some(node => node.data.id === 'vpc')
-  // Only generate VPC config when there's an explicit VPC node in the diagram
-  if (!hasVPC) return ''
-
-  return `# VPC Configuration
-resource "aws_vpc" "main" {
-  cidr_block           = "10.0.0.0/16"
-  enable_dns_hostnames = true
-  enable_dns_support   = true
-
-  tags = {
-    Name = "main-vpc"
-  }
-}
-
-resource "aws_internet_gateway" "main" {
-  vpc_id = aws_vpc.main.id
-
-  tags = {
-    Name = "main-igw"
-  }
-}
-
-resource "aws_subnet" "main" {
-  vpc_id                  = aws_vpc.main.id
-  cidr_block              = "10.0.1.0/24"
-  availability_zone       = "\${var.region}a"
-  map_public_ip_on_launch = true
-
-  tags = {
-    Name = "main-subnet"
-  }
-}
-
-resource "aws_route_table" "main" {
-  vpc_id = aws_vpc.main.id
-
-  route {
-    cidr_block = "0.0.0.0/0"
-    gateway_id = aws_internet_gateway.main.id
-  }
-
-  tags = {
-    Name = "main-route-table"
-  }
-}
-
-resource "aws_route_table_association" "main" {
-  subnet_id      = aws_subnet.main.id
-  route_table_id = aws_route_table.main.id
-}
-`
-}
-
 /**
  * Generate GCP configuration
  */
 function generateGCPConfig(nodes: Node[]): string {
+  // Diagrams with their own network get it, and its firewall rules, from the generator
+  if (nodes.some(node => node.data.id === 'network')) return ''
+
   return `# GCP Configuration
 resource "google_compute_network" "main" {
   name                    = "main-network"
@@ -576,6 +378,9 @@ resource "google_compute_firewall" "default" {
  * Generate Azure configuration
  */
 function generateAzureConfig(nodes: Node[]): string {
+  // Diagrams with their own virtual network get it from the generator
+  if (nodes.some(node => node.data.id === 'vnet')) return ''
+
   return `# Azure Configuration
 resource "azurerm_virtual_network" "main" {
   name                = "main-vnet"
@@ -622,6 +427,3 @@ resource "azurerm_network_security_group" "main" {
 }
 `
 }
-
-// Export the workspaces map for use by other API routes
-export { workspaces }
@@ -15,13 +15,34 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { PlanResourceDiff, planChangeStyles } from "@/components/features/plan-resource-diff"
+import { getChangeKind, getNodeChangeKind } from "@/lib/terraform-plan"
+import { useNodeStatus } from "./node-status-context"
 
 interface CloudServiceNodeProps extends NodeProps<CloudServiceNodeType> {
   onDoubleClick?: (nodeData: CloudServiceNodeData) => void
 }
 
-export const CloudServiceNode = memo(({ data, selected, onDoubleClick }: CloudServiceNodeProps) => {
+// Ring colours for nodes with planned changes
+const planRingColors: Record<string, string> = {
+  create: "ring-green-500",
+  update: "ring-yellow-500",
+  replace: "ring-orange-500",
+  delete: "ring-red-500",
+}
+
+// Badge colours for nodes with planned changes
+const planBadgeColors: Record<string, string> = {
+  create: "bg-green-600",
+  update: "bg-yellow-500",
+  replace: "bg-orange-500",
+  delete: "bg-red-600",
+}
+
+export const CloudServiceNode = memo(({ id, data, selected, onDoubleClick }: CloudServiceNodeProps) => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const { planChanges, driftChanges, onAcceptDrift, onReapplyDrift, environment, problems, onFixProblem } = useNodeStatus()
 
   // Early return if data is not properly structured
   if (!data) {
@@ -91,8 +112,122 @@ export const CloudServiceNode = memo(({ data, selected, onDoubleClick }: CloudSe
     }
   }
 
+  const environmentOverrides = environment ? Object.keys(nodeData.environmentOverrides?.[environment] || {}) : []
+  const nodePlanChanges = planChanges[id] || []
+  const nodeDriftChanges = driftChanges[id] || []
+  const nodeProblems = problems[id] || []
+  const planKind = getNodeChangeKind(nodePlanChanges)
+  const planRing = !selected && planRingColors[planKind]
+    ? `ring-2 ${planRingColors[planKind]} ring-offset-2 ring-offset-background rounded-md`
+    : ""
+
   return (
-    <div className={`relative ${selected ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""}`}>
+    <div className={`relative ${selected ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : planRing}`}>
+      {/* Planned change badge - click to see the attribute diff */}
+      {planKind !== "no-op" && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              className={`absolute -top-3 -left-3 z-10 px-1.5 h-5 rounded-full text-[10px] font-semibold text-white shadow ${planBadgeColors[planKind]}`}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              title={`Planned: ${planChangeStyles[planKind].label}`}
+            >
+              {planChangeStyles[planKind].symbol} {planChangeStyles[planKind].label}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[480px] max-h-96 overflow-y-auto space-y-3" align="start">
+            {nodePlanChanges
+              .filter((change) => !change.actions.every((action) => action === "no-op"))
+              .map((change) => (
+                <PlanResourceDiff key={change.address} change={change} className="text-xs" />
+              ))}
+          </PopoverContent>
+        </Popover>
+      )}
+      {/* Drift badge - click to see what changed outside Cloudist and resolve it */}
+      {nodeDriftChanges.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              className="absolute -bottom-3 -left-3 z-10 px-1.5 h-5 rounded-full text-[10px] font-semibold text-white shadow bg-amber-600"
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              title="Changed outside Cloudist"
+            >
+              ⚠ drifted
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[480px] max-h-96 overflow-y-auto space-y-3" align="start">
+            <p className="text-xs text-muted-foreground">
+              The deployed resources no longer match the last apply. Accept the drift to keep the deployed
+              values in this node, or re-apply to restore the configuration.
+            </p>
+            {nodeDriftChanges.map((change) => (
+              <PlanResourceDiff
+                key={change.address}
+                change={change}
+                description={getChangeKind(change.actions) === "delete" ? "was deleted outside Cloudist" : "changed outside Cloudist"}
+                className="text-xs"
+              />
+            ))}
+            {(onAcceptDrift || onReapplyDrift) && (
+              <div className="flex justify-end gap-2 pt-1">
+                {onAcceptDrift && (
+                  <Button size="sm" variant="outline" onClick={() => onAcceptDrift(id)}>
+                    Accept drift
+                  </Button>
+                )}
+                {onReapplyDrift && (
+                  <Button size="sm" onClick={() => onReapplyDrift()}>
+                    Re-apply
+                  </Button>
+                )}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+      {/* Architecture problems - click to see them and their quick fixes */}
+      {nodeProblems.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              className="absolute -top-3 left-1/2 -translate-x-1/2 z-10 px-1.5 h-5 rounded-full text-[10px] font-semibold text-white shadow bg-amber-500"
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              title={nodeProblems.map((problem) => problem.message).join("\n")}
+            >
+              ⚠ {nodeProblems.length}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 space-y-3" align="center">
+            {nodeProblems.map((problem) => (
+              <div key={problem.id} className="space-y-1">
+                <p className="text-xs">{problem.message}</p>
+                {onFixProblem && problem.fixes.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {problem.fixes.map((fix) => (
+                      <Button key={fix.label} size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onFixProblem(fix)}>
+                        {fix.label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+      {/* Settings overridden in the environment shown on the canvas */}
+      {environmentOverrides.length > 0 && (
+        <div
+          className="absolute -bottom-3 -right-3 z-10 px-1.5 h-5 leading-5 rounded-full text-[10px] font-semibold text-white shadow bg-blue-600"
+          title={`Overridden in ${environment}: ${environmentOverrides.join(", ")}`}
+        >
+          {environment}
+        </div>
+      )}
       {/* Delete button - only visible when selected */}
       {selected && (
         <Button
@@ -239,6 +374,13 @@ export const CloudServiceNode = memo(({ data, selected, onDoubleClick }: CloudSe
         <div className="mt-1 text-xs text-center text-card-foreground bg-card/80 backdrop-blur-sm px-2 py-1 rounded border border-border/50 max-w-20 truncate">
           {nodeData.name}
         </div>
+
+        {/* Module group */}
+        {nodeData.group && (
+          <div className="mt-0.5 text-[10px] text-muted-foreground max-w-20 truncate" title={`Group: ${nodeData.group}`}>
+            {nodeData.group}
+          </div>
+        )}
       </div>
 
       {/* Delete Node Confirmation Dialog */}
@@ -1,7 +1,8 @@
 "use client"
 
-import { ConnectionEdge as ConnectionEdgeType } from "@/types"
-import { type EdgeProps, getBezierPath, Position } from "@xyflow/react"
+import { formatNetworkRule, getNetworkRule, isNetworkEdge } from "@/components/utils/security-group-rules"
+import { CloudServiceNodeData, ConnectionEdge as ConnectionEdgeType } from "@/types"
+import { EdgeLabelRenderer, type EdgeProps, getBezierPath, Position, useNodesData } from "@xyflow/react"
 import { memo } from "react"
 
 // Helper function to extract position from handle ID
@@ -22,6 +23,8 @@ const getPositionFromHandleId = (handleId: string | null | undefined): Position
 export const ConnectionEdge = memo(
   ({
     id,
+    source,
+    target,
     sourceX,
     sourceY,
     targetX,
@@ -50,6 +53,14 @@ export const ConnectionEdge = memo(
     // Purple color for all connections
     const lineColor = "#a855f7" // purple-500
 
+    // Edges between services with security groups show the traffic they allow
+    const sourceData = useNodesData(source)?.data as CloudServiceNodeData | undefined
+    const targetData = useNodesData(target)?.data as CloudServiceNodeData | undefined
+    const networkLabel =
+      sourceData && targetData && isNetworkEdge(sourceData.id, targetData.id)
+        ? formatNetworkRule(getNetworkRule(data, targetData.id, targetData.config))
+        : null
+
     return (
       <>
         {/* Invisible wider path for easier selection */}
@@ -81,6 +92,19 @@ export const ConnectionEdge = memo(
           }}
           data-custom="true"
         />
+        {networkLabel && (
+          <EdgeLabelRenderer>
+            <div
+              className="nodrag nopan absolute rounded border bg-white px-1.5 py-0.5 text-[10px] font-mono text-gray-700 shadow-sm"
+              style={{
+                transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+                borderColor: selected ? "#ef4444" : lineColor,
+              }}
+            >
+              {networkLabel}
+            </div>
+          </EdgeLabelRenderer>
+        )}
         {/* Optional: Add an arrowhead marker */}
         <defs>
           <marker
@@ -16,13 +16,23 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ComponentPalette } from "@/components/panels/component-palette"
-import { deployInfrastructure, getDeploymentStatus } from "@/lib/api-service"
+import { deployInfrastructure, getAllWorkspaces, getDeploymentStatus, getWorkspaceState, migrateWorkspaceBackend, planInfrastructure, runDriftAction, runTargetedOperation, type TargetedOperation } from "@/lib/api-service"
 import { CredentialManager } from "@/lib/credential-manager"
-import { InfrastructureCanvasProps } from "@/types"
-import type { DeploymentStatus } from "@/types/deployment"
+import { ConfigField, IamPolicyDocument, InfrastructureCanvasProps, LambdaSource, NetworkRule } from "@/types"
+import type { BackendConfig, DeploymentStatus, PlanResourceChange, TerraformWorkspace } from "@/types/deployment"
+import { groupChangesByNode } from "@/lib/terraform-plan"
 import {
   addEdge,
   Background,
@@ -44,18 +54,30 @@ import {
   ArrowLeft,
   Code,
   Download,
+  Group,
+  HardDrive,
+  Layers,
   Play,
   Brain,
+  Crosshair,
+  Database,
   Save,
-  Settings
+  ScanSearch,
+  Settings,
+  Upload
 } from "lucide-react"
 import GlassyPaneContainer from '@/src/cedar/components/containers/GlassyPaneContainer'
-import { useCallback, useEffect, useRef, useState, type DragEvent } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from "react"
+import JSZip from "jszip"
 import { CloudServiceNode } from "./cloud-service-node"
+import { NodeStatusContext } from "./node-status-context"
 import { ConnectionEdge } from "./connection-edge"
 import { ConfigurationPanel } from "../panels/configuration-panel"
-import { getConnectionSuggestions, validateConnection } from "../utils/connection-validator"
-import { TerraformGenerator } from "../utils/terraform-generator"
+import { lintArchitecture, validateConnection, type ArchitectureFix, type ArchitectureProblem } from "../utils/connection-validator"
+import { getNetworkRule, isNetworkEdge } from "../utils/security-group-rules"
+import { TerraformGenerator, type ModuleGrouping } from "../utils/terraform-generator"
+import { TerraformImporter, type TerraformImportResult } from "../utils/terraform-importer"
+import { getDriftedConfig, TerraformStateImporter } from "../utils/terraform-state-importer"
 import { UndoRedoControls } from "../features/undo-redo-controls"
 import { useCanvasHistory } from "@/hooks/use-canvas-history"
 import { ProjectCanvasUtils } from "@/lib/project-canvas-utils"
@@ -63,9 +85,21 @@ import { registerCanvasFunctions, unregisterCanvasFunctions } from "@/lib/infras
 import { AgentChat } from "@/components/features/agent-chat"
 
 import { AIReviewDialog } from "../dialogs/ai-review-dialog"
+import { PlanPreviewDialog } from "../dialogs/plan-preview-dialog"
+import { TargetedOperationDialog, type TargetGroup } from "../dialogs/targeted-operation-dialog"
+import { GroupNodesDialog } from "../dialogs/group-nodes-dialog"
+import { EnvironmentsDialog } from "../dialogs/environments-dialog"
+import { BackendSettingsDialog } from "../dialogs/backend-settings-dialog"
+import { EdgePolicyDialog } from "../dialogs/edge-policy-dialog"
+import { applyEnvironment, getEffectiveConfig, removeEnvironment, setEffectiveConfig } from "@/lib/environments"
+import { describeBackend, getStateKey, isRemoteBackend, isSameBackend } from "@/lib/terraform-backend"
+import { validateLambdaSource } from "@/lib/lambda-source"
+import { NetworkInfrastructureGenerator } from "@/lib/network-infrastructure-generator"
 import { SaveStatusIndicator } from "../features/save-status-indicator"
+import { ProblemsPanel } from "../panels/problems-panel"
 import { ProvidersPane } from "../panels/providers-pane"
 import { Toolbar } from "../layout/toolbar"
+import { useToast } from "@/hooks/use-toast"
 
 
 // Define edge types outside component to avoid recreation
@@ -73,8 +107,8 @@ const edgeTypes = {
   custom: ConnectionEdge,
 }
 
-const createNodeTypes = (onNodeDoubleClick: (nodeData: any) => void) => ({
-  cloudService: (props: any) => <CloudServiceNode {...props} onDoubleClick={onNodeDoubleClick} />,
+const createNodeTypes = (onNodeDoubleClick: (nodeId: string) => void) => ({
+  cloudService: (props: any) => <CloudServiceNode {...props} onDoubleClick={() => onNodeDoubleClick(props.id)} />,
 })
 
 // Use custom edge type with smooth bezier curves
@@ -87,14 +121,20 @@ const defaultEdgeOptions = {
 let nodeId = 0
 const getId = () => `node_${nodeId++}`
 
+const AZURE_SERVICES = ['vm', 'vnet', 'subnet', 'nsg', 'blob', 'sql', 'functions', 'app_service', 'lb', 'key_vault']
+const GCP_SERVICES = ['compute', 'storage', 'sql', 'functions', 'cloud_run', 'lb', 'network', 'subnetwork', 'pubsub', 'firewall']
+
 // Helper function to determine provider from service ID
-const getProviderFromServiceId = (serviceId: string): string => {
+const getProviderFromServiceId = (serviceId: string, canvasProvider?: string): string => {
   if (serviceId.startsWith('supabase_') || ['database', 'auth'].includes(serviceId)) return 'supabase'
   if (serviceId.startsWith('stripe_') || ['payment'].includes(serviceId)) return 'stripe'
+  // Ids such as sql, lb and subnet exist for more than one provider; they belong to the canvas's own
+  if (canvasProvider === 'azure' && AZURE_SERVICES.includes(serviceId)) return 'azure'
+  if (canvasProvider === 'gcp' && GCP_SERVICES.includes(serviceId)) return 'gcp'
   // Azure services
-  if (['vm'].includes(serviceId)) return 'azure'
+  if (['vm', 'vnet', 'nsg', 'blob', 'app_service', 'key_vault'].includes(serviceId)) return 'azure'
   // GCP services
-  if (['compute'].includes(serviceId)) return 'gcp'
+  if (GCP_SERVICES.includes(serviceId)) return 'gcp'
   // Default to AWS for all other services
   return 'aws'
 }
@@ -246,6 +286,8 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
         initializeHistory(savedState.nodes, savedState.edges)
         setLastSaved(new Date().toISOString())
       }
+      setEnvironments(ProjectCanvasUtils.getEnvironments(projectId))
+      setBackend(ProjectCanvasUtils.getBackend(projectId))
     }
   }, [projectId, initializeHistory])
 
@@ -306,7 +348,7 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
 
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null)
   const [showSuggestions, setShowSuggestions] = useState(false)
-  const [selectedNode, setSelectedNode] = useState<any>(null)
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
   const [isConfigPanelOpen, setIsConfigPanelOpen] = useState(false)
   const [selectedNodes, setSelectedNodes] = useState<string[]>([])
   const [selectedEdges, setSelectedEdges] = useState<string[]>([])
@@ -329,7 +371,34 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
   const [aiAnalysis, setAiAnalysis] = useState<any>(null)
   const [isAIReviewLoading, setIsAIReviewLoading] = useState(false)
   const [aiReviewError, setAiReviewError] = useState<string | null>(null)
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [planResult, setPlanResult] = useState<DeploymentStatus['plan'] | null>(null)
+  const [planChanges, setPlanChanges] = useState<Record<string, PlanResourceChange[]>>({})
+  const [isPlanPreviewOpen, setIsPlanPreviewOpen] = useState(false)
+  const [deployedWorkspace, setDeployedWorkspace] = useState<TerraformWorkspace | null>(null)
+  const [isCheckingDrift, setIsCheckingDrift] = useState(false)
+  const [targetedOperation, setTargetedOperation] = useState<TargetedOperation | null>(null)
+  const [isTargetedDialogOpen, setIsTargetedDialogOpen] = useState(false)
+  const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false)
+  const [environments, setEnvironments] = useState<string[]>([])
+  // Environment shown and edited on the canvas; undefined edits the base configuration
+  const [activeEnvironment, setActiveEnvironment] = useState<string | undefined>(undefined)
+  const [isEnvironmentsDialogOpen, setIsEnvironmentsDialogOpen] = useState(false)
+  // Terraform state backend of the project; undefined keeps state in the workspace directory
+  const [backend, setBackend] = useState<BackendConfig | undefined>(undefined)
+  const [isBackendDialogOpen, setIsBackendDialogOpen] = useState(false)
+  // Active workspaces of the project, whose state moves when the backend changes
+  const [projectWorkspaces, setProjectWorkspaces] = useState<TerraformWorkspace[]>([])
+  // Edge whose IAM policy is shown in the edge policy dialog
+  const [policyEdgeId, setPolicyEdgeId] = useState<string | null>(null)
   const reactFlowWrapper = useRef<HTMLDivElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const stateInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  // Nodes with the active environment's overrides applied, used to generate Terraform
+  const effectiveNodes = useMemo(() => applyEnvironment(nodes, activeEnvironment), [nodes, activeEnvironment])
+  const selectedNode = nodes.find((node) => node.id === selectedNodeId)
 
   const providerConfig = {
     aws: {
@@ -427,7 +496,7 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
         data: {
           ...service,
           type: service.id, // Ensure the type field is set correctly
-          provider: getProviderFromServiceId(service.id),
+          provider: getProviderFromServiceId(service.id, provider),
           config: service.defaultConfig || {},
           terraformType: service.terraformType,
           onDelete: () => {
@@ -457,6 +526,132 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
     [reactFlowInstance, nodes, edges, provider, deleteNodesAndEdges],
   )
 
+  const handleImportTerraform = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files || [])
+      event.target.value = ""
+      if (files.length === 0) return
+
+      const sources = await Promise.all(
+        files.map(async (file) => ({ fileName: file.name, content: await file.text() })),
+      )
+      const result = await new TerraformImporter().import(sources)
+      result.warnings.forEach((warning) => console.warn('Terraform import:', warning))
+
+      if (result.nodes.length === 0) {
+        toast({
+          title: "Nothing imported",
+          description: "No resource blocks matched a known service",
+          variant: "destructive",
+        })
+        return
+      }
+
+      // Skip resources that are already on the canvas from an earlier import
+      const existingIds = new Set(nodes.map((n) => n.id))
+      const importedNodes: Node[] = result.nodes
+        .filter((node) => !existingIds.has(node.id))
+        .map((node) => ({
+          ...node,
+          data: {
+            ...node.data,
+            onDelete: () => {
+              deleteNodesAndEdges([node.id], [], 'delete_node')
+            },
+          },
+        }))
+      const existingEdgeIds = new Set(edges.map((e) => e.id))
+      const importedEdges = result.edges.filter((edge) => !existingEdgeIds.has(edge.id))
+
+      const updatedNodes = nodes.concat(importedNodes)
+      const updatedEdges = edges.concat(importedEdges)
+
+      isSyncingFromHistory.current = true
+      setNodes(updatedNodes)
+      setEdges(updatedEdges)
+      saveState(updatedNodes, updatedEdges, 'import_terraform')
+      setTimeout(() => {
+        isSyncingFromHistory.current = false
+      }, 50)
+
+      toast({
+        title: "Terraform imported",
+        description: `Added ${importedNodes.length} resources and ${importedEdges.length} connections` +
+          (result.warnings.length > 0 ? ` (${result.warnings.length} warnings, see console)` : ""),
+      })
+    },
+    [nodes, edges, saveState, deleteNodesAndEdges, toast],
+  )
+
+  // Replace the canvas with the resources recorded in a terraform.tfstate file
+  const loadCanvasFromState = useCallback(
+    async (state: any) => {
+      let result: TerraformImportResult
+      try {
+        result = await new TerraformStateImporter().import(state)
+      } catch (error) {
+        toast({
+          title: "Failed to load state",
+          description: error instanceof Error ? error.message : "Invalid state file",
+          variant: "destructive",
+        })
+        return
+      }
+      result.warnings.forEach((warning) => console.warn('Terraform state:', warning))
+
+      const loadedNodes: Node[] = result.nodes.map((node) => ({
+        ...node,
+        data: {
+          ...node.data,
+          onDelete: () => {
+            deleteNodesAndEdges([node.id], [], 'delete_node')
+          },
+        },
+      }))
+
+      isSyncingFromHistory.current = true
+      setNodes(loadedNodes)
+      setEdges(result.edges)
+      saveState(loadedNodes, result.edges, 'load_state')
+      setTimeout(() => {
+        isSyncingFromHistory.current = false
+      }, 50)
+
+      toast({
+        title: "Canvas rebuilt from state",
+        description: `Loaded ${loadedNodes.length} resources and ${result.edges.length} dependencies` +
+          (result.warnings.length > 0 ? ` (${result.warnings.length} skipped, see console)` : ""),
+      })
+    },
+    [saveState, deleteNodesAndEdges, toast],
+  )
+
+  const handleLoadStateFile = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ""
+      if (!file) return
+
+      await loadCanvasFromState(await file.text())
+    },
+    [loadCanvasFromState],
+  )
+
+  const handleLoadDeployedState = useCallback(async () => {
+    if (!deploymentStatus?.workspaceId) return
+
+    const state = await getWorkspaceState(deploymentStatus.workspaceId)
+    if (!state) {
+      toast({
+        title: "No state found",
+        description: "The last deployment's workspace has no terraform.tfstate",
+        variant: "destructive",
+      })
+      return
+    }
+    await loadCanvasFromState(state)
+  }, [deploymentStatus, loadCanvasFromState, toast])
+
   const onDragStart = (event: DragEvent, service: any) => {
     event.dataTransfer.setData("application/reactflow", JSON.stringify(service))
     event.dataTransfer.effectAllowed = "move"
@@ -481,19 +676,77 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
   }, [])
 
 
-  const suggestions = getConnectionSuggestions(nodes, provider!)
+  // Architecture problems of the diagram, shown in the problems panel and on their nodes
+  const problems = useMemo(() => lintArchitecture(nodes, edges, provider), [nodes, edges, provider])
+
+  const problemsByNode = useMemo(() => {
+    const byNode: Record<string, ArchitectureProblem[]> = {}
+    problems.forEach((problem) => {
+      problem.nodeIds.forEach((nodeId) => {
+        byNode[nodeId] = [...(byNode[nodeId] || []), problem]
+      })
+    })
+    return byNode
+  }, [problems])
+
+  const handleFixProblem = useCallback(
+    (fix: ArchitectureFix) => {
+      switch (fix.kind) {
+        case "connect":
+          onConnect({ source: fix.source, target: fix.target, sourceHandle: "right", targetHandle: "left" })
+          break
+        case "remove_edge":
+          deleteNodesAndEdges([], [fix.edgeId], "remove_edge")
+          break
+        case "reverse_edge": {
+          const edge = edges.find((e) => e.id === fix.edgeId)
+          const source = nodes.find((n) => n.id === edge?.target)
+          const target = nodes.find((n) => n.id === edge?.source)
+          if (!edge || !source || !target) break
+          const rule = validateConnection(source.data.id as string, target.data.id as string, provider)
+          const updatedEdges = edges.map((e) =>
+            e.id === edge.id
+              ? {
+                  ...e,
+                  source: e.target,
+                  target: e.source,
+                  sourceHandle: e.targetHandle,
+                  targetHandle: e.sourceHandle,
+                  data: { ...e.data, relationship: rule?.relationship || e.data?.relationship, description: rule?.description || e.data?.description },
+                }
+              : e
+          )
+          isSyncingFromHistory.current = true
+          setEdges(updatedEdges)
+          saveState(nodes, updatedEdges, "reverse_edge")
+          setTimeout(() => {
+            isSyncingFromHistory.current = false
+          }, 50)
+          break
+        }
+      }
+    },
+    [onConnect, deleteNodesAndEdges, edges, nodes, provider, saveState]
+  )
+
+  const handleShowProblem = (problem: ArchitectureProblem) => {
+    reactFlowInstance?.fitView({ nodes: problem.nodeIds.map((id) => ({ id })), padding: 0.5, duration: 300 })
+  }
 
-  const handleNodeDoubleClick = (nodeData: any) => {
-    setSelectedNode(nodeData)
+  const handleNodeDoubleClick = (nodeId: string) => {
+    setSelectedNodeId(nodeId)
     setIsConfigPanelOpen(true)
   }
 
   const handleConfigUpdate = (config: Record<string, any>) => {
     if (selectedNode) {
+      // In an environment, values that differ from the base configuration become its overrides
       setNodes((nds) =>
         nds.map((node) =>
           node.id === selectedNode.id
-            ? { ...node, data: { ...node.data, config } }
+            ? activeEnvironment
+              ? setEffectiveConfig(node, activeEnvironment, config)
+              : { ...node, data: { ...node.data, config } }
             : node
         )
       )
@@ -504,9 +757,81 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
     }
   }
 
+  // Promote config fields of the selected node to Terraform variables, or take them back
+  const handleParametersUpdate = (parameters: Record<string, ConfigField>) => {
+    if (selectedNode) {
+      const updatedParameters = Object.keys(parameters).length > 0 ? parameters : undefined
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.id === selectedNode.id ? { ...node, data: { ...node.data, parameters: updatedParameters } } : node
+        )
+      )
+      setTimeout(() => {
+        updateMainTf()
+      }, 100)
+    }
+  }
+
+  // Store the edited source of the selected Lambda function
+  const handleSourceUpdate = (source: LambdaSource) => {
+    if (selectedNode) {
+      setNodes((nds) =>
+        nds.map((node) => (node.id === selectedNode.id ? { ...node, data: { ...node.data, source } } : node))
+      )
+      setTimeout(() => {
+        updateMainTf()
+      }, 100)
+    }
+  }
+
+  const policyEdge = edges.find((edge) => edge.id === policyEdgeId)
+  const policyEdgeTarget = effectiveNodes.find((node) => node.id === policyEdge?.target)
+
+  // Traffic the edge being edited allows, when it connects services with security groups
+  const policyEdgeNetworkRule = useMemo(() => {
+    const source = effectiveNodes.find((node) => node.id === policyEdge?.source)
+    if (!policyEdge || !source || !policyEdgeTarget) return null
+    if (!isNetworkEdge(source.data.id as string, policyEdgeTarget.data.id as string)) return null
+    return getNetworkRule(policyEdge.data, policyEdgeTarget.data.id as string, policyEdgeTarget.data.config as Record<string, any>)
+  }, [policyEdge, policyEdgeTarget, effectiveNodes])
+
+  // Change an edge's relationship, replace its generated IAM policy or change the traffic it allows
+  const handleSaveEdgePolicy = ({
+    relationship,
+    policy,
+    networkRule,
+  }: {
+    relationship: string
+    policy?: IamPolicyDocument
+    networkRule?: NetworkRule
+  }) => {
+    // Only fields changed from the target's defaults are kept, so the others follow the
+    // target, e.g. the port when the database engine changes
+    const defaults = policyEdgeTarget
+      ? getNetworkRule(undefined, policyEdgeTarget.data.id as string, policyEdgeTarget.data.config as Record<string, any>)
+      : null
+    const network = networkRule && defaults
+      ? {
+          port: networkRule.port.trim() !== defaults.port ? networkRule.port.trim() : undefined,
+          protocol: networkRule.protocol !== defaults.protocol ? networkRule.protocol : undefined,
+          direction: networkRule.direction !== defaults.direction ? networkRule.direction : undefined,
+        }
+      : {}
+    setEdges((eds) =>
+      eds.map((edge) => (edge.id === policyEdgeId ? { ...edge, data: { ...edge.data, relationship, policy, ...network } } : edge))
+    )
+  }
+
+  // Policy of the edge being edited, generated as if it had the given relationship
+  const getGeneratedEdgePolicy = (relationship: string) => {
+    if (!policyEdge) return null
+    const draftEdges = edges.map((edge) => (edge.id === policyEdge.id ? { ...edge, data: { ...edge.data, relationship } } : edge))
+    return new TerraformGenerator(provider, applyEnvironment(nodes, activeEnvironment), draftEdges).getEdgePolicy(policyEdge.id)
+  }
+
   const handleCloseConfigPanel = () => {
     setIsConfigPanelOpen(false)
-    setSelectedNode(null)
+    setSelectedNodeId(null)
   }
 
   const handleSaveConfig = () => {
@@ -569,7 +894,7 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
     }
 
     try {
-      const terraformGenerator = new TerraformGenerator(provider, nodes, edges)
+      const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
       const code = terraformGenerator.generateTerraformCode()
       
       return code
@@ -599,6 +924,26 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
 
   }
 
+  const downloadZip = async (files: Record<string, string>, filename: string) => {
+    const zip = new JSZip()
+    Object.entries(files).forEach(([path, content]) => zip.file(path, content))
+
+    const url = URL.createObjectURL(await zip.generateAsync({ type: "blob" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Download the canvas as a root module calling one local module per category or group
+  const handleDownloadModules = (groupBy: ModuleGrouping) =>
+    downloadZip(new TerraformGenerator(provider, effectiveNodes, edges).generateModuleFiles(groupBy), "terraform-modules.zip")
+
+  // Download one root module per environment, each with its overrides applied
+  const handleDownloadEnvironments = () =>
+    downloadZip(new TerraformGenerator(provider, nodes, edges).generateEnvironmentFiles(environments), "terraform-environments.zip")
+
   // Helper function to generate Terraform files and return them (for AI review)
   const generateFilesForReview = () => {
     const mainTf = generateCode()
@@ -610,7 +955,7 @@ export function InfrastructureCanvas({ provider, onBack, projectId }: Infrastruc
     
     if (nodes.length > 0) {
       try {
-        const terraformGenerator = new TerraformGenerator(provider, nodes, edges)
+        const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
         const output = terraformGenerator.generate()
         
         // Generate variables.tf
@@ -781,7 +1126,7 @@ provider "aws" {
     
     if (nodes.length > 0) {
       try {
-        const terraformGenerator = new TerraformGenerator(provider, nodes, edges)
+        const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
         const output = terraformGenerator.generate()
         
         // Generate variables.tf
@@ -959,6 +1304,35 @@ provider "aws" {
       return
     }
 
+    // Lambda functions are packaged from their source, which has to be deployable
+    for (const node of nodes.filter((n) => n.data.id === "lambda")) {
+      const config = getEffectiveConfig(node, activeEnvironment)
+      const sourceErrors = validateLambdaSource(config.runtime || "nodejs18.x", config.handler, node.data.source as LambdaSource | undefined)
+      if (sourceErrors.length > 0) {
+        setDeploymentError(`${node.data.name as string}: ${sourceErrors[0]}. Fix it in the Code tab of its configuration.`)
+        return
+      }
+    }
+
+    // VPCs need a network plan that fits their CIDR block, apart from every other VPC's
+    const vpcNodes = provider === "aws" ? nodes.filter((n) => n.data.id === "vpc") : []
+    for (const node of vpcNodes) {
+      const plan = NetworkInfrastructureGenerator.planNetwork(
+        NetworkInfrastructureGenerator.getPlanOptions("vpc", getEffectiveConfig(node, activeEnvironment))
+      )
+      const overlapping = NetworkInfrastructureGenerator.findOverlappingVpcs(
+        plan.cidrBlock,
+        vpcNodes
+          .filter((other) => other.id !== node.id)
+          .map((other) => ({ name: other.data.name as string, cidrBlock: String(getEffectiveConfig(other, activeEnvironment).cidr_block || "10.0.0.0/16") }))
+      )
+      const problem = plan.errors[0] || (overlapping.length > 0 && `${plan.cidrBlock} overlaps ${overlapping[0]}`)
+      if (problem) {
+        setDeploymentError(`${node.data.name as string}: ${problem}. Fix it in its configuration.`)
+        return
+      }
+    }
+
   // Reset progress UI when starting a new deployment
   setFakeProgress(0)
   setIsProgressVisible(true)
@@ -967,12 +1341,16 @@ provider "aws" {
   setIsDeploying(true)
 
     try {
+      // Each environment is deployed to its own workspace, generated with its overrides
       const deploymentRequest = {
-        name: `Infrastructure Deployment ${new Date().toLocaleString()}`,
+        name: `Infrastructure Deployment${activeEnvironment ? ` (${activeEnvironment})` : ""} ${new Date().toLocaleString()}`,
         provider: provider as 'aws' | 'gcp' | 'azure',
         nodes: nodes,
         edges: edges,
-        autoApprove: false
+        autoApprove: false,
+        projectId: projectId || undefined,
+        environment: activeEnvironment,
+        backend
       }
 
       const result = await deployInfrastructure(deploymentRequest)
@@ -983,6 +1361,10 @@ provider "aws" {
       } else {
         setDeploymentError(result.error || 'Deployment failed')
         setIsDeploying(false)
+        // Show the fields to fix in the configuration of the first invalid node
+        if (result.configErrors && result.configErrors.length > 0) {
+          handleNodeDoubleClick(result.configErrors[0].nodeId)
+        }
       }
     } catch (error) {
       setDeploymentError(error instanceof Error ? error.message : 'Unknown error occurred')
@@ -990,6 +1372,310 @@ provider "aws" {
     }
   }
 
+  // Run a speculative plan and highlight the affected nodes
+  const handlePlan = async () => {
+    if (nodes.length === 0) {
+      setDeploymentError("No infrastructure defined. Please add some services to plan.")
+      return
+    }
+
+    if (!CredentialManager.hasCredentials(provider as 'aws' | 'gcp' | 'azure')) {
+      setDeploymentError(`No ${provider.toUpperCase()} credentials configured. Please configure credentials in settings.`)
+      return
+    }
+
+    setIsPlanning(true)
+    setDeploymentError(null)
+    try {
+      const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
+      // Plan against the environment's state when the project keeps it in a remote backend
+      const remoteState = projectId && backend && isRemoteBackend(backend)
+        ? { backend, stateKey: getStateKey({ projectId, environment: activeEnvironment }) }
+        : undefined
+      const result = await planInfrastructure(terraformGenerator.generateTerraformCode(), provider, remoteState)
+
+      if (!result.success || !result.plan) {
+        setDeploymentError(result.error || 'Terraform plan failed')
+        return
+      }
+
+      setPlanResult(result.plan)
+      setPlanChanges(groupChangesByNode(result.plan.resourceChanges || [], terraformGenerator.getResourceAddressMap()))
+      toast({
+        title: "Plan complete",
+        description: `Plan: ${result.plan.toAdd} to add, ${result.plan.toChange} to change, ${result.plan.toDestroy} to destroy`,
+      })
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  // Keep node highlights in sync with the plan of a running deployment
+  useEffect(() => {
+    if (!deploymentStatus) return
+
+    if (deploymentStatus.status === 'completed') {
+      setPlanResult(null)
+      setPlanChanges({})
+    } else if (deploymentStatus.plan?.resourceChanges) {
+      const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
+      setPlanResult(deploymentStatus.plan)
+      setPlanChanges(groupChangesByNode(deploymentStatus.plan.resourceChanges, terraformGenerator.getResourceAddressMap()))
+    }
+  }, [deploymentStatus?.status, deploymentStatus?.plan])
+
+  // Track this project's latest deployment to the active environment so drift found on it can be shown on the nodes
+  useEffect(() => {
+    if (!projectId) return
+
+    getAllWorkspaces().then((allWorkspaces) => {
+      const latest = allWorkspaces
+        .filter((workspace) =>
+          workspace.projectId === projectId &&
+          workspace.status === 'active' &&
+          workspace.environment === activeEnvironment
+        )
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0]
+      setDeployedWorkspace(latest || null)
+    })
+  }, [projectId, deploymentStatus?.status, activeEnvironment])
+
+  const driftChanges = useMemo(() => {
+    const resources = deployedWorkspace?.drift?.resources
+    if (!resources?.length) return {}
+    const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
+    return groupChangesByNode(resources, terraformGenerator.getResourceAddressMap())
+  }, [deployedWorkspace, provider, effectiveNodes, edges])
+
+  const handleCheckDrift = async () => {
+    if (!deployedWorkspace) return
+
+    setIsCheckingDrift(true)
+    try {
+      const result = await runDriftAction(deployedWorkspace.id, 'check')
+      if (result.workspace) {
+        setDeployedWorkspace(result.workspace)
+      }
+
+      if (!result.success) {
+        toast({ title: "Drift check failed", description: result.error, variant: "destructive" })
+      } else if (result.drift?.status === 'drifted') {
+        toast({
+          title: "Drift detected",
+          description: `${result.drift.resources.length} resource(s) changed outside Cloudist`,
+          variant: "destructive",
+        })
+      } else {
+        toast({ title: "No drift", description: "Deployed resources match the last apply" })
+      }
+    } finally {
+      setIsCheckingDrift(false)
+    }
+  }
+
+  // Keep the deployed values: update the state, then copy them into the node's config
+  const handleAcceptDrift = useCallback(async (nodeId: string) => {
+    if (!deployedWorkspace) return
+
+    const changes = driftChanges[nodeId] || []
+    const result = await runDriftAction(deployedWorkspace.id, 'accept', changes.map((change) => change.address))
+    if (!result.success) {
+      toast({ title: "Could not accept drift", description: result.error, variant: "destructive" })
+      return
+    }
+
+    // The deployed values belong to the workspace's environment, so they become its overrides
+    const driftedConfig = Object.assign({}, ...(await Promise.all(changes.map(getDriftedConfig))))
+    const environment = deployedWorkspace.environment
+    setNodes((nds) =>
+      nds.map((node) =>
+        node.id === nodeId
+          ? environment
+            ? setEffectiveConfig(node, environment, { ...getEffectiveConfig(node, environment), ...driftedConfig })
+            : { ...node, data: { ...node.data, config: { ...(node.data.config as Record<string, any>), ...driftedConfig } } }
+          : node
+      )
+    )
+    if (result.workspace) {
+      setDeployedWorkspace(result.workspace)
+    }
+    toast({
+      title: "Drift accepted",
+      description: `Updated ${Object.keys(driftedConfig).length} field(s) from the deployed resources`,
+    })
+  }, [deployedWorkspace, driftChanges, setNodes, toast])
+
+  // Put the deployed resources back to the configuration of the last apply
+  const handleReapplyDrift = useCallback(async () => {
+    if (!deployedWorkspace) return
+    if (!window.confirm("Re-apply the last deployment? Changes made outside Cloudist will be reverted.")) return
+
+    const result = await runDriftAction(deployedWorkspace.id, 'reapply')
+    if (result.workspace) {
+      setDeployedWorkspace(result.workspace)
+    }
+    if (!result.success) {
+      toast({ title: "Re-apply failed", description: result.error, variant: "destructive" })
+      return
+    }
+    toast({ title: "Re-applied", description: "Deployed resources match the configuration again" })
+  }, [deployedWorkspace, toast])
+
+  // Resource addresses of the selected nodes, including the helper resources generated for each
+  const targetGroups = useMemo<TargetGroup[]>(() => {
+    if (selectedNodes.length === 0) return []
+    const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
+    return nodes
+      .filter((node) => selectedNodes.includes(node.id))
+      .map((node) => ({
+        nodeId: node.id,
+        label: (node.data.name as string) || (node.data.id as string),
+        addresses: terraformGenerator.getTargetAddresses([node.id]),
+      }))
+  }, [selectedNodes, provider, effectiveNodes, edges])
+
+  // Module groups drawn on the canvas, and the one shared by all selected nodes
+  const nodeGroups = useMemo(
+    () => Array.from(new Set(nodes.map((node) => node.data.group as string | undefined).filter((group): group is string => !!group))),
+    [nodes]
+  )
+  const selectedGroup = useMemo(() => {
+    const groups = new Set(nodes.filter((node) => selectedNodes.includes(node.id)).map((node) => node.data.group as string | undefined))
+    return groups.size === 1 ? Array.from(groups)[0] : undefined
+  }, [nodes, selectedNodes])
+
+  // Save the project's environments; overrides of removed environments are dropped from the nodes
+  const handleSaveEnvironments = (updatedEnvironments: string[]) => {
+    if (!projectId) return
+    const removed = environments.filter((environment) => !updatedEnvironments.includes(environment))
+    if (removed.length > 0) {
+      const updatedNodes = nodes.map((node) => removed.reduce(removeEnvironment, node))
+      isSyncingFromHistory.current = true
+      setNodes(updatedNodes)
+      saveState(updatedNodes, edges, 'remove_environments')
+      setTimeout(() => {
+        isSyncingFromHistory.current = false
+      }, 50)
+    }
+    if (activeEnvironment && removed.includes(activeEnvironment)) {
+      setActiveEnvironment(undefined)
+    }
+    ProjectCanvasUtils.saveEnvironments(projectId, updatedEnvironments)
+    setEnvironments(updatedEnvironments)
+  }
+
+  const openBackendDialog = async () => {
+    if (!projectId) return
+    const allWorkspaces = await getAllWorkspaces()
+    setProjectWorkspaces(allWorkspaces.filter((workspace) => workspace.projectId === projectId && workspace.status === 'active'))
+    setIsBackendDialogOpen(true)
+  }
+
+  // Save the project's state backend and migrate the state of its deployed workspaces to it
+  const handleSaveBackend = async (updatedBackend: BackendConfig) => {
+    if (!projectId) return
+    const savedBackend = isRemoteBackend(updatedBackend) ? updatedBackend : undefined
+    ProjectCanvasUtils.saveBackend(projectId, savedBackend)
+    setBackend(savedBackend)
+
+    const pending = projectWorkspaces.filter((workspace) => !isSameBackend(workspace.backend, updatedBackend))
+    const failed: string[] = []
+    for (const workspace of pending) {
+      const result = await migrateWorkspaceBackend(workspace.id, updatedBackend)
+      if (!result.success) {
+        failed.push(`${workspace.environment || workspace.name}: ${result.error}`)
+      }
+    }
+
+    if (failed.length > 0) {
+      toast({
+        title: "State migration failed",
+        description: failed.join("; "),
+        variant: "destructive",
+      })
+    } else {
+      toast({
+        title: "State backend saved",
+        description: pending.length > 0
+          ? `Migrated the state of ${pending.length} workspace${pending.length === 1 ? "" : "s"} to ${describeBackend(savedBackend)}`
+          : `New deployments keep their state in ${describeBackend(savedBackend)}`,
+      })
+    }
+  }
+
+  // Put the selected nodes in a module group, or take them out of it
+  const handleGroupSelectedNodes = (group: string | undefined) => {
+    const updatedNodes = nodes.map((node) =>
+      selectedNodes.includes(node.id) ? { ...node, data: { ...node.data, group } } : node
+    )
+    isSyncingFromHistory.current = true
+    setNodes(updatedNodes)
+    saveState(updatedNodes, edges, group ? 'group_nodes' : 'ungroup_nodes')
+    setTimeout(() => {
+      isSyncingFromHistory.current = false
+    }, 50)
+  }
+
+  const openTargetedOperation = (operation: TargetedOperation) => {
+    setTargetedOperation(operation)
+    setIsTargetedDialogOpen(true)
+  }
+
+  // Run the confirmed plan/apply/destroy against the deployed workspace, limited to the selected nodes
+  const handleTargetedOperation = async () => {
+    if (!deployedWorkspace || !targetedOperation) return
+
+    const targets = targetGroups.flatMap((group) => group.addresses)
+    setDeploymentError(null)
+
+    if (targetedOperation === 'plan') {
+      setIsPlanning(true)
+      try {
+        const result = await runTargetedOperation(deployedWorkspace.id, 'plan', targets, nodes, edges)
+        const plan = getDeploymentStatus(result.deploymentId)?.plan
+        if (!result.success || !plan) {
+          setDeploymentError(result.error || 'Targeted plan failed')
+          return
+        }
+
+        const terraformGenerator = new TerraformGenerator(provider, effectiveNodes, edges)
+        setPlanResult(plan)
+        setPlanChanges(groupChangesByNode(plan.resourceChanges || [], terraformGenerator.getResourceAddressMap()))
+        toast({
+          title: "Targeted plan complete",
+          description: `Plan: ${plan.toAdd} to add, ${plan.toChange} to change, ${plan.toDestroy} to destroy`,
+        })
+      } finally {
+        setIsPlanning(false)
+      }
+      return
+    }
+
+    setFakeProgress(0)
+    setIsProgressVisible(true)
+    setDeploymentStatus(null)
+    setIsDeploying(true)
+
+    const result = await runTargetedOperation(deployedWorkspace.id, targetedOperation, targets, nodes, edges)
+    startDeploymentPolling(result.deploymentId)
+    if (!result.success) {
+      toast({ title: `Targeted ${targetedOperation} failed`, description: result.error, variant: "destructive" })
+    }
+  }
+
+  const nodeStatus = useMemo(
+    () => ({
+      planChanges,
+      driftChanges,
+      onAcceptDrift: handleAcceptDrift,
+      onReapplyDrift: handleReapplyDrift,
+      environment: activeEnvironment,
+      problems: problemsByNode,
+      onFixProblem: handleFixProblem,
+    }),
+    [planChanges, driftChanges, handleAcceptDrift, handleReapplyDrift, activeEnvironment, problemsByNode, handleFixProblem]
+  )
+
   // Poll deployment status
   const startDeploymentPolling = (deploymentId: string) => {
     const pollInterval = setInterval(() => {
@@ -1079,10 +1765,10 @@ provider "aws" {
     generateFiles()
   }, [])
 
-  // Update main.tf when nodes or edges change
+  // Update main.tf when nodes, edges or the environment change
   useEffect(() => {
     updateMainTf()
-  }, [nodes, edges])
+  }, [nodes, edges, activeEnvironment])
 
   // Handle resize functionality
   const handleMouseDown = useCallback(() => {
@@ -1157,10 +1843,145 @@ provider "aws" {
       {/* Top Header with Back Button and Toolbar */}
       <div className="flex flex-col">
         <div className="h-12 border-b border-border bg-background flex items-center justify-between px-4">
-          <Button variant="ghost" size="sm" onClick={onBack} className="text-muted-foreground hover:text-foreground">
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={onBack} className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+
+            {/* Environment switcher */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+                  <Layers className="w-4 h-4 mr-2" />
+                  {activeEnvironment || "Base config"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuRadioGroup
+                  value={activeEnvironment || ""}
+                  onValueChange={(value) => setActiveEnvironment(value || undefined)}
+                >
+                  <DropdownMenuRadioItem value="">Base config</DropdownMenuRadioItem>
+                  {environments.map((environment) => (
+                    <DropdownMenuRadioItem key={environment} value={environment}>
+                      {environment}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem disabled={!projectId} onClick={() => setIsEnvironmentsDialogOpen(true)}>
+                  Manage environments...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!projectId}
+              onClick={openBackendDialog}
+              className="text-muted-foreground hover:text-foreground"
+              title="Terraform state backend"
+            >
+              <HardDrive className="w-4 h-4 mr-2" />
+              {describeBackend(backend)}
+            </Button>
+
+            {/* Import existing Terraform */}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".tf"
+              multiple
+              className="hidden"
+              onChange={handleImportTerraform}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import .tf
+            </Button>
+
+            {/* Rebuild the canvas from deployed state */}
+            <input
+              ref={stateInputRef}
+              type="file"
+              accept=".tfstate,.json"
+              className="hidden"
+              onChange={handleLoadStateFile}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+                  <Database className="w-4 h-4 mr-2" />
+                  Load from state
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => stateInputRef.current?.click()}>
+                  From .tfstate file...
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={deploymentStatus?.status !== 'completed'}
+                  onClick={handleLoadDeployedState}
+                >
+                  From last deployment
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:text-foreground"
+              disabled={!deployedWorkspace || isCheckingDrift}
+              onClick={handleCheckDrift}
+              title={deployedWorkspace?.drift ? `Last checked ${new Date(deployedWorkspace.drift.checkedAt).toLocaleString()}` : undefined}
+            >
+              <ScanSearch className="w-4 h-4 mr-2" />
+              {isCheckingDrift ? "Checking drift..." : "Check drift"}
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground hover:text-foreground"
+                  disabled={!deployedWorkspace || selectedNodes.length === 0 || isDeploying || isPlanning}
+                  title={deployedWorkspace ? "Run terraform on the selected nodes only" : "Deploy the project first"}
+                >
+                  <Crosshair className="w-4 h-4 mr-2" />
+                  Selected ({selectedNodes.length})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => openTargetedOperation('plan')}>
+                  Plan selected
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openTargetedOperation('apply')}>
+                  Apply selected
+                </DropdownMenuItem>
+                <DropdownMenuItem className="text-destructive" onClick={() => openTargetedOperation('destroy')}>
+                  Destroy selected
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:text-foreground"
+              disabled={selectedNodes.length === 0}
+              onClick={() => setIsGroupDialogOpen(true)}
+              title="Group the selected nodes into one Terraform module"
+            >
+              <Group className="w-4 h-4 mr-2" />
+              Group
+            </Button>
+          </div>
           
           {/* Settings Button */}
           <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
@@ -1273,10 +2094,61 @@ provider "aws" {
           onUndo={undo}
           onRedo={redo}
           onAIReview={handleAIReview}
+          onPlan={handlePlan}
+          onViewPreview={() => setIsPlanPreviewOpen(true)}
           canUndo={canUndo}
           canRedo={canRedo}
-          deploymentStage={isDeploying ? "applying" : "none"}
+          deploymentStage={isDeploying ? "applying" : planResult ? "planned" : "none"}
           isGeneratingCode={false}
+          isPlanning={isPlanning}
+        />
+
+        <PlanPreviewDialog
+          open={isPlanPreviewOpen}
+          onOpenChange={setIsPlanPreviewOpen}
+          planOutput={planResult?.planOutput || null}
+          resourceChanges={planResult?.resourceChanges}
+          onApply={handleDeploy}
+        />
+
+        <TargetedOperationDialog
+          open={isTargetedDialogOpen}
+          onOpenChange={setIsTargetedDialogOpen}
+          operation={targetedOperation}
+          groups={targetGroups}
+          onConfirm={handleTargetedOperation}
+        />
+        <EnvironmentsDialog
+          open={isEnvironmentsDialogOpen}
+          onOpenChange={setIsEnvironmentsDialogOpen}
+          environments={environments}
+          onSave={handleSaveEnvironments}
+        />
+        <BackendSettingsDialog
+          open={isBackendDialogOpen}
+          onOpenChange={setIsBackendDialogOpen}
+          backend={backend}
+          workspaces={projectWorkspaces}
+          onSave={handleSaveBackend}
+        />
+        <EdgePolicyDialog
+          open={!!policyEdge}
+          onOpenChange={(open) => !open && setPolicyEdgeId(null)}
+          sourceName={(nodes.find((node) => node.id === policyEdge?.source)?.data.name as string) || ""}
+          targetName={(nodes.find((node) => node.id === policyEdge?.target)?.data.name as string) || ""}
+          relationship={policyEdge?.data?.relationship}
+          policy={policyEdge?.data?.policy}
+          getGeneratedPolicy={getGeneratedEdgePolicy}
+          networkRule={policyEdgeNetworkRule}
+          onSave={handleSaveEdgePolicy}
+        />
+        <GroupNodesDialog
+          open={isGroupDialogOpen}
+          onOpenChange={setIsGroupDialogOpen}
+          nodeCount={selectedNodes.length}
+          currentGroup={selectedGroup}
+          groups={nodeGroups}
+          onConfirm={handleGroupSelectedNodes}
         />
         
         {/* Save Status Indicator */}
@@ -1308,59 +2180,65 @@ provider "aws" {
           {/* Canvas Area */}
           <div className="flex-1 relative bg-background">
             <div className="h-full">
-              <ReactFlowProvider>
-                <ReactFlow
-                  nodes={nodes}
-                  edges={edges}
-                  onNodesChange={onNodesChange}
-                  onEdgesChange={onEdgesChange}
-                  onConnect={onConnect}
-                  onInit={(instance) => {
-                    setReactFlowInstance(instance as any);
-                  }}
-                  onDrop={onDrop}
-                  onDragOver={onDragOver}
-                  onSelectionChange={handleSelectionChange}
-                  nodeTypes={createNodeTypes(handleNodeDoubleClick)}
-                  edgeTypes={edgeTypes}
-                  className="bg-background"
-                  proOptions={{ hideAttribution: true }}
-                  connectionLineStyle={{
-                    stroke: "#a855f7",
-                    strokeWidth: 4,
-                    strokeLinecap: "round",
-                    strokeLinejoin: "round",
-                  }}
-                  connectionLineType={ConnectionLineType.Bezier}
-                  connectionMode={ConnectionMode.Loose}
-                  defaultEdgeOptions={defaultEdgeOptions}
-                  // Increase the connection radius so users don't have to be pixel-perfect when
-                  // starting/ending connections on small handles.
-                  connectionRadius={40}
-                  snapToGrid={true}
-                  snapGrid={[20, 20]}
-                  panOnDrag={true}
-                  panOnScroll={false}
-                  panOnScrollSpeed={0}
-                  selectNodesOnDrag={false}
-                  nodesDraggable={true}
-                  nodesConnectable={true}
-                  elementsSelectable={true}
-                  elevateNodesOnSelect={false}
-                  autoPanOnNodeDrag={false}
-                  zoomOnScroll={true}
-                  minZoom={0.1}
-                  maxZoom={4}
-                >
-                  <Background
-                    variant={BackgroundVariant.Dots}
-                    gap={20}
-                    size={2}
-                    color="#9ca3af"
-                    style={{ backgroundColor: "#3d3d3d" }}
-                  />
-                </ReactFlow>
-              </ReactFlowProvider>
+              <NodeStatusContext.Provider value={nodeStatus}>
+                <ReactFlowProvider>
+                  <ReactFlow
+                    nodes={nodes}
+                    edges={edges}
+                    onNodesChange={onNodesChange}
+                    onEdgesChange={onEdgesChange}
+                    onConnect={onConnect}
+                    onInit={(instance) => {
+                      setReactFlowInstance(instance as any);
+                    }}
+                    onDrop={onDrop}
+                    onDragOver={onDragOver}
+                    onSelectionChange={handleSelectionChange}
+                    onEdgeDoubleClick={(_, edge) => setPolicyEdgeId(edge.id)}
+                    nodeTypes={createNodeTypes(handleNodeDoubleClick)}
+                    edgeTypes={edgeTypes}
+                    className="bg-background"
+                    proOptions={{ hideAttribution: true }}
+                    connectionLineStyle={{
+                      stroke: "#a855f7",
+                      strokeWidth: 4,
+                      strokeLinecap: "round",
+                      strokeLinejoin: "round",
+                    }}
+                    connectionLineType={ConnectionLineType.Bezier}
+                    connectionMode={ConnectionMode.Loose}
+                    defaultEdgeOptions={defaultEdgeOptions}
+                    // Increase the connection radius so users don't have to be pixel-perfect when
+                    // starting/ending connections on small handles.
+                    connectionRadius={40}
+                    snapToGrid={true}
+                    snapGrid={[20, 20]}
+                    panOnDrag={true}
+                    panOnScroll={false}
+                    panOnScrollSpeed={0}
+                    selectNodesOnDrag={false}
+                    nodesDraggable={true}
+                    nodesConnectable={true}
+                    elementsSelectable={true}
+                    elevateNodesOnSelect={false}
+                    autoPanOnNodeDrag={false}
+                    zoomOnScroll={true}
+                    minZoom={0.1}
+                    maxZoom={4}
+                  >
+                    <Background
+                      variant={BackgroundVariant.Dots}
+                      gap={20}
+                      size={2}
+                      color="#9ca3af"
+                      style={{ backgroundColor: "#3d3d3d" }}
+                    />
+                  </ReactFlow>
+                </ReactFlowProvider>
+              </NodeStatusContext.Provider>
+            </div>
+            <div className="absolute bottom-3 left-3 z-10">
+              <ProblemsPanel problems={problems} onFix={handleFixProblem} onShow={handleShowProblem} />
             </div>
           </div>
         </main>
@@ -1370,9 +2248,16 @@ provider "aws" {
           <ConfigurationPanel
             isOpen={isConfigPanelOpen}
             onClose={handleCloseConfigPanel}
-            nodeData={selectedNode}
+            nodeData={selectedNode ? { ...(selectedNode.data as any), config: getEffectiveConfig(selectedNode, activeEnvironment) } : null}
+            environment={activeEnvironment}
+            baseConfig={selectedNode?.data.config as Record<string, any> | undefined}
             serviceConfig={null} // This will be loaded by the configuration panel
             onConfigUpdate={handleConfigUpdate}
+            onParametersUpdate={handleParametersUpdate}
+            onSourceUpdate={handleSourceUpdate}
+            otherVpcs={effectiveNodes
+              .filter((node) => node.data.id === "vpc" && node.id !== selectedNode?.id)
+              .map((node) => ({ name: node.data.name as string, cidrBlock: String((node.data.config as any)?.cidr_block || "10.0.0.0/16") }))}
             onSave={handleSaveConfig}
           />
         ) : (
@@ -1432,14 +2317,31 @@ provider "aws" {
                   </Select>
                 </div>
                 <div className="flex items-center gap-2">
-                  <Button
-                    onClick={() => handleDownloadTerraformCode(activeFile)}
-                    variant="ghost"
-                    size="sm"
-                    className="text-muted-foreground hover:text-foreground"
-                  >
-                    <Download className="w-4 h-4" />
-                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleDownloadTerraformCode(activeFile)}>
+                        Download {activeFile}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={nodes.length === 0} onClick={() => handleDownloadModules('category')}>
+                        Download modules by category (.zip)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={nodeGroups.length === 0} onClick={() => handleDownloadModules('group')}>
+                        Download modules by group (.zip)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={nodes.length === 0 || environments.length === 0} onClick={handleDownloadEnvironments}>
+                        Download environments (.zip)
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </div>
 
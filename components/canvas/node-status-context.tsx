@@ -0,0 +1,29 @@
+"use client"
+
+import type { ArchitectureFix, ArchitectureProblem } from "@/components/utils/connection-validator"
+import type { PlanResourceChange } from "@/types/deployment"
+import { createContext, useContext } from "react"
+
+// Per-node status overlays computed by the canvas (e.g. the latest plan) rather than stored in node data
+export interface NodeStatus {
+  planChanges: Record<string, PlanResourceChange[]>
+  // Resources of each node changed outside Cloudist, from the deployed workspace's latest drift check
+  driftChanges: Record<string, PlanResourceChange[]>
+  onAcceptDrift?: (nodeId: string) => void
+  onReapplyDrift?: () => void
+  // Environment shown on the canvas; nodes mark the settings it overrides
+  environment?: string
+  // Architecture problems each node is part of, with their quick fixes
+  problems: Record<string, ArchitectureProblem[]>
+  onFixProblem?: (fix: ArchitectureFix) => void
+}
+
+export const NodeStatusContext = createContext<NodeStatus>({
+  planChanges: {},
+  driftChanges: {},
+  problems: {},
+})
+
+export function useNodeStatus(): NodeStatus {
+  return useContext(NodeStatusContext)
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BACKEND_TYPES, isSameBackend, validateBackendConfig } from "@/lib/terraform-backend"
+import type { BackendConfig, TerraformWorkspace } from "@/types/deployment"
+
+interface BackendField {
+  key: string
+  label: string
+  placeholder: string
+  optional?: boolean
+}
+
+const BACKEND_FIELDS: Record<BackendConfig["type"], BackendField[]> = {
+  local: [],
+  s3: [
+    { key: "bucket", label: "Bucket", placeholder: "my-terraform-state" },
+    { key: "region", label: "Region", placeholder: "us-east-1" },
+    { key: "dynamodbTable", label: "DynamoDB lock table", placeholder: "terraform-locks", optional: true },
+    { key: "keyPrefix", label: "Key prefix", placeholder: "cloudist", optional: true },
+  ],
+  gcs: [
+    { key: "bucket", label: "Bucket", placeholder: "my-terraform-state" },
+    { key: "prefix", label: "Prefix", placeholder: "cloudist", optional: true },
+  ],
+  azurerm: [
+    { key: "resourceGroupName", label: "Resource group", placeholder: "terraform-state-rg" },
+    { key: "storageAccountName", label: "Storage account", placeholder: "tfstate12345" },
+    { key: "containerName", label: "Container", placeholder: "tfstate" },
+  ],
+  http: [
+    { key: "address", label: "Address", placeholder: "Built-in state server", optional: true },
+  ],
+}
+
+interface BackendSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  backend?: BackendConfig
+  // Deployed workspaces of the project, whose state moves when the backend changes
+  workspaces: TerraformWorkspace[]
+  onSave: (backend: BackendConfig) => void
+}
+
+export function BackendSettingsDialog({
+  open,
+  onOpenChange,
+  backend,
+  workspaces,
+  onSave,
+}: BackendSettingsDialogProps) {
+  const [type, setType] = useState<BackendConfig["type"]>(backend?.type || "local")
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (open) {
+      const { type: currentType = "local", ...currentValues } = backend || {}
+      setType(currentType)
+      setValues(currentValues as Record<string, string>)
+    }
+  }, [open, backend])
+
+  const fields = BACKEND_FIELDS[type]
+  const draft = {
+    type,
+    ...Object.fromEntries(
+      fields.map((field) => [field.key, values[field.key]?.trim()]).filter(([, value]) => value)
+    ),
+  } as BackendConfig
+  const errors = validateBackendConfig(draft)
+  const migratedCount = workspaces.filter((workspace) => !isSameBackend(workspace.backend, draft)).length
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>State backend</DialogTitle>
+          <DialogDescription>
+            Where the project&apos;s workspaces keep their Terraform state. Each environment has its own state in
+            the backend, shared by every deployment to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Backend</Label>
+            <Select value={type} onValueChange={(value) => setType(value as BackendConfig["type"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKEND_TYPES.map((backendType) => (
+                  <SelectItem key={backendType.type} value={backendType.type}>
+                    {backendType.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`backend-${field.key}`}>
+                {field.label}
+                {field.optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+              </Label>
+              <Input
+                id={`backend-${field.key}`}
+                value={values[field.key] || ""}
+                placeholder={field.placeholder}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+
+          {type === "http" && (
+            <p className="text-xs text-muted-foreground">
+              Without an address, state is kept by this server under /api/state. Use it for local testing only.
+            </p>
+          )}
+          {migratedCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              The state of {migratedCount} deployed workspace{migratedCount === 1 ? "" : "s"} will
+              be migrated with terraform init -migrate-state.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={errors.length > 0}
+            onClick={() => {
+              onSave(draft)
+              onOpenChange(false)
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
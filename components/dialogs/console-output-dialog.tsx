@@ -4,6 +4,8 @@ import { useEffect, useRef, useState } from "react"
 import { X, Terminal, Loader2, CheckCircle2, XCircle, Copy, Trash2, Download } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
+import { describeProgress, getProgressPercent } from "@/lib/terraform-progress"
+import type { TerraformProgress } from "@/types/deployment"
 
 interface ConsoleOutputDialogProps {
   open: boolean
@@ -14,6 +16,7 @@ interface ConsoleOutputDialogProps {
   status: 'running' | 'success' | 'error' | 'idle'
   enableStreaming?: boolean  // Enable streaming animation effect
   onClear?: () => void        // Callback to clear output
+  progress?: TerraformProgress | null  // Resource progress parsed from live terraform output
 }
 
 export function ConsoleOutputDialog({
@@ -24,7 +27,8 @@ export function ConsoleOutputDialog({
   isRunning,
   status,
   enableStreaming = false,
-  onClear
+  onClear,
+  progress
 }: ConsoleOutputDialogProps) {
   const outputRef = useRef<HTMLDivElement>(null)
   const { toast } = useToast()
@@ -269,6 +273,22 @@ export function ConsoleOutputDialog({
             </div>
           </div>
 
+          {/* Resource progress */}
+          {progress && (
+            <div className="px-4 py-2 border-b bg-white">
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span className="truncate">{describeProgress(progress)}</span>
+                {getProgressPercent(progress) !== null && <span>{getProgressPercent(progress)}%</span>}
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className={`h-1.5 rounded-full transition-all duration-300 ${status === 'error' ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${getProgressPercent(progress) ?? 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
           {/* Output Content */}
           <div className="relative flex-1 overflow-hidden">
             <div
@@ -306,7 +326,7 @@ export function ConsoleOutputDialog({
             <div className="flex items-center gap-4 text-xs text-gray-600">
               <span>Lines: {output.split('\n').length}</span>
               <span>Characters: {output.length}</span>
-              {enableStreaming && isRunning && (
+              {isRunning && (
                 <span className="flex items-center gap-1 text-blue-600">
                   <span className="inline-block w-2 h-2 bg-blue-600 rounded-full animate-pulse"></span>
                   Streaming...
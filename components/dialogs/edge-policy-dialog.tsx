@@ -0,0 +1,231 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { IAM_RELATIONSHIPS, validatePolicyDocument } from "@/components/utils/iam-policy-synthesizer"
+import { NETWORK_PROTOCOLS, TRAFFIC_DIRECTIONS, validateNetworkRule } from "@/components/utils/security-group-rules"
+import type { IamPolicyDocument, NetworkProtocol, NetworkRule, TrafficDirection } from "@/types"
+
+interface EdgePolicyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sourceName: string
+  targetName: string
+  relationship?: string
+  // Policy set on the edge, replacing the generated one
+  policy?: IamPolicyDocument
+  // Policy the generator synthesizes for the edge with a given relationship
+  getGeneratedPolicy: (relationship: string) => IamPolicyDocument | null
+  // Traffic the edge allows between the services' security groups; null for edges
+  // that don't open network access
+  networkRule?: NetworkRule | null
+  onSave: (changes: { relationship: string; policy?: IamPolicyDocument; networkRule?: NetworkRule }) => void
+}
+
+export function EdgePolicyDialog({
+  open,
+  onOpenChange,
+  sourceName,
+  targetName,
+  relationship,
+  policy,
+  getGeneratedPolicy,
+  networkRule,
+  onSave,
+}: EdgePolicyDialogProps) {
+  const [draftRelationship, setDraftRelationship] = useState(relationship || "accesses")
+  const [isOverridden, setIsOverridden] = useState(false)
+  const [policyText, setPolicyText] = useState("")
+  const [draftRule, setDraftRule] = useState<NetworkRule | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setDraftRelationship(relationship || "accesses")
+      setIsOverridden(!!policy)
+      setPolicyText(policy ? JSON.stringify(policy, null, 2) : "")
+      setDraftRule(networkRule || null)
+    }
+  }, [open, relationship, policy, networkRule])
+
+  const generated = getGeneratedPolicy(draftRelationship)
+  // Other relationships, like invokes or depends_on, stay selectable as they are
+  const options = IAM_RELATIONSHIPS.some((option) => option.value === draftRelationship)
+    ? IAM_RELATIONSHIPS
+    : [{ value: draftRelationship, label: draftRelationship, description: "Edge relationship" }, ...IAM_RELATIONSHIPS]
+
+  let parsed: unknown = null
+  let errors: string[] = []
+  if (isOverridden) {
+    try {
+      parsed = JSON.parse(policyText)
+      errors = validatePolicyDocument(parsed)
+    } catch (error) {
+      errors = ["The policy is not valid JSON"]
+    }
+  }
+  const ruleErrors = draftRule ? validateNetworkRule(draftRule) : []
+
+  const startOverride = (checked: boolean) => {
+    setIsOverridden(checked)
+    if (checked && !policyText) {
+      setPolicyText(JSON.stringify(generated || { Version: "2012-10-17", Statement: [] }, null, 2))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>
+            {sourceName} → {targetName}
+          </DialogTitle>
+          <DialogDescription>
+            The IAM permissions {sourceName} gets on {targetName}. They are generated from the relationship and
+            scoped to {targetName}&apos;s ARN.
+            {draftRule && " The network access below is allowed between their security groups only."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {draftRule && (
+            <div className="space-y-1">
+              <Label>Network access</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={draftRule.protocol}
+                  onValueChange={(value) => setDraftRule({ ...draftRule, protocol: value as NetworkProtocol })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NETWORK_PROTOCOLS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-32 font-mono"
+                  placeholder="Port"
+                  value={draftRule.protocol === "tcp" || draftRule.protocol === "udp" ? draftRule.port : ""}
+                  disabled={draftRule.protocol !== "tcp" && draftRule.protocol !== "udp"}
+                  onChange={(e) => setDraftRule({ ...draftRule, port: e.target.value })}
+                />
+                <Select
+                  value={draftRule.direction}
+                  onValueChange={(value) => setDraftRule({ ...draftRule, direction: value as TrafficDirection })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRAFFIC_DIRECTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ruleErrors.map((error) => (
+                <p key={error} className="text-xs text-red-600">
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Relationship</Label>
+            <Select value={draftRelationship} onValueChange={setDraftRelationship}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} <span className="text-muted-foreground">— {option.description}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Generated policy</Label>
+            {generated ? (
+              <pre className="max-h-56 overflow-auto rounded-md bg-muted p-3 text-xs font-mono">
+                {JSON.stringify(generated, null, 2)}
+              </pre>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                No permissions are generated for this edge: {sourceName} has no IAM role of its own, or the
+                relationship grants no access.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="edge-policy-override" checked={isOverridden} onCheckedChange={(checked) => startOverride(checked === true)} />
+            <Label htmlFor="edge-policy-override" className="font-normal">
+              Use a custom policy instead
+            </Label>
+          </div>
+
+          {isOverridden && (
+            <div className="space-y-1">
+              <Textarea
+                className="min-h-[200px] font-mono text-xs"
+                spellCheck={false}
+                value={policyText}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setPolicyText(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {"Refer to resources with Terraform expressions, e.g. ${aws_s3_bucket.assets.arn}."}
+              </p>
+              {errors.map((error) => (
+                <p key={error} className="text-xs text-red-600">
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={errors.length > 0 || ruleErrors.length > 0}
+            onClick={() => {
+              onSave({
+                relationship: draftRelationship,
+                policy: isOverridden ? (parsed as IamPolicyDocument) : undefined,
+                networkRule: draftRule || undefined,
+              })
+              onOpenChange(false)
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
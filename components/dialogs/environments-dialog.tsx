@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_ENVIRONMENTS, isValidEnvironmentName } from "@/lib/environments"
+
+interface EnvironmentsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  environments: string[]
+  onSave: (environments: string[]) => void
+}
+
+export function EnvironmentsDialog({
+  open,
+  onOpenChange,
+  environments,
+  onSave,
+}: EnvironmentsDialogProps) {
+  const [draft, setDraft] = useState<string[]>(environments)
+  const [name, setName] = useState("")
+
+  useEffect(() => {
+    if (open) {
+      setDraft(environments.length > 0 ? environments : DEFAULT_ENVIRONMENTS)
+      setName("")
+    }
+  }, [open, environments])
+
+  const trimmedName = name.trim()
+  const error = !trimmedName
+    ? null
+    : !isValidEnvironmentName(trimmedName)
+      ? "Use lowercase letters, digits, - and _, starting with a letter"
+      : draft.includes(trimmedName)
+        ? "This environment already exists"
+        : null
+
+  const addEnvironment = () => {
+    if (!trimmedName || error) return
+    setDraft([...draft, trimmedName])
+    setName("")
+  }
+
+  const removed = environments.filter((environment) => !draft.includes(environment))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Environments</DialogTitle>
+          <DialogDescription>
+            The canvas is deployed to each environment with its own workspace. Select an environment on the
+            canvas to override node settings for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {draft.map((environment) => (
+            <div key={environment} className="flex items-center justify-between rounded-md border px-3 py-1.5">
+              <span className="text-sm font-mono">{environment}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setDraft(draft.filter((item) => item !== environment))}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              placeholder="Add an environment"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addEnvironment()
+              }}
+            />
+            <Button variant="outline" disabled={!trimmedName || !!error} onClick={addEnvironment}>
+              Add
+            </Button>
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          {removed.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Overrides for {removed.join(", ")} will be removed from the canvas.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(draft)
+              onOpenChange(false)
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
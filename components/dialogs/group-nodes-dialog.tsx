@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface GroupNodesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  nodeCount: number
+  // Group the selected nodes share, if any
+  currentGroup?: string
+  // Groups already on the canvas, offered as suggestions
+  groups: string[]
+  onConfirm: (group: string | undefined) => void
+}
+
+export function GroupNodesDialog({
+  open,
+  onOpenChange,
+  nodeCount,
+  currentGroup,
+  groups,
+  onConfirm,
+}: GroupNodesDialogProps) {
+  const [name, setName] = useState(currentGroup || "")
+
+  useEffect(() => {
+    if (open) setName(currentGroup || "")
+  }, [open, currentGroup])
+
+  const confirm = (group: string | undefined) => {
+    onConfirm(group)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Group nodes</DialogTitle>
+          <DialogDescription>
+            Grouped nodes are exported together as one Terraform module when downloading modules by group.
+            Nodes outside any group are exported by category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="node-group">
+            Group for {nodeCount} node{nodeCount === 1 ? "" : "s"}
+          </Label>
+          <Input
+            id="node-group"
+            value={name}
+            placeholder="e.g. networking"
+            list="node-group-suggestions"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && name.trim()) confirm(name.trim())
+            }}
+          />
+          <datalist id="node-group-suggestions">
+            {groups.map((group) => (
+              <option key={group} value={group} />
+            ))}
+          </datalist>
+        </div>
+
+        <DialogFooter className="mt-4">
+          {currentGroup && (
+            <Button variant="outline" onClick={() => confirm(undefined)}>
+              Remove from group
+            </Button>
+          )}
+          <Button disabled={!name.trim()} onClick={() => confirm(name.trim())}>
+            Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,6 +10,10 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PlanResourceDiff } from "@/components/features/plan-resource-diff"
+import { getChangeKind } from "@/lib/terraform-plan"
+import type { PlanResourceChange } from "@/types/deployment"
 import { Copy, Check } from "lucide-react"
 import { useState } from "react"
 
@@ -17,6 +21,7 @@ interface PlanPreviewDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   planOutput: string | null
+  resourceChanges?: PlanResourceChange[] | null
   onApply?: () => void
 }
 
@@ -24,9 +29,15 @@ export function PlanPreviewDialog({
   open,
   onOpenChange,
   planOutput,
+  resourceChanges,
   onApply,
 }: PlanPreviewDialogProps) {
   const [copied, setCopied] = useState(false)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  const changedResources = (resourceChanges || []).filter(
+    (change) => showUnchanged || getChangeKind(change.actions) !== "no-op"
+  )
 
   const handleCopy = () => {
     if (planOutput) {
@@ -92,15 +103,56 @@ export function PlanPreviewDialog({
           </DialogDescription>
         </DialogHeader>
 
-        <ScrollArea className="flex-1 mt-4 border rounded-md bg-muted/50">
-          <div className="p-4">
-            {planOutput ? (
-              formatPlanOutput(planOutput)
-            ) : (
-              <p className="text-muted-foreground text-sm">No plan output available</p>
-            )}
-          </div>
-        </ScrollArea>
+        {resourceChanges ? (
+          <Tabs defaultValue="changes" className="flex-1 flex flex-col min-h-0 mt-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="changes">Resource Changes ({changedResources.length})</TabsTrigger>
+              <TabsTrigger value="output">Raw Output</TabsTrigger>
+            </TabsList>
+            <TabsContent value="changes" className="flex-1 min-h-0 flex flex-col">
+              <label className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                />
+                Show unchanged resources
+              </label>
+              <ScrollArea className="flex-1 border rounded-md bg-muted/50">
+                <div className="p-4 space-y-4">
+                  {changedResources.length > 0 ? (
+                    changedResources.map((change) => (
+                      <PlanResourceDiff key={change.address} change={change} />
+                    ))
+                  ) : (
+                    <p className="text-muted-foreground text-sm">No changes. Infrastructure matches the configuration.</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="output" className="flex-1 min-h-0">
+              <ScrollArea className="h-full border rounded-md bg-muted/50">
+                <div className="p-4">
+                  {planOutput ? (
+                    formatPlanOutput(planOutput)
+                  ) : (
+                    <p className="text-muted-foreground text-sm">No plan output available</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <ScrollArea className="flex-1 mt-4 border rounded-md bg-muted/50">
+            <div className="p-4">
+              {planOutput ? (
+                formatPlanOutput(planOutput)
+              ) : (
+                <p className="text-muted-foreground text-sm">No plan output available</p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
 
         <DialogFooter className="mt-4">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -0,0 +1,107 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import type { TargetedOperation } from "@/lib/api-service"
+
+export interface TargetGroup {
+  nodeId: string
+  label: string
+  addresses: string[]
+}
+
+interface TargetedOperationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  operation: TargetedOperation | null
+  groups: TargetGroup[]
+  onConfirm: () => void
+}
+
+const OPERATION_COPY: Record<TargetedOperation, { title: string; description: string; confirm: string }> = {
+  plan: {
+    title: "Plan selected resources",
+    description: "Terraform will plan changes for these resources only.",
+    confirm: "Run plan",
+  },
+  apply: {
+    title: "Apply selected resources",
+    description: "Terraform will plan and apply changes to these resources only. Other resources in the workspace are left as they are.",
+    confirm: "Apply",
+  },
+  destroy: {
+    title: "Destroy selected resources",
+    description: "Terraform will destroy these resources, and any resources that depend on them. This cannot be undone.",
+    confirm: "Destroy",
+  },
+}
+
+export function TargetedOperationDialog({
+  open,
+  onOpenChange,
+  operation,
+  groups,
+  onConfirm,
+}: TargetedOperationDialogProps) {
+  if (!operation) return null
+
+  const copy = OPERATION_COPY[operation]
+  const targetCount = groups.reduce((count, group) => count + group.addresses.length, 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {targetCount} target{targetCount === 1 ? "" : "s"} will be passed to terraform {operation}:
+        </p>
+        <ScrollArea className="flex-1 border rounded-md bg-muted/50">
+          <div className="p-4 space-y-3">
+            {groups.map((group) => (
+              <div key={group.nodeId}>
+                <div className="text-sm font-medium">{group.label}</div>
+                {group.addresses.length > 0 ? (
+                  group.addresses.map((address) => (
+                    <div key={address} className="font-mono text-xs text-muted-foreground">
+                      -target={address}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-xs text-muted-foreground">No Terraform resources for this node</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={operation === "destroy" ? "destructive" : "default"}
+            disabled={targetCount === 0}
+            onClick={() => {
+              onConfirm()
+              onOpenChange(false)
+            }}
+          >
+            {copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,6 +3,7 @@
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Copy, Check, FileCode, FolderDown, X } from "lucide-react"
+import { maskSensitiveCode } from "@/lib/secret-masking"
 import { useState, useEffect } from "react"
 
 interface TerraformPreviewDialogProps {
@@ -496,7 +497,8 @@ export function TerraformPreviewDialog({
             <div className="p-4">
               {getCurrentFileContent() ? (
                 <div className="text-gray-100">
-                  {formatTerraformCode(getCurrentFileContent())}
+                  {/* Secrets stay in copied and downloaded files, but are never shown on screen */}
+                  {formatTerraformCode(maskSensitiveCode(getCurrentFileContent()))}
                 </div>
               ) : (
                 <p className="text-muted-foreground text-sm">No code available for this file</p>
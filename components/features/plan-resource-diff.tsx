@@ -0,0 +1,82 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import {
+  diffResourceChange,
+  getChangeKind,
+  SENSITIVE_VALUE,
+  UNKNOWN_VALUE,
+  type PlanChangeKind,
+} from "@/lib/terraform-plan"
+import type { PlanResourceChange } from "@/types/deployment"
+
+export const planChangeStyles: Record<
+  PlanChangeKind,
+  { symbol: string; label: string; description: string; className: string }
+> = {
+  create: { symbol: "+", label: "create", description: "will be created", className: "text-green-600 dark:text-green-400" },
+  update: { symbol: "~", label: "update", description: "will be updated in-place", className: "text-yellow-600 dark:text-yellow-400" },
+  replace: { symbol: "-/+", label: "replace", description: "must be replaced", className: "text-orange-600 dark:text-orange-400" },
+  delete: { symbol: "-", label: "destroy", description: "will be destroyed", className: "text-red-600 dark:text-red-400" },
+  read: { symbol: "<=", label: "read", description: "will be read", className: "text-blue-600 dark:text-blue-400" },
+  "no-op": { symbol: " ", label: "no-op", description: "has no changes", className: "text-muted-foreground" },
+}
+
+interface PlanResourceDiffProps {
+  change: PlanResourceChange
+  // Replaces the planned-action description, e.g. for drift detected outside Terraform
+  description?: string
+  className?: string
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null) return "null"
+  return JSON.stringify(value)
+}
+
+export function PlanResourceDiff({ change, description, className }: PlanResourceDiffProps) {
+  const kind = getChangeKind(change.actions)
+  const style = planChangeStyles[kind]
+  const diffs = diffResourceChange(change)
+
+  return (
+    <div className={cn("font-mono text-sm", className)}>
+      <div className={cn("font-semibold", style.className)}>
+        {style.symbol} {change.address}
+        <span className="ml-2 text-xs font-normal text-muted-foreground">{description ?? style.description}</span>
+      </div>
+      {diffs.length === 0 ? (
+        <div className="pl-6 text-xs text-muted-foreground">No attribute changes</div>
+      ) : (
+        <div className="pl-6">
+          {diffs.map((diff) => {
+            // Sensitive and unknown values arrive as placeholder strings and are shown unquoted
+            const before = diff.sensitive ? SENSITIVE_VALUE : formatValue(diff.before)
+            const after = diff.sensitive ? SENSITIVE_VALUE : diff.unknown ? UNKNOWN_VALUE : formatValue(diff.after)
+            const symbol = diff.change === "added" ? "+" : diff.change === "removed" ? "-" : diff.change === "changed" ? "~" : " "
+            const color =
+              diff.change === "added"
+                ? "text-green-600 dark:text-green-400"
+                : diff.change === "removed"
+                  ? "text-red-600 dark:text-red-400"
+                  : diff.change === "changed"
+                    ? "text-yellow-600 dark:text-yellow-400"
+                    : "text-muted-foreground"
+
+            return (
+              <div key={diff.path} className={cn("break-all", color)}>
+                {symbol} {diff.path}
+                {diff.change === "changed" && ` = ${before} → ${after}`}
+                {diff.change === "added" && ` = ${after}`}
+                {diff.change === "removed" && ` = ${before}`}
+                {diff.forcesReplacement && (
+                  <span className="ml-2 text-xs text-orange-600 dark:text-orange-400"># forces replacement</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
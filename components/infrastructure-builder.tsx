@@ -19,8 +19,10 @@ import { ConsoleOutputDialog } from "@/components/dialogs/console-output-dialog"
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { CredentialManager } from "@/lib/credential-manager";
-import { deployInfrastructure } from "@/lib/api-service";
+import { deployInfrastructure, streamTerraformCommand } from "@/lib/api-service";
+import { TerraformProgressTracker } from "@/lib/terraform-progress";
 import type { Block, Connection } from "@/types/infrastructure";
+import type { PlanResourceChange, TerraformProgress, TerraformStreamEvent } from "@/types/deployment";
 
 // Helper function to determine provider from block type
 function getProviderFromBlockType(blockType: string): string {
@@ -85,6 +87,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
   // Terraform Generation State
   const [terraformCode, setTerraformCode] = useState<string | null>(null);
   const [planOutput, setPlanOutput] = useState<string | null>(null);
+  const [planResourceChanges, setPlanResourceChanges] = useState<PlanResourceChange[] | null>(null);
   const [showTerraformCode, setShowTerraformCode] = useState(false);
   const [showPlanPreview, setShowPlanPreview] = useState(false);
 
@@ -94,6 +97,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
   const [consoleTitle, setConsoleTitle] = useState('');
   const [consoleStatus, setConsoleStatus] = useState<'running' | 'success' | 'error' | 'idle'>('idle');
   const [isConsoleRunning, setIsConsoleRunning] = useState(false);
+  const [consoleProgress, setConsoleProgress] = useState<TerraformProgress | null>(null);
 
   const [history, setHistory] = useState<HistoryState[]>([
     { blocks: [], connections: [] },
@@ -353,6 +357,19 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
     }
   };
 
+  // Append streamed terraform output to the console as each line arrives
+  const appendConsoleEvent = (event: TerraformStreamEvent, tracker?: TerraformProgressTracker) => {
+    if (event.type === 'command') {
+      setConsoleOutput(prev => prev + `$ ${event.command}\n`);
+    } else if (event.type === 'output') {
+      setConsoleOutput(prev => prev + event.line + '\n');
+      const progress = tracker?.update(event.line);
+      if (progress) {
+        setConsoleProgress(progress);
+      }
+    }
+  };
+
   // Handle Terraform Plan
   const handlePlan = async () => {
     if (!terraformCode) {
@@ -376,6 +393,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
     // Setup console output
     setConsoleTitle('Terraform Plan');
     setConsoleOutput('Initializing Terraform plan...\n\n');
+    setConsoleProgress(null);
     setConsoleStatus('running');
     setIsConsoleRunning(true);
     setShowConsoleOutput(true);
@@ -388,21 +406,18 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
       });
 
       console.log('🚀 Calling terraform plan API...');
-      setConsoleOutput(prev => prev + '$ terraform plan\n\n');
       
-      const response = await fetch('/api/terraform/plan', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const response = await streamTerraformCommand(
+        '/api/terraform/plan',
+        {
           terraformCode,
           provider,
           credentials: {
             [provider]: credentials
           }
-        }),
-      });
+        },
+        (event) => appendConsoleEvent(event)
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -416,12 +431,12 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
         throw new Error(data.error || 'Terraform plan failed');
       }
 
-      // Display the full output in console
+      // The output was already shown line by line as it streamed
       const fullOutput = data.output || data.plan?.planOutput || '';
-      setConsoleOutput(prev => prev + fullOutput + '\n\n');
 
       // Set the plan output
       setPlanOutput(fullOutput || 'Plan completed successfully');
+      setPlanResourceChanges(data.plan?.resourceChanges || null);
       setDeploymentStage('planned');
       setConsoleStatus('success');
 
@@ -480,6 +495,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
     // Setup console output
     setConsoleTitle('Terraform Apply');
     setConsoleOutput('Initializing Terraform apply...\n\n');
+    setConsoleProgress(null);
     setConsoleStatus('running');
     setIsConsoleRunning(true);
     setShowConsoleOutput(true);
@@ -494,22 +510,20 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
       });
 
       console.log('🚀 Calling terraform apply API...');
-      setConsoleOutput(prev => prev + '$ terraform apply -auto-approve\n\n');
       
-      const response = await fetch('/api/terraform/apply', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const progressTracker = new TerraformProgressTracker();
+      const response = await streamTerraformCommand(
+        '/api/terraform/apply',
+        {
           terraformCode,
           provider,
           autoApprove: true,
           credentials: {
             [provider]: credentials
           }
-        }),
-      });
+        },
+        (event) => appendConsoleEvent(event, progressTracker)
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -523,10 +537,6 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
         throw new Error(data.error || 'Terraform apply failed');
       }
 
-      // Display the full output in console
-      const fullOutput = data.output || '';
-      setConsoleOutput(prev => prev + fullOutput + '\n\n');
-
       setDeploymentStage('applied');
       setConsoleStatus('success');
       setConsoleOutput(prev => prev + '\n✅ Infrastructure successfully deployed!\n');
@@ -612,6 +622,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
     // Clear previous error and plan output
     setDeploymentError(null);
     setPlanOutput(null);
+    setPlanResourceChanges(null);
 
     // Check if there are any blocks to deploy
     if (blocks.length === 0) {
@@ -1040,6 +1051,7 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
         open={showPlanPreview}
         onOpenChange={setShowPlanPreview}
         planOutput={planOutput}
+        resourceChanges={planResourceChanges}
       />
 
       {/* Console Output Dialog */}
@@ -1050,11 +1062,12 @@ export function InfrastructureBuilder({ projectId: initialProjectId, onBackToHom
         output={consoleOutput}
         isRunning={isConsoleRunning}
         status={consoleStatus}
-        enableStreaming={true}
+        progress={consoleProgress}
         onClear={() => {
           setConsoleOutput('')
           setConsoleTitle('')
           setConsoleStatus('idle')
+          setConsoleProgress(null)
         }}
       />
     </div>
@@ -1,6 +1,7 @@
 "use client"
 
 import { CreateProjectDialog } from "@/components/dialogs/create-project-dialog"
+import { PlanResourceDiff } from "@/components/features/plan-resource-diff"
 import { ProjectView } from "@/components/layout/project-view"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -13,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import {
   Select,
   SelectContent,
@@ -21,11 +23,14 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { CredentialManager, type AWSCredentials, type AzureCredentials, type GCPCredentials } from "@/lib/credential-manager"
-import { testCredentials } from "@/lib/api-service"
+import { checkStaleDrift, DRIFT_CHECK_INTERVAL_MS, getAllWorkspaces, runDriftAction, testCredentials } from "@/lib/api-service"
 // Remove the separate persistence import - we'll use localStorage directly
+import { getChangeKind } from "@/lib/terraform-plan"
 import { cn } from "@/lib/utils"
+import type { TerraformWorkspace } from "@/types/deployment"
 import Image from "next/image"
 import {
+  AlertTriangle,
   Brain,
   Copy,
   Edit,
@@ -34,6 +39,7 @@ import {
   Home,
   MoreHorizontal,
   Plus,
+  ScanSearch,
   Settings,
   Shield,
   Trash2
@@ -57,6 +63,58 @@ interface Project {
   }
 }
 
+// Drift indicator for a project card, with the drifted resources in a popover
+function ProjectDriftStatus({ workspace, checkingDriftId }: { workspace?: TerraformWorkspace; checkingDriftId: string | null }) {
+  const drift = workspace?.drift
+  if (!workspace || !drift) return null
+
+  const isChecking = checkingDriftId === workspace.id
+  const checkedAt = new Date(drift.checkedAt).toLocaleString()
+
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">Drift</span>
+      {isChecking ? (
+        <span className="text-xs text-muted-foreground">Checking...</span>
+      ) : drift.status === "drifted" ? (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button onClick={(e) => e.stopPropagation()}>
+              <Badge className="text-xs bg-amber-600 hover:bg-amber-700 text-white">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                Drifted ({drift.resources.length})
+              </Badge>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="w-[480px] max-h-96 overflow-y-auto space-y-3"
+            align="end"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <p className="text-xs text-muted-foreground">
+              Changed outside Cloudist (checked {checkedAt}). Open the project to accept the drift or re-apply.
+            </p>
+            {drift.resources.map((change) => (
+              <PlanResourceDiff
+                key={change.address}
+                change={change}
+                description={getChangeKind(change.actions) === "delete" ? "was deleted outside Cloudist" : "changed outside Cloudist"}
+                className="text-xs"
+              />
+            ))}
+          </PopoverContent>
+        </Popover>
+      ) : drift.status === "error" ? (
+        <Badge variant="outline" className="text-xs text-destructive border-destructive" title={drift.error}>
+          Check failed
+        </Badge>
+      ) : (
+        <span className="text-xs text-muted-foreground" title={`Checked ${checkedAt}`}>In sync</span>
+      )}
+    </div>
+  )
+}
+
 export function Dashboard() {
   const [projects, setProjects] = useState<Project[]>([])
   const [selectedProject, setSelectedProject] = useState<Project | null>(null)
@@ -64,6 +122,8 @@ export function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("")
   const [showCreateDialog, setShowCreateDialog] = useState(false)
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null)
+  const [deployedWorkspaces, setDeployedWorkspaces] = useState<TerraformWorkspace[]>([])
+  const [checkingDriftId, setCheckingDriftId] = useState<string | null>(null)
   
   // Credential states
   const [awsCredentials, setAwsCredentials] = useState<Partial<AWSCredentials>>({})
@@ -162,6 +222,47 @@ export function Dashboard() {
     loadCredentials()
   }, [])
 
+  // Check deployed projects for drift on load, then again whenever their last check goes stale
+  useEffect(() => {
+    let cancelled = false
+    const runScheduledChecks = async () => {
+      const checked = await checkStaleDrift()
+      if (!cancelled) setDeployedWorkspaces(checked)
+    }
+
+    getAllWorkspaces().then((workspaces) => {
+      if (cancelled) return
+      setDeployedWorkspaces(workspaces)
+      runScheduledChecks()
+    })
+    const interval = setInterval(runScheduledChecks, DRIFT_CHECK_INTERVAL_MS / 4)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  // The most recent active deployment of a project
+  const getProjectWorkspace = (projectId: string) =>
+    deployedWorkspaces
+      .filter((workspace) => workspace.projectId === projectId && workspace.status === "active")
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0]
+
+  const handleCheckDrift = async (workspace: TerraformWorkspace) => {
+    setCheckingDriftId(workspace.id)
+    try {
+      const result = await runDriftAction(workspace.id, "check")
+      if (result.workspace) {
+        const updated = result.workspace
+        setDeployedWorkspaces((workspaces) => workspaces.map((w) => (w.id === updated.id ? updated : w)))
+      } else if (!result.success) {
+        console.error("Drift check failed:", result.error)
+      }
+    } finally {
+      setCheckingDriftId(null)
+    }
+  }
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -435,6 +536,19 @@ export function Dashboard() {
                                    <Copy className="w-4 h-4 mr-2" />
                                    Duplicate
                                  </div>
+                                 {getProjectWorkspace(project.id) && (
+                                   <div
+                                     className="flex items-center px-3 py-2 text-sm hover:bg-accent cursor-pointer"
+                                     onClick={(e) => {
+                                       e.stopPropagation()
+                                       setOpenDropdownId(null)
+                                       handleCheckDrift(getProjectWorkspace(project.id))
+                                     }}
+                                   >
+                                     <ScanSearch className="w-4 h-4 mr-2" />
+                                     Check drift
+                                   </div>
+                                 )}
                                  <div className="border-t border-border my-1"></div>
                                  <div
                                    className="flex items-center px-3 py-2 text-sm hover:bg-accent cursor-pointer text-destructive"
@@ -471,6 +585,7 @@ export function Dashboard() {
                               </Badge>
                             </div>
                           )}
+                          <ProjectDriftStatus workspace={getProjectWorkspace(project.id)} checkingDriftId={checkingDriftId} />
                         </div>
                       </CardContent>
                     </Card>
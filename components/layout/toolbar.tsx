@@ -1,6 +1,6 @@
 "use client"
 
-import { Save, Code, Rocket, Undo2, Redo2, CheckCircle, Eye, FileCode, Loader2, Brain } from "lucide-react"
+import { Save, Code, Rocket, Undo2, Redo2, CheckCircle, Eye, FileCode, FileSearch, Loader2, Brain } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useState, useEffect } from "react"
 
@@ -13,10 +13,12 @@ interface ToolbarProps {
   onViewPreview?: () => void
   onViewCode?: () => void
   onAIReview?: () => void
+  onPlan?: () => void
   canUndo?: boolean
   canRedo?: boolean
   deploymentStage: 'none' | 'generated' | 'planned' | 'applying' | 'applied'
   isGeneratingCode?: boolean
+  isPlanning?: boolean
 }
 
 export function Toolbar({ 
@@ -28,10 +30,12 @@ export function Toolbar({
   onViewPreview,
   onViewCode,
   onAIReview,
+  onPlan,
   canUndo, 
   canRedo,
   deploymentStage,
-  isGeneratingCode 
+  isGeneratingCode,
+  isPlanning
 }: ToolbarProps) {
   // Detect if user is on Mac - use state to avoid hydration mismatch
   const [isMac, setIsMac] = useState(false)
@@ -90,6 +94,25 @@ export function Toolbar({
             Code Review
           </Button>
         )}
+        {onPlan && (
+          <Button 
+            variant="outline"
+            onClick={onPlan}
+            disabled={deploymentStage === 'applying' || isPlanning}
+          >
+            {isPlanning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Planning...
+              </>
+            ) : (
+              <>
+                <FileSearch className="w-4 h-4 mr-2" />
+                Plan
+              </>
+            )}
+          </Button>
+        )}
         <Button 
           variant="outline"
           onClick={onGenerateCode}
@@ -5,18 +5,28 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { ConfigLoader, ServiceConfig } from "@/lib/config-loader"
-import { ConfigurationPanelProps } from "@/types"
-import { Info, MoreHorizontal, Save, Undo, X } from "lucide-react"
+import { getSchemaKey, validateConfig } from "@/lib/config-validator"
+import { MASKED_VALUE } from "@/lib/secret-masking"
+import { LambdaSourceEditor } from "@/components/panels/lambda-source-editor"
+import { NetworkPlanSummary } from "@/components/panels/network-plan-summary"
+import { ConfigField, ConfigurationPanelProps } from "@/types"
+import { Info, MoreHorizontal, Save, Undo, Variable, X } from "lucide-react"
 import { useEffect, useState } from "react"
 
 export function ConfigurationPanel({ 
   isOpen, 
   onClose, 
   nodeData, 
+  environment,
+  baseConfig,
   serviceConfig, 
   onConfigUpdate,
+  onParametersUpdate,
+  onSourceUpdate,
+  otherVpcs,
   onSave 
 }: ConfigurationPanelProps) {
   const [config, setConfig] = useState<Record<string, any>>(nodeData?.config || {})
@@ -24,6 +34,10 @@ export function ConfigurationPanel({
   const [loadedServiceConfig, setLoadedServiceConfig] = useState<ServiceConfig | null>(null)
   const [loading, setLoading] = useState(false)
 
+  // Switching environments shows that environment's values
+  useEffect(() => {
+    setConfig(nodeData?.config || {})
+  }, [environment])
   
   useEffect(() => {
     const loadConfig = async () => {
@@ -31,7 +45,8 @@ export function ConfigurationPanel({
       
       setLoading(true)
       try {
-        const config = await ConfigLoader.loadServiceConfig(nodeData.provider, nodeData.id)
+        const key = getSchemaKey(nodeData.provider, nodeData.id)
+        const config = await ConfigLoader.loadServiceConfig(key.provider, key.serviceId)
         setLoadedServiceConfig(config)
       } catch (error) {
         console.error('Failed to load service config:', error)
@@ -52,21 +67,39 @@ export function ConfigurationPanel({
   const currentServiceConfig = serviceConfig || loadedServiceConfig
 
   const configSchema = currentServiceConfig?.configSchema || {}
+  // Deploys are blocked until these are fixed
+  const fieldErrors: Record<string, string> = Object.fromEntries(
+    validateConfig(configSchema, config).map((error) => [error.field, error.message])
+  )
   const filteredSchema = Object.entries(configSchema).filter(([key, fieldConfig]: [string, any]) => {
     if (!searchTerm) return true
     return fieldConfig.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
            key.toLowerCase().includes(searchTerm.toLowerCase())
   })
 
-  const updateConfig = (key: string, value: string) => {
-    const newConfig = { ...config, [key]: value }
+  const updateConfig = (key: string, value: any) => {
+    updateConfigValues({ [key]: value })
+  }
+
+  const updateConfigValues = (changes: Record<string, any>) => {
+    const newConfig = { ...config, ...changes }
     setConfig(newConfig)
     onConfigUpdate(newConfig)
   }
 
+  const parameters = nodeData.parameters || {}
+
+  // A parameterized field keeps its schema so the variable gets its type and validation
+  const toggleParameter = (key: string, fieldConfig: ConfigField) => {
+    const { [key]: current, ...others } = parameters
+    onParametersUpdate?.(current ? others : { ...others, [key]: fieldConfig })
+  }
+
   const renderConfigField = (key: string, fieldConfig: any) => {
     const value = config[key] || fieldConfig.default || ""
     const isRequired = fieldConfig.required || false
+    const isOverridden = !!environment && !!baseConfig && config[key] !== undefined && config[key] !== baseConfig[key]
+    const isParameterized = !!parameters[key]
 
     const renderField = () => {
       switch (fieldConfig.type) {
@@ -77,6 +110,12 @@ export function ConfigurationPanel({
                 <SelectValue placeholder={`Select ${fieldConfig.label}`} />
               </SelectTrigger>
               <SelectContent>
+                {/* Keep a deprecated option selectable until the user picks another */}
+                {fieldConfig.deprecatedOptions?.includes(value) && (
+                  <SelectItem value={value}>
+                    {value} (deprecated)
+                  </SelectItem>
+                )}
                 {fieldConfig.options?.map((option: string) => (
                   <SelectItem key={option} value={option}>
                     {option}
@@ -144,6 +183,18 @@ export function ConfigurationPanel({
               />
             )
           }
+          if (fieldConfig.secret) {
+            return (
+              <Input
+                type="password"
+                autoComplete="new-password"
+                className="h-8"
+                value={value}
+                onChange={(e) => updateConfig(key, e.target.value)}
+                placeholder={isRequired ? undefined : "Generated when left empty"}
+              />
+            )
+          }
           return (
             <Input
               className="h-8"
@@ -167,11 +218,41 @@ export function ConfigurationPanel({
               <Info className="w-4 h-4 text-gray-400" />
             </div>
           )}
+          {isOverridden && (
+            <>
+              <span className="ml-auto text-[10px] font-medium text-blue-700 bg-blue-50 rounded px-1.5 py-0.5">
+                {environment}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1 text-gray-500"
+                title={`Use the base value: ${fieldConfig.secret ? MASKED_VALUE : baseConfig?.[key] ?? fieldConfig.default ?? "(none)"}`}
+                onClick={() => updateConfig(key, baseConfig?.[key])}
+              >
+                <Undo className="w-3 h-3" />
+              </Button>
+            </>
+          )}
+          {onParametersUpdate && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-5 px-1 ${isParameterized ? "text-purple-700 bg-purple-50" : "text-gray-400"} ${isOverridden ? "" : "ml-auto"}`}
+              title={isParameterized
+                ? "Terraform variable, defaulting to this value. Click to use the value directly."
+                : "Parameterize: make this a Terraform variable"}
+              onClick={() => toggleParameter(key, fieldConfig)}
+            >
+              <Variable className="w-3 h-3" />
+            </Button>
+          )}
         </div>
         {fieldConfig.description && (
           <p className="text-xs text-gray-500">{fieldConfig.description}</p>
         )}
         {renderField()}
+        {fieldErrors[key] && <p className="text-xs text-red-600">{fieldErrors[key]}</p>}
       </div>
     )
   }
@@ -197,6 +278,66 @@ export function ConfigurationPanel({
     }
   }
 
+  const showSourceEditor = nodeData.id === "lambda" && !!onSourceUpdate
+
+  const configurationContent = (
+    <div className="space-y-4">
+      {/* Required Parameters Section */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm text-gray-900">Required parameters</h4>
+          <div className="w-4 h-4 bg-gray-100 rounded flex items-center justify-center">
+            <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
+          </div>
+        </div>
+        
+        {/* Resource Name */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-900">Resource name</Label>
+          <Input
+            value={nodeData.name}
+            className="h-8 bg-gray-50"
+            readOnly
+          />
+          <p className="text-xs text-gray-500">This name is used to create Terraform resource.</p>
+        </div>
+
+        {/* Region */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-900">Region</Label>
+          <Input
+            value="US East (N. Virginia)"
+            className="h-8 bg-gray-50"
+            readOnly
+          />
+          <p className="text-xs text-gray-500">us-east-1</p>
+        </div>
+
+        {/* Dynamic Configuration Fields */}
+        {filteredSchema.map(([key, fieldConfig]) => renderConfigField(key, fieldConfig))}
+      </div>
+
+      {nodeData.id === "vpc" && nodeData.provider === "aws" && <NetworkPlanSummary config={config} otherVpcs={otherVpcs || []} />}
+
+      {/* Deployed Attributes Section (read back from terraform.tfstate) */}
+      {nodeData.stateAttributes && Object.keys(nodeData.stateAttributes).length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-gray-200">
+          <h4 className="font-medium text-sm text-gray-900">Deployed attributes</h4>
+          {Object.entries(nodeData.stateAttributes)
+            .filter(([key]) => !searchTerm || key.toLowerCase().includes(searchTerm.toLowerCase()))
+            .map(([key, value]) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs font-medium text-gray-700">{key}</Label>
+                <p className="text-xs text-gray-500 font-mono break-all">
+                  {typeof value === "object" ? JSON.stringify(value) : String(value)}
+                </p>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+
   return (
     <div className="w-80 bg-white border-l border-gray-200 h-full flex flex-col">
       {/* Header */}
@@ -225,6 +366,13 @@ export function ConfigurationPanel({
           </div>
         </div>
 
+        {environment && (
+          <p className="mb-3 text-xs text-blue-700 bg-blue-50 rounded px-2 py-1">
+            Showing the values used in <span className="font-medium">{environment}</span>. Changes override the
+            base configuration for this environment only.
+          </p>
+        )}
+
         {/* Search */}
         <div className="relative">
           <Input
@@ -238,42 +386,24 @@ export function ConfigurationPanel({
 
       {/* Configuration Content */}
       <div className="flex-1 overflow-y-auto p-4">
-        <div className="space-y-4">
-          {/* Required Parameters Section */}
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <h4 className="font-medium text-sm text-gray-900">Required parameters</h4>
-              <div className="w-4 h-4 bg-gray-100 rounded flex items-center justify-center">
-                <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
-              </div>
-            </div>
-            
-            {/* Resource Name */}
-            <div className="space-y-2">
-              <Label className="text-sm font-medium text-gray-900">Resource name</Label>
-              <Input
-                value={nodeData.name}
-                className="h-8 bg-gray-50"
-                readOnly
-              />
-              <p className="text-xs text-gray-500">This name is used to create Terraform resource.</p>
-            </div>
-
-            {/* Region */}
-            <div className="space-y-2">
-              <Label className="text-sm font-medium text-gray-900">Region</Label>
-              <Input
-                value="US East (N. Virginia)"
-                className="h-8 bg-gray-50"
-                readOnly
+        {showSourceEditor ? (
+          <Tabs defaultValue="configuration">
+            <TabsList className="w-full mb-4">
+              <TabsTrigger value="configuration" className="flex-1">Configuration</TabsTrigger>
+              <TabsTrigger value="code" className="flex-1">Code</TabsTrigger>
+            </TabsList>
+            <TabsContent value="configuration">{configurationContent}</TabsContent>
+            <TabsContent value="code">
+              <LambdaSourceEditor
+                runtime={config.runtime || "nodejs18.x"}
+                handler={config.handler}
+                source={nodeData.source}
+                onConfigChange={updateConfigValues}
+                onSourceChange={onSourceUpdate!}
               />
-              <p className="text-xs text-gray-500">us-east-1</p>
-            </div>
-
-            {/* Dynamic Configuration Fields */}
-            {filteredSchema.map(([key, fieldConfig]) => renderConfigField(key, fieldConfig))}
-          </div>
-        </div>
+            </TabsContent>
+          </Tabs>
+        ) : configurationContent}
       </div>
     </div>
   )
@@ -4,24 +4,48 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { cancelDeployment, getAllDeployments } from "@/lib/api-service"
+import { cancelDeployment, forceUnlockWorkspace, getAllDeployments, loadDeploymentHistory } from "@/lib/api-service"
+import { getProgressPercent } from "@/lib/terraform-progress"
 import type { DeploymentStatus } from "@/types/deployment"
 import {
   CheckCircle,
   Clock,
   Download,
+  Lock,
   Play,
   RefreshCw,
   Trash2,
   XCircle
 } from "lucide-react"
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 
 interface DeploymentStatusPanelProps {
   isOpen: boolean
   onClose: () => void
 }
 
+const isActive = (deployment: DeploymentStatus) =>
+  ['pending', 'initializing', 'planning', 'applying', 'destroying'].includes(deployment.status)
+
+// Tail of a running deployment's streamed terraform output, kept scrolled to the newest line
+function LiveLogs({ logs }: { logs: string[] }) {
+  const logsRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (logsRef.current) {
+      logsRef.current.scrollTop = logsRef.current.scrollHeight
+    }
+  }, [logs.length])
+
+  return (
+    <div ref={logsRef} className="bg-slate-950 p-2 rounded text-xs font-mono text-green-400 max-h-48 overflow-y-auto">
+      {logs.slice(-200).map((log, index) => (
+        <div key={index} className="whitespace-pre-wrap break-words">{log}</div>
+      ))}
+    </div>
+  )
+}
+
 export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanelProps) {
   const [deployments, setDeployments] = useState<DeploymentStatus[]>([])
   const [refreshing, setRefreshing] = useState(false)
@@ -32,10 +56,22 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
     }
   }, [isOpen])
 
-  const loadDeployments = () => {
+  // Deployments update in place as terraform output streams in, so poll while any are running
+  const hasActiveDeployments = deployments.some(isActive)
+  useEffect(() => {
+    if (!isOpen || !hasActiveDeployments) return
+
+    const interval = setInterval(() => {
+      setDeployments(getAllDeployments())
+    }, 500)
+    return () => clearInterval(interval)
+  }, [isOpen, hasActiveDeployments])
+
+  const loadDeployments = async () => {
     setRefreshing(true)
     try {
-      const allDeployments = getAllDeployments()
+      // Includes deployments from earlier sessions saved on the server
+      const allDeployments = await loadDeploymentHistory()
       setDeployments(allDeployments)
     } catch (error) {
       console.error('Failed to load deployments:', error)
@@ -112,6 +148,22 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
     }
   }
 
+  const handleForceUnlock = async (deployment: DeploymentStatus) => {
+    const lock = deployment.conflictingLock
+    if (!lock) return
+
+    const confirmed = window.confirm(
+      `Force-release the ${lock.operation} lock on workspace ${lock.workspaceId}? ` +
+      `Only do this if that operation is no longer running, or its state may be corrupted.`
+    )
+    if (!confirmed) return
+
+    const released = await forceUnlockWorkspace(deployment.id)
+    if (released) {
+      setDeployments(getAllDeployments())
+    }
+  }
+
   const downloadLogs = (deployment: DeploymentStatus) => {
     const logContent = deployment.logs.join('\n')
     const blob = new Blob([logContent], { type: 'text/plain' })
@@ -184,7 +236,7 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
                           <Badge className={getStatusColor(deployment.status)}>
                             {deployment.status}
                           </Badge>
-                          {(deployment.status === 'pending' || deployment.status === 'initializing' || deployment.status === 'planning' || deployment.status === 'applying') && (
+                          {isActive(deployment) && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -209,10 +261,10 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
                     <CardContent className="pt-0">
                       <div className="space-y-3">
                         {/* Progress bar for active deployments */}
-                        {(deployment.status === 'initializing' || deployment.status === 'planning' || deployment.status === 'applying' || deployment.status === 'pending') && (
+                        {isActive(deployment) && (
                           <div>
                             <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
-                              <span>{deployment.message}</span>
+                              <span className="truncate">{deployment.message}</span>
                               <span>{deployment.progress}%</span>
                             </div>
                             <div className="w-full bg-gray-200 rounded-full h-1.5">
@@ -221,6 +273,21 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
                                 style={{ width: `${deployment.progress}%` }}
                               ></div>
                             </div>
+                            {deployment.resourceProgress && (
+                              <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+                                <span className="truncate">
+                                  {deployment.resourceProgress.inProgress.length > 0
+                                    ? `In progress: ${deployment.resourceProgress.inProgress.join(', ')}`
+                                    : 'Waiting for Terraform...'}
+                                </span>
+                                <span className="flex-shrink-0 ml-2">
+                                  {deployment.resourceProgress.completed}
+                                  {deployment.resourceProgress.total !== undefined && ` / ${deployment.resourceProgress.total}`} resources
+                                  {getProgressPercent(deployment.resourceProgress) !== null &&
+                                    ` (${getProgressPercent(deployment.resourceProgress)}%)`}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         )}
 
@@ -232,6 +299,30 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
                           </div>
                         )}
 
+                        {/* Lock held by another operation */}
+                        {deployment.conflictingLock && (
+                          <div className="flex items-center justify-between gap-2 text-sm text-amber-800 bg-amber-50 p-2 rounded">
+                            <div className="flex items-start gap-2">
+                              <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              <div>
+                                <div className="font-medium">
+                                  Workspace locked by a {deployment.conflictingLock.operation} operation
+                                </div>
+                                <div className="text-xs">
+                                  Held by {deployment.conflictingLock.holder} since {formatDate(deployment.conflictingLock.startedAt)}
+                                </div>
+                              </div>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleForceUnlock(deployment)}
+                            >
+                              Force unlock
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Outputs */}
                         {deployment.outputs && Object.keys(deployment.outputs).length > 0 && (
                           <div className="text-sm">
@@ -247,8 +338,16 @@ export function DeploymentStatusPanel({ isOpen, onClose }: DeploymentStatusPanel
                           </div>
                         )}
 
+                        {/* Live output while terraform is running */}
+                        {isActive(deployment) && deployment.logs.length > 0 && (
+                          <div className="text-sm">
+                            <div className="font-medium text-gray-900 mb-1">Live Output:</div>
+                            <LiveLogs logs={deployment.logs} />
+                          </div>
+                        )}
+
                         {/* Recent logs */}
-                        {deployment.logs.length > 0 && (
+                        {!isActive(deployment) && deployment.logs.length > 0 && (
                           <div className="text-sm">
                             <div className="font-medium text-gray-900 mb-1">Recent Logs:</div>
                             <div className="bg-gray-50 p-2 rounded text-xs max-h-20 overflow-y-auto">
@@ -0,0 +1,200 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  LAMBDA_RUNTIMES,
+  getDefaultHandler,
+  getLambdaSource,
+  isCompiledRuntime,
+  validateLambdaSource,
+} from "@/lib/lambda-source"
+import { LambdaSource } from "@/types"
+import { AlertTriangle, CheckCircle2, FileCode, FolderOpen, Plus, Trash2 } from "lucide-react"
+import { useState } from "react"
+
+interface LambdaSourceEditorProps {
+  runtime: string
+  handler?: string
+  // The node's edited source; without one the runtime's starter function is packaged
+  source?: LambdaSource
+  onConfigChange: (changes: Record<string, any>) => void
+  onSourceChange: (source: LambdaSource) => void
+}
+
+export function LambdaSourceEditor({ runtime, handler, source, onConfigChange, onSourceChange }: LambdaSourceEditorProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  const current = getLambdaSource(runtime, source)
+  const isDirectory = current.directory !== undefined
+  const files = current.files
+  const selectedFile = files[Math.min(selectedIndex, files.length - 1)]
+  const errors = validateLambdaSource(runtime, handler, source)
+
+  const changeRuntime = (value: string) => {
+    // A handler left at the old runtime's default follows the new runtime
+    const keepHandler = handler && handler !== getDefaultHandler(runtime)
+    onConfigChange({ runtime: value, ...(!keepHandler && { handler: getDefaultHandler(value) }) })
+  }
+
+  const updateFile = (index: number, changes: { filename?: string; content?: string }) => {
+    onSourceChange({ files: files.map((file, i) => (i === index ? { ...file, ...changes } : file)) })
+  }
+
+  const addFile = () => {
+    const extension = runtime.startsWith("python") ? "py" : "js"
+    let name = `module.${extension}`
+    for (let i = 2; files.some((file) => file.filename === name); i++) {
+      name = `module${i}.${extension}`
+    }
+    onSourceChange({ files: [...files, { filename: name, content: "" }] })
+    setSelectedIndex(files.length)
+  }
+
+  const removeFile = (index: number) => {
+    onSourceChange({ files: files.filter((_, i) => i !== index) })
+    setSelectedIndex(Math.max(0, index - 1))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-900">Runtime</Label>
+        <Select value={runtime} onValueChange={changeRuntime}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {/* Keep a deprecated runtime selectable until the user picks another */}
+            {(LAMBDA_RUNTIMES.includes(runtime) ? LAMBDA_RUNTIMES : [runtime, ...LAMBDA_RUNTIMES]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-900">Handler</Label>
+        <Input
+          className="h-8 font-mono text-xs"
+          value={handler || ""}
+          placeholder={getDefaultHandler(runtime)}
+          onChange={(e) => onConfigChange({ handler: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-900">Source</Label>
+        <div className="flex gap-2">
+          <Button
+            variant={isDirectory ? "outline" : "secondary"}
+            size="sm"
+            className="h-7 flex-1"
+            disabled={isCompiledRuntime(runtime) && !isDirectory}
+            onClick={() => onSourceChange({ files })}
+          >
+            <FileCode className="w-3 h-3 mr-1" />
+            Files
+          </Button>
+          <Button
+            variant={isDirectory ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 flex-1"
+            onClick={() => onSourceChange({ files, directory: current.directory || "" })}
+          >
+            <FolderOpen className="w-3 h-3 mr-1" />
+            Directory
+          </Button>
+        </div>
+      </div>
+
+      {isDirectory ? (
+        <div className="space-y-2">
+          <Input
+            className="h-8 font-mono text-xs"
+            value={current.directory}
+            placeholder="/path/to/function"
+            onChange={(e) => onSourceChange({ files, directory: e.target.value })}
+          />
+          <p className="text-xs text-gray-500">
+            Absolute path on the machine running Terraform. Everything in it is packaged as it is, so compiled
+            runtimes need the built function there.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {files.map((file, index) => (
+              <button
+                key={index}
+                onClick={() => setSelectedIndex(index)}
+                className={`px-2 py-1 rounded text-xs font-mono border ${
+                  file === selectedFile
+                    ? "bg-purple-600 text-white border-purple-600"
+                    : "bg-gray-50 text-gray-700 border-gray-200 hover:border-purple-400"
+                }`}
+              >
+                {file.filename || "untitled"}
+              </button>
+            ))}
+            <Button variant="ghost" size="sm" className="h-6 px-1 text-gray-500" title="Add a file" onClick={addFile}>
+              <Plus className="w-3 h-3" />
+            </Button>
+          </div>
+
+          {selectedFile && (
+            <>
+              <div className="flex items-center gap-1">
+                <Input
+                  className="h-7 font-mono text-xs"
+                  value={selectedFile.filename}
+                  onChange={(e) => updateFile(files.indexOf(selectedFile), { filename: e.target.value })}
+                />
+                {files.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-1 text-gray-500 hover:text-red-600"
+                    title="Remove this file"
+                    onClick={() => removeFile(files.indexOf(selectedFile))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                className="min-h-[320px] font-mono text-xs whitespace-pre"
+                spellCheck={false}
+                value={selectedFile.content}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  updateFile(files.indexOf(selectedFile), { content: e.target.value })
+                }
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 ? (
+        <div className="space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="flex items-start gap-1 text-xs text-red-600">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-green-700">
+          <CheckCircle2 className="w-3 h-3" />
+          {isDirectory ? "The directory is packaged when Terraform runs" : `${files.length} file${files.length === 1 ? "" : "s"} packaged into the deployment archive`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { NetworkInfrastructureGenerator } from "@/lib/network-infrastructure-generator"
+import { AlertTriangle } from "lucide-react"
+
+interface NetworkPlanSummaryProps {
+  config: Record<string, any>
+  // The canvas's other VPCs, checked for CIDR blocks overlapping this one
+  otherVpcs: { name: string; cidrBlock: string }[]
+}
+
+const NAT_DESCRIPTIONS: Record<string, string> = {
+  single: "One NAT gateway shared by all private subnets",
+  per_az: "A NAT gateway in each availability zone",
+  none: "No NAT gateway; private subnets can't reach the internet",
+}
+
+export function NetworkPlanSummary({ config, otherVpcs }: NetworkPlanSummaryProps) {
+  const plan = NetworkInfrastructureGenerator.planNetwork(NetworkInfrastructureGenerator.getPlanOptions("vpc", config))
+  const overlapping = NetworkInfrastructureGenerator.findOverlappingVpcs(plan.cidrBlock, otherVpcs)
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-200">
+      <h4 className="font-medium text-sm text-gray-900">Subnets</h4>
+
+      {[...plan.errors, ...overlapping.map((name) => `${plan.cidrBlock} overlaps ${name}, so the two VPCs can't be peered`)].map((error) => (
+        <p key={error} className="flex items-start gap-1 text-xs text-red-600">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {error}
+        </p>
+      ))}
+
+      {plan.subnets.length > 0 && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium pb-1">Tier</th>
+                <th className="font-medium pb-1">Zone</th>
+                <th className="font-medium pb-1">CIDR block</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.subnets.map((subnet) => (
+                <tr key={subnet.name} className="text-gray-700">
+                  <td className="py-0.5 capitalize">{subnet.tier}</td>
+                  <td className="py-0.5">{String.fromCharCode(97 + subnet.zone)}</td>
+                  <td className="py-0.5 font-mono">{subnet.cidrBlock}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {plan.tiers.includes("private") && <p className="text-xs text-gray-500">{NAT_DESCRIPTIONS[plan.natGateways]}</p>}
+          <p className="text-xs text-gray-500">
+            Databases go in the {NetworkInfrastructureGenerator.getSubnetTier("rds", plan.tiers)} subnets and functions in
+            the {NetworkInfrastructureGenerator.getSubnetTier("lambda", plan.tiers)} ones.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
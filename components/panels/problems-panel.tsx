@@ -0,0 +1,62 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import type { ArchitectureFix, ArchitectureProblem } from "@/components/utils/connection-validator"
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp } from "lucide-react"
+import { useState } from "react"
+
+interface ProblemsPanelProps {
+  problems: ArchitectureProblem[]
+  onFix: (fix: ArchitectureFix) => void
+  // Bring the problem's nodes into view
+  onShow: (problem: ArchitectureProblem) => void
+}
+
+export function ProblemsPanel({ problems, onFix, onShow }: ProblemsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className="w-96 rounded-lg border border-border bg-card text-card-foreground shadow-lg">
+      <button
+        className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span className="flex items-center gap-2">
+          {problems.length > 0 ? (
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4 text-green-500" />
+          )}
+          Problems
+          <span className="text-muted-foreground">{problems.length}</span>
+        </span>
+        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="max-h-72 overflow-y-auto border-t border-border">
+          {problems.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">The architecture has no problems.</p>
+          ) : (
+            problems.map((problem) => (
+              <div key={problem.id} className="space-y-1 border-b border-border px-3 py-2 last:border-b-0">
+                <button className="text-left text-xs hover:underline" onClick={() => onShow(problem)}>
+                  {problem.message}
+                </button>
+                {problem.fixes.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {problem.fixes.map((fix) => (
+                      <Button key={fix.label} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onFix(fix)}>
+                        {fix.label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
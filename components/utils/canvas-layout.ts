@@ -0,0 +1,63 @@
+import type { Edge } from "@xyflow/react"
+
+export interface LayoutOptions {
+  origin?: { x: number; y: number }
+  columnSpacing?: number
+  rowSpacing?: number
+}
+
+/**
+ * Lay nodes out in columns so that every edge points left-to-right.
+ * Each node is placed one column after the furthest node it depends on;
+ * nodes caught in a cycle fall back to the first column.
+ */
+export function layoutLayered(
+  nodeIds: string[],
+  edges: Pick<Edge, "source" | "target">[],
+  options: LayoutOptions = {},
+): Record<string, { x: number; y: number }> {
+  const origin = options.origin || { x: 100, y: 100 }
+  const columnSpacing = options.columnSpacing ?? 280
+  const rowSpacing = options.rowSpacing ?? 160
+
+  const ids = new Set(nodeIds)
+  const incoming: Record<string, string[]> = {}
+  nodeIds.forEach((id) => (incoming[id] = []))
+  edges.forEach((edge) => {
+    if (ids.has(edge.source) && ids.has(edge.target) && edge.source !== edge.target) {
+      incoming[edge.target].push(edge.source)
+    }
+  })
+
+  const layers: Record<string, number> = {}
+  const visiting = new Set<string>()
+
+  const layerOf = (id: string): number => {
+    if (layers[id] !== undefined) return layers[id]
+    if (visiting.has(id)) return 0
+    visiting.add(id)
+    const layer = incoming[id].reduce((max, source) => Math.max(max, layerOf(source) + 1), 0)
+    visiting.delete(id)
+    layers[id] = layer
+    return layer
+  }
+
+  const columns: string[][] = []
+  nodeIds.forEach((id) => {
+    const layer = layerOf(id)
+    columns[layer] = columns[layer] || []
+    columns[layer].push(id)
+  })
+
+  const positions: Record<string, { x: number; y: number }> = {}
+  columns.forEach((column, layer) => {
+    column.forEach((id, row) => {
+      positions[id] = {
+        x: origin.x + layer * columnSpacing,
+        y: origin.y + row * rowSpacing,
+      }
+    })
+  })
+
+  return positions
+}
@@ -1,3 +1,5 @@
+import type { Edge, Node } from "@xyflow/react"
+
 export interface ConnectionRule {
   sourceType: string
   targetType: string
@@ -78,6 +80,55 @@ export const connectionRules: Record<string, ConnectionRule[]> = {
       relationship: "triggers",
       description: "SQS queue can trigger Lambda function",
     },
+    {
+      sourceType: "cloudfront",
+      targetType: "s3",
+      relationship: "serves_from",
+      description: "CloudFront distribution serves content from an S3 bucket origin",
+    },
+    {
+      sourceType: "step_functions",
+      targetType: "lambda",
+      relationship: "invokes",
+      description: "State machine invokes Lambda functions as tasks",
+    },
+    {
+      sourceType: "step_functions",
+      targetType: "cloudwatch",
+      relationship: "logs_to",
+      description: "State machine writes execution logs to a CloudWatch log group",
+    },
+    {
+      sourceType: "lambda",
+      targetType: "secrets_manager",
+      relationship: "accesses",
+      description: "Lambda function can read secrets from Secrets Manager",
+    },
+    {
+      sourceType: "fargate",
+      targetType: "subnet",
+      relationship: "depends_on",
+      description: "Fargate tasks run in the connected subnets",
+    },
+    {
+      sourceType: "kubernetes",
+      targetType: "subnet",
+      relationship: "depends_on",
+      description: "EKS cluster and node group run in the connected subnets",
+    },
+    {
+      sourceType: "ec2",
+      targetType: "ebs",
+      relationship: "attaches",
+      description: "EBS volume is attached to the EC2 instance",
+    },
+    {
+      sourceType: "internet_gateway",
+      targetType: "vpc",
+      relationship: "depends_on",
+      description: "Internet gateway is attached to a VPC",
+      required: true,
+    },
   ],
   gcp: [
     {
@@ -110,6 +161,109 @@ export const connectionRules: Record<string, ConnectionRule[]> = {
       relationship: "connects_to",
       description: "Cloud Functions can connect to Cloud SQL",
     },
+    {
+      sourceType: "subnetwork",
+      targetType: "network",
+      relationship: "depends_on",
+      description: "Subnetworks are created within a VPC network",
+      required: true,
+    },
+    {
+      sourceType: "compute",
+      targetType: "network",
+      relationship: "depends_on",
+      description: "Compute Engine instances attach to a VPC network",
+    },
+    {
+      sourceType: "compute",
+      targetType: "subnetwork",
+      relationship: "depends_on",
+      description: "Compute Engine instances can be placed in a subnetwork",
+    },
+    {
+      sourceType: "sql",
+      targetType: "network",
+      relationship: "depends_on",
+      description: "Cloud SQL gets a private IP in a VPC network",
+    },
+    {
+      sourceType: "functions",
+      targetType: "network",
+      relationship: "connects_to",
+      description: "Cloud Functions reach a VPC network through a Serverless VPC Access connector",
+    },
+    {
+      sourceType: "cloud_run",
+      targetType: "network",
+      relationship: "connects_to",
+      description: "Cloud Run reaches a VPC network through a Serverless VPC Access connector",
+    },
+    {
+      sourceType: "functions",
+      targetType: "pubsub",
+      relationship: "publishes_to",
+      description: "Cloud Functions can publish to a Pub/Sub topic",
+    },
+    {
+      sourceType: "pubsub",
+      targetType: "functions",
+      relationship: "triggers",
+      description: "Pub/Sub topic can trigger a Cloud Function",
+    },
+    {
+      sourceType: "pubsub",
+      targetType: "cloud_run",
+      relationship: "triggers",
+      description: "Pub/Sub topic can push messages to a Cloud Run service",
+    },
+    {
+      sourceType: "cloud_run",
+      targetType: "sql",
+      relationship: "connects_to",
+      description: "Cloud Run can connect to Cloud SQL",
+    },
+    {
+      sourceType: "cloud_run",
+      targetType: "storage",
+      relationship: "accesses",
+      description: "Cloud Run can access Cloud Storage",
+    },
+    {
+      sourceType: "cloud_run",
+      targetType: "pubsub",
+      relationship: "publishes_to",
+      description: "Cloud Run can publish to a Pub/Sub topic",
+    },
+    {
+      sourceType: "functions",
+      targetType: "cloud_run",
+      relationship: "connects_to",
+      description: "Cloud Functions can call a Cloud Run service",
+    },
+    {
+      sourceType: "lb",
+      targetType: "cloud_run",
+      relationship: "load_balances",
+      description: "Load balancer routes traffic to Cloud Run services",
+    },
+    {
+      sourceType: "lb",
+      targetType: "functions",
+      relationship: "load_balances",
+      description: "Load balancer routes traffic to Cloud Functions",
+    },
+    {
+      sourceType: "firewall",
+      targetType: "network",
+      relationship: "depends_on",
+      description: "Firewall rules apply to a VPC network",
+    },
+    {
+      sourceType: "firewall",
+      targetType: "compute",
+      relationship: "allows_traffic",
+      description: "Firewall rule allows traffic to Compute Engine instances",
+    },
   ],
   azure: [
     {
@@ -143,6 +297,85 @@ export const connectionRules: Record<string, ConnectionRule[]> = {
       relationship: "accesses",
       description: "Azure Functions can access Blob Storage",
     },
+    {
+      sourceType: "subnet",
+      targetType: "vnet",
+      relationship: "depends_on",
+      description: "Subnets are created within a Virtual Network",
+      required: true,
+    },
+    {
+      sourceType: "vm",
+      targetType: "subnet",
+      relationship: "depends_on",
+      description: "Virtual Machine can be placed in a specific subnet",
+    },
+    {
+      sourceType: "nsg",
+      targetType: "subnet",
+      relationship: "protects",
+      description: "Network Security Group filters traffic to a subnet",
+    },
+    {
+      sourceType: "nsg",
+      targetType: "vm",
+      relationship: "protects",
+      description: "Network Security Group filters traffic to a Virtual Machine",
+    },
+    {
+      sourceType: "sql",
+      targetType: "subnet",
+      relationship: "allows_traffic",
+      description: "SQL Server admits traffic from a subnet through a service endpoint",
+    },
+    {
+      sourceType: "functions",
+      targetType: "sql",
+      relationship: "connects_to",
+      description: "Azure Functions can connect to SQL Database",
+    },
+    {
+      sourceType: "functions",
+      targetType: "key_vault",
+      relationship: "reads_secrets",
+      description: "Azure Functions can read secrets from Key Vault",
+    },
+    {
+      sourceType: "functions",
+      targetType: "subnet",
+      relationship: "connects_to",
+      description: "Azure Functions reach a Virtual Network through VNet integration",
+    },
+    {
+      sourceType: "app_service",
+      targetType: "blob",
+      relationship: "accesses",
+      description: "App Service can access Blob Storage",
+    },
+    {
+      sourceType: "app_service",
+      targetType: "sql",
+      relationship: "connects_to",
+      description: "App Service connects to SQL Database",
+    },
+    {
+      sourceType: "app_service",
+      targetType: "key_vault",
+      relationship: "reads_secrets",
+      description: "App Service can read secrets from Key Vault",
+    },
+    {
+      sourceType: "app_service",
+      targetType: "subnet",
+      relationship: "connects_to",
+      description: "App Service reaches a Virtual Network through VNet integration",
+    },
+    {
+      sourceType: "app_service",
+      targetType: "functions",
+      relationship: "connects_to",
+      description: "App Service can call Azure Functions",
+    },
   ],
 }
 
@@ -168,28 +401,174 @@ export function getValidTargets(sourceType: string, provider: string): string[]
   return [...new Set([...targets, ...bidirectionalTargets])]
 }
 
-export function getConnectionSuggestions(nodes: any[], provider: string): string[] {
-  const suggestions: string[] = []
+// A change to the diagram that resolves a problem
+export type ArchitectureFix =
+  | { kind: "connect"; label: string; source: string; target: string }
+  | { kind: "reverse_edge"; label: string; edgeId: string }
+  | { kind: "remove_edge"; label: string; edgeId: string }
+
+export interface ArchitectureProblem {
+  // Stable between runs, so problems keep their place in lists
+  id: string
+  kind: "missing_edge" | "disallowed_edge" | "orphan" | "cycle"
+  message: string
+  nodeIds: string[]
+  edgeIds: string[]
+  fixes: ArchitectureFix[]
+}
+
+// "vpc" → "VPC", "internet_gateway" → "internet gateway"
+const describeServiceType = (serviceType: string): string =>
+  serviceType.length <= 3 ? serviceType.toUpperCase() : serviceType.replace(/_/g, " ")
+
+// Lint a diagram against the provider's connection rules: required connections that are
+// missing, connections the rules don't allow, services connected to nothing and cycles
+export function lintArchitecture(nodes: Node[], edges: Edge[], provider: string): ArchitectureProblem[] {
   const rules = connectionRules[provider] || []
+  const problems: ArchitectureProblem[] = []
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const typeOf = (node: Node) => node.data.id as string
+  const nameOf = (node: Node) => (node.data.name as string) || typeOf(node)
 
-  // Check for required connections that are missing
+  // Required connections, e.g. EC2 instances to their VPC
   nodes.forEach((node) => {
-    const requiredRules = rules.filter((rule) => rule.sourceType === node.data.id && rule.required)
-
-    requiredRules.forEach((rule) => {
-      const hasTarget = nodes.some((n) => n.data.id === rule.targetType)
-      const hasConnection = nodes.some(
-        (n) =>
-          n.data.id === rule.targetType &&
-          // Check if connection exists (this would need to be implemented with edges)
-          false, // Placeholder - would check actual edges
-      )
-
-      if (hasTarget && !hasConnection) {
-        suggestions.push(`${node.data.name} should connect to ${rule.targetType} (${rule.description})`)
-      }
+    rules
+      .filter((rule) => rule.required && rule.sourceType === typeOf(node))
+      .forEach((rule) => {
+        const isConnected = edges.some((edge) => {
+          const other = edge.source === node.id ? nodesById.get(edge.target) : rule.bidirectional && edge.target === node.id ? nodesById.get(edge.source) : undefined
+          return !!other && typeOf(other) === rule.targetType
+        })
+        if (isConnected) return
+
+        const targets = nodes.filter((candidate) => typeOf(candidate) === rule.targetType)
+        const target = describeServiceType(rule.targetType)
+        problems.push({
+          id: `missing:${node.id}:${rule.targetType}`,
+          kind: "missing_edge",
+          message: targets.length > 0
+            ? `${nameOf(node)} isn't connected to a ${target}. ${rule.description}.`
+            : `${nameOf(node)} needs a ${target}; add one and connect them. ${rule.description}.`,
+          nodeIds: [node.id],
+          edgeIds: [],
+          fixes: targets.slice(0, 3).map((candidate) => ({
+            kind: "connect" as const,
+            label: targets.length === 1 ? `Connect to ${target}` : `Connect to ${nameOf(candidate)}`,
+            source: node.id,
+            target: candidate.id,
+          })),
+        })
+      })
+  })
+
+  // Connections the rules don't allow; providers without rules allow any
+  if (rules.length > 0) {
+    edges.forEach((edge) => {
+      const source = nodesById.get(edge.source)
+      const target = nodesById.get(edge.target)
+      if (!source || !target || validateConnection(typeOf(source), typeOf(target), provider)) return
+
+      const reversed = validateConnection(typeOf(target), typeOf(source), provider)
+      problems.push({
+        id: `disallowed:${edge.id}`,
+        kind: "disallowed_edge",
+        message: reversed
+          ? `${nameOf(source)} → ${nameOf(target)} points the wrong way. ${reversed.description}.`
+          : `${nameOf(source)} can't connect to ${nameOf(target)}.`,
+        nodeIds: [source.id, target.id],
+        edgeIds: [edge.id],
+        fixes: [
+          ...(reversed ? [{ kind: "reverse_edge" as const, label: "Reverse the connection", edgeId: edge.id }] : []),
+          { kind: "remove_edge" as const, label: "Remove the connection", edgeId: edge.id },
+        ],
+      })
+    })
+  }
+
+  // Services connected to nothing, unless a missing required connection already says so
+  if (nodes.length > 1) {
+    nodes.forEach((node) => {
+      if (edges.some((edge) => edge.source === node.id || edge.target === node.id)) return
+      if (problems.some((problem) => problem.kind === "missing_edge" && problem.nodeIds.includes(node.id))) return
+
+      const suggestions = nodes.filter((other) => other.id !== node.id && validateConnection(typeOf(node), typeOf(other), provider))
+      problems.push({
+        id: `orphan:${node.id}`,
+        kind: "orphan",
+        message: `${nameOf(node)} isn't connected to any other service.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+        fixes: suggestions.slice(0, 2).map((other) => ({
+          kind: "connect" as const,
+          label: `Connect to ${nameOf(other)}`,
+          source: node.id,
+          target: other.id,
+        })),
+      })
+    })
+  }
+
+  // Cycles of one-way connections, as strongly connected components
+  const oneWayEdges = edges.filter((edge) => !edge.data?.bidirectional && nodesById.has(edge.source) && nodesById.has(edge.target))
+  findCycles(nodes, oneWayEdges).forEach((cycle) => {
+    const cycleEdges = oneWayEdges.filter((edge) => cycle.includes(edge.source) && cycle.includes(edge.target))
+    const names = cycle.map((id) => nameOf(nodesById.get(id)!))
+    problems.push({
+      id: `cycle:${[...cycle].sort().join(",")}`,
+      kind: "cycle",
+      message: names.length > 1
+        ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]} depend on each other in a cycle, so some of their dependencies are dropped from the Terraform code.`
+        : `${names[0]} is connected to itself.`,
+      nodeIds: cycle,
+      edgeIds: cycleEdges.map((edge) => edge.id),
+      fixes: cycleEdges.slice(0, 2).map((edge) => ({
+        kind: "remove_edge" as const,
+        label: `Remove ${nameOf(nodesById.get(edge.source)!)} → ${nameOf(nodesById.get(edge.target)!)}`,
+        edgeId: edge.id,
+      })),
     })
   })
 
-  return suggestions
+  return problems
+}
+
+// Groups of nodes that reach each other through edges (Tarjan's strongly connected components)
+function findCycles(nodes: Node[], edges: Edge[]): string[][] {
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const visit = (nodeId: string) => {
+    index.set(nodeId, index.size)
+    lowLink.set(nodeId, index.get(nodeId)!)
+    stack.push(nodeId)
+    onStack.add(nodeId)
+
+    edges.filter((edge) => edge.source === nodeId).forEach((edge) => {
+      if (!index.has(edge.target)) {
+        visit(edge.target)
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(edge.target)!))
+      } else if (onStack.has(edge.target)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(edge.target)!))
+      }
+    })
+
+    if (lowLink.get(nodeId) !== index.get(nodeId)) return
+    const component: string[] = []
+    let member: string
+    do {
+      member = stack.pop()!
+      onStack.delete(member)
+      component.unshift(member)
+    } while (member !== nodeId)
+    const isSelfLoop = edges.some((edge) => edge.source === nodeId && edge.target === nodeId)
+    if (component.length > 1 || isSelfLoop) cycles.push(component)
+  }
+
+  nodes.forEach((node) => {
+    if (!index.has(node.id)) visit(node.id)
+  })
+  return cycles
 }
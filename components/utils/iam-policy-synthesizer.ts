@@ -0,0 +1,250 @@
+import type { IamPolicyDocument, IamPolicyStatement } from "@/types"
+
+// Compute services that act on other resources through an IAM role, with the
+// service principal that assumes it
+export const IAM_PRINCIPALS: Record<string, string> = {
+  lambda: "lambda.amazonaws.com",
+  ec2: "ec2.amazonaws.com",
+  fargate: "ecs-tasks.amazonaws.com",
+  step_functions: "states.amazonaws.com",
+}
+
+// Relationships that grant permissions, from the most to the least access
+export const IAM_RELATIONSHIPS = [
+  { value: "accesses", label: "Accesses", description: "Read and write" },
+  { value: "consumes", label: "Consumes", description: "Read only" },
+  { value: "sends_to", label: "Sends to", description: "Write only" },
+  { value: "connects_to", label: "Connects to", description: "Connect and describe" },
+]
+
+type IamRelationship = "accesses" | "consumes" | "sends_to" | "connects_to"
+
+// Older and service-specific relationship names, by the access they mean
+const RELATIONSHIP_ALIASES: Record<string, IamRelationship> = {
+  reads: "consumes",
+  subscribes_to: "consumes",
+  writes: "sends_to",
+  publishes_to: "sends_to",
+  invokes: "sends_to",
+  logs_to: "sends_to",
+}
+
+// Actions on one kind of ARN of a target resource
+interface ActionSet {
+  // ARN pattern; `{arn}` is the target's ARN and `{address}` its resource address
+  resource: string
+  actions: Partial<Record<IamRelationship, string[]>>
+}
+
+// The smallest action sets per target service, one per ARN they apply to
+const TARGET_ACTIONS: Record<string, ActionSet[]> = {
+  s3: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["s3:ListBucket"],
+        consumes: ["s3:ListBucket"],
+        connects_to: ["s3:ListBucket", "s3:GetBucketLocation"],
+      },
+    },
+    {
+      resource: "{arn}/*",
+      actions: {
+        accesses: ["s3:GetObject", "s3:PutObject", "s3:DeleteObject"],
+        consumes: ["s3:GetObject"],
+        sends_to: ["s3:PutObject"],
+      },
+    },
+  ],
+  dynamodb: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: [
+          "dynamodb:GetItem",
+          "dynamodb:BatchGetItem",
+          "dynamodb:Query",
+          "dynamodb:Scan",
+          "dynamodb:PutItem",
+          "dynamodb:UpdateItem",
+          "dynamodb:DeleteItem",
+          "dynamodb:BatchWriteItem",
+        ],
+        consumes: ["dynamodb:GetItem", "dynamodb:BatchGetItem", "dynamodb:Query", "dynamodb:Scan"],
+        sends_to: ["dynamodb:PutItem", "dynamodb:UpdateItem", "dynamodb:BatchWriteItem"],
+        connects_to: ["dynamodb:DescribeTable"],
+      },
+    },
+    {
+      // Queries on secondary indexes are authorized against the index ARN
+      resource: "{arn}/index/*",
+      actions: {
+        accesses: ["dynamodb:Query", "dynamodb:Scan"],
+        consumes: ["dynamodb:Query", "dynamodb:Scan"],
+      },
+    },
+  ],
+  sqs: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["sqs:SendMessage", "sqs:ReceiveMessage", "sqs:DeleteMessage", "sqs:GetQueueAttributes"],
+        consumes: ["sqs:ReceiveMessage", "sqs:DeleteMessage", "sqs:ChangeMessageVisibility", "sqs:GetQueueAttributes"],
+        sends_to: ["sqs:SendMessage", "sqs:GetQueueUrl"],
+        connects_to: ["sqs:GetQueueAttributes", "sqs:GetQueueUrl"],
+      },
+    },
+  ],
+  sns: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["sns:Publish", "sns:GetTopicAttributes"],
+        consumes: ["sns:Subscribe", "sns:Unsubscribe"],
+        sends_to: ["sns:Publish"],
+        connects_to: ["sns:GetTopicAttributes"],
+      },
+    },
+  ],
+  rds: [
+    {
+      // IAM database authentication, for any database user of the instance
+      resource: "arn:aws:rds-db:${var.region}:*:dbuser:${{address}.resource_id}/*",
+      actions: {
+        accesses: ["rds-db:connect"],
+        consumes: ["rds-db:connect"],
+        sends_to: ["rds-db:connect"],
+        connects_to: ["rds-db:connect"],
+      },
+    },
+  ],
+  secrets_manager: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["secretsmanager:GetSecretValue", "secretsmanager:DescribeSecret"],
+        consumes: ["secretsmanager:GetSecretValue", "secretsmanager:DescribeSecret"],
+        sends_to: ["secretsmanager:PutSecretValue"],
+        connects_to: ["secretsmanager:DescribeSecret"],
+      },
+    },
+  ],
+  lambda: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["lambda:InvokeFunction"],
+        sends_to: ["lambda:InvokeFunction"],
+        connects_to: ["lambda:GetFunction"],
+      },
+    },
+    {
+      // Versions and aliases of the function
+      resource: "{arn}:*",
+      actions: {
+        accesses: ["lambda:InvokeFunction"],
+        sends_to: ["lambda:InvokeFunction"],
+      },
+    },
+  ],
+  step_functions: [
+    {
+      resource: "{arn}",
+      actions: {
+        accesses: ["states:StartExecution", "states:DescribeStateMachine"],
+        sends_to: ["states:StartExecution"],
+        connects_to: ["states:DescribeStateMachine"],
+      },
+    },
+  ],
+  cloudwatch: [
+    {
+      resource: "{arn}:*",
+      actions: {
+        accesses: ["logs:CreateLogStream", "logs:PutLogEvents", "logs:GetLogEvents"],
+        consumes: ["logs:GetLogEvents", "logs:FilterLogEvents"],
+        sends_to: ["logs:CreateLogStream", "logs:PutLogEvents"],
+        connects_to: ["logs:DescribeLogStreams"],
+      },
+    },
+  ],
+}
+
+// State machines deliver logs through the log delivery API, which has no resource-level permissions
+const STATE_MACHINE_LOG_DELIVERY: IamPolicyStatement = {
+  Effect: "Allow",
+  Action: [
+    "logs:CreateLogDelivery",
+    "logs:GetLogDelivery",
+    "logs:UpdateLogDelivery",
+    "logs:DeleteLogDelivery",
+    "logs:ListLogDeliveries",
+    "logs:PutResourcePolicy",
+    "logs:DescribeResourcePolicies",
+    "logs:DescribeLogGroups",
+  ],
+  Resource: "*",
+}
+
+export function normalizeRelationship(relationship?: string): IamRelationship | null {
+  const value = relationship || "accesses"
+  if (IAM_RELATIONSHIPS.some((option) => option.value === value)) return value as IamRelationship
+  return RELATIONSHIP_ALIASES[value] || null
+}
+
+// Statements a compute service needs for an edge to a target resource, scoped to that
+// resource. Edges whose relationship doesn't grant access get none.
+export function synthesizeStatements(
+  sourceService: string,
+  targetService: string,
+  targetAddress: string,
+  relationship?: string
+): IamPolicyStatement[] {
+  const access = normalizeRelationship(relationship)
+  if (!IAM_PRINCIPALS[sourceService] || !access) return []
+
+  if (sourceService === "step_functions" && targetService === "cloudwatch" && access === "sends_to") {
+    return [STATE_MACHINE_LOG_DELIVERY]
+  }
+
+  return (TARGET_ACTIONS[targetService] || []).flatMap((actionSet) => {
+    const actions = actionSet.actions[access]
+    if (!actions) return []
+    return [{
+      Effect: "Allow" as const,
+      Action: actions,
+      Resource: actionSet.resource.replace("{arn}", `\${${targetAddress}.arn}`).replace("{address}", targetAddress),
+    }]
+  })
+}
+
+export function toPolicyDocument(statements: IamPolicyStatement[]): IamPolicyDocument {
+  return { Version: "2012-10-17", Statement: statements }
+}
+
+// Problems with a policy document typed in by the user
+export function validatePolicyDocument(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return ["The policy must be a JSON object"]
+  const document = value as Record<string, any>
+  const errors: string[] = []
+  if (document.Version !== "2012-10-17") errors.push('Version must be "2012-10-17"')
+  if (!Array.isArray(document.Statement) || document.Statement.length === 0) {
+    errors.push("Statement must be a non-empty list")
+    return errors
+  }
+  document.Statement.forEach((statement: any, index: number) => {
+    const label = `Statement ${index + 1}`
+    if (!statement || typeof statement !== "object") {
+      errors.push(`${label} must be an object`)
+      return
+    }
+    if (statement.Effect !== "Allow" && statement.Effect !== "Deny") errors.push(`${label}: Effect must be Allow or Deny`)
+    if (!statement.Action || (Array.isArray(statement.Action) && statement.Action.length === 0)) {
+      errors.push(`${label}: Action is required`)
+    }
+    if (!statement.Resource || (Array.isArray(statement.Resource) && statement.Resource.length === 0)) {
+      errors.push(`${label}: Resource is required`)
+    }
+  })
+  return errors
+}
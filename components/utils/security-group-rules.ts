@@ -0,0 +1,95 @@
+import type { ConnectionEdgeData, NetworkProtocol, NetworkRule, TrafficDirection } from "@/types"
+
+// Services attached to a VPC with a security group of their own
+export const NETWORK_SERVICES = ["alb", "ec2", "fargate", "lambda", "rds"]
+
+// Services that only open connections, so nothing can connect to them through the network
+const CLIENT_ONLY_SERVICES = ["lambda"]
+
+export const NETWORK_PROTOCOLS: { value: NetworkProtocol; label: string }[] = [
+  { value: "tcp", label: "TCP" },
+  { value: "udp", label: "UDP" },
+  { value: "icmp", label: "ICMP" },
+  { value: "all", label: "All traffic" },
+]
+
+export const TRAFFIC_DIRECTIONS: { value: TrafficDirection; label: string }[] = [
+  { value: "forward", label: "Source connects to target" },
+  { value: "reverse", label: "Target connects to source" },
+  { value: "both", label: "Both ways" },
+]
+
+// Ports database engines listen on
+const ENGINE_PORTS: Record<string, string> = {
+  mysql: "3306",
+  mariadb: "3306",
+  postgres: "5432",
+  oracle: "1521",
+  sqlserver: "1433",
+}
+
+// Whether an edge between two services opens network access between their security groups
+export function isNetworkEdge(sourceService: string, targetService: string): boolean {
+  return (
+    NETWORK_SERVICES.includes(sourceService) &&
+    NETWORK_SERVICES.includes(targetService) &&
+    !CLIENT_ONLY_SERVICES.includes(targetService)
+  )
+}
+
+// The port a service accepts connections on, from its config where it has one
+export function getDefaultPort(targetService: string, targetConfig: Record<string, any> = {}): string {
+  switch (targetService) {
+    case "rds":
+      if (targetConfig.port) return String(targetConfig.port)
+      const engine = String(targetConfig.engine || "mysql")
+      return ENGINE_PORTS[Object.keys(ENGINE_PORTS).find((prefix) => engine.startsWith(prefix)) || "mysql"]
+    case "fargate":
+      return String(targetConfig.container_port || "80")
+    case "alb":
+      return "443"
+    default:
+      return "80"
+  }
+}
+
+// Rule of an edge, with the fields it doesn't set taken from the target's defaults
+export function getNetworkRule(
+  data: ConnectionEdgeData | undefined,
+  targetService: string,
+  targetConfig?: Record<string, any>
+): NetworkRule {
+  return {
+    port: data?.port || getDefaultPort(targetService, targetConfig),
+    protocol: data?.protocol || "tcp",
+    direction: data?.direction || "forward",
+  }
+}
+
+// First and last port of a rule, as security group rules take them. Rules for all
+// traffic or ICMP cover every port.
+export function getPortRange(rule: NetworkRule): { from: number; to: number } | null {
+  if (rule.protocol === "all") return { from: 0, to: 0 }
+  if (rule.protocol === "icmp") return { from: -1, to: -1 }
+
+  const match = rule.port.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+  if (!match) return null
+  const from = Number(match[1])
+  const to = match[2] ? Number(match[2]) : from
+  return from >= 0 && to <= 65535 && from <= to ? { from, to } : null
+}
+
+// Problems with a rule typed in by the user
+export function validateNetworkRule(rule: NetworkRule): string[] {
+  if (rule.protocol === "all" || rule.protocol === "icmp") return []
+  if (!rule.port.trim()) return ["Enter a port"]
+  return getPortRange(rule) ? [] : ["Port must be a number from 0 to 65535, or a range like 8000-8100"]
+}
+
+// Short label of a rule for the canvas, e.g. "TCP 5432"
+export function formatNetworkRule(rule: NetworkRule): string {
+  const arrow = rule.direction === "reverse" ? "← " : rule.direction === "both" ? "↔ " : ""
+  if (rule.protocol === "all") return `${arrow}All traffic`
+  if (rule.protocol === "icmp") return `${arrow}ICMP`
+  return `${arrow}${rule.protocol.toUpperCase()} ${rule.port.replace(/\s/g, "")}`
+}
@@ -1,10 +1,36 @@
 import type { Edge, Node } from "@xyflow/react"
+import { applyEnvironment } from "@/lib/environments"
+import { getDefaultHandler, getLambdaSource } from "@/lib/lambda-source"
+import { NetworkInfrastructureGenerator, type NetworkPlan } from "@/lib/network-infrastructure-generator"
+import { getSecretFieldKeys } from "@/lib/service-schemas"
+import { synthesizeStatements, toPolicyDocument } from "./iam-policy-synthesizer"
+import { getNetworkRule, getPortRange, isNetworkEdge } from "./security-group-rules"
+import type { ConfigField, ConnectionEdgeData, IamPolicyDocument, LambdaSource, NetworkRule } from "@/types"
+import type { HclBody, HclExpression } from "@/lib/hcl-parser"
+import {
+  block,
+  call,
+  expression,
+  heredoc,
+  isHclExpression,
+  literal,
+  object,
+  template,
+  toExpression,
+  traversal,
+  tuple,
+  writeAttributes,
+  writeExpression,
+  writeHCL,
+} from "@/lib/hcl-writer"
 
 export interface TerraformResource {
   type: string
   name: string
   config: Record<string, any>
   dependencies?: string[]
+  // Canvas node the resource was generated for, including helper resources
+  nodeId?: string
 }
 
 export interface TerraformOutput {
@@ -12,6 +38,63 @@ export interface TerraformOutput {
   resources: TerraformResource[]
   variables: Record<string, any>
   outputs: Record<string, any>
+  // Problems found while generating, e.g. promoted fields whose value isn't used as it is
+  warnings: string[]
+}
+
+// How nodes are split into local modules when exporting: by service category, or by the
+// group the user put them in on the canvas
+export type ModuleGrouping = "category" | "group"
+
+interface TerraformModule {
+  resources: TerraformResource[]
+  // Input variables, with the root module expression passed to each
+  inputs: Record<string, { variable: Record<string, any>; value: string }>
+  outputs: Record<string, any>
+  dependsOn: string[]
+}
+
+// Object-valued arguments emitted as `key = { ... }` maps rather than nested blocks
+const MAP_ARGUMENTS = ["tags", "labels", "user_labels", "variables", "environment_variables", "limits", "app_settings"]
+
+// A variable, or a resource or data source address with its first attribute, in Terraform code
+const ADDRESS_PATTERN = /(^|[^\w.])(var\.[A-Za-z_][\w-]*|(?:data\.)?[a-z][a-z0-9]*_[a-z0-9_]*\.[A-Za-z_][\w-]*)(\.[A-Za-z_][\w-]*)?/g
+
+// Every Azure resource is created in this resource group
+const AZURE_RESOURCE_GROUP = "azurerm_resource_group.main"
+
+// Variable type of each config field type
+const PARAMETER_TYPES: Record<ConfigField["type"], string> = {
+  string: "string",
+  select: "string",
+  number: "number",
+  boolean: "bool",
+  multiselect: "list(string)",
+}
+
+// Put into a parameterized field to find where its value ends up in the resources
+const PARAMETER_PROBE = "cloudistparameterprobe"
+const PARAMETER_PROBE_NUMBER = 7340033
+
+// Version of each database engine, for engines without one of their own the MySQL one
+const ENGINE_VERSIONS: Record<string, string> = {
+  mysql: "8.0",
+  postgres: "13.7",
+  mariadb: "10.6",
+}
+const DEFAULT_ENGINE_VERSION = "8.0"
+
+// Special characters of generated passwords; RDS rejects "/", "@", '"' and spaces
+const PASSWORD_SPECIAL_CHARACTERS = "!#$%&*()-_=+[]{}<>:?"
+
+// A config field promoted to a variable
+interface ConfigParameter {
+  node: Node
+  key: string
+  field: ConfigField
+  variable: string
+  // Default of the variable: the field's value, or what the generator used for it
+  value?: unknown
 }
 
 export class TerraformGenerator {
@@ -26,8 +109,12 @@ export class TerraformGenerator {
   }
 
   generate(): TerraformOutput {
-    const resources = this.generateResources()
-    const variables = this.generateVariables()
+    const parameters = this.getParameters()
+    const resources = this.parameterizeResources(this.generateResources(), parameters)
+    // Variables nothing refers to would look configurable without changing anything
+    const unusedParameters = parameters.filter((parameter) => !this.isParameterUsed(parameter, resources))
+    const usedParameters = parameters.filter((parameter) => !unusedParameters.includes(parameter))
+    const variables = { ...this.generateVariables(), ...this.generateParameterVariables(usedParameters) }
     const outputs = this.generateOutputs()
 
     return {
@@ -35,13 +122,29 @@ export class TerraformGenerator {
       resources,
       variables,
       outputs,
+      warnings: unusedParameters.map(({ node, field }) =>
+        `${field.label} of ${node.data.name as string} can't be a variable: the generated code doesn't use its value as it is`
+      ),
     }
   }
 
   private generateResources(): TerraformResource[] {
     const resources: TerraformResource[] = []
+
+    if (this.provider === "azure") {
+      resources.push({
+        type: "azurerm_resource_group",
+        name: "main",
+        config: {
+          name: "rg-${var.environment}",
+          location: traversal("var.region"),
+        },
+        dependencies: [],
+      })
+    }
     
     this.nodes.forEach((node) => {
+      const firstResourceIndex = resources.length
       const dependencies = this.getDependencies(node.id)
       const config = this.generateResourceConfig(node)
 
@@ -64,7 +167,7 @@ export class TerraformGenerator {
           type: 'aws_s3_bucket_public_access_block',
           name: resourceName,
           config: {
-            bucket: `${bucketReference}.id`,
+            bucket: traversal(`${bucketReference}.id`),
             block_public_acls: true,
             block_public_policy: true,
             ignore_public_acls: true,
@@ -75,13 +178,16 @@ export class TerraformGenerator {
 
         // Add versioning resource for S3 buckets (always add it)
         const versioningEnabled = (node.data.config as any)?.versioning === "Enabled"
+        const versioningVariable = this.getParameterReference(node, "versioning")
         resources.push({
           type: 'aws_s3_bucket_versioning',
           name: `${resourceName}_versioning`,
           config: {
-            bucket: `${bucketReference}.id`,
+            bucket: traversal(`${bucketReference}.id`),
             versioning_configuration: {
-              status: versioningEnabled ? "Enabled" : "Disabled",
+              status: versioningVariable
+                ? expression(`${versioningVariable} == "Enabled" ? "Enabled" : "Disabled"`)
+                : versioningEnabled ? "Enabled" : "Disabled",
             },
           },
           dependencies: [bucketReference],
@@ -95,19 +201,19 @@ export class TerraformGenerator {
           type: 'aws_iam_role',
           name: `${resourceName}_role`,
           config: {
-            name: `${resourceName}-execution-role`,
-            assume_role_policy: `jsonencode({
-  "Version": "2012-10-17",
-  "Statement": [
-    {
-      "Effect": "Allow",
-      "Principal": {
-        "Service": "lambda.amazonaws.com"
-      },
-      "Action": "sts:AssumeRole"
-    }
-  ]
-})`,
+            name: this.withEnvironment(node, `${resourceName}-execution-role`),
+            assume_role_policy: call("jsonencode", toExpression({
+              Version: "2012-10-17",
+              Statement: [
+                {
+                  Effect: "Allow",
+                  Principal: {
+                    Service: "lambda.amazonaws.com",
+                  },
+                  Action: "sts:AssumeRole",
+                },
+              ],
+            })),
             tags: {
               Name: `${node.data.name as string}-role`,
               Environment: "terraform-generated",
@@ -121,49 +227,44 @@ export class TerraformGenerator {
           type: 'aws_iam_role_policy_attachment',
           name: `${resourceName}_basic_execution`,
           config: {
-            role: `aws_iam_role.${resourceName}_role.name`,
+            role: traversal(`aws_iam_role.${resourceName}_role.name`),
             policy_arn: "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
           },
           dependencies: [`aws_iam_role.${resourceName}_role`],
         })
 
-        // Add custom IAM policies based on edge connections
-        const customPolicies = this.generateCustomIAMPolicies(node, resourceName)
-        resources.push(...customPolicies)
+        // Functions in a VPC manage their network interfaces in it
+        if (this.hasSecurityGroup(node)) {
+          resources.push({
+            type: 'aws_iam_role_policy_attachment',
+            name: `${resourceName}_vpc_access`,
+            config: {
+              role: traversal(`aws_iam_role.${resourceName}_role.name`),
+              policy_arn: "arn:aws:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole",
+            },
+            dependencies: [`aws_iam_role.${resourceName}_role`],
+          })
+        }
+
+        // Add least-privilege policies for the resources the function is connected to
+        resources.push(...this.generateEdgePolicies(node, `${resourceName}_role`))
 
-        // Create default Lambda function ZIP file if using inline code
+        // Package the function's source, or the starter function of its runtime
         const config = node.data.config as any
         const useInlineCode = !config?.s3_bucket && !config?.s3_key
         if (useInlineCode) {
-          // Create a simple archive resource for the Lambda function
+          const source = getLambdaSource(config?.runtime || "nodejs18.x", node.data.source as LambdaSource | undefined)
           resources.push({
             type: 'archive_file',
             name: `${resourceName}_lambda_zip`,
             config: {
               type: "zip",
               output_path: `lambda-${resourceName}.zip`,
-              source: {
-                content: `exports.handler = async (event) => {
-  console.log('Event:', JSON.stringify(event, null, 2));
-
-  return {
-    statusCode: 200,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type',
-      'Access-Control-Allow-Methods': 'OPTIONS,POST,GET'
-    },
-    body: JSON.stringify({
-      message: 'Hello from Lambda!',
-      timestamp: new Date().toISOString(),
-      requestId: event.requestContext?.requestId || 'local',
-      input: event
-    })
-  };
-};`,
-                filename: "index.js"
-              }
+              ...(source.directory !== undefined ? {
+                source_dir: literal(source.directory),
+              } : {
+                source: source.files.map((file) => ({ content: literal(file.content), filename: file.filename })),
+              }),
             },
             dependencies: [],
           })
@@ -183,7 +284,7 @@ export class TerraformGenerator {
         
         // Add Dead Letter Queue if enabled
         if (config.dead_letter_queue && config.max_receive_count) {
-          const dlqName = `${resourceName}-dlq`
+          const dlqName = this.withEnvironment(node, `${resourceName}-dlq`)
           
           // Create the DLQ first
           resources.push({
@@ -206,20 +307,102 @@ export class TerraformGenerator {
           // Update the main queue to reference the DLQ
           const mainQueueResource = resources.find(r => r.type === 'aws_sqs_queue' && r.name === resourceName)
           if (mainQueueResource) {
-            mainQueueResource.config.redrive_policy = `jsonencode({
-  "deadLetterTargetArn": aws_sqs_queue.${resourceName}_dlq.arn,
-  "maxReceiveCount": ${config.max_receive_count}
-})`
+            mainQueueResource.config.redrive_policy = call("jsonencode", object({
+              deadLetterTargetArn: traversal(`aws_sqs_queue.${resourceName}_dlq.arn`),
+              maxReceiveCount: toExpression(Number(config.max_receive_count)),
+            }))
             mainQueueResource.dependencies = mainQueueResource.dependencies || []
             mainQueueResource.dependencies.push(`aws_sqs_queue.${resourceName}_dlq`)
           }
         }
       }
+
+      resources.push(...this.generateSecretResources(node))
+
+      if (this.provider === "aws") {
+        resources.push(...this.generateAWSSupportingResources(node, resources))
+      } else if (this.provider === "gcp") {
+        resources.push(...this.generateGCPSupportingResources(node, resources))
+      } else if (this.provider === "azure") {
+        resources.push(...this.generateAzureSupportingResources(node))
+      }
+
+      resources.slice(firstResourceIndex).forEach((resource) => {
+        resource.nodeId = node.id
+      })
     })
+
+    this.removeCyclicDependencies(resources)
     
     return resources
   }
 
+  // Edges only say two services are connected, so a depends_on added for an edge can point
+  // back at a resource that already references this one (e.g. a topic pushing to a Cloud Run
+  // service that publishes to it). Terraform rejects such cycles, so drop those depends_on.
+  private removeCyclicDependencies(resources: TerraformResource[]) {
+    const addresses = resources.map((resource) => `${resource.type}.${resource.name}`)
+    const references = new Map<string, string[]>()
+    resources.forEach((resource, index) => {
+      const config = JSON.stringify(resource.config)
+      references.set(addresses[index], [
+        ...addresses.filter((address) => address !== addresses[index] && config.includes(`${address}.`)),
+        ...(resource.dependencies || []),
+      ])
+    })
+
+    const reaches = (from: string, to: string, visited = new Set<string>()): boolean => {
+      if (from === to) return true
+      if (visited.has(from)) return false
+      visited.add(from)
+      return (references.get(from) || []).some((next) => reaches(next, to, visited))
+    }
+
+    resources.forEach((resource, index) => {
+      if (!resource.dependencies?.length) return
+      const address = addresses[index]
+      resource.dependencies = resource.dependencies.filter((dependency) => {
+        const kept = !reaches(dependency, address)
+        if (!kept) references.set(address, (references.get(address) || []).filter((ref) => ref !== dependency))
+        return kept
+      })
+    })
+  }
+
+  // Policy generated for an edge from a compute service, before any override set on the edge
+  getEdgePolicy(edgeId: string): IamPolicyDocument | null {
+    const edge = this.edges.find((e) => e.id === edgeId)
+    const source = this.nodes.find((n) => n.id === edge?.source)
+    const target = this.nodes.find((n) => n.id === edge?.target)
+    if (this.provider !== "aws" || !edge || !source || !target) return null
+
+    const statements = synthesizeStatements(
+      source.data.id as string,
+      target.data.id as string,
+      this.getResourceAddress(target),
+      edge.data?.relationship as string | undefined
+    )
+    return statements.length > 0 ? toPolicyDocument(statements) : null
+  }
+
+  // Map every generated resource address to the canvas node it belongs to
+  getResourceAddressMap(): Record<string, string> {
+    const addressMap: Record<string, string> = {}
+    this.generateResources().forEach((resource) => {
+      if (resource.nodeId) {
+        addressMap[`${resource.type}.${resource.name}`] = resource.nodeId
+      }
+    })
+    return addressMap
+  }
+
+  // Resource addresses of the given nodes, including the helper resources generated for them
+  getTargetAddresses(nodeIds: string[]): string[] {
+    return Object.entries(this.getResourceAddressMap())
+      .filter(([, nodeId]) => nodeIds.includes(nodeId))
+      .map(([address]) => address)
+  }
+
   private generateResourceConfig(node: Node): Record<string, any> {
     const baseConfig = { ...(node.data.config as Record<string, any>) }
     const serviceId = node.data.id as string
@@ -241,7 +424,11 @@ export class TerraformGenerator {
       }
 
       // Enhance config based on connections
-      return this.enhanceConfigWithConnections(node, config)
+      const enhancedConfig = this.enhanceConfigWithConnections(node, config)
+
+      // Attributes preserved from an imported .tf file take precedence so round trips are lossless
+      const extraAttributes = node.data.extraAttributes as Record<string, any> | undefined
+      return extraAttributes ? { ...enhancedConfig, ...extraAttributes } : enhancedConfig
   }
 
   // Enhance resource configuration based on connections
@@ -252,7 +439,7 @@ export class TerraformGenerator {
 
     // Lambda function enhancements
     if (serviceId === 'lambda') {
-      const envVars: Record<string, string> = { ...(config.environment?.variables || {}) }
+      const envVars: Record<string, string | HclExpression> = { ...(config.environment?.variables || {}) }
       
       // Add environment variables for connected resources
       outgoing.forEach(edge => {
@@ -262,14 +449,16 @@ export class TerraformGenerator {
           const targetType = targetNode.data?.terraformType as string
           
           if (targetNode.data.id === 'dynamodb') {
-            envVars[`${targetName.toUpperCase()}_TABLE_NAME`] = `${targetType}.${targetName}.name`
-            envVars[`${targetName.toUpperCase()}_TABLE_ARN`] = `${targetType}.${targetName}.arn`
+            envVars[`${targetName.toUpperCase()}_TABLE_NAME`] = traversal(`${targetType}.${targetName}.name`)
+            envVars[`${targetName.toUpperCase()}_TABLE_ARN`] = traversal(`${targetType}.${targetName}.arn`)
           } else if (targetNode.data.id === 's3') {
-            envVars[`${targetName.toUpperCase()}_BUCKET_NAME`] = `${targetType}.${targetName}.bucket`
-            envVars[`${targetName.toUpperCase()}_BUCKET_ARN`] = `${targetType}.${targetName}.arn`
+            envVars[`${targetName.toUpperCase()}_BUCKET_NAME`] = traversal(`${targetType}.${targetName}.bucket`)
+            envVars[`${targetName.toUpperCase()}_BUCKET_ARN`] = traversal(`${targetType}.${targetName}.arn`)
           } else if (targetNode.data.id === 'sqs') {
-            envVars[`${targetName.toUpperCase()}_QUEUE_URL`] = `${targetType}.${targetName}.url`
-            envVars[`${targetName.toUpperCase()}_QUEUE_ARN`] = `${targetType}.${targetName}.arn`
+            envVars[`${targetName.toUpperCase()}_QUEUE_URL`] = traversal(`${targetType}.${targetName}.url`)
+            envVars[`${targetName.toUpperCase()}_QUEUE_ARN`] = traversal(`${targetType}.${targetName}.arn`)
+          } else if (targetNode.data.id === 'secrets_manager') {
+            envVars[`${targetName.toUpperCase()}_SECRET_ARN`] = traversal(`${targetType}.${targetName}.arn`)
           }
         }
       })
@@ -300,6 +489,7 @@ export class TerraformGenerator {
 
   private generateAWSConfig(serviceId: string, config: Record<string, any>, node: Node): Record<string, any> {
     const resourceConfig: Record<string, any> = { ...config }
+    const resourceName = this.getResourceName(node)
 
     switch (serviceId) {
       case "ec2":
@@ -307,6 +497,8 @@ export class TerraformGenerator {
           ami: config.ami || "ami-0abcdef1234567890",
           instance_type: config.instance_type || "t3.micro",
           key_name: config.key_name || null,
+          ...(this.getPlannedSubnets(node).length > 0 && { subnet_id: this.getPlannedSubnets(node)[0] }),
+          ...(this.hasSecurityGroup(node) && { vpc_security_group_ids: this.getSecurityGroupReferences(node) }),
           tags: {
             Name: config.name || `${node.data.name}-instance-${Date.now()}`,
             Environment: "terraform-generated",
@@ -315,7 +507,7 @@ export class TerraformGenerator {
 
       case "api_gateway":
         return {
-          name: config.name || `api-${Date.now()}`,
+          name: config.name || this.withEnvironment(node, `api-${Date.now()}`),
           description: config.description || "REST API",
           endpoint_configuration: config.endpoint_configuration ? {
             types: [config.endpoint_configuration],
@@ -326,10 +518,15 @@ export class TerraformGenerator {
 
       case "dynamodb":
         return {
-          name: config.table_name || `${this.sanitizeName(node.data.name as string)}-table-${Date.now()}`,
+          name: config.table_name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-table-${Date.now()}`),
           billing_mode: config.billing_mode || "PAY_PER_REQUEST",
           hash_key: config.hash_key || "id",
           ...(config.range_key && { range_key: config.range_key }),
+          // Key attributes must be declared; other attributes are schemaless
+          attribute: [
+            { name: config.hash_key || "id", type: "S" },
+            ...(config.range_key ? [{ name: config.range_key, type: "S" }] : []),
+          ],
           ...(config.billing_mode === "PROVISIONED" && {
             read_capacity: Number.parseInt(config.read_capacity) || 5,
             write_capacity: Number.parseInt(config.write_capacity) || 5,
@@ -351,7 +548,7 @@ export class TerraformGenerator {
 
       case "s3":
         return {
-          bucket: config.bucket_name || `${this.sanitizeName(node.data.name as string)}-bucket-${Date.now()}`,
+          bucket: config.bucket_name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-bucket-${Date.now()}`),
           tags: {
             Name: config.name || node.data.name,
             Environment: "terraform-generated",
@@ -360,14 +557,16 @@ export class TerraformGenerator {
 
       case "rds":
         return {
-          identifier: config.db_name || `${this.sanitizeName(node.data.name as string)}-db-${Date.now()}`,
+          identifier: config.db_name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-db-${Date.now()}`),
           engine: config.engine || "mysql",
-          engine_version: this.getEngineVersion(config.engine || "mysql"),
+          engine_version: this.getEngineVersion(node, config.engine || "mysql"),
           instance_class: config.instance_class || "db.t3.micro",
           allocated_storage: Number.parseInt(config.allocated_storage) || 20,
           db_name: config.db_name || `mydb_${Date.now()}`,
           username: "admin",
-          password: config.password || "password123",
+          password: this.getSecretValue(node, "password"),
+          ...(this.getPlannedSubnets(node).length > 0 && { db_subnet_group_name: traversal(`aws_db_subnet_group.${resourceName}_subnets.name`) }),
+          ...(this.hasSecurityGroup(node) && { vpc_security_group_ids: this.getSecurityGroupReferences(node) }),
           skip_final_snapshot: true,
           tags: {
             Name: config.name || node.data.name,
@@ -376,22 +575,30 @@ export class TerraformGenerator {
         }
 
       case "lambda":
-        const resourceName = this.sanitizeName((node.data.name as string) || (node.data.id as string))
         const useInlineCode = !config.s3_bucket && !config.s3_key
 
         return {
-          function_name: config.function_name || `${resourceName}-function-${Date.now()}`,
+          function_name: config.function_name || this.withEnvironment(node, `${resourceName}-function-${Date.now()}`),
           runtime: config.runtime || "nodejs18.x",
-          handler: "index.handler",
+          handler: config.handler || getDefaultHandler(config.runtime || "nodejs18.x"),
           ...(useInlineCode ? {
             filename: `lambda-${resourceName}.zip`,
+            // Changes to the packaged source change the hash, which redeploys the function
+            source_code_hash: traversal(`archive_file.${resourceName}_lambda_zip.output_base64sha256`),
           } : {
-            s3_bucket: config.s3_bucket || `var.lambda_s3_bucket`,
-            s3_key: config.s3_key || `var.lambda_s3_key`,
+            s3_bucket: config.s3_bucket || traversal(`var.lambda_s3_bucket`),
+            s3_key: config.s3_key || traversal(`var.lambda_s3_key`),
           }),
           memory_size: Number.parseInt(config.memory_size) || 128,
           timeout: Number.parseInt(config.timeout) || 30,
-          role: `aws_iam_role.${resourceName}_role.arn`,
+          role: traversal(`aws_iam_role.${resourceName}_role.arn`),
+          // Functions run in their VPC's subnets, so they reach the databases and instances in it
+          ...(this.hasSecurityGroup(node) && this.getSubnetReferences(node).length > 0 && {
+            vpc_config: {
+              subnet_ids: this.getSubnetReferences(node),
+              security_group_ids: this.getSecurityGroupReferences(node),
+            },
+          }),
           tags: {
             Name: config.name || node.data.name,
             Environment: "terraform-generated",
@@ -411,11 +618,11 @@ export class TerraformGenerator {
 
       case "alb":
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-alb-${Date.now()}`,
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-alb-${Date.now()}`),
           load_balancer_type: config.load_balancer_type || "application",
           scheme: config.scheme || "internet-facing",
-          subnets: [this.getSubnetReference(node.id)],
-          security_groups: this.getSecurityGroupReferences(node.id),
+          subnets: this.getSubnetReferences(node),
+          security_groups: this.getSecurityGroupReferences(node),
           tags: {
             Name: config.name || node.data.name,
             Environment: "terraform-generated",
@@ -424,7 +631,7 @@ export class TerraformGenerator {
 
       case "sqs":
         const sqsConfig: Record<string, any> = {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-queue-${Date.now()}`,
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-queue-${Date.now()}`),
           visibility_timeout_seconds: config.visibility_timeout_seconds || 30,
           message_retention_seconds: config.message_retention_seconds || 1209600,
           delay_seconds: config.delay_seconds || 0,
@@ -453,167 +660,2426 @@ export class TerraformGenerator {
 
         return sqsConfig
 
-      default:
-        return resourceConfig
-    }
-  }
+      case "cloudfront":
+        const originBuckets = this.getCloudFrontOriginBuckets(node)
+        const aliases = this.splitList(config.aliases || "")
+        const customCertificate = config.ssl_certificate === "Custom SSL Certificate" && config.acm_certificate_arn
+        const geoRestriction = config.geo_restriction_type || "none"
+        return {
+          enabled: config.enabled !== false && config.enabled !== "false",
+          comment: config.distribution_name || node.data.name,
+          is_ipv6_enabled: config.ipv6_enabled !== false && config.ipv6_enabled !== "false",
+          http_version: config.http_version || "http2",
+          price_class: config.price_class || "PriceClass_100",
+          default_root_object: config.default_root_object || "index.html",
+          // Aliases need a certificate that covers them
+          ...(customCertificate && aliases.length > 0 && { aliases }),
+          origin: originBuckets.map((bucket) => ({
+            domain_name: traversal(`${bucket}.bucket_regional_domain_name`),
+            origin_id: `s3-${bucket.split(".")[1]}`,
+            origin_access_control_id: traversal(`aws_cloudfront_origin_access_control.${resourceName}_oac.id`),
+          })),
+          default_cache_behavior: {
+            target_origin_id: `s3-${originBuckets[0].split(".")[1]}`,
+            allowed_methods: ["GET", "HEAD", "OPTIONS"],
+            cached_methods: ["GET", "HEAD"],
+            viewer_protocol_policy: "redirect-to-https",
+            compress: config.compress !== false && config.compress !== "false",
+            // AWS managed CachingOptimized policy
+            cache_policy_id: "658327ea-f89d-4fab-a63d-7e88639e58f6",
+          },
+          restrictions: {
+            geo_restriction: {
+              restriction_type: geoRestriction,
+              locations: geoRestriction === "none" ? [] : this.splitList(config.geo_restriction_locations || ""),
+            },
+          },
+          viewer_certificate: customCertificate ? {
+            acm_certificate_arn: config.acm_certificate_arn,
+            ssl_support_method: "sni-only",
+            minimum_protocol_version: config.minimum_protocol_version || "TLSv1.2_2021",
+          } : {
+            cloudfront_default_certificate: true,
+          },
+          ...(this.isTrue(config.logging_enabled) && {
+            logging_config: {
+              bucket: traversal(`aws_s3_bucket.${resourceName}_logs.bucket_domain_name`),
+              prefix: "cloudfront/",
+              include_cookies: false,
+            },
+          }),
+          ...(this.isTrue(config.waf_enabled) && { web_acl_id: traversal(`aws_wafv2_web_acl.${resourceName}_waf.arn`) }),
+          tags: {
+            Name: config.distribution_name || node.data.name,
+            Environment: "terraform-generated",
+          },
+        }
 
-  private generateGCPConfig(serviceId: string, config: Record<string, any>, node: Node): Record<string, any> {
-    switch (serviceId) {
-      case "compute":
+      case "cognito":
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-instance-${Date.now()}`,
-          machine_type: config.machine_type || "e2-micro",
-          zone: config.zone || "us-central1-a",
-          boot_disk: {
-            initialize_params: {
-              image: config.image || "debian-cloud/debian-11",
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-user-pool`),
+          alias_attributes: config.alias_attributes || ["email"],
+          auto_verified_attributes: config.auto_verified_attributes || ["email"],
+          mfa_configuration: config.mfa_configuration || "OFF",
+          // MFA needs a second factor; TOTP works without an SMS role
+          ...(config.mfa_configuration && config.mfa_configuration !== "OFF" && {
+            software_token_mfa_configuration: {
+              enabled: true,
             },
+          }),
+          password_policy: {
+            minimum_length: 8,
+            require_lowercase: true,
+            require_numbers: true,
+            require_symbols: true,
+            require_uppercase: true,
+            temporary_password_validity_days: 7,
+            ...this.parseJsonObject(config.password_policy),
           },
-          network_interface: {
-            network: "default",
-            access_config: {},
+          account_recovery_setting: {
+            recovery_mechanism: {
+              name: "verified_email",
+              priority: 1,
+            },
           },
-          labels: {
-            environment: "terraform-generated",
+          tags: {
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
           },
         }
 
-      case "storage":
+      case "step_functions":
+        const logging = this.parseJsonObject(config.logging_configuration)
+        const logGroup = this.getConnectedNodes(node.id, "outgoing", ["cloudwatch"])[0]
+        const tracing = this.parseJsonObject(config.tracing_configuration)
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-bucket-${Date.now()}`,
-          location: config.location || "US",
-          storage_class: config.storage_class || "STANDARD",
-          labels: {
-            environment: "terraform-generated",
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-state-machine`),
+          role_arn: config.role_arn || traversal(`aws_iam_role.${resourceName}_role.arn`),
+          definition: this.getStateMachineDefinition(node),
+          // Execution logs go to a connected log group
+          ...(logGroup && {
+            logging_configuration: {
+              log_destination: `\${${this.getResourceAddress(logGroup)}.arn}:*`,
+              include_execution_data: logging.include_execution_data ?? true,
+              level: logging.level || "ERROR",
+            },
+          }),
+          ...(Object.keys(tracing).length > 0 && { tracing_configuration: tracing }),
+          tags: {
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
           },
         }
 
-      case "sql":
+      case "secrets_manager":
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-db-${Date.now()}`,
-          database_version: config.database_version || "MYSQL_8_0",
-          tier: config.tier || "db-f1-micro",
-          settings: {
-            disk_size: 10,
-            disk_type: "PD_SSD",
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-secret`),
+          description: config.description || "Application secret",
+          recovery_window_in_days: Number.parseInt(config.recovery_window_in_days) || 30,
+          kms_key_id: config.kms_key_id || null,
+          tags: {
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
+            ...this.parseJsonObject(config.tags),
           },
         }
 
-      default:
-        return config
-    }
-  }
+      case "fargate":
+        const launchType = config.launch_type || "FARGATE"
+        return {
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-service`),
+          cluster: config.cluster_arn || traversal(`aws_ecs_cluster.${resourceName}_cluster.id`),
+          task_definition: config.task_definition_arn || traversal(`aws_ecs_task_definition.${resourceName}_task.arn`),
+          desired_count: Number.parseInt(config.desired_count) || 1,
+          launch_type: launchType,
+          network_configuration: {
+            subnets: this.getSubnetReferences(node),
+            security_groups: this.getSecurityGroupReferences(node),
+            // Only Fargate tasks can get a public IP of their own
+            ...(launchType === "FARGATE" && {
+              assign_public_ip: config.assign_public_ip !== false && config.assign_public_ip !== "false",
+            }),
+          },
+          tags: {
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
+          },
+        }
 
-  private generateAzureConfig(serviceId: string, config: Record<string, any>, node: Node): Record<string, any> {
-    switch (serviceId) {
-      case "vm":
+      case "kubernetes":
+        const configuredSubnets = Array.isArray(config.subnet_ids) ? config.subnet_ids.filter(Boolean) : []
+        const configuredSecurityGroups = Array.isArray(config.security_group_ids) ? config.security_group_ids.filter(Boolean) : []
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}-vm-${Date.now()}`,
-          resource_group_name: "azurerm_resource_group.main.name",
-          location: config.location || "East US",
-          size: config.vm_size || "Standard_B1s",
-          admin_username: "adminuser",
-          disable_password_authentication: true,
-          network_interface_ids: ["azurerm_network_interface.main.id"],
-          os_disk: {
-            caching: "ReadWrite",
-            storage_account_type: config.os_disk_type || "Standard_LRS",
+          name: config.name || this.withEnvironment(node, `${this.sanitizeName(node.data.name as string)}-cluster`),
+          version: config.version || "1.28",
+          role_arn: config.role_arn || traversal(`aws_iam_role.${resourceName}_cluster_role.arn`),
+          enabled_cluster_log_types: config.enabled_cluster_log_types || ["api", "audit"],
+          vpc_config: {
+            // EKS needs subnets in at least two availability zones
+            subnet_ids: configuredSubnets.length > 0 ? configuredSubnets : this.getSubnetReferences(node),
+            endpoint_private_access: this.isTrue(config.endpoint_private_access),
+            endpoint_public_access: config.endpoint_public_access !== false && config.endpoint_public_access !== "false",
+            ...(configuredSecurityGroups.length > 0 && { security_group_ids: configuredSecurityGroups }),
           },
-          source_image_reference: {
-            publisher: "Canonical",
-            offer: "0001-com-ubuntu-server-focal",
-            sku: "20_04-lts-gen2",
-            version: "latest",
+          tags: {
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
           },
+        }
+
+      case "cloudwatch":
+        return {
+          name: config.name || this.withEnvironment(node, `/${this.sanitizeName(node.data.name as string)}/logs`),
+          retention_in_days: Number.parseInt(config.retention_in_days) || 14,
+          kms_key_id: config.kms_key_id || null,
           tags: {
-            environment: "terraform-generated",
+            Name: config.name || node.data.name,
+            Environment: "terraform-generated",
+            ...this.parseJsonObject(config.tags),
           },
         }
 
-      case "blob":
+      case "ebs":
+        const volumeType = config.type || "gp3"
         return {
-          name: config.name || `${this.sanitizeName(node.data.name as string)}storage-${Date.now()}`,
-          resource_group_name: "azurerm_resource_group.main.name",
-          location: config.location || "East US",
-          account_tier: config.account_tier || "Standard",
-          account_replication_type: config.replication_type || "LRS",
+          availability_zone: config.availability_zone || `${this.getRegion()}a`,
+          size: Number.parseInt(config.size) || 20,
+          type: volumeType,
+          // Provisioned IOPS only apply to gp3 and io volumes, throughput only to gp3
+          ...(["gp3", "io1", "io2"].includes(volumeType) && { iops: Number.parseInt(config.iops) || 3000 }),
+          ...(volumeType === "gp3" && { throughput: Number.parseInt(config.throughput) || 125 }),
+          encrypted: this.isTrue(config.encrypted) || !!config.kms_key_id,
+          kms_key_id: config.kms_key_id || null,
+          snapshot_id: config.snapshot_id || null,
           tags: {
-            environment: "terraform-generated",
+            Name: node.data.name,
+            Environment: "terraform-generated",
+          },
+        }
+
+      case "internet_gateway":
+        const gatewayVpc = this.getConnectedNodes(node.id, "outgoing", ["vpc"])[0]
+        return {
+          // Gateways without a VPC are created detached
+          ...(gatewayVpc && { vpc_id: traversal(`${this.getResourceAddress(gatewayVpc)}.id`) }),
+          tags: {
+            Name: node.data.name,
+            Environment: "terraform-generated",
+            ...this.parseJsonObject(config.tags),
           },
         }
 
       default:
-        return config
+        return resourceConfig
     }
   }
 
-  private getDependencies(nodeId: string): string[] {
-    const dependencies: string[] = []
+  // Resources an AWS service needs besides its main resource
+  private generateAWSSupportingResources(node: Node, resources: TerraformResource[]): TerraformResource[] {
+    const config = (node.data.config || {}) as Record<string, any>
+    const resourceName = this.getResourceName(node)
+    const address = this.getResourceAddress(node)
+    const mainResource = resources.find((r) => r.type === node.data.terraformType && r.name === resourceName)
+    const supporting: TerraformResource[] = [...this.generateSecurityGroupResources(node)]
+
+    switch (node.data.id) {
+      case "cloudfront":
+        supporting.push({
+          type: "aws_cloudfront_origin_access_control",
+          name: `${resourceName}_oac`,
+          config: {
+            name: this.withEnvironment(node, `${resourceName}-oac`),
+            description: `Origin access control for ${node.data.name as string}`,
+            origin_access_control_origin_type: "s3",
+            signing_behavior: "always",
+            signing_protocol: "sigv4",
+          },
+          dependencies: [],
+        })
 
-    this.edges.forEach((edge) => {
-      if (edge.target === nodeId) {
-        const sourceNode = this.nodes.find((n) => n.id === edge.source)
-        if (sourceNode) {
-          dependencies.push(
-            `${sourceNode.data.terraformType as string}.${this.sanitizeName((sourceNode.data.name as string) || (sourceNode.data.id as string))}`,
-          )
+        // Without a connected bucket the distribution gets an origin bucket of its own
+        if (this.getConnectedNodes(node.id, "outgoing", ["s3"]).length === 0) {
+          supporting.push({
+            type: "aws_s3_bucket",
+            name: `${resourceName}_origin`,
+            config: {
+              bucket_prefix: this.getBucketPrefix(node, "origin"),
+              tags: {
+                Name: `${node.data.name as string}-origin`,
+                Environment: "terraform-generated",
+              },
+            },
+            dependencies: [],
+          })
         }
-      }
-    })
 
-    return dependencies
-  }
+        // Only this distribution may read the origin buckets
+        this.getCloudFrontOriginBuckets(node).forEach((bucket) => {
+          supporting.push({
+            type: "aws_s3_bucket_policy",
+            name: `${bucket.split(".")[1]}_cloudfront`,
+            config: {
+              bucket: traversal(`${bucket}.id`),
+              policy: call("jsonencode", toExpression({
+                Version: "2012-10-17",
+                Statement: [
+                  {
+                    Sid: "AllowCloudFrontServicePrincipal",
+                    Effect: "Allow",
+                    Principal: { Service: "cloudfront.amazonaws.com" },
+                    Action: "s3:GetObject",
+                    Resource: `\${${bucket}.arn}/*`,
+                    Condition: { StringEquals: { "AWS:SourceArn": `\${${address}.arn}` } },
+                  },
+                ],
+              })),
+            },
+            dependencies: [],
+          })
+        })
 
-  // Get all edges connected to a node (incoming and outgoing)
-  private getNodeConnections(nodeId: string): { incoming: Edge[], outgoing: Edge[] } {
-    const incoming = this.edges.filter(edge => edge.target === nodeId)
-    const outgoing = this.edges.filter(edge => edge.source === nodeId)
-    return { incoming, outgoing }
-  }
+        if (this.isTrue(config.logging_enabled)) {
+          supporting.push({
+            type: "aws_s3_bucket",
+            name: `${resourceName}_logs`,
+            config: {
+              bucket_prefix: this.getBucketPrefix(node, "logs"),
+              tags: {
+                Name: `${node.data.name as string}-logs`,
+                Environment: "terraform-generated",
+              },
+            },
+            dependencies: [],
+          })
+          // CloudFront writes access logs through bucket ACLs
+          supporting.push({
+            type: "aws_s3_bucket_ownership_controls",
+            name: `${resourceName}_logs`,
+            config: {
+              bucket: traversal(`aws_s3_bucket.${resourceName}_logs.id`),
+              rule: {
+                object_ownership: "BucketOwnerPreferred",
+              },
+            },
+            dependencies: [],
+          })
+          mainResource?.dependencies?.push(`aws_s3_bucket_ownership_controls.${resourceName}_logs`)
+        }
 
-  private generateVariables(): Record<string, any> {
-    const variables: Record<string, any> = {}
+        if (this.isTrue(config.waf_enabled)) {
+          const visibility = (metricName: string) => ({
+            cloudwatch_metrics_enabled: true,
+            metric_name: metricName,
+            sampled_requests_enabled: true,
+          })
+          // CloudFront web ACLs must be created in us-east-1
+          supporting.push({
+            type: "aws_wafv2_web_acl",
+            name: `${resourceName}_waf`,
+            config: {
+              name: this.withEnvironment(node, `${resourceName.replace(/_/g, "-")}-waf`),
+              scope: "CLOUDFRONT",
+              default_action: {
+                allow: {},
+              },
+              rule: {
+                name: "AWSManagedRulesCommonRuleSet",
+                priority: 1,
+                override_action: {
+                  none: {},
+                },
+                statement: {
+                  managed_rule_group_statement: {
+                    name: "AWSManagedRulesCommonRuleSet",
+                    vendor_name: "AWS",
+                  },
+                },
+                visibility_config: visibility("common-rule-set"),
+              },
+              visibility_config: visibility(`${resourceName}-waf`),
+            },
+            dependencies: [],
+          })
+        }
+        break
 
-    // Add common variables
-    variables.environment = {
-      description: "Environment name",
-      type: "string",
-      default: "dev",
-    }
+      case "vpc":
+        // An internet gateway on the canvas serves the public subnets instead of a generated one
+        const attachedGateway = this.getConnectedNodes(node.id, "incoming", ["internet_gateway"])[0]
+        supporting.push(...NetworkInfrastructureGenerator.generateNetworkResources(
+          this.getNetworkPlan(node),
+          `${address}.id`,
+          attachedGateway && this.getResourceAddress(attachedGateway)
+        ))
+        break
 
-    variables.region = {
-      description: "Cloud provider region",
-      type: "string",
-      default: this.getDefaultRegion(),
-    }
+      case "rds":
+        const databaseSubnets = this.getPlannedSubnets(node)
+        if (databaseSubnets.length === 0) break
 
-    // Note: RDS password is now set to default "password123" instead of using variables
+        supporting.push({
+          type: "aws_db_subnet_group",
+          name: `${resourceName}_subnets`,
+          config: {
+            name: `${this.getHyphenatedName(node)}-subnets`,
+            subnet_ids: databaseSubnets,
+            tags: {
+              Name: `${node.data.name as string}-subnets`,
+              Environment: "terraform-generated",
+            },
+          },
+          dependencies: [],
+        })
+        break
 
-    // Add Lambda S3 variables if there are Lambda nodes
-    const hasLambda = this.nodes.some(node => node.data.id === 'lambda')
-    if (this.provider === "aws" && hasLambda) {
-      variables.lambda_s3_bucket = {
-        description: "S3 bucket containing the Lambda function code",
-        type: "string",
-        default: "my-lambda-bucket",
-      }
-      variables.lambda_s3_key = {
-        description: "S3 key (path) to the Lambda function ZIP file",
-        type: "string",
-        default: "lambda-function.zip",
-      }
-    }
+      case "step_functions":
+        if (config.role_arn) break
 
-    return variables
-  }
+        supporting.push(this.generateServiceRole(`${resourceName}_role`, this.withEnvironment(node, `${resourceName}-state-machine-role`), "states.amazonaws.com"))
+        const stateMachinePolicies = this.generateEdgePolicies(node, `${resourceName}_role`)
+        supporting.push(...stateMachinePolicies)
+        // The state machine is checked against its role's permissions when it is created
+        mainResource?.dependencies?.push(...stateMachinePolicies.map((policy) => `${policy.type}.${policy.name}`))
+        break
 
-  private generateOutputs(): Record<string, any> {
-    const outputs: Record<string, any> = {}
+      case "ec2":
+        // Instances get a role, through an instance profile, only when they access other resources
+        const instancePolicies = this.generateEdgePolicies(node, `${resourceName}_role`)
+        if (instancePolicies.length === 0) break
+
+        supporting.push(this.generateServiceRole(`${resourceName}_role`, this.withEnvironment(node, `${resourceName}-instance-role`), "ec2.amazonaws.com"))
+        supporting.push(...instancePolicies)
+        supporting.push({
+          type: "aws_iam_instance_profile",
+          name: `${resourceName}_profile`,
+          config: {
+            name: this.withEnvironment(node, `${resourceName}-instance-profile`),
+            role: traversal(`aws_iam_role.${resourceName}_role.name`),
+          },
+          dependencies: [],
+        })
+        if (mainResource) {
+          mainResource.config.iam_instance_profile = traversal(`aws_iam_instance_profile.${resourceName}_profile.name`)
+        }
+        break
+
+      case "api_gateway":
+        // API Gateway calls functions through their resource policy rather than a role
+        this.getConnectedNodes(node.id, "outgoing", ["lambda"]).forEach((fn) => {
+          supporting.push({
+            type: "aws_lambda_permission",
+            name: `${resourceName}_${this.getResourceName(fn)}_invoke`,
+            config: {
+              statement_id: `AllowInvokeFrom${resourceName.replace(/(^|_)([a-z0-9])/g, (_, __, char: string) => char.toUpperCase())}`,
+              action: "lambda:InvokeFunction",
+              function_name: traversal(`${this.getResourceAddress(fn)}.function_name`),
+              principal: "apigateway.amazonaws.com",
+              // Any stage, method and path of this API
+              source_arn: `\${${address}.execution_arn}/*/*`,
+            },
+            dependencies: [],
+          })
+        })
+        break
+
+      case "fargate":
+        const serviceName = config.name || this.withEnvironment(node, `${resourceName}-service`)
+        if (!config.cluster_arn) {
+          supporting.push({
+            type: "aws_ecs_cluster",
+            name: `${resourceName}_cluster`,
+            config: {
+              name: `${serviceName}-cluster`,
+              setting: {
+                name: "containerInsights",
+                value: "enabled",
+              },
+              tags: {
+                Name: `${node.data.name as string}-cluster`,
+                Environment: "terraform-generated",
+              },
+            },
+            dependencies: [],
+          })
+        }
+        if (config.task_definition_arn) break
+
+        supporting.push({
+          type: "aws_cloudwatch_log_group",
+          name: `${resourceName}_logs`,
+          config: {
+            name: `/ecs/${serviceName}`,
+            retention_in_days: 14,
+          },
+          dependencies: [],
+        })
+
+        supporting.push(this.generateServiceRole(`${resourceName}_execution_role`, this.withEnvironment(node, `${resourceName}-execution-role`), "ecs-tasks.amazonaws.com"))
+        // The task role is what the containers themselves act as
+        const taskPolicies = this.generateEdgePolicies(node, `${resourceName}_task_role`)
+        if (taskPolicies.length > 0) {
+          supporting.push(this.generateServiceRole(`${resourceName}_task_role`, this.withEnvironment(node, `${resourceName}-task-role`), "ecs-tasks.amazonaws.com"))
+          supporting.push(...taskPolicies)
+        }
+        supporting.push({
+          type: "aws_iam_role_policy_attachment",
+          name: `${resourceName}_execution`,
+          config: {
+            role: traversal(`aws_iam_role.${resourceName}_execution_role.name`),
+            policy_arn: "arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy",
+          },
+          dependencies: [],
+        })
+
+        const containerPort = Number.parseInt(config.container_port) || 80
+        supporting.push({
+          type: "aws_ecs_task_definition",
+          name: `${resourceName}_task`,
+          config: {
+            family: serviceName,
+            network_mode: "awsvpc",
+            requires_compatibilities: [config.launch_type || "FARGATE"],
+            // Task-level cpu and memory are strings in the ECS API
+            cpu: String(config.cpu || 256),
+            memory: String(config.memory || 512),
+            execution_role_arn: traversal(`aws_iam_role.${resourceName}_execution_role.arn`),
+            ...(taskPolicies.length > 0 && { task_role_arn: traversal(`aws_iam_role.${resourceName}_task_role.arn`) }),
+            container_definitions: call("jsonencode", toExpression([
+              {
+                name: serviceName,
+                image: config.image || "public.ecr.aws/nginx/nginx:latest",
+                essential: true,
+                portMappings: [{ containerPort, hostPort: containerPort, protocol: "tcp" }],
+                logConfiguration: {
+                  logDriver: "awslogs",
+                  options: {
+                    "awslogs-group": `\${aws_cloudwatch_log_group.${resourceName}_logs.name}`,
+                    "awslogs-region": "${var.region}",
+                    "awslogs-stream-prefix": "ecs",
+                  },
+                },
+              },
+            ])),
+            tags: {
+              Name: `${node.data.name as string}-task`,
+              Environment: "terraform-generated",
+            },
+          },
+          dependencies: [],
+        })
+        break
+
+      case "kubernetes":
+        const clusterPolicies = config.role_arn ? [] : ["AmazonEKSClusterPolicy"]
+        if (!config.role_arn) {
+          supporting.push(this.generateServiceRole(`${resourceName}_cluster_role`, this.withEnvironment(node, `${resourceName}-cluster-role`), "eks.amazonaws.com"))
+        }
+        const nodePolicies = ["AmazonEKSWorkerNodePolicy", "AmazonEKS_CNI_Policy", "AmazonEC2ContainerRegistryReadOnly"]
+        supporting.push(this.generateServiceRole(`${resourceName}_node_role`, this.withEnvironment(node, `${resourceName}-node-role`), "ec2.amazonaws.com"))
+
+        const attachments = [
+          ...clusterPolicies.map((policy) => ({ policy, role: `${resourceName}_cluster_role` })),
+          ...nodePolicies.map((policy) => ({ policy, role: `${resourceName}_node_role` })),
+        ].map(({ policy, role }) => {
+          supporting.push({
+            type: "aws_iam_role_policy_attachment",
+            name: `${resourceName}_${this.sanitizeName(policy)}`,
+            config: {
+              role: traversal(`aws_iam_role.${role}.name`),
+              policy_arn: `arn:aws:iam::aws:policy/${policy}`,
+            },
+            dependencies: [],
+          })
+          return `aws_iam_role_policy_attachment.${resourceName}_${this.sanitizeName(policy)}`
+        })
+
+        // The cluster needs its policy before it is created, and keeps it until it is deleted
+        if (clusterPolicies.length > 0) {
+          mainResource?.dependencies?.push(attachments[0])
+        }
+
+        supporting.push({
+          type: "aws_eks_node_group",
+          name: `${resourceName}_nodes`,
+          config: {
+            cluster_name: traversal(`${address}.name`),
+            node_group_name: `${config.name || resourceName}-nodes`,
+            node_role_arn: traversal(`aws_iam_role.${resourceName}_node_role.arn`),
+            subnet_ids: mainResource?.config.vpc_config?.subnet_ids || this.getSubnetReferences(node),
+            instance_types: [config.node_instance_type || "t3.medium"],
+            scaling_config: {
+              desired_size: Number.parseInt(config.node_desired_size) || 2,
+              min_size: Number.parseInt(config.node_min_size) || 1,
+              max_size: Number.parseInt(config.node_max_size) || 3,
+            },
+            tags: {
+              Name: `${node.data.name as string}-nodes`,
+              Environment: "terraform-generated",
+            },
+          },
+          dependencies: attachments.slice(clusterPolicies.length),
+        })
+        break
+
+      case "ebs":
+        this.getConnectedNodes(node.id, "incoming", ["ec2"]).forEach((instance) => {
+          supporting.push({
+            type: "aws_volume_attachment",
+            name: `${resourceName}_${this.getResourceName(instance)}`,
+            config: {
+              device_name: "/dev/sdf",
+              volume_id: traversal(`${address}.id`),
+              instance_id: traversal(`${this.getResourceAddress(instance)}.id`),
+            },
+            dependencies: [],
+          })
+        })
+        break
+    }
+
+    return supporting
+  }
+
+  // An inline role policy for each outgoing edge of a compute service, scoped to the resource
+  // on the other end. A policy set on the edge replaces the generated one.
+  private generateEdgePolicies(node: Node, role: string): TerraformResource[] {
+    return this.getNodeConnections(node.id).outgoing.flatMap((edge) => {
+      const target = this.nodes.find((n) => n.id === edge.target)
+      const policy = (edge.data?.policy as IamPolicyDocument | undefined) || this.getEdgePolicy(edge.id)
+      if (!target || !policy || policy.Statement.length === 0) return []
+
+      const name = `${this.getResourceName(node)}_${this.getResourceName(target)}`
+      return [{
+        type: "aws_iam_role_policy",
+        name,
+        config: {
+          name: `${name.replace(/_/g, "-")}-policy`,
+          role: traversal(`aws_iam_role.${role}.id`),
+          policy: call("jsonencode", toExpression(policy)),
+        },
+        dependencies: [],
+      }]
+    })
+  }
+
+  // Edges of a service that open network access to or from it
+  private getNetworkEdges(node: Node): Edge[] {
+    return this.edges.filter((edge) => {
+      if (edge.source !== node.id && edge.target !== node.id) return false
+      const source = this.nodes.find((n) => n.id === edge.source)
+      const target = this.nodes.find((n) => n.id === edge.target)
+      return !!source && !!target && isNetworkEdge(source.data.id as string, target.data.id as string)
+    })
+  }
+
+  // Services get a security group of their own once another service connects to them
+  // through the network, or they to it. Load balancers and Fargate services always
+  // have one, as they can't be created without, and functions and databases get one
+  // when their VPC's network plan places them in its subnets.
+  private hasSecurityGroup(node: Node): boolean {
+    if (this.provider !== "aws") return false
+    const service = node.data.id as string
+    return ["alb", "fargate"].includes(service) ||
+      (["lambda", "rds"].includes(service) && this.getPlannedSubnets(node).length > 0) ||
+      this.getNetworkEdges(node).length > 0
+  }
+
+  // Rule of a network edge, with the target's defaults for the fields the edge doesn't set
+  getEdgeNetworkRule(edgeId: string): NetworkRule | null {
+    const edge = this.edges.find((e) => e.id === edgeId)
+    const source = this.nodes.find((n) => n.id === edge?.source)
+    const target = this.nodes.find((n) => n.id === edge?.target)
+    if (this.provider !== "aws" || !edge || !source || !target) return null
+    if (!isNetworkEdge(source.data.id as string, target.data.id as string)) return null
+
+    return getNetworkRule(
+      edge.data as ConnectionEdgeData | undefined,
+      target.data.id as string,
+      (target.data.config || {}) as Record<string, any>
+    )
+  }
+
+  // A service's security group, and the rules of the edges it is the source of. Each
+  // connection is allowed by an egress rule on the connecting side and an ingress rule
+  // on the other, both referencing the other side's security group.
+  private generateSecurityGroupResources(node: Node): TerraformResource[] {
+    if (!this.hasSecurityGroup(node)) return []
+
+    const resourceName = this.getResourceName(node)
+    const vpc = this.getNetworkVpc(node)
+    const resources: TerraformResource[] = [{
+      type: "aws_security_group",
+      name: `${resourceName}_sg`,
+      config: {
+        name: `${this.getHyphenatedName(node)}-sg`,
+        description: `Security group for ${node.data.name as string}`,
+        // Services without a VPC are placed in the account's default one
+        ...(vpc && { vpc_id: traversal(`${this.getResourceAddress(vpc)}.id`) }),
+        tags: {
+          Name: `${node.data.name as string}-sg`,
+          Environment: "terraform-generated",
+        },
+      },
+      dependencies: [],
+    }]
+
+    // Internet-facing load balancers take requests from clients outside the stack
+    const config = (node.data.config || {}) as Record<string, any>
+    if (node.data.id === "alb" && (config.scheme || "internet-facing") === "internet-facing") {
+      [80, 443].forEach((port) => {
+        resources.push({
+          type: "aws_security_group_rule",
+          name: `${resourceName}_public_${port}`,
+          config: {
+            type: "ingress",
+            description: `Clients on port ${port}`,
+            security_group_id: traversal(`aws_security_group.${resourceName}_sg.id`),
+            protocol: "tcp",
+            from_port: port,
+            to_port: port,
+            cidr_blocks: ["0.0.0.0/0"],
+          },
+          dependencies: [],
+        })
+      })
+    }
+
+    // Fargate tasks pull their images from registries outside the stack, and both they
+    // and functions call the AWS APIs of the services they are connected to
+    if (["fargate", "lambda"].includes(node.data.id as string)) {
+      resources.push({
+        type: "aws_security_group_rule",
+        name: `${resourceName}_public_egress`,
+        config: {
+          type: "egress",
+          description: node.data.id === "fargate" ? "Image registries and AWS APIs" : "AWS APIs",
+          security_group_id: traversal(`aws_security_group.${resourceName}_sg.id`),
+          protocol: "tcp",
+          from_port: 443,
+          to_port: 443,
+          cidr_blocks: ["0.0.0.0/0"],
+        },
+        dependencies: [],
+      })
+    }
+
+    this.getNetworkEdges(node)
+      .filter((edge) => edge.source === node.id)
+      .forEach((edge) => {
+        const target = this.nodes.find((n) => n.id === edge.target)
+        const rule = this.getEdgeNetworkRule(edge.id)
+        const ports = rule && getPortRange(rule)
+        if (!target || !rule || !ports) return
+
+        const flows = rule.direction === "both" ? [[node, target], [target, node]] : rule.direction === "reverse" ? [[target, node]] : [[node, target]]
+        flows.forEach(([from, to]) => {
+          const fromName = this.getResourceName(from)
+          const toName = this.getResourceName(to)
+          const ruleConfig = {
+            protocol: rule.protocol === "all" ? "-1" : rule.protocol,
+            from_port: ports.from,
+            to_port: ports.to,
+          }
+          resources.push(
+            {
+              type: "aws_security_group_rule",
+              name: `${fromName}_to_${toName}_egress`,
+              config: {
+                type: "egress",
+                description: `To ${to.data.name as string}`,
+                security_group_id: traversal(`aws_security_group.${fromName}_sg.id`),
+                ...ruleConfig,
+                source_security_group_id: traversal(`aws_security_group.${toName}_sg.id`),
+              },
+              dependencies: [],
+            },
+            {
+              type: "aws_security_group_rule",
+              name: `${fromName}_to_${toName}_ingress`,
+              config: {
+                type: "ingress",
+                description: `From ${from.data.name as string}`,
+                security_group_id: traversal(`aws_security_group.${toName}_sg.id`),
+                ...ruleConfig,
+                source_security_group_id: traversal(`aws_security_group.${fromName}_sg.id`),
+              },
+              dependencies: [],
+            }
+          )
+        })
+      })
+
+    return resources
+  }
+
+  // IAM role that an AWS service assumes to act on the stack's resources
+  private generateServiceRole(name: string, roleName: string, servicePrincipal: string): TerraformResource {
+    return {
+      type: "aws_iam_role",
+      name,
+      config: {
+        name: roleName,
+        assume_role_policy: call("jsonencode", toExpression({
+          Version: "2012-10-17",
+          Statement: [
+            {
+              Effect: "Allow",
+              Principal: { Service: servicePrincipal },
+              Action: "sts:AssumeRole",
+            },
+          ],
+        })),
+        tags: {
+          Name: roleName,
+          Environment: "terraform-generated",
+        },
+      },
+      dependencies: [],
+    }
+  }
+
+  // S3 buckets a CloudFront distribution serves from
+  private getCloudFrontOriginBuckets(node: Node): string[] {
+    const buckets = this.getConnectedNodes(node.id, "outgoing", ["s3"]).map((bucket) => this.getResourceAddress(bucket))
+    return buckets.length > 0 ? buckets : [`aws_s3_bucket.${this.getResourceName(node)}_origin`]
+  }
+
+  // State machine definition; with connected functions and no Task states, the functions are invoked in turn
+  private getStateMachineDefinition(node: Node): HclExpression {
+    const config = (node.data.config || {}) as Record<string, any>
+    let definition = this.parseJsonObject(config.definition)
+    const functions = this.getConnectedNodes(node.id, "outgoing", ["lambda"])
+    const hasTasks = Object.values(definition.States || {}).some((state: any) => state?.Type === "Task")
+
+    if (functions.length > 0 && !hasTasks) {
+      const stateNames = functions.map((fn) => `Invoke_${this.getResourceName(fn)}`)
+      definition = {
+        Comment: definition.Comment || `Invokes ${functions.map((fn) => fn.data.name as string).join(", ")}`,
+        StartAt: stateNames[0],
+        States: Object.fromEntries(functions.map((fn, i) => [stateNames[i], {
+          Type: "Task",
+          Resource: "arn:aws:states:::lambda:invoke",
+          Parameters: {
+            FunctionName: `\${${this.getResourceAddress(fn)}.arn}`,
+            "Payload.$": "$",
+          },
+          OutputPath: "$.Payload",
+          ...(i < functions.length - 1 ? { Next: stateNames[i + 1] } : { End: true }),
+        }])),
+      }
+    } else if (!definition.StartAt) {
+      definition = {
+        Comment: "A simple state machine",
+        StartAt: "HelloWorld",
+        States: { HelloWorld: { Type: "Pass", Result: "Hello World!", End: true } },
+      }
+    }
+
+    return call("jsonencode", toExpression(definition))
+  }
+
+  // Subnets a service is placed in: the connected ones, else those of its tier in its
+  // VPC's network plan. Services without a VPC get none.
+  private getSubnetReferences(node: Node): HclExpression[] {
+    const subnets = this.getConnectedNodes(node.id, "outgoing", ["subnet"])
+    if (subnets.length > 0) return subnets.map((subnet) => traversal(`${this.getResourceAddress(subnet)}.id`))
+    return this.getPlannedSubnets(node)
+  }
+
+  // VPC a service is placed in: the one it is connected to, else the diagram's only VPC
+  private getNetworkVpc(node: Node): Node | undefined {
+    const connected = this.getConnectedNodes(node.id, "outgoing", ["vpc"])[0]
+    if (connected || this.provider !== "aws") return connected
+    const vpcs = this.nodes.filter((n) => n.data.id === "vpc")
+    return vpcs.length === 1 ? vpcs[0] : undefined
+  }
+
+  private getNetworkPlan(vpc: Node): NetworkPlan {
+    return NetworkInfrastructureGenerator.planNetwork(
+      NetworkInfrastructureGenerator.getPlanOptions(this.getResourceName(vpc), (vpc.data.config || {}) as Record<string, any>)
+    )
+  }
+
+  // Subnets of a service's tier in its VPC's network plan, e.g. the private ones for a database
+  private getPlannedSubnets(node: Node): HclExpression[] {
+    const vpc = this.getNetworkVpc(node)
+    return vpc ? NetworkInfrastructureGenerator.getSubnetReferences(node.data.id as string, this.getNetworkPlan(vpc)) : []
+  }
+
+  // Fields that take a JSON object in a text box; objects from default configs pass through
+  private parseJsonObject(value: unknown): Record<string, any> {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value as Record<string, any>
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      return {}
+    }
+    try {
+      const parsed = JSON.parse(value)
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private generateGCPConfig(serviceId: string, config: Record<string, any>, node: Node): Record<string, any> {
+    const resourceName = this.getResourceName(node)
+    const networkNode = this.getGCPNetworkNode(node)
+    const subnetworkNode = this.getConnectedNodes(node.id, "outgoing", ["subnetwork"])[0]
+
+    switch (serviceId) {
+      case "compute":
+        const firewalls = this.getConnectedNodes(node.id, "incoming", ["firewall"])
+        return {
+          name: config.name || `${this.sanitizeName(node.data.name as string)}-instance-${Date.now()}`,
+          machine_type: config.machine_type || "e2-micro",
+          zone: config.zone || "us-central1-a",
+          boot_disk: {
+            initialize_params: {
+              image: config.image || "debian-cloud/debian-11",
+              size: Number.parseInt(config.disk_size) || 20,
+            },
+          },
+          network_interface: {
+            // A subnetwork implies its network; without either the instance joins the default network
+            ...(subnetworkNode
+              ? { subnetwork: traversal(`${this.getResourceAddress(subnetworkNode)}.id`) }
+              : { network: networkNode ? traversal(`${this.getResourceAddress(networkNode)}.id`) : "default" }),
+            access_config: {},
+          },
+          ...(this.isTrue(config.preemptible) && {
+            scheduling: {
+              preemptible: true,
+              automatic_restart: false,
+            },
+          }),
+          // Firewall rules connected to the instance select it by this network tag
+          ...(firewalls.length > 0 && { tags: [this.getHyphenatedName(node)] }),
+          labels: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "storage":
+        return {
+          name: config.name || `${this.sanitizeName(node.data.name as string)}-bucket-${Date.now()}`,
+          location: config.location || "US",
+          storage_class: config.storage_class || "STANDARD",
+          uniform_bucket_level_access: config.uniform_bucket_level_access !== false && config.uniform_bucket_level_access !== "false",
+          public_access_prevention: config.public_access_prevention || "enforced",
+          force_destroy: this.isTrue(config.force_destroy),
+          versioning: {
+            enabled: this.isTrue(config.versioning),
+          },
+          labels: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "sql":
+        return {
+          name: config.name || `${this.sanitizeName(node.data.name as string)}-db-${Date.now()}`,
+          database_version: config.database_version || "MYSQL_8_0",
+          region: config.region || traversal("var.region"),
+          deletion_protection: this.isTrue(config.deletion_protection),
+          settings: {
+            tier: config.tier || "db-f1-micro",
+            disk_size: Number.parseInt(config.disk_size) || 10,
+            disk_type: "PD_SSD",
+            availability_type: config.availability_type || "ZONAL",
+            backup_configuration: {
+              enabled: config.backup_enabled !== false && config.backup_enabled !== "false",
+            },
+            // Connected to a network, the instance only gets a private IP in it
+            ...(networkNode && {
+              ip_configuration: {
+                ipv4_enabled: false,
+                private_network: traversal(`${this.getResourceAddress(networkNode)}.id`),
+              },
+            }),
+            user_labels: {
+              environment: "terraform-generated",
+            },
+          },
+        }
+
+      case "functions":
+        const triggerTopic = this.getConnectedNodes(node.id, "incoming", ["pubsub"])[0]
+        const functionEnvironment = this.getGCPEnvironmentVariables(node)
+        return {
+          name: this.getHyphenatedName(node),
+          runtime: config.runtime || "nodejs20",
+          entry_point: config.entry_point || "handler",
+          region: config.region || traversal("var.region"),
+          available_memory_mb: Number.parseInt(config.available_memory_mb) || 256,
+          timeout: Number.parseInt(config.timeout) || 60,
+          max_instances: Number.parseInt(config.max_instances) || 10,
+          source_archive_bucket: traversal(`google_storage_bucket.${resourceName}_source.name`),
+          source_archive_object: traversal(`google_storage_bucket_object.${resourceName}_source.name`),
+          // A connected topic triggers the function; otherwise it is called over HTTP
+          ...(triggerTopic ? {
+            event_trigger: {
+              event_type: "google.pubsub.topic.publish",
+              resource: traversal(`${this.getResourceAddress(triggerTopic)}.id`),
+            },
+          } : {
+            trigger_http: true,
+          }),
+          ...(Object.keys(functionEnvironment).length > 0 && { environment_variables: functionEnvironment }),
+          ...(this.needsVPCConnector(node) && {
+            vpc_connector: traversal(`google_vpc_access_connector.${resourceName}_connector.id`),
+            vpc_connector_egress_settings: "PRIVATE_RANGES_ONLY",
+          }),
+          labels: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "cloud_run":
+        const serviceEnvironment = this.getGCPEnvironmentVariables(node)
+        return {
+          name: this.getHyphenatedName(node),
+          location: config.region || traversal("var.region"),
+          ingress: config.ingress || "INGRESS_TRAFFIC_ALL",
+          template: {
+            scaling: {
+              min_instance_count: Number.parseInt(config.min_instances) || 0,
+              max_instance_count: Number.parseInt(config.max_instances) || 10,
+            },
+            containers: {
+              image: config.image || "us-docker.pkg.dev/cloudrun/container/hello",
+              ports: {
+                container_port: Number.parseInt(config.port) || 8080,
+              },
+              resources: {
+                limits: {
+                  cpu: config.cpu || "1",
+                  memory: config.memory || "512Mi",
+                },
+              },
+              ...(Object.keys(serviceEnvironment).length > 0 && {
+                env: Object.entries(serviceEnvironment).map(([name, value]) => ({ name, value })),
+              }),
+            },
+            ...(this.needsVPCConnector(node) && {
+              vpc_access: {
+                connector: traversal(`google_vpc_access_connector.${resourceName}_connector.id`),
+                egress: "PRIVATE_RANGES_ONLY",
+              },
+            }),
+          },
+          labels: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "lb":
+        // The URL map sends traffic to instance groups by default and to serverless
+        // backends on their own path when both kinds are connected
+        const { instances, serverless } = this.getLoadBalancerTargets(node)
+        const instanceBackend = traversal(`google_compute_backend_service.${resourceName}_backend.id`)
+        const serverlessBackend = traversal(`google_compute_backend_service.${resourceName}_serverless_backend.id`)
+        return {
+          name: this.getHyphenatedName(node),
+          default_service: instances.length > 0 || serverless.length === 0 ? instanceBackend : serverlessBackend,
+          ...(instances.length > 0 && serverless.length > 0 && {
+            host_rule: {
+              hosts: ["*"],
+              path_matcher: "serverless",
+            },
+            path_matcher: {
+              name: "serverless",
+              default_service: instanceBackend,
+              path_rule: {
+                paths: [config.serverless_path || "/api/*"],
+                service: serverlessBackend,
+              },
+            },
+          }),
+        }
+
+      case "network":
+        return {
+          name: this.getHyphenatedName(node),
+          auto_create_subnetworks: this.isTrue(config.auto_create_subnetworks),
+          routing_mode: config.routing_mode || "REGIONAL",
+          mtu: Number.parseInt(config.mtu) || 1460,
+        }
+
+      case "subnetwork":
+        return {
+          name: this.getHyphenatedName(node),
+          ip_cidr_range: config.ip_cidr_range || "10.0.0.0/24",
+          region: config.region || traversal("var.region"),
+          network: networkNode ? traversal(`${this.getResourceAddress(networkNode)}.id`) : "default",
+          private_ip_google_access: config.private_ip_google_access !== false && config.private_ip_google_access !== "false",
+        }
+
+      case "pubsub":
+        return {
+          name: this.getHyphenatedName(node),
+          message_retention_duration: config.message_retention_duration || "86400s",
+          labels: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "firewall":
+        const direction = config.direction || "INGRESS"
+        const protocol = config.protocol || "tcp"
+        const ranges = this.splitList(config.source_ranges || "0.0.0.0/0")
+        const targets = this.getConnectedNodes(node.id, "outgoing", ["compute"])
+        return {
+          name: this.getHyphenatedName(node),
+          network: networkNode ? traversal(`${this.getResourceAddress(networkNode)}.name`) : "default",
+          direction,
+          priority: Number.parseInt(config.priority) || 1000,
+          allow: {
+            protocol,
+            // Only TCP and UDP rules can be limited to ports
+            ...((protocol === "tcp" || protocol === "udp") && config.ports !== "" && {
+              ports: this.splitList(config.ports || "22,80,443"),
+            }),
+          },
+          ...(direction === "INGRESS" ? { source_ranges: ranges } : { destination_ranges: ranges }),
+          ...(targets.length > 0 && { target_tags: targets.map((target) => this.getHyphenatedName(target)) }),
+        }
+
+      default:
+        return config
+    }
+  }
+
+  // Supporting resources generated alongside a GCP node, e.g. a function's source
+  // archive or the backend services behind a load balancer
+  private generateGCPSupportingResources(node: Node, resources: TerraformResource[]): TerraformResource[] {
+    const supporting: TerraformResource[] = []
+    const config = (node.data.config || {}) as Record<string, any>
+    const resourceName = this.getResourceName(node)
+    const address = this.getResourceAddress(node)
+    const gcpName = this.getHyphenatedName(node)
+    const region = config.region || traversal("var.region")
+
+    switch (node.data.id) {
+      case "sql":
+        supporting.push({
+          type: "google_sql_database",
+          name: `${resourceName}_database`,
+          config: {
+            name: config.database_name || "app",
+            instance: traversal(`${address}.name`),
+          },
+          dependencies: [],
+        })
+
+        // Private IP needs a peering range reserved for Google services, once per network
+        const networkNode = this.getGCPNetworkNode(node)
+        if (networkNode) {
+          const networkName = this.getResourceName(networkNode)
+          const networkAddress = this.getResourceAddress(networkNode)
+          const connectionAddress = `google_service_networking_connection.${networkName}_private_services`
+          const hasConnection = resources.some((r) => `${r.type}.${r.name}` === connectionAddress)
+          if (!hasConnection) {
+            supporting.push({
+              type: "google_compute_global_address",
+              name: `${networkName}_private_services`,
+              config: {
+                name: `${this.getHyphenatedName(networkNode)}-private-services`,
+                purpose: "VPC_PEERING",
+                address_type: "INTERNAL",
+                prefix_length: 16,
+                network: traversal(`${networkAddress}.id`),
+              },
+              dependencies: [],
+            })
+            supporting.push({
+              type: "google_service_networking_connection",
+              name: `${networkName}_private_services`,
+              config: {
+                network: traversal(`${networkAddress}.id`),
+                service: "servicenetworking.googleapis.com",
+                reserved_peering_ranges: [traversal(`google_compute_global_address.${networkName}_private_services.name`)],
+              },
+              dependencies: [],
+            })
+          }
+
+          const instance = resources.find((r) => `${r.type}.${r.name}` === address)
+          if (instance) {
+            instance.dependencies = instance.dependencies || []
+            instance.dependencies.push(connectionAddress)
+          }
+        }
+        break
+
+      case "functions":
+        const runtime = config.runtime || "nodejs20"
+        const isHttp = this.getConnectedNodes(node.id, "incoming", ["pubsub"]).length === 0
+
+        // Upload a starter function as the source archive
+        supporting.push({
+          type: "google_storage_bucket",
+          name: `${resourceName}_source`,
+          config: {
+            name: `${gcpName}-source-${Date.now()}`,
+            location: "US",
+            uniform_bucket_level_access: true,
+            force_destroy: true,
+          },
+          dependencies: [],
+        })
+        supporting.push({
+          type: "archive_file",
+          name: `${resourceName}_function_zip`,
+          config: {
+            type: "zip",
+            output_path: `function-${resourceName}.zip`,
+            source: this.getFunctionSource(runtime, config.entry_point || "handler", isHttp),
+          },
+          dependencies: [],
+        })
+        supporting.push({
+          type: "google_storage_bucket_object",
+          name: `${resourceName}_source`,
+          config: {
+            name: `function-${resourceName}.zip`,
+            bucket: traversal(`google_storage_bucket.${resourceName}_source.name`),
+            source: `function-${resourceName}.zip`,
+          },
+          dependencies: [`archive_file.${resourceName}_function_zip`],
+        })
+
+        if (isHttp && this.isTrue(config.allow_unauthenticated)) {
+          supporting.push({
+            type: "google_cloudfunctions_function_iam_member",
+            name: `${resourceName}_invoker`,
+            config: {
+              project: traversal(`${address}.project`),
+              region: traversal(`${address}.region`),
+              cloud_function: traversal(`${address}.name`),
+              role: "roles/cloudfunctions.invoker",
+              member: "allUsers",
+            },
+            dependencies: [],
+          })
+        }
+
+        supporting.push(...this.generateVPCConnector(node))
+        break
+
+      case "cloud_run":
+        if (this.isTrue(config.allow_unauthenticated)) {
+          supporting.push({
+            type: "google_cloud_run_v2_service_iam_member",
+            name: `${resourceName}_invoker`,
+            config: {
+              name: traversal(`${address}.name`),
+              location: traversal(`${address}.location`),
+              role: "roles/run.invoker",
+              member: "allUsers",
+            },
+            dependencies: [],
+          })
+        }
+
+        supporting.push(...this.generateVPCConnector(node))
+        break
+
+      case "pubsub":
+        if (this.isTrue(config.create_subscription)) {
+          supporting.push({
+            type: "google_pubsub_subscription",
+            name: `${resourceName}_subscription`,
+            config: {
+              name: `${gcpName}-subscription`,
+              topic: traversal(`${address}.id`),
+              ack_deadline_seconds: Number.parseInt(config.ack_deadline_seconds) || 20,
+            },
+            dependencies: [],
+          })
+        }
+
+        // Deliver messages to connected Cloud Run services with push subscriptions
+        this.getConnectedNodes(node.id, "outgoing", ["cloud_run"]).forEach((service) => {
+          supporting.push({
+            type: "google_pubsub_subscription",
+            name: `${resourceName}_${this.getResourceName(service)}_push`,
+            config: {
+              name: `${gcpName}-${this.getHyphenatedName(service)}-push`,
+              topic: traversal(`${address}.id`),
+              ack_deadline_seconds: Number.parseInt(config.ack_deadline_seconds) || 20,
+              push_config: {
+                push_endpoint: traversal(`${this.getResourceAddress(service)}.uri`),
+              },
+            },
+            dependencies: [],
+          })
+        })
+        break
+
+      case "lb":
+        supporting.push(...this.generateLoadBalancerResources(node, region))
+        break
+    }
+
+    return supporting
+  }
+
+  // Backends, proxy and forwarding rule of an HTTP(S) load balancer; the URL map is the node itself
+  private generateLoadBalancerResources(node: Node, region: string | HclExpression): TerraformResource[] {
+    const resources: TerraformResource[] = []
+    const config = (node.data.config || {}) as Record<string, any>
+    const resourceName = this.getResourceName(node)
+    const gcpName = this.getHyphenatedName(node)
+    const { instances, serverless } = this.getLoadBalancerTargets(node)
+    const port = Number.parseInt(config.backend_port) || 80
+
+    resources.push({
+      type: "google_compute_global_address",
+      name: `${resourceName}_address`,
+      config: {
+        name: `${gcpName}-address`,
+      },
+      dependencies: [],
+    })
+
+    // Instances are served through an unmanaged instance group behind a health-checked backend
+    if (instances.length > 0 || serverless.length === 0) {
+      const backends: Record<string, any>[] = []
+      if (instances.length > 0) {
+        resources.push({
+          type: "google_compute_instance_group",
+          name: `${resourceName}_instances`,
+          config: {
+            name: `${gcpName}-instances`,
+            zone: (instances[0].data.config as any)?.zone || "us-central1-a",
+            instances: instances.map((instance) => traversal(`${this.getResourceAddress(instance)}.self_link`)),
+            named_port: {
+              name: "http",
+              port,
+            },
+          },
+          dependencies: [],
+        })
+        backends.push({ group: traversal(`google_compute_instance_group.${resourceName}_instances.id`) })
+      }
+
+      resources.push({
+        type: "google_compute_health_check",
+        name: `${resourceName}_health_check`,
+        config: {
+          name: `${gcpName}-health-check`,
+          http_health_check: {
+            port,
+            request_path: config.health_check_path || "/",
+          },
+        },
+        dependencies: [],
+      })
+      resources.push({
+        type: "google_compute_backend_service",
+        name: `${resourceName}_backend`,
+        config: {
+          name: `${gcpName}-backend`,
+          protocol: "HTTP",
+          port_name: "http",
+          load_balancing_scheme: "EXTERNAL",
+          timeout_sec: 30,
+          health_checks: [traversal(`google_compute_health_check.${resourceName}_health_check.id`)],
+          ...(backends.length > 0 && { backend: backends }),
+        },
+        dependencies: [],
+      })
+    }
+
+    // Cloud Run services and functions are reached through serverless network endpoint groups
+    if (serverless.length > 0) {
+      serverless.forEach((target) => {
+        const targetConfig = (target.data.config || {}) as Record<string, any>
+        const targetAddress = this.getResourceAddress(target)
+        resources.push({
+          type: "google_compute_region_network_endpoint_group",
+          name: `${resourceName}_${this.getResourceName(target)}_neg`,
+          config: {
+            name: `${gcpName}-${this.getHyphenatedName(target)}-neg`,
+            network_endpoint_type: "SERVERLESS",
+            region: targetConfig.region || region,
+            ...(target.data.id === "cloud_run"
+              ? { cloud_run: { service: traversal(`${targetAddress}.name`) } }
+              : { cloud_function: { function: traversal(`${targetAddress}.name`) } }),
+          },
+          dependencies: [],
+        })
+      })
+      resources.push({
+        type: "google_compute_backend_service",
+        name: `${resourceName}_serverless_backend`,
+        config: {
+          name: `${gcpName}-serverless-backend`,
+          protocol: "HTTP",
+          load_balancing_scheme: "EXTERNAL",
+          backend: serverless.map((target) => ({
+            group: traversal(`google_compute_region_network_endpoint_group.${resourceName}_${this.getResourceName(target)}_neg.id`),
+          })),
+        },
+        dependencies: [],
+      })
+    }
+
+    // With a domain the load balancer serves HTTPS using a Google-managed certificate
+    const urlMap = traversal(`${this.getResourceAddress(node)}.id`)
+    const proxyType = config.domain ? "google_compute_target_https_proxy" : "google_compute_target_http_proxy"
+    if (config.domain) {
+      resources.push({
+        type: "google_compute_managed_ssl_certificate",
+        name: `${resourceName}_certificate`,
+        config: {
+          name: `${gcpName}-certificate`,
+          managed: {
+            domains: [config.domain],
+          },
+        },
+        dependencies: [],
+      })
+    }
+    resources.push({
+      type: proxyType,
+      name: `${resourceName}_proxy`,
+      config: {
+        name: `${gcpName}-proxy`,
+        url_map: urlMap,
+        ...(config.domain && { ssl_certificates: [traversal(`google_compute_managed_ssl_certificate.${resourceName}_certificate.id`)] }),
+      },
+      dependencies: [],
+    })
+    resources.push({
+      type: "google_compute_global_forwarding_rule",
+      name: `${resourceName}_forwarding_rule`,
+      config: {
+        name: `${gcpName}-forwarding-rule`,
+        target: traversal(`${proxyType}.${resourceName}_proxy.id`),
+        ip_address: traversal(`google_compute_global_address.${resourceName}_address.id`),
+        port_range: config.domain ? "443" : "80",
+        load_balancing_scheme: "EXTERNAL",
+      },
+      dependencies: [],
+    })
+
+    return resources
+  }
+
+  // Serverless VPC Access connector that lets a function or Cloud Run service reach private IPs
+  private generateVPCConnector(node: Node): TerraformResource[] {
+    if (!this.needsVPCConnector(node)) return []
+
+    const config = (node.data.config || {}) as Record<string, any>
+    const networkNode = this.getServerlessNetworkNode(node)
+
+    // Each connector needs its own /28 range, so number them in diagram order
+    const index = this.nodes.filter((n) => this.needsVPCConnector(n)).findIndex((n) => n.id === node.id)
+
+    return [{
+      type: "google_vpc_access_connector",
+      name: `${this.getResourceName(node)}_connector`,
+      config: {
+        // Connector names are limited to 25 characters
+        name: `${this.getHyphenatedName(node).slice(0, 20).replace(/-+$/, "")}-conn`,
+        region: config.region || traversal("var.region"),
+        network: networkNode ? traversal(`${this.getResourceAddress(networkNode)}.name`) : "default",
+        ip_cidr_range: `10.8.${index}.0/28`,
+      },
+      dependencies: [],
+    }]
+  }
+
+  // Functions and Cloud Run services need a connector to reach Cloud SQL or a connected network
+  private needsVPCConnector(node: Node): boolean {
+    if (node.data.id !== "functions" && node.data.id !== "cloud_run") return false
+    return this.getConnectedNodes(node.id, "outgoing", ["sql", "network", "subnetwork"]).length > 0
+  }
+
+  // Network of a serverless node's connector: its own network, else that of the database it reaches
+  private getServerlessNetworkNode(node: Node): Node | undefined {
+    return this.getGCPNetworkNode(node) ||
+      this.getConnectedNodes(node.id, "outgoing", ["sql"])
+        .map((database) => this.getGCPNetworkNode(database))
+        .find((network) => network)
+  }
+
+  // Network a GCP node is connected to, directly or through a subnetwork
+  private getGCPNetworkNode(node: Node): Node | undefined {
+    const network = this.getConnectedNodes(node.id, "outgoing", ["network"])[0]
+    if (network) return network
+
+    const subnetwork = this.getConnectedNodes(node.id, "outgoing", ["subnetwork"])[0]
+    return subnetwork && this.getConnectedNodes(subnetwork.id, "outgoing", ["network"])[0]
+  }
+
+  private getLoadBalancerTargets(node: Node): { instances: Node[]; serverless: Node[] } {
+    return {
+      instances: this.getConnectedNodes(node.id, "outgoing", ["compute"]),
+      serverless: this.getConnectedNodes(node.id, "outgoing", ["cloud_run", "functions"]),
+    }
+  }
+
+  // Environment variables that tell a function or service how to reach what it is connected to
+  private getGCPEnvironmentVariables(node: Node): Record<string, HclExpression> {
+    const envVars: Record<string, HclExpression> = {}
+
+    this.getConnectedNodes(node.id, "outgoing").forEach((target) => {
+      const prefix = this.getResourceName(target).toUpperCase()
+      const targetAddress = this.getResourceAddress(target)
+
+      switch (target.data.id) {
+        case "sql":
+          envVars[`${prefix}_CONNECTION_NAME`] = traversal(`${targetAddress}.connection_name`)
+          envVars[`${prefix}_HOST`] = traversal(`${targetAddress}.first_ip_address`)
+          envVars[`${prefix}_DATABASE`] = traversal(`google_sql_database.${this.getResourceName(target)}_database.name`)
+          break
+        case "storage":
+          envVars[`${prefix}_BUCKET`] = traversal(`${targetAddress}.name`)
+          break
+        case "pubsub":
+          envVars[`${prefix}_TOPIC`] = traversal(`${targetAddress}.name`)
+          break
+        case "cloud_run":
+          envVars[`${prefix}_URL`] = traversal(`${targetAddress}.uri`)
+          break
+        case "functions":
+          envVars[`${prefix}_URL`] = traversal(`${targetAddress}.https_trigger_url`)
+          break
+      }
+    })
+
+    return envVars
+  }
+
+  // Starter source for a Cloud Function, as archive_file source blocks
+  private getFunctionSource(runtime: string, entryPoint: string, isHttp: boolean): Record<string, string>[] {
+    if (runtime.startsWith("python")) {
+      return [
+        {
+          filename: "main.py",
+          content: isHttp
+            ? `def ${entryPoint}(request):\n    return {"message": "Hello from Cloud Functions!"}`
+            : `import base64\n\n\ndef ${entryPoint}(event, context):\n    print(base64.b64decode(event["data"]).decode("utf-8"))`,
+        },
+        { filename: "requirements.txt", content: "" },
+      ]
+    }
+
+    return [
+      {
+        filename: "index.js",
+        content: isHttp
+          ? `exports.${entryPoint} = (req, res) => {\n  res.json({ message: 'Hello from Cloud Functions!', timestamp: new Date().toISOString() });\n};`
+          : `exports.${entryPoint} = (message, context) => {\n  console.log('Message:', Buffer.from(message.data, 'base64').toString());\n};`,
+      },
+      { filename: "package.json", content: `{\n  "name": "function",\n  "version": "1.0.0"\n}` },
+    ]
+  }
+
+  private generateAzureConfig(serviceId: string, config: Record<string, any>, node: Node): Record<string, any> {
+    const resourceName = this.getResourceName(node)
+    const appSettings = this.getAzureAppSettings(node)
+    const identity = this.getConnectedNodes(node.id, "outgoing", ["key_vault"]).length > 0 && {
+      // Key Vault access policies are granted to the app's managed identity
+      identity: {
+        type: "SystemAssigned",
+      },
+    }
+
+    switch (serviceId) {
+      case "vm":
+        return {
+          name: config.name || `${this.sanitizeName(node.data.name as string)}-vm-${Date.now()}`,
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: config.location || traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          size: config.vm_size || "Standard_B1s",
+          admin_username: config.admin_username || "azureuser",
+          admin_password: this.getSecretValue(node, "admin_password"),
+          disable_password_authentication: false,
+          network_interface_ids: [traversal(`azurerm_network_interface.${resourceName}_nic.id`)],
+          os_disk: {
+            caching: "ReadWrite",
+            storage_account_type: config.os_disk_type || "Standard_LRS",
+            disk_size_gb: Number.parseInt(config.disk_size_gb) || 30,
+          },
+          source_image_reference: {
+            publisher: "Canonical",
+            offer: "0001-com-ubuntu-server-focal",
+            sku: "20_04-lts-gen2",
+            version: "latest",
+          },
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "blob":
+        return {
+          name: config.name || this.getStorageAccountName(node),
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          account_tier: config.account_tier || "Standard",
+          account_replication_type: config.replication_type || "LRS",
+          min_tls_version: "TLS1_2",
+          ...(this.isTrue(config.versioning) && {
+            blob_properties: {
+              versioning_enabled: true,
+            },
+          }),
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "vnet":
+        return {
+          name: this.getHyphenatedName(node),
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          address_space: [config.address_space || "10.0.0.0/16"],
+          ...(config.dns_servers && { dns_servers: this.splitList(config.dns_servers) }),
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "subnet":
+        const vnet = this.getConnectedNodes(node.id, "outgoing", ["vnet"])[0]
+        const integratedApps = this.getConnectedNodes(node.id, "incoming", ["functions", "app_service"])
+        const databases = this.getConnectedNodes(node.id, "incoming", ["sql"])
+        return {
+          name: this.getHyphenatedName(node),
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          virtual_network_name: vnet ? traversal(`${this.getResourceAddress(vnet)}.name`) : traversal("azurerm_virtual_network.main.name"),
+          address_prefixes: [config.address_prefix || "10.0.1.0/24"],
+          // SQL servers admit traffic from a subnet through its service endpoint
+          ...(databases.length > 0 && { service_endpoints: ["Microsoft.Sql"] }),
+          // App VNet integration needs a subnet delegated to App Service
+          ...(integratedApps.length > 0 && {
+            delegation: {
+              name: "app-service",
+              service_delegation: {
+                name: "Microsoft.Web/serverFarms",
+                actions: ["Microsoft.Network/virtualNetworks/subnets/action"],
+              },
+            },
+          }),
+        }
+
+      case "nsg":
+        const protocol = config.protocol || "Tcp"
+        return {
+          name: this.getHyphenatedName(node),
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          security_rule: this.splitList(config.allowed_ports || "22,80,443").map((port, index) => ({
+            name: `allow-${port}`,
+            priority: 100 + index * 10,
+            direction: "Inbound",
+            access: "Allow",
+            protocol,
+            source_port_range: "*",
+            destination_port_range: port,
+            source_address_prefix: config.source_address_prefix || "*",
+            destination_address_prefix: "*",
+          })),
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "sql":
+        return {
+          name: config.name ? this.getHyphenatedName(node) : `${this.getHyphenatedName(node)}-${Date.now()}`,
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          version: config.version || "12.0",
+          administrator_login: config.administrator_login || "sqladmin",
+          administrator_login_password: this.getSecretValue(node, "administrator_password"),
+          minimum_tls_version: "1.2",
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "functions":
+        return {
+          name: config.name ? this.getHyphenatedName(node) : `${this.getHyphenatedName(node)}-${Date.now()}`,
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          service_plan_id: traversal(`azurerm_service_plan.${resourceName}_plan.id`),
+          storage_account_name: traversal(`azurerm_storage_account.${resourceName}_storage.name`),
+          storage_account_access_key: traversal(`azurerm_storage_account.${resourceName}_storage.primary_access_key`),
+          https_only: config.https_only !== false && config.https_only !== "false",
+          ...this.getAzureSubnetIntegration(node),
+          site_config: {
+            application_stack: this.getApplicationStack(config.runtime || "node-20"),
+          },
+          ...(Object.keys(appSettings).length > 0 && { app_settings: appSettings }),
+          ...identity,
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "app_service":
+        return {
+          name: config.name ? this.getHyphenatedName(node) : `${this.getHyphenatedName(node)}-${Date.now()}`,
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          service_plan_id: traversal(`azurerm_service_plan.${resourceName}_plan.id`),
+          https_only: config.https_only !== false && config.https_only !== "false",
+          ...this.getAzureSubnetIntegration(node),
+          site_config: {
+            always_on: this.isTrue(config.always_on),
+            application_stack: this.getApplicationStack(config.runtime || "node-20-lts"),
+          },
+          ...(Object.keys(appSettings).length > 0 && { app_settings: appSettings }),
+          ...identity,
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "lb":
+        return {
+          name: this.getHyphenatedName(node),
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          sku: "Standard",
+          frontend_ip_configuration: {
+            name: "frontend",
+            public_ip_address_id: traversal(`azurerm_public_ip.${resourceName}_public_ip.id`),
+          },
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      case "key_vault":
+        return {
+          // Vault names are limited to 24 characters
+          name: config.name ? this.getHyphenatedName(node).slice(0, 24) : `${this.getHyphenatedName(node).slice(0, 10)}-${Date.now()}`,
+          resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+          location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+          tenant_id: traversal("data.azurerm_client_config.current.tenant_id"),
+          sku_name: config.sku_name || "standard",
+          soft_delete_retention_days: Number.parseInt(config.soft_delete_retention_days) || 7,
+          purge_protection_enabled: this.isTrue(config.purge_protection_enabled),
+          tags: {
+            environment: "terraform-generated",
+          },
+        }
+
+      default:
+        return config
+    }
+  }
+
+  // Supporting resources generated alongside an Azure node, e.g. a VM's network
+  // interface or the plan a Function App runs on
+  private generateAzureSupportingResources(node: Node): TerraformResource[] {
+    const supporting: TerraformResource[] = []
+    const config = (node.data.config || {}) as Record<string, any>
+    const resourceName = this.getResourceName(node)
+    const address = this.getResourceAddress(node)
+    const hyphenatedName = this.getHyphenatedName(node)
+
+    switch (node.data.id) {
+      case "vm":
+        const publicIp = config.public_ip !== false && config.public_ip !== "false"
+        if (publicIp) {
+          supporting.push({
+            type: "azurerm_public_ip",
+            name: `${resourceName}_public_ip`,
+            config: {
+              name: `${hyphenatedName}-ip`,
+              resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+              location: config.location || traversal(`${AZURE_RESOURCE_GROUP}.location`),
+              allocation_method: "Static",
+              sku: "Standard",
+            },
+            dependencies: [],
+          })
+        }
+        supporting.push({
+          type: "azurerm_network_interface",
+          name: `${resourceName}_nic`,
+          config: {
+            name: `${hyphenatedName}-nic`,
+            resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+            location: config.location || traversal(`${AZURE_RESOURCE_GROUP}.location`),
+            ip_configuration: {
+              name: "internal",
+              subnet_id: this.getAzureSubnetId(node),
+              private_ip_address_allocation: "Dynamic",
+              ...(publicIp && { public_ip_address_id: traversal(`azurerm_public_ip.${resourceName}_public_ip.id`) }),
+            },
+          },
+          dependencies: [],
+        })
+        break
+
+      case "vnet":
+        // VMs connected straight to the network are placed in its default subnet
+        if (this.getConnectedNodes(node.id, "incoming", ["vm"]).length > 0) {
+          supporting.push({
+            type: "azurerm_subnet",
+            name: `${resourceName}_default`,
+            config: {
+              name: "default",
+              resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+              virtual_network_name: traversal(`${address}.name`),
+              address_prefixes: [config.default_subnet_prefix || "10.0.0.0/24"],
+            },
+            dependencies: [],
+          })
+        }
+        break
+
+      case "nsg":
+        this.getConnectedNodes(node.id, "outgoing", ["subnet", "vm"]).forEach((target) => {
+          const targetName = this.getResourceName(target)
+          supporting.push(target.data.id === "subnet" ? {
+            type: "azurerm_subnet_network_security_group_association",
+            name: `${resourceName}_${targetName}`,
+            config: {
+              subnet_id: traversal(`${this.getResourceAddress(target)}.id`),
+              network_security_group_id: traversal(`${address}.id`),
+            },
+            dependencies: [],
+          } : {
+            type: "azurerm_network_interface_security_group_association",
+            name: `${resourceName}_${targetName}`,
+            config: {
+              network_interface_id: traversal(`azurerm_network_interface.${targetName}_nic.id`),
+              network_security_group_id: traversal(`${address}.id`),
+            },
+            dependencies: [],
+          })
+        })
+        break
+
+      case "blob":
+        if (config.container_name !== "") {
+          supporting.push({
+            type: "azurerm_storage_container",
+            name: `${resourceName}_container`,
+            config: {
+              name: config.container_name || "data",
+              storage_account_name: traversal(`${address}.name`),
+              container_access_type: config.container_access_type || "private",
+            },
+            dependencies: [],
+          })
+        }
+        break
+
+      case "sql":
+        supporting.push({
+          type: "azurerm_mssql_database",
+          name: `${resourceName}_database`,
+          config: {
+            name: config.database_name || "app",
+            server_id: traversal(`${address}.id`),
+            sku_name: config.sku_name || "Basic",
+            max_size_gb: Number.parseInt(config.max_size_gb) || 2,
+            tags: {
+              environment: "terraform-generated",
+            },
+          },
+          dependencies: [],
+        })
+
+        // The 0.0.0.0 rule is Azure's convention for "allow Azure services"
+        if (config.allow_azure_services !== false && config.allow_azure_services !== "false") {
+          supporting.push({
+            type: "azurerm_mssql_firewall_rule",
+            name: `${resourceName}_allow_azure_services`,
+            config: {
+              name: "AllowAzureServices",
+              server_id: traversal(`${address}.id`),
+              start_ip_address: "0.0.0.0",
+              end_ip_address: "0.0.0.0",
+            },
+            dependencies: [],
+          })
+        }
+
+        this.getConnectedNodes(node.id, "outgoing", ["subnet"]).forEach((subnet) => {
+          supporting.push({
+            type: "azurerm_mssql_virtual_network_rule",
+            name: `${resourceName}_${this.getResourceName(subnet)}`,
+            config: {
+              name: `${this.getHyphenatedName(subnet)}-rule`,
+              server_id: traversal(`${address}.id`),
+              subnet_id: traversal(`${this.getResourceAddress(subnet)}.id`),
+            },
+            dependencies: [],
+          })
+        })
+        break
+
+      case "functions":
+        supporting.push({
+          type: "azurerm_service_plan",
+          name: `${resourceName}_plan`,
+          config: {
+            name: `${hyphenatedName}-plan`,
+            resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+            location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+            os_type: "Linux",
+            sku_name: config.sku_name || "Y1",
+          },
+          dependencies: [],
+        })
+        // Function Apps keep their triggers and logs in a storage account of their own
+        supporting.push({
+          type: "azurerm_storage_account",
+          name: `${resourceName}_storage`,
+          config: {
+            name: this.getStorageAccountName(node),
+            resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+            location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+            account_tier: "Standard",
+            account_replication_type: "LRS",
+            min_tls_version: "TLS1_2",
+          },
+          dependencies: [],
+        })
+        break
+
+      case "app_service":
+        supporting.push({
+          type: "azurerm_service_plan",
+          name: `${resourceName}_plan`,
+          config: {
+            name: `${hyphenatedName}-plan`,
+            resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+            location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+            os_type: "Linux",
+            sku_name: config.sku_name || "B1",
+          },
+          dependencies: [],
+        })
+        break
+
+      case "lb":
+        const probePath = config.health_probe_path ?? "/"
+        const backendPort = Number.parseInt(config.backend_port) || 80
+        supporting.push({
+          type: "azurerm_public_ip",
+          name: `${resourceName}_public_ip`,
+          config: {
+            name: `${hyphenatedName}-ip`,
+            resource_group_name: traversal(`${AZURE_RESOURCE_GROUP}.name`),
+            location: traversal(`${AZURE_RESOURCE_GROUP}.location`),
+            allocation_method: "Static",
+            sku: "Standard",
+          },
+          dependencies: [],
+        })
+        supporting.push({
+          type: "azurerm_lb_backend_address_pool",
+          name: `${resourceName}_backend`,
+          config: {
+            name: "backend",
+            loadbalancer_id: traversal(`${address}.id`),
+          },
+          dependencies: [],
+        })
+        supporting.push({
+          type: "azurerm_lb_probe",
+          name: `${resourceName}_probe`,
+          config: {
+            name: "health",
+            loadbalancer_id: traversal(`${address}.id`),
+            port: backendPort,
+            protocol: probePath ? "Http" : "Tcp",
+            ...(probePath && { request_path: probePath }),
+          },
+          dependencies: [],
+        })
+        supporting.push({
+          type: "azurerm_lb_rule",
+          name: `${resourceName}_rule`,
+          config: {
+            name: "lb-rule",
+            loadbalancer_id: traversal(`${address}.id`),
+            protocol: config.protocol || "Tcp",
+            frontend_port: Number.parseInt(config.frontend_port) || 80,
+            backend_port: backendPort,
+            frontend_ip_configuration_name: "frontend",
+            backend_address_pool_ids: [traversal(`azurerm_lb_backend_address_pool.${resourceName}_backend.id`)],
+            probe_id: traversal(`azurerm_lb_probe.${resourceName}_probe.id`),
+          },
+          dependencies: [],
+        })
+
+        // Connected VMs join the backend pool through their network interfaces
+        this.getConnectedNodes(node.id, "outgoing", ["vm"]).forEach((vm) => {
+          const vmName = this.getResourceName(vm)
+          supporting.push({
+            type: "azurerm_network_interface_backend_address_pool_association",
+            name: `${resourceName}_${vmName}`,
+            config: {
+              network_interface_id: traversal(`azurerm_network_interface.${vmName}_nic.id`),
+              ip_configuration_name: "internal",
+              backend_address_pool_id: traversal(`azurerm_lb_backend_address_pool.${resourceName}_backend.id`),
+            },
+            dependencies: [],
+          })
+        })
+        break
+
+      case "key_vault":
+        // Whoever runs Terraform manages the vault's secrets; connected apps can read them
+        supporting.push({
+          type: "azurerm_key_vault_access_policy",
+          name: `${resourceName}_deployer`,
+          config: {
+            key_vault_id: traversal(`${address}.id`),
+            tenant_id: traversal("data.azurerm_client_config.current.tenant_id"),
+            object_id: traversal("data.azurerm_client_config.current.object_id"),
+            secret_permissions: ["Get", "List", "Set", "Delete", "Purge", "Recover"],
+          },
+          dependencies: [],
+        })
+        this.getConnectedNodes(node.id, "incoming", ["functions", "app_service"]).forEach((app) => {
+          const appAddress = this.getResourceAddress(app)
+          supporting.push({
+            type: "azurerm_key_vault_access_policy",
+            name: `${resourceName}_${this.getResourceName(app)}`,
+            config: {
+              key_vault_id: traversal(`${address}.id`),
+              tenant_id: traversal(`${appAddress}.identity[0].tenant_id`),
+              object_id: traversal(`${appAddress}.identity[0].principal_id`),
+              secret_permissions: ["Get", "List"],
+            },
+            dependencies: [],
+          })
+        })
+        break
+    }
+
+    return supporting
+  }
+
+  // Subnet a VM's network interface is placed in: a connected subnet, else the
+  // default subnet of a connected network
+  private getAzureSubnetId(node: Node): HclExpression {
+    const subnet = this.getConnectedNodes(node.id, "outgoing", ["subnet"])[0]
+    if (subnet) return traversal(`${this.getResourceAddress(subnet)}.id`)
+
+    const vnet = this.getConnectedNodes(node.id, "outgoing", ["vnet"])[0]
+    if (vnet) return traversal(`azurerm_subnet.${this.getResourceName(vnet)}_default.id`)
+
+    // Diagrams without a network get the workspace's shared one
+    return traversal("azurerm_subnet.main.id")
+  }
+
+  // Regional VNet integration of a Function App or App Service
+  private getAzureSubnetIntegration(node: Node): Record<string, HclExpression> {
+    const subnet = this.getConnectedNodes(node.id, "outgoing", ["subnet"])[0]
+    return subnet ? { virtual_network_subnet_id: traversal(`${this.getResourceAddress(subnet)}.id`) } : {}
+  }
+
+  // App settings that tell a Function App or App Service how to reach what it is connected to
+  private getAzureAppSettings(node: Node): Record<string, string | HclExpression> {
+    const appSettings: Record<string, string | HclExpression> = {}
+    if (node.data.id !== "functions" && node.data.id !== "app_service") return appSettings
+
+    this.getConnectedNodes(node.id, "outgoing").forEach((target) => {
+      const prefix = this.getResourceName(target).toUpperCase()
+      const targetAddress = this.getResourceAddress(target)
+      const targetConfig = (target.data.config || {}) as Record<string, any>
+
+      switch (target.data.id) {
+        case "blob":
+          appSettings[`${prefix}_CONNECTION_STRING`] = traversal(`${targetAddress}.primary_connection_string`)
+          if (targetConfig.container_name !== "") {
+            appSettings[`${prefix}_CONTAINER`] = traversal(`azurerm_storage_container.${this.getResourceName(target)}_container.name`)
+          }
+          break
+        case "sql":
+          appSettings[`${prefix}_SERVER`] = traversal(`${targetAddress}.fully_qualified_domain_name`)
+          appSettings[`${prefix}_DATABASE`] = traversal(`azurerm_mssql_database.${this.getResourceName(target)}_database.name`)
+          break
+        case "key_vault":
+          appSettings[`${prefix}_URI`] = traversal(`${targetAddress}.vault_uri`)
+          break
+        case "functions":
+        case "app_service":
+          appSettings[`${prefix}_URL`] = `https://\${${targetAddress}.default_hostname}`
+          break
+      }
+    })
+
+    return appSettings
+  }
+
+  // Runtimes are "<language>-<version>", e.g. node-20-lts becomes node_version = "20-lts"
+  private getApplicationStack(runtime: string): Record<string, string> {
+    const [language, ...version] = runtime.split("-")
+    return { [`${language}_version`]: version.join("-") }
+  }
+
+  // Storage account names are 3-24 lowercase letters and digits, unique across Azure
+  private getStorageAccountName(node: Node): string {
+    const base = this.getResourceName(node).replace(/[^a-z0-9]/g, "").slice(0, 11)
+    return `${base}${Date.now()}`
+  }
+
+  private getDependencies(nodeId: string): string[] {
+    const dependencies: string[] = []
+
+    this.edges.forEach((edge) => {
+      if (edge.target === nodeId) {
+        const sourceNode = this.nodes.find((n) => n.id === edge.source)
+        if (sourceNode) {
+          dependencies.push(
+            `${sourceNode.data.terraformType as string}.${this.sanitizeName((sourceNode.data.name as string) || (sourceNode.data.id as string))}`,
+          )
+        }
+      }
+    })
+
+    return dependencies
+  }
+
+  // Get all edges connected to a node (incoming and outgoing)
+  private getNodeConnections(nodeId: string): { incoming: Edge[], outgoing: Edge[] } {
+    const incoming = this.edges.filter(edge => edge.target === nodeId)
+    const outgoing = this.edges.filter(edge => edge.source === nodeId)
+    return { incoming, outgoing }
+  }
+
+  private generateVariables(): Record<string, any> {
+    const variables: Record<string, any> = {}
+
+    // Add common variables
+    variables.environment = {
+      description: "Environment name",
+      type: "string",
+      default: "dev",
+    }
+
+    variables.region = {
+      description: "Cloud provider region",
+      type: "string",
+      default: this.getDefaultRegion(),
+    }
+
+    if (this.provider === "gcp") {
+      variables.project_id = {
+        description: "GCP project to create resources in",
+        type: "string",
+      }
+    }
+
+    Object.assign(variables, this.generateSecretVariables())
+
+    // Add Lambda S3 variables if there are Lambda nodes
+    const hasLambda = this.nodes.some(node => node.data.id === 'lambda')
+    if (this.provider === "aws" && hasLambda) {
+      variables.lambda_s3_bucket = {
+        description: "S3 bucket containing the Lambda function code",
+        type: "string",
+        default: "my-lambda-bucket",
+      }
+      variables.lambda_s3_key = {
+        description: "S3 key (path) to the Lambda function ZIP file",
+        type: "string",
+        default: "lambda-function.zip",
+      }
+    }
+
+    return variables
+  }
+
+  // Config fields the user promoted to variables, named after their node and field
+  private getParameters(): ConfigParameter[] {
+    return this.nodes.flatMap((node) => {
+      const config = (node.data.config || {}) as Record<string, any>
+      const fields = (node.data.parameters || {}) as Record<string, ConfigField>
+      return Object.entries(fields).map(([key, field]) => ({
+        node,
+        key,
+        field,
+        variable: this.getParameterVariable(node, key),
+        value: this.toParameterValue(config[key] ?? field.default, field),
+      }))
+    })
+  }
+
+  private getParameterVariable(node: Node, key: string): string {
+    return `${this.getResourceName(node)}_${this.sanitizeName(key)}`
+  }
+
+  // Reference to the variable of a promoted field, for attributes the generator derives from
+  // the field's value rather than copying it, which the probe below can't find
+  private getParameterReference(node: Node, key: string): string | undefined {
+    const fields = (node.data.parameters || {}) as Record<string, ConfigField>
+    return fields[key] ? `var.${this.getParameterVariable(node, key)}` : undefined
+  }
+
+  private isParameterUsed(parameter: ConfigParameter, resources: TerraformResource[]): boolean {
+    const reference = new RegExp(`var\\.${parameter.variable}(?![\\w-])`)
+    return resources.some((resource) => reference.test(JSON.stringify(resource.config)))
+  }
+
+  // Replace the literal values of parameterized fields with their variables. The resources are
+  // generated again with a probe value in the field, and every attribute the probe comes out in
+  // refers to the variable instead. Blocks that depend on the value keep following the current one.
+  private parameterizeResources(resources: TerraformResource[], parameters: ConfigParameter[]): TerraformResource[] {
+    return parameters.reduce((current, parameter) => {
+      const { node, key, field } = parameter
+      const config = (node.data.config || {}) as Record<string, any>
+      const probe = field.type === "number" ? PARAMETER_PROBE_NUMBER
+        : field.type === "boolean" ? !this.isTrue(config[key] ?? field.default)
+          : field.type === "multiselect" ? [PARAMETER_PROBE]
+            : PARAMETER_PROBE
+      const probeNodes = this.nodes.map((n) =>
+        n.id === node.id ? { ...n, data: { ...n.data, config: { ...config, [key]: probe } } } : n
+      )
+      const probed = new Map(
+        new TerraformGenerator(this.provider, probeNodes, this.edges).generateResources()
+          .map((resource) => [`${resource.type}.${resource.name}`, resource.config])
+      )
+
+      return current.map((resource) => {
+        const probeConfig = probed.get(`${resource.type}.${resource.name}`)
+        if (!probeConfig) return resource
+        return { ...resource, config: this.replaceProbe(resource.config, probeConfig, probe, parameter) }
+      })
+    }, resources)
+  }
+
+  private replaceProbe(actual: any, probed: any, probe: unknown, parameter: ConfigParameter): any {
+    const reference = `var.${parameter.variable}`
+    // Without a value on the canvas, the variable defaults to what the generator used
+    const useReference = () => {
+      if (parameter.value === undefined) {
+        parameter.value = this.toParameterValue(isHclExpression(actual) && "value" in actual ? actual.value : actual, parameter.field)
+      }
+      return traversal(reference)
+    }
+    const probedValue = isHclExpression(probed) && (probed.kind === "literal" || probed.kind === "template")
+      ? probed.value
+      : probed
+
+    if (Array.isArray(probe)) {
+      if (Array.isArray(probed) && probed.length === 1 && probed[0] === probe[0]) return useReference()
+    } else if (typeof probe === "string") {
+      if (typeof probedValue === "string" && probedValue.includes(probe)) {
+        if (probedValue === probe) return useReference()
+        // The value is part of a longer string, e.g. a name with a suffix
+        return template(probedValue.split(probe).join("${" + reference + "}"))
+      }
+    } else if (typeof probe === "number") {
+      if ((typeof probedValue === "number" || typeof probedValue === "string") && String(probedValue) === String(probe)) {
+        return useReference()
+      }
+    } else if (probedValue === probe && actual !== probed && this.isTrue(isHclExpression(actual) && "value" in actual ? actual.value : actual) === !probe) {
+      // Booleans have no probe value of their own; the field is flipped and attributes that flip with it are its value
+      return useReference()
+    }
+
+    if (Array.isArray(actual) && Array.isArray(probed) && actual.length === probed.length) {
+      return actual.map((item, index) => this.replaceProbe(item, probed[index], probe, parameter))
+    }
+    if (actual && probed && typeof actual === "object" && typeof probed === "object" && !Array.isArray(actual)) {
+      return Object.fromEntries(Object.entries(actual).map(([key, value]) => [
+        key,
+        key in probed ? this.replaceProbe(value, probed[key], probe, parameter) : value,
+      ]))
+    }
+    return actual
+  }
+
+  // Variables for the parameterized fields, with type and validation taken from the field schema
+  private generateParameterVariables(parameters: ConfigParameter[]): Record<string, any> {
+    return Object.fromEntries(parameters.map(({ node, field, variable, value }) => {
+      const validation = this.getParameterValidation(field, variable)
+      return [variable, {
+        description: `${field.label} of ${node.data.name}${field.description ? `: ${field.description}` : ""}`,
+        type: PARAMETER_TYPES[field.type] || "string",
+        ...(value !== undefined && { default: value }),
+        ...(field.secret && { sensitive: true }),
+        ...(validation.length > 0 && { validation }),
+      }]
+    }))
+  }
+
+  private getParameterValidation(field: ConfigField, variable: string): { condition: HclExpression; error_message: string }[] {
+    const reference = `var.${variable}`
+    const rules: { condition: HclExpression; error_message: string }[] = []
+    const { min, max, pattern } = field.validation || {}
+
+    if (field.options && field.options.length > 0) {
+      const options = tuple([...field.options, ...(field.deprecatedOptions || [])].map((option) => literal(option)))
+      rules.push({
+        condition: field.type === "multiselect"
+          ? call("alltrue", expression(`[for item in ${reference} : contains(${writeExpression(options)}, item)]`))
+          : call("contains", options, traversal(reference)),
+        error_message: `${field.label} must be one of: ${field.options.join(", ")}.`,
+      })
+    }
+    if (pattern && (field.type === "string" || field.type === "select")) {
+      rules.push({
+        condition: call("can", call("regex", literal(pattern), traversal(reference))),
+        error_message: `${field.label} must match ${pattern}.`,
+      })
+    }
+    if (field.type === "number" && (min !== undefined || max !== undefined)) {
+      const bounds = [
+        ...(min !== undefined ? [`${reference} >= ${min}`] : []),
+        ...(max !== undefined ? [`${reference} <= ${max}`] : []),
+      ]
+      rules.push({
+        condition: expression(bounds.join(" && ")),
+        error_message: min !== undefined && max !== undefined
+          ? `${field.label} must be between ${min} and ${max}.`
+          : min !== undefined ? `${field.label} must be at least ${min}.` : `${field.label} must be at most ${max}.`,
+      })
+    }
+
+    return rules
+  }
+
+  // Config values come from the configuration panel as strings; variables take them typed
+  private toParameterValue(value: unknown, field: ConfigField): unknown {
+    if (value === undefined || value === null || value === "") return undefined
+    switch (field.type) {
+      case "number": {
+        const number = Number(value)
+        return Number.isNaN(number) ? undefined : number
+      }
+      case "boolean":
+        return this.isTrue(value)
+      case "multiselect":
+        return Array.isArray(value) ? value : this.splitList(value)
+      default:
+        return typeof value === "object" ? value : String(value)
+    }
+  }
+
+  // Fields flagged `secret` in the node's schema that are not promoted to a variable
+  private getSecretFields(node: Node): string[] {
+    const parameters = (node.data.parameters || {}) as Record<string, ConfigField>
+    return getSecretFieldKeys(this.provider, node.data.id as string).filter((key) => !parameters[key])
+  }
+
+  // Name of the variable, password and secret version of a secret field
+  private getSecretName(node: Node, key: string): string {
+    return `${this.getResourceName(node)}_${this.sanitizeName(key)}`
+  }
+
+  // The Secrets Manager secret connected to a node, which keeps its generated passwords
+  private getSecretStore(node: Node): Node | undefined {
+    if (this.provider !== "aws") return undefined
+    return [
+      ...this.getConnectedNodes(node.id, "outgoing", ["secrets_manager"]),
+      ...this.getConnectedNodes(node.id, "incoming", ["secrets_manager"]),
+    ][0]
+  }
+
+  // Value of a secret field. A value set on the canvas goes into a sensitive variable, so it is
+  // never written into the resource; an empty field gets a generated password.
+  private getSecretValue(node: Node, key: string): any {
+    const config = (node.data.config || {}) as Record<string, any>
+    const name = this.getSecretName(node, key)
+    // Promoted to a variable, the field is replaced by its parameter like any other
+    if (!this.getSecretFields(node).includes(key)) return config[key]
+    if (config[key]) return traversal(`var.${name}`)
+    return traversal(this.getSecretStore(node)
+      ? `aws_secretsmanager_secret_version.${name}.secret_string`
+      : `random_password.${name}.result`)
+  }
+
+  private generateSecretVariables(): Record<string, any> {
+    const variables: Record<string, any> = {}
+    this.nodes.forEach((node) => {
+      const config = (node.data.config || {}) as Record<string, any>
+      this.getSecretFields(node).filter((key) => config[key]).forEach((key) => {
+        variables[this.getSecretName(node, key)] = {
+          description: `${key.charAt(0).toUpperCase()}${key.slice(1).replace(/_/g, " ")} of ${node.data.name as string}`,
+          type: "string",
+          default: String(config[key]),
+          sensitive: true,
+        }
+      })
+    })
+    return variables
+  }
+
+  // A random password for each empty secret field, stored in the connected secret if there is one
+  private generateSecretResources(node: Node): TerraformResource[] {
+    const config = (node.data.config || {}) as Record<string, any>
+    const store = this.getSecretStore(node)
+    return this.getSecretFields(node).filter((key) => !config[key]).flatMap((key) => {
+      const name = this.getSecretName(node, key)
+      const resources: TerraformResource[] = [{
+        type: "random_password",
+        name,
+        config: {
+          length: 16,
+          special: true,
+          override_special: PASSWORD_SPECIAL_CHARACTERS,
+          // Azure requires three of the four character classes
+          min_lower: 1,
+          min_upper: 1,
+          min_numeric: 1,
+          min_special: 1,
+        },
+        dependencies: [],
+      }]
+      if (store) {
+        resources.push({
+          type: "aws_secretsmanager_secret_version",
+          name,
+          config: {
+            secret_id: traversal(`${this.getResourceAddress(store)}.id`),
+            secret_string: traversal(`random_password.${name}.result`),
+          },
+          dependencies: [],
+        })
+      }
+      return resources
+    })
+  }
+
+  private generateSecretOutputs(node: Node): Record<string, any> {
+    const config = (node.data.config || {}) as Record<string, any>
+    return Object.fromEntries(this.getSecretFields(node).filter((key) => !config[key]).map((key) => {
+      const name = this.getSecretName(node, key)
+      return [name, {
+        description: `Generated ${key.replace(/_/g, " ")} of ${node.data.name as string}`,
+        value: `random_password.${name}.result`,
+        sensitive: true,
+      }]
+    }))
+  }
+
+  private generateOutputs(): Record<string, any> {
+    const outputs: Record<string, any> = {}
 
     this.nodes.forEach((node) => {
       const resourceName = this.sanitizeName((node.data.name as string) || (node.data.id as string))
       const resourceType = node.data.terraformType as string
+      Object.assign(outputs, this.generateSecretOutputs(node))
+
+      if (this.provider === "gcp") {
+        Object.assign(outputs, this.generateGCPOutputs(node))
+        return
+      }
+      if (this.provider === "azure") {
+        Object.assign(outputs, this.generateAzureOutputs(node))
+        return
+      }
 
       switch (node.data.id) {
         case "ec2":
@@ -662,38 +3128,97 @@ export class TerraformGenerator {
           }
           break
 
-        case "rds":
-        case "sql":
+        case "rds":
+        case "sql":
+          outputs[`${resourceName}_endpoint`] = {
+            description: `Database endpoint for ${node.data.name as string}`,
+            value: `${resourceType}.${resourceName}.endpoint`,
+          }
+          break
+
+        case "alb":
+        case "lb":
+          outputs[`${resourceName}_dns_name`] = {
+            description: `DNS name of ${node.data.name as string}`,
+            value: `${resourceType}.${resourceName}.dns_name`,
+          }
+          break
+
+        case "lambda":
+          outputs[`${resourceName}_function_name`] = {
+            description: `Name of ${node.data.name as string} Lambda function`,
+            value: `${resourceType}.${resourceName}.function_name`,
+          }
+          outputs[`${resourceName}_arn`] = {
+            description: `ARN of ${node.data.name as string} Lambda function`,
+            value: `${resourceType}.${resourceName}.arn`,
+          }
+          outputs[`${resourceName}_s3_bucket`] = {
+            description: `S3 bucket containing ${node.data.name as string} Lambda code`,
+            value: `${resourceType}.${resourceName}.s3_bucket`,
+          }
+          outputs[`${resourceName}_s3_key`] = {
+            description: `S3 key for ${node.data.name as string} Lambda code`,
+            value: `${resourceType}.${resourceName}.s3_key`,
+          }
+          break
+
+        case "cloudfront":
+          outputs[`${resourceName}_domain_name`] = {
+            description: `Domain name of ${node.data.name as string} distribution`,
+            value: `${resourceType}.${resourceName}.domain_name`,
+          }
+          break
+
+        case "cognito":
+          outputs[`${resourceName}_user_pool_id`] = {
+            description: `ID of ${node.data.name as string} user pool`,
+            value: `${resourceType}.${resourceName}.id`,
+          }
+          break
+
+        case "step_functions":
+        case "secrets_manager":
+          outputs[`${resourceName}_arn`] = {
+            description: `ARN of ${node.data.name as string}`,
+            value: `${resourceType}.${resourceName}.arn`,
+          }
+          break
+
+        case "fargate":
+          outputs[`${resourceName}_service_name`] = {
+            description: `Name of ${node.data.name as string} ECS service`,
+            value: `${resourceType}.${resourceName}.name`,
+          }
+          outputs[`${resourceName}_cluster`] = {
+            description: `ECS cluster running ${node.data.name as string}`,
+            value: `${resourceType}.${resourceName}.cluster`,
+          }
+          break
+
+        case "kubernetes":
           outputs[`${resourceName}_endpoint`] = {
-            description: `Database endpoint for ${node.data.name as string}`,
+            description: `API server endpoint of ${node.data.name as string} cluster`,
             value: `${resourceType}.${resourceName}.endpoint`,
           }
+          outputs[`${resourceName}_cluster_name`] = {
+            description: `Name of ${node.data.name as string} EKS cluster`,
+            value: `${resourceType}.${resourceName}.name`,
+          }
           break
 
-        case "alb":
-        case "lb":
-          outputs[`${resourceName}_dns_name`] = {
-            description: `DNS name of ${node.data.name as string}`,
-            value: `${resourceType}.${resourceName}.dns_name`,
+        case "cloudwatch":
+          outputs[`${resourceName}_log_group_name`] = {
+            description: `Name of ${node.data.name as string} log group`,
+            value: `${resourceType}.${resourceName}.name`,
           }
           break
 
-        case "lambda":
-          outputs[`${resourceName}_function_name`] = {
-            description: `Name of ${node.data.name as string} Lambda function`,
-            value: `${resourceType}.${resourceName}.function_name`,
-          }
-          outputs[`${resourceName}_arn`] = {
-            description: `ARN of ${node.data.name as string} Lambda function`,
-            value: `${resourceType}.${resourceName}.arn`,
-          }
-          outputs[`${resourceName}_s3_bucket`] = {
-            description: `S3 bucket containing ${node.data.name as string} Lambda code`,
-            value: `${resourceType}.${resourceName}.s3_bucket`,
-          }
-          outputs[`${resourceName}_s3_key`] = {
-            description: `S3 key for ${node.data.name as string} Lambda code`,
-            value: `${resourceType}.${resourceName}.s3_key`,
+        case "ebs":
+        case "internet_gateway":
+          outputs[`${resourceName}_id`] = {
+            description: `ID of ${node.data.name as string}`,
+            value: `${resourceType}.${resourceName}.id`,
           }
           break
       }
@@ -702,6 +3227,164 @@ export class TerraformGenerator {
     return outputs
   }
 
+  private generateGCPOutputs(node: Node): Record<string, any> {
+    const resourceName = this.getResourceName(node)
+    const address = this.getResourceAddress(node)
+    const label = node.data.name as string
+
+    switch (node.data.id) {
+      case "compute":
+        return {
+          [`${resourceName}_public_ip`]: {
+            description: `Public IP of ${label}`,
+            value: `${address}.network_interface[0].access_config[0].nat_ip`,
+          },
+        }
+
+      case "storage":
+        return {
+          [`${resourceName}_bucket_name`]: {
+            description: `Name of ${label} bucket`,
+            value: `${address}.name`,
+          },
+          [`${resourceName}_bucket_url`]: {
+            description: `URL of ${label} bucket`,
+            value: `${address}.url`,
+          },
+        }
+
+      case "sql":
+        return {
+          [`${resourceName}_connection_name`]: {
+            description: `Connection name of ${label} for the Cloud SQL connectors`,
+            value: `${address}.connection_name`,
+          },
+          [`${resourceName}_ip_address`]: {
+            description: `IP address of ${label}`,
+            value: `${address}.first_ip_address`,
+          },
+        }
+
+      case "functions":
+        // Event-triggered functions have no URL
+        if (this.getConnectedNodes(node.id, "incoming", ["pubsub"]).length > 0) return {}
+        return {
+          [`${resourceName}_url`]: {
+            description: `URL of ${label} function`,
+            value: `${address}.https_trigger_url`,
+          },
+        }
+
+      case "cloud_run":
+        return {
+          [`${resourceName}_url`]: {
+            description: `URL of ${label} service`,
+            value: `${address}.uri`,
+          },
+        }
+
+      case "lb":
+        return {
+          [`${resourceName}_ip_address`]: {
+            description: `IP address of ${label}`,
+            value: `google_compute_global_address.${resourceName}_address.address`,
+          },
+        }
+
+      case "network":
+      case "subnetwork":
+      case "pubsub":
+        return {
+          [`${resourceName}_id`]: {
+            description: `ID of ${label}`,
+            value: `${address}.id`,
+          },
+        }
+
+      default:
+        return {}
+    }
+  }
+
+  private generateAzureOutputs(node: Node): Record<string, any> {
+    const resourceName = this.getResourceName(node)
+    const address = this.getResourceAddress(node)
+    const label = node.data.name as string
+    const config = (node.data.config || {}) as Record<string, any>
+
+    switch (node.data.id) {
+      case "vm":
+        return config.public_ip !== false && config.public_ip !== "false" ? {
+          [`${resourceName}_public_ip`]: {
+            description: `Public IP of ${label}`,
+            value: `azurerm_public_ip.${resourceName}_public_ip.ip_address`,
+          },
+        } : {
+          [`${resourceName}_private_ip`]: {
+            description: `Private IP of ${label}`,
+            value: `azurerm_network_interface.${resourceName}_nic.private_ip_address`,
+          },
+        }
+
+      case "blob":
+        return {
+          [`${resourceName}_account_name`]: {
+            description: `Name of ${label} storage account`,
+            value: `${address}.name`,
+          },
+          [`${resourceName}_blob_endpoint`]: {
+            description: `Blob endpoint of ${label}`,
+            value: `${address}.primary_blob_endpoint`,
+          },
+        }
+
+      case "sql":
+        return {
+          [`${resourceName}_server_fqdn`]: {
+            description: `Fully qualified domain name of ${label}`,
+            value: `${address}.fully_qualified_domain_name`,
+          },
+        }
+
+      case "functions":
+      case "app_service":
+        return {
+          [`${resourceName}_hostname`]: {
+            description: `Default hostname of ${label}`,
+            value: `${address}.default_hostname`,
+          },
+        }
+
+      case "lb":
+        return {
+          [`${resourceName}_public_ip`]: {
+            description: `Public IP of ${label}`,
+            value: `azurerm_public_ip.${resourceName}_public_ip.ip_address`,
+          },
+        }
+
+      case "key_vault":
+        return {
+          [`${resourceName}_uri`]: {
+            description: `URI of ${label}`,
+            value: `${address}.vault_uri`,
+          },
+        }
+
+      case "vnet":
+      case "subnet":
+        return {
+          [`${resourceName}_id`]: {
+            description: `ID of ${label}`,
+            value: `${address}.id`,
+          },
+        }
+
+      default:
+        return {}
+    }
+  }
+
   private sanitizeName(name: string): string {
     return name
       .toLowerCase()
@@ -710,6 +3393,59 @@ export class TerraformGenerator {
       .replace(/^_|_$/g, "")
   }
 
+  private getResourceName(node: Node): string {
+    return this.sanitizeName((node.data.name as string) || (node.data.id as string))
+  }
+
+  private getResourceAddress(node: Node): string {
+    return `${node.data.terraformType as string}.${this.getResourceName(node)}`
+  }
+
+  // Names the generator makes up for a node's cloud resources start with the environment the
+  // workspace deploys to, so the environments of a project can share one account
+  private withEnvironment(node: Node, name: string): string {
+    const environment = node.data.environment as string | undefined
+    return environment ? `${environment}-${name}` : name
+  }
+
+  // Buckets the generator adds for a service are named by S3 from a prefix, so their names
+  // are unique across accounts and stay the same when the code is regenerated
+  private getBucketPrefix(node: Node, purpose: string): string {
+    // S3 allows prefixes of up to 37 characters, so long service names are shortened
+    const name = this.withEnvironment(node, this.getResourceName(node).replace(/_/g, "-"))
+    return `${name.slice(0, 35 - purpose.length).replace(/-+$/, "")}-${purpose}-`
+  }
+
+  // GCP and most Azure resource names only allow lowercase letters, digits and hyphens
+  private getHyphenatedName(node: Node): string {
+    const config = (node.data.config || {}) as Record<string, any>
+    return String(config.name || this.withEnvironment(node, this.getResourceName(node)))
+      .toLowerCase()
+      .replace(/[^a-z0-9-]/g, "-")
+      .replace(/-+/g, "-")
+      .replace(/^-|-$/g, "")
+  }
+
+  // Nodes on the other end of a node's edges, optionally limited to some services
+  private getConnectedNodes(nodeId: string, direction: "incoming" | "outgoing", serviceIds?: string[]): Node[] {
+    const { incoming, outgoing } = this.getNodeConnections(nodeId)
+    return (direction === "incoming" ? incoming : outgoing)
+      .map((edge) => this.nodes.find((n) => n.id === (direction === "incoming" ? edge.source : edge.target)))
+      .filter((n): n is Node => !!n && (!serviceIds || serviceIds.includes(n.data.id as string)))
+  }
+
+  // Checkbox fields come back from the configuration panel as booleans or strings
+  private isTrue(value: unknown): boolean {
+    return value === true || value === "true"
+  }
+
+  private splitList(value: unknown): string[] {
+    return String(value)
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+  }
+
   private getDefaultRegion(): string {
     switch (this.provider) {
       case "aws":
@@ -723,33 +3459,23 @@ export class TerraformGenerator {
     }
   }
 
-  private getEngineVersion(engine: string): string {
-    const versions: Record<string, string> = {
-      mysql: "8.0",
-      postgres: "13.7",
-      mariadb: "10.6",
+  // Version of a database engine, looked up when applying if the engine is a variable
+  private getEngineVersion(node: Node, engine: string): string | HclExpression {
+    const engineVariable = this.getParameterReference(node, "engine")
+    if (engineVariable) {
+      return call("lookup", toExpression(ENGINE_VERSIONS), traversal(engineVariable), literal(DEFAULT_ENGINE_VERSION))
     }
-    return versions[engine] || "8.0"
-  }
-
-  private getSecurityGroupReferences(nodeId: string): string[] {
-    // This would be enhanced to find actual security group connections
-    return ["aws_security_group.default.id"]
+    return ENGINE_VERSIONS[engine] || DEFAULT_ENGINE_VERSION
   }
 
-  private getSubnetReference(nodeId: string): string {
-    // This would be enhanced to find actual subnet connections
-    return "aws_subnet.main.id"
-  }
-
-  private getDBSubnetGroupReference(nodeId: string): string {
-    // This would be enhanced to find actual DB subnet group connections
-    return "aws_db_subnet_group.main.name"
+  // The service's own security group
+  private getSecurityGroupReferences(node: Node): HclExpression[] {
+    return this.hasSecurityGroup(node) ? [traversal(`aws_security_group.${this.getResourceName(node)}_sg.id`)] : []
   }
 
   generateTerraformCode(): string {
     const output = this.generate()
-    let terraformCode = ""
+    let terraformCode = output.warnings.map((warning) => `# Warning: ${warning}\n`).join("")
 
     // Provider configuration
     terraformCode += this.generateProviderBlock()
@@ -758,63 +3484,88 @@ export class TerraformGenerator {
     // Variables
     if (Object.keys(output.variables).length > 0) {
       terraformCode += "# Variables\n"
-      Object.entries(output.variables).forEach(([name, config]) => {
-        terraformCode += `variable "${name}" {\n`
-        Object.entries(config as Record<string, any>).forEach(([key, value]) => {
-          if (key === "type" && value === "string") {
-            terraformCode += `  ${key} = ${value}\n`
-          } else if (typeof value === "string") {
-            terraformCode += `  ${key} = "${value}"\n`
-          } else if (typeof value === "boolean") {
-            terraformCode += `  ${key} = ${value}\n`
-          } else {
-            terraformCode += `  ${key} = ${JSON.stringify(value)}\n`
-          }
-        })
-        terraformCode += "}\n\n"
-      })
+      terraformCode += this.generateVariablesCode(output.variables) + "\n"
     }
 
     // Resources
     terraformCode += "# Resources\n"
-    output.resources.forEach((resource) => {
-      terraformCode += `resource "${resource.type}" "${resource.name}" {\n`
-      terraformCode += this.formatResourceConfig(resource.config, 1)
-
-      if (resource.dependencies && resource.dependencies.length > 0) {
-        terraformCode += `  depends_on = [${resource.dependencies.map((dep) => `${dep}`).join(", ")}]\n`
-      }
-
-      terraformCode += "}\n\n"
-    })
+    terraformCode += this.generateResourcesCode(output.resources) + "\n"
 
     // Outputs
     if (Object.keys(output.outputs).length > 0) {
       terraformCode += "# Outputs\n"
-      Object.entries(output.outputs).forEach(([name, config]) => {
-        terraformCode += `output "${name}" {\n`
-        Object.entries(config as Record<string, any>).forEach(([key, value]) => {
-          if (key === "value" && typeof value === "string") {
-            // Fix the output value bug - use interpolation syntax without quotes
-            terraformCode += `  ${key} = ${value}\n`
-          } else if (typeof value === "string") {
-            terraformCode += `  ${key} = "${value}"\n`
-          } else {
-            terraformCode += `  ${key} = ${value}\n`
-          }
-        })
-        terraformCode += "}\n\n"
-      })
+      terraformCode += this.generateOutputsCode(output.outputs) + "\n"
     }
 
     return terraformCode
   }
 
+  generateResourcesCode(resources: TerraformResource[]): string {
+    return writeHCL(resources.map((resource) => {
+      const body = this.toHclBody(resource.config)
+      if (resource.dependencies && resource.dependencies.length > 0) {
+        body.attributes.depends_on = tuple(resource.dependencies.map(traversal))
+      }
+      return block("resource", [resource.type, resource.name], body)
+    }))
+  }
+
+  generateVariablesCode(variables: Record<string, any>): string {
+    return writeHCL(Object.entries(variables).map(([name, config]) => {
+      const { validation = [], ...attributes } = config as Record<string, any>
+      return block("variable", [name], {
+        attributes: Object.fromEntries(Object.entries(attributes).map(([key, value]) => [
+          key,
+          // Type constraints are keywords, not strings
+          key === "type" ? traversal(value) : toExpression(value),
+        ])),
+        blocks: (validation as { condition: HclExpression; error_message: string }[]).map((rule) => block("validation", [], {
+          attributes: { condition: rule.condition, error_message: literal(rule.error_message) },
+        })),
+      })
+    }))
+  }
+
+  generateOutputsCode(outputs: Record<string, any>): string {
+    return writeHCL(Object.entries(outputs).map(([name, config]) => block("output", [name], {
+      attributes: Object.fromEntries(Object.entries(config as Record<string, any>).map(([key, value]) => [
+        key,
+        key === "value" && typeof value === "string" ? traversal(value) : toExpression(value),
+      ])),
+    })))
+  }
+
+  // Variable values written to a `.tfvars` file
+  generateTfvarsCode(values: Record<string, any>): string {
+    return writeAttributes(Object.fromEntries(Object.entries(values).map(([name, value]) => [name, toExpression(value)])))
+  }
+
+  // One root module per environment under envs/<env>/, generated from the node configs with
+  // the environment's overrides applied
+  generateEnvironmentFiles(environments: string[]): Record<string, string> {
+    const files: Record<string, string> = {}
+    environments.forEach((environment) => {
+      const generator = new TerraformGenerator(this.provider, applyEnvironment(this.nodes, environment), this.edges)
+      files[`envs/${environment}/main.tf`] = generator.generateTerraformCode()
+      files[`envs/${environment}/terraform.tfvars`] = generator.generateTfvarsCode({ environment })
+    })
+    return files
+  }
+
+  // Empty secret fields are filled by the random provider
+  private hasGeneratedPasswords(): boolean {
+    return this.nodes.some((node) => {
+      const config = (node.data.config || {}) as Record<string, any>
+      return this.getSecretFields(node).some((key) => !config[key])
+    })
+  }
+
   generateProviderBlock(): string {
     switch (this.provider) {
       case "aws":
         // Check if there are Lambda functions that need the archive provider
         const hasLambda = this.nodes.some(node => node.data.id === 'lambda')
+        const hasPasswords = this.hasGeneratedPasswords()
         
         let providersBlock = `terraform {
   required_providers {
@@ -830,6 +3581,14 @@ export class TerraformGenerator {
       version = "~> 2.0"
     }`
         }
+
+        if (hasPasswords) {
+          providersBlock += `
+    random = {
+      source  = "hashicorp/random"
+      version = "~> 3.0"
+    }`
+        }
         
         providersBlock += `
   }
@@ -843,12 +3602,19 @@ provider "aws" {
         return providersBlock
 
       case "gcp":
+        // Cloud Functions are uploaded as archives built by the archive provider
+        const hasFunctions = this.nodes.some(node => node.data.id === 'functions')
+
         return `terraform {
   required_providers {
     google = {
       source  = "hashicorp/google"
       version = "~> 4.0"
-    }
+    }${hasFunctions ? `
+    archive = {
+      source  = "hashicorp/archive"
+      version = "~> 2.0"
+    }` : ""}
   }
 }
 
@@ -859,242 +3625,284 @@ provider "google" {
 `
 
       case "azure":
+        // Key Vaults need the tenant and identity Terraform runs as
+        const hasKeyVault = this.nodes.some(node => node.data.id === 'key_vault')
+
         return `terraform {
   required_providers {
     azurerm = {
       source  = "hashicorp/azurerm"
       version = "~> 3.0"
-    }
+    }${this.hasGeneratedPasswords() ? `
+    random = {
+      source  = "hashicorp/random"
+      version = "~> 3.0"
+    }` : ""}
   }
 }
 
 provider "azurerm" {
   features {}
 }
-
-resource "azurerm_resource_group" "main" {
-  name     = "rg-\${var.environment}"
-  location = var.region
-}
-`
+${hasKeyVault ? `
+data "azurerm_client_config" "current" {}
+` : ""}`
 
       default:
         return ""
     }
   }
 
-  private formatResourceConfig(config: Record<string, any>, indent: number, parentKey?: string): string {
-    let result = ""
-    const spaces = "  ".repeat(indent)
+  // Split the configuration into local modules under modules/<name>/, one per category or
+  // user-drawn group. A value one module reads from another becomes an output of the first,
+  // which the root module passes to the second as an input.
+  generateModuleFiles(groupBy: ModuleGrouping): Record<string, string> {
+    const output = this.generate()
+    const moduleNames = new Map(this.nodes.map((node) => [node.id, this.getModuleName(node, groupBy)]))
+    const modules = new Map<string, TerraformModule>()
+    moduleNames.forEach((name) => {
+      if (!modules.has(name)) modules.set(name, { resources: [], inputs: {}, outputs: {}, dependsOn: [] })
+    })
 
-    Object.entries(config).forEach(([key, value]) => {
-      if (value === null || value === undefined) {
-        return
+    // Resources that belong to no node, such as the Azure resource group, stay in the root module
+    const owners = new Map<string, string | undefined>()
+    output.resources.forEach((resource) => {
+      owners.set(`${resource.type}.${resource.name}`, resource.nodeId ? moduleNames.get(resource.nodeId) : undefined)
+    })
+
+    // Inputs and outputs are named after the value they carry, e.g. `assets_arn`. Shared
+    // resources of the root module have generic names like `main`, so their type is included.
+    const valueNames = new Map<string, string>()
+    const usedNames = new Set(Object.keys(output.variables))
+    const getValueName = (value: string, qualified: boolean = false): string => {
+      if (!valueNames.has(value)) {
+        const parts = value.replace(/^data\./, "").split(".")
+        const shortName = this.sanitizeName(parts.slice(1).join("_"))
+        const name = qualified || usedNames.has(shortName) ? this.sanitizeName(parts.join("_")) : shortName
+        usedNames.add(name)
+        valueNames.set(value, name)
+      }
+      return valueNames.get(value)!
+    }
+
+    // Root module expression for a value, exported from the module that owns it
+    const exportValue = (address: string, attribute: string, owner: string | undefined, sensitive?: boolean): string => {
+      if (!owner) return `${address}${attribute}`
+      const name = getValueName(`${address}${attribute}`)
+      modules.get(owner)!.outputs[name] = {
+        description: attribute ? `${attribute.slice(1)} of ${address}` : address,
+        value: `${address}${attribute}`,
+        // Terraform refuses to pass a secret through an output that isn't marked sensitive
+        ...(sensitive && { sensitive: true }),
       }
+      return `module.${owner}.${name}`
+    }
 
-      if (typeof value === "string") {
-        if (value.includes('\n')) {
-          // Use heredoc for multi-line strings
-          result += `${spaces}${key} = <<EOT\n${value}\nEOT\n`
-        } else {
-          // Escape inner double quotes for single-line
-          let formattedValue = value.replace(/"/g, '\\"')
-          if (value.startsWith("var.") ||
-              value.startsWith("aws_") ||
-              value.startsWith("google_") ||
-              value.startsWith("azurerm_")) {
-            result += `${spaces}${key} = ${formattedValue}\n`
-          } else {
-            result += `${spaces}${key} = "${formattedValue}"\n`
+    // Point references in code at what is visible from the given module, or the root module
+    const localize = (code: string, moduleName?: string, sensitive?: boolean): string =>
+      code.replace(ADDRESS_PATTERN, (match, prefix: string, address: string, attribute: string = "") => {
+        if (address.startsWith("var.")) {
+          const variable = output.variables[address.slice(4)]
+          if (moduleName && variable) {
+            modules.get(moduleName)!.inputs[address.slice(4)] = {
+              variable: {
+                description: variable.description,
+                type: variable.type,
+                ...(variable.sensitive && { sensitive: true }),
+              },
+              value: address,
+            }
           }
+          return match
         }
-      } else if (typeof value === "number" || typeof value === "boolean") {
-        result += `${spaces}${key} = ${value}\n`
-      } else if (Array.isArray(value)) {
-        result += `${spaces}${key} = [\n`
-        value.forEach((v, i) => {
-          if (typeof v === 'object' && v !== null) {
-            result += `${spaces}  {\n`
-            result += this.formatResourceConfig(v, indent + 2)
-            result += `${spaces}  }${i < value.length - 1 ? ',' : ''}\n`
-          } else {
-            const formatted = typeof v === "string" ? `"${v}"` : v
-            result += `${spaces}  ${formatted}${i < value.length - 1 ? ',' : ''}\n`
-          }
-        })
-        result += `${spaces}]\n`
-      } else if (typeof value === "object") {
-        // Special handling for different types of objects
-        if (key === "tags" || parentKey === "tags") {
-          // Tags should always be arguments
-          result += `${spaces}${key} = {\n`
-        } else if (key === "versioning" || key === "lifecycle" || key === "provisioner" || key === "point_in_time_recovery") {
-          // These should be blocks
-          result += `${spaces}${key} {\n`
+
+        const owner = owners.get(address)
+        if (owner === moduleName) return match
+        const value = exportValue(address, attribute, owner, sensitive)
+        if (!moduleName) return `${prefix}${value}`
+
+        const name = getValueName(`${address}${attribute}`, !owner)
+        modules.get(moduleName)!.inputs[name] = {
+          variable: {
+            description: `${attribute ? `${attribute.slice(1)} of ${address}` : address}${owner ? ` from the ${owner} module` : ""}`,
+            type: "any",
+          },
+          value,
+        }
+        return `${prefix}var.${name}`
+      })
+
+    const rootResources: TerraformResource[] = []
+    const crossDependencies: [string, string][] = []
+    output.resources.forEach((resource) => {
+      const moduleName = resource.nodeId ? moduleNames.get(resource.nodeId) : undefined
+      const dependencies: string[] = []
+      ;(resource.dependencies || []).forEach((dependency) => {
+        const owner = owners.get(dependency)
+        if (owner === moduleName) {
+          dependencies.push(dependency)
+        } else if (moduleName) {
+          crossDependencies.push([moduleName, owner ? `module.${owner}` : dependency])
         } else {
-          result += `${spaces}${key} {\n`
+          dependencies.push(`module.${owner}`)
         }
-        result += this.formatResourceConfig(value, indent + 1, key)
-        result += `${spaces}}\n`
+      })
+
+      const localized: TerraformResource = {
+        ...resource,
+        config: this.mapConfigCode(resource.config, (code) => localize(code, moduleName)),
+        dependencies: Array.from(new Set(dependencies)),
+      }
+      if (moduleName) {
+        modules.get(moduleName)!.resources.push(localized)
+      } else {
+        rootResources.push(localized)
       }
     })
 
-    return result
-  }
+    const outputs = Object.fromEntries(Object.entries(output.outputs).map(([name, config]) => [
+      name,
+      { ...config, value: typeof config.value === "string" ? localize(config.value, undefined, config.sensitive) : config.value },
+    ]))
+
+    // A depends_on between resources in different modules becomes one between the modules,
+    // unless the other module already depends on this one
+    const getModuleDependencies = (name: string): string[] => [
+      ...Object.values(modules.get(name)!.inputs).map((input) => input.value),
+      ...modules.get(name)!.dependsOn,
+    ]
+      .map((value) => value.match(/^module\.(\w+)/)?.[1])
+      .filter((dependency): dependency is string => !!dependency)
+    const reaches = (from: string, to: string, visited = new Set<string>()): boolean => {
+      if (from === to) return true
+      if (visited.has(from)) return false
+      visited.add(from)
+      return getModuleDependencies(from).some((next) => reaches(next, to, visited))
+    }
+    crossDependencies.forEach(([moduleName, dependency]) => {
+      const dependsOn = modules.get(moduleName)!.dependsOn
+      const dependencyModule = dependency.match(/^module\.(\w+)$/)?.[1]
+      if (dependsOn.includes(dependency) || (dependencyModule && reaches(dependencyModule, moduleName))) return
+      dependsOn.push(dependency)
+    })
 
-  // Generate custom IAM policies based on edge connections
-  private generateCustomIAMPolicies(node: Node, resourceName: string): TerraformResource[] {
-    const policies: TerraformResource[] = []
-    const { outgoing } = this.getNodeConnections(node.id)
-    
-    if (outgoing.length === 0) {
-      return policies
+    const moduleBlocks = Array.from(modules.entries()).map(([name, module]) => block("module", [name], {
+      attributes: {
+        source: template(`./modules/${name}`),
+        ...Object.fromEntries(Object.entries(module.inputs).map(([input, { value }]) => [input, traversal(value)])),
+        ...(module.dependsOn.length > 0 ? { depends_on: tuple(module.dependsOn.map(traversal)) } : {}),
+      },
+    }))
+
+    const files: Record<string, string> = {
+      "providers.tf": this.generateProviderBlock(),
+      "variables.tf": "# Variables\n" + this.generateVariablesCode(output.variables),
+      "main.tf": [
+        rootResources.length > 0 ? "# Resources\n" + this.generateResourcesCode(rootResources) : "",
+        "# Modules\n" + writeHCL(moduleBlocks),
+      ].filter(Boolean).join("\n"),
+    }
+    if (Object.keys(outputs).length > 0) {
+      files["outputs.tf"] = "# Outputs\n" + this.generateOutputsCode(outputs)
     }
 
-    // Group connections by target service type
-    const connectionsByService: Record<string, Edge[]> = {}
-    outgoing.forEach(edge => {
-      const targetNode = this.nodes.find(n => n.id === edge.target)
-      if (targetNode) {
-        const serviceType = targetNode.data?.id as string
-        if (!connectionsByService[serviceType]) {
-          connectionsByService[serviceType] = []
-        }
-        connectionsByService[serviceType].push(edge)
+    modules.forEach((module, name) => {
+      files[`modules/${name}/main.tf`] = "# Resources\n" + this.generateResourcesCode(module.resources)
+      if (Object.keys(module.inputs).length > 0) {
+        files[`modules/${name}/variables.tf`] = "# Variables\n" + this.generateVariablesCode(
+          Object.fromEntries(Object.entries(module.inputs).map(([input, { variable }]) => [input, variable]))
+        )
+      }
+      if (Object.keys(module.outputs).length > 0) {
+        files[`modules/${name}/outputs.tf`] = "# Outputs\n" + this.generateOutputsCode(module.outputs)
       }
     })
 
-    // Generate policies for each service type
-    Object.entries(connectionsByService).forEach(([serviceType, edges]) => {
-      const policyStatements: any[] = []
-      
-      edges.forEach(edge => {
-        const targetNode = this.nodes.find(n => n.id === edge.target)
-        if (!targetNode) return
-        
-        const targetName = this.sanitizeName(String(targetNode.data?.name || targetNode.data?.id || targetNode.id))
-        const relationship = edge.data?.relationship || 'accesses'
-        
-        // Generate policy statements based on service type and relationship
-        switch (serviceType) {
-          case 's3':
-            if (relationship === 'accesses' || relationship === 'reads' || relationship === 'writes') {
-              policyStatements.push({
-                Effect: "Allow",
-                Action: [
-                  "s3:GetObject",
-                  "s3:PutObject",
-                  "s3:DeleteObject",
-                  "s3:ListBucket"
-                ],
-                Resource: [
-                  `aws_s3_bucket.${targetName}.arn`,
-                  `aws_s3_bucket.${targetName}.arn/*`
-                ]
-              })
-            }
-            break
-            
-          case 'dynamodb':
-            if (relationship === 'accesses' || relationship === 'reads' || relationship === 'writes') {
-              policyStatements.push({
-                Effect: "Allow",
-                Action: [
-                  "dynamodb:GetItem",
-                  "dynamodb:PutItem",
-                  "dynamodb:UpdateItem",
-                  "dynamodb:DeleteItem",
-                  "dynamodb:Query",
-                  "dynamodb:Scan"
-                ],
-                Resource: `aws_dynamodb_table.${targetName}.arn`
-              })
-            }
-            break
-            
-          case 'sqs':
-            if (relationship === 'sends_to' || relationship === 'consumes') {
-              policyStatements.push({
-                Effect: "Allow",
-                Action: [
-                  "sqs:SendMessage",
-                  "sqs:ReceiveMessage",
-                  "sqs:DeleteMessage",
-                  "sqs:GetQueueAttributes"
-                ],
-                Resource: `aws_sqs_queue.${targetName}.arn`
-              })
-            }
-            break
-            
-          case 'sns':
-            if (relationship === 'publishes_to' || relationship === 'subscribes_to') {
-              policyStatements.push({
-                Effect: "Allow",
-                Action: [
-                  "sns:Publish",
-                  "sns:Subscribe",
-                  "sns:Unsubscribe"
-                ],
-                Resource: `aws_sns_topic.${targetName}.arn`
-              })
-            }
-            break
-            
-          case 'rds':
-            if (relationship === 'connects_to') {
-              policyStatements.push({
-                Effect: "Allow",
-                Action: [
-                  "rds-db:connect"
-                ],
-                Resource: `arn:aws:rds-db:${this.getRegion()}:*:dbuser/${targetName}/*`
-              })
-            }
-            break
-        }
-      })
+    return files
+  }
 
-      // Create the custom IAM policy if we have statements
-      if (policyStatements.length > 0) {
-        const serviceTypes = Object.keys(connectionsByService).join('_')
-        policies.push({
-          type: 'aws_iam_policy',
-          name: `${resourceName}_${serviceTypes}_policy`,
-          config: {
-            name: `${resourceName}-${serviceTypes}-access-policy`,
-            policy: `jsonencode({
-  "Version": "2012-10-17",
-  "Statement": ${JSON.stringify(policyStatements, null, 2)}
-})`,
-            tags: {
-              Name: `${resourceName}-${serviceTypes}-policy`,
-              Environment: "terraform-generated",
-            },
-          },
-          dependencies: [],
-        })
+  // Module a node is exported into; nodes outside any user-drawn group go by category
+  private getModuleName(node: Node, groupBy: ModuleGrouping): string {
+    const group = groupBy === "group" ? (node.data.group as string | undefined) : undefined
+    const name = this.sanitizeName(group || (node.data.category as string) || "") || "main"
+    // Module names can't start with a digit
+    return /^\d/.test(name) ? `module_${name}` : name
+  }
 
-        // Attach the policy to the role
-        policies.push({
-          type: 'aws_iam_role_policy_attachment',
-          name: `${resourceName}_${serviceTypes}_policy_attachment`,
-          config: {
-            role: `aws_iam_role.${resourceName}_role.name`,
-            policy_arn: `aws_iam_policy.${resourceName}_${serviceTypes}_policy.arn`,
-          },
-          dependencies: [
-            `aws_iam_role.${resourceName}_role`,
-            `aws_iam_policy.${resourceName}_${serviceTypes}_policy`
-          ],
-        })
+  // Apply a rewrite to the Terraform code in a resource config: the interpolations in
+  // strings and the code of expressions
+  private mapConfigCode(value: any, rewrite: (code: string) => string): any {
+    if (typeof value === "string") return this.mapTemplateCode(value, rewrite)
+    if (isHclExpression(value)) {
+      switch (value.kind) {
+        case "traversal":
+        case "expression":
+          return { ...value, raw: rewrite(value.raw) }
+        case "template":
+        case "heredoc":
+          return { ...value, value: this.mapTemplateCode(value.value, rewrite) }
+        case "call":
+          return { ...value, args: value.args.map((arg) => this.mapConfigCode(arg, rewrite)) }
+        case "tuple":
+          return { ...value, items: value.items.map((item) => this.mapConfigCode(item, rewrite)) }
+        case "object":
+          return { ...value, items: value.items.map((item) => ({ ...item, value: this.mapConfigCode(item.value, rewrite) })) }
+        default:
+          return value
+      }
+    }
+    if (Array.isArray(value)) return value.map((item) => this.mapConfigCode(item, rewrite))
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.mapConfigCode(item, rewrite)]))
+    }
+    return value
+  }
+
+  private mapTemplateCode(value: string, rewrite: (code: string) => string): string {
+    return value.replace(/\$\{([^{}]*)\}/g, (_, code: string) => "${" + rewrite(code) + "}")
+  }
+
+  // Resource configs are plain objects; references are already expressions, strings become
+  // templates, map arguments become objects and other nested objects become blocks
+  private toHclBody(config: Record<string, any>, parentKey?: string): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] }
+
+    Object.entries(config).forEach(([key, value]) => {
+      if (value === null || value === undefined) {
+        return
+      }
+
+      if (isHclExpression(value)) {
+        body.attributes[key] = value
+      } else if (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "object" && v !== null && !isHclExpression(v))) {
+        // A list of objects is a repeated block, e.g. several `source` blocks in an archive
+        value.forEach((v) => body.blocks.push({ type: key, labels: [], body: this.toHclBody(v, key) }))
+      } else if (typeof value === "object" && !Array.isArray(value) && !MAP_ARGUMENTS.includes(key) && parentKey !== "tags") {
+        body.blocks.push({ type: key, labels: [], body: this.toHclBody(value, key) })
+      } else {
+        body.attributes[key] = this.toConfigExpression(value)
       }
     })
 
-    return policies
+    return body
+  }
+
+  private toConfigExpression(value: unknown): HclExpression {
+    if (isHclExpression(value)) return value
+    if (typeof value === "string") {
+      // Use heredoc for multi-line strings
+      return value.includes("\n") ? heredoc(value) : template(value)
+    }
+    if (Array.isArray(value)) return tuple(value.map((v) => this.toConfigExpression(v)))
+    if (value && typeof value === "object") {
+      // Maps such as tags and labels are arguments, not blocks
+      return object(Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.toConfigExpression(v)])))
+    }
+    return toExpression(value)
   }
 
-  // Helper method to get region (used in RDS policy)
+  // Generate custom IAM policies based on edge connections
+  // Helper method to get region (used for availability zones)
   private getRegion(): string {
     return 'us-east-1' // Default region, could be made configurable
   }
@@ -0,0 +1,319 @@
+import type { Edge, Node } from "@xyflow/react"
+import { ConfigLoader, type ServiceConfig } from "@/lib/config-loader"
+import {
+  collectBodyReferences,
+  collectCode,
+  collectReferences,
+  parseHCL,
+  type HclBlock,
+  type HclBody,
+  type HclExpression,
+} from "@/lib/hcl-parser"
+import { layoutLayered } from "./canvas-layout"
+import { validateConnection } from "./connection-validator"
+
+export interface TerraformImportResult {
+  nodes: Node[]
+  edges: Edge[]
+  warnings: string[]
+}
+
+interface ImportedResource {
+  address: string
+  type: string
+  name: string
+  body: HclBody
+  service: ServiceConfig
+  nodeId: string
+  config: Record<string, any>
+  extraAttributes: Record<string, any>
+}
+
+// Terraform attribute names that map onto differently named schema fields
+export const ATTRIBUTE_ALIASES: Record<string, Record<string, string>> = {
+  aws_s3_bucket: { bucket: "bucket_name" },
+  aws_dynamodb_table: { name: "table_name" },
+  azurerm_linux_virtual_machine: { size: "vm_size" },
+}
+
+// Meta-arguments are handled by Terraform itself rather than the provider
+const META_ARGUMENTS = ["count", "for_each", "provider", "depends_on", "lifecycle", "provisioner", "connection"]
+
+// Prefixes that TerraformGenerator emits as bare references instead of quoted strings
+const REFERENCE_PREFIXES = ["var.", "aws_", "google_", "azurerm_"]
+
+const PROVIDER_PREFIXES: Record<string, string> = {
+  aws_: "aws",
+  google_: "gcp",
+  azurerm_: "azure",
+}
+
+export function getProviderFromTerraformType(terraformType: string): string {
+  const prefix = Object.keys(PROVIDER_PREFIXES).find((p) => terraformType.startsWith(p))
+  return prefix ? PROVIDER_PREFIXES[prefix] : "aws"
+}
+
+/**
+ * Build a canvas edge from a resource to one that depends on it. Edges point from the
+ * dependency to the dependent, matching the depends_on direction TerraformGenerator
+ * derives from edges, so regenerating an imported graph doesn't introduce cycles.
+ */
+export function createDependencyEdge(
+  dependency: { nodeId: string; serviceId: string },
+  dependent: { nodeId: string; serviceId: string },
+  provider: string,
+  fallbackDescription: string,
+): Edge {
+  const rule =
+    validateConnection(dependency.serviceId, dependent.serviceId, provider) ||
+    validateConnection(dependent.serviceId, dependency.serviceId, provider)
+
+  return {
+    id: `edge_${dependency.nodeId}_${dependent.nodeId}`,
+    source: dependency.nodeId,
+    target: dependent.nodeId,
+    type: "custom",
+    animated: false,
+    style: { strokeWidth: 4, stroke: "#a855f7" },
+    data: {
+      relationship: rule?.relationship || "connects_to",
+      description: rule?.description || fallbackDescription,
+      bidirectional: rule?.bidirectional || false,
+    },
+  }
+}
+
+export class TerraformImporter {
+  private resources: ImportedResource[] = []
+  private warnings: string[] = []
+
+  /**
+   * Parse one or more .tf sources and map their resources onto canvas nodes and edges
+   */
+  async import(sources: { fileName: string; content: string }[]): Promise<TerraformImportResult> {
+    this.resources = []
+    this.warnings = []
+
+    const blocks: { fileName: string; block: HclBlock }[] = []
+    sources.forEach(({ fileName, content }) => {
+      try {
+        parseHCL(content).blocks.forEach((block) => blocks.push({ fileName, block }))
+      } catch (error) {
+        this.warnings.push(`${fileName}: ${error instanceof Error ? error.message : "Failed to parse"}`)
+      }
+    })
+
+    const helperBlocks: HclBlock[] = []
+    for (const { fileName, block } of blocks) {
+      if (block.type !== "resource" || block.labels.length !== 2) continue
+
+      const [type, name] = block.labels
+      const service = await ConfigLoader.findServiceByTerraformType(type)
+      if (!service) {
+        helperBlocks.push(block)
+        continue
+      }
+
+      this.resources.push({
+        address: `${type}.${name}`,
+        type,
+        name,
+        body: block.body,
+        service,
+        nodeId: `tf_${type}_${name}`,
+        config: { ...service.defaultConfig },
+        extraAttributes: {},
+      })
+
+      if (block.body.attributes.count || block.body.attributes.for_each) {
+        this.warnings.push(`${fileName}: ${type}.${name} uses count/for_each and was imported as a single node`)
+      }
+    }
+
+    this.resources.forEach((resource) => this.mapAttributes(resource))
+    helperBlocks.forEach((block) => this.foldHelperResource(block))
+
+    const edges = this.buildEdges()
+    const positions = layoutLayered(
+      this.resources.map((resource) => resource.nodeId),
+      edges,
+    )
+
+    const nodes: Node[] = this.resources.map((resource) => ({
+      id: resource.nodeId,
+      type: "cloudService",
+      position: positions[resource.nodeId],
+      data: {
+        ...resource.service,
+        name: resource.name,
+        type: resource.service.id,
+        provider: getProviderFromTerraformType(resource.type),
+        config: resource.config,
+        terraformType: resource.type,
+        ...(Object.keys(resource.extraAttributes).length > 0 && {
+          extraAttributes: resource.extraAttributes,
+        }),
+      },
+    }))
+
+    return { nodes, edges, warnings: this.warnings }
+  }
+
+  // Split a resource body into schema-backed config and preserved extra attributes
+  private mapAttributes(resource: ImportedResource) {
+    const schema = resource.service.configSchema || {}
+    const aliases = ATTRIBUTE_ALIASES[resource.type] || {}
+
+    Object.entries(resource.body.attributes).forEach(([key, expression]) => {
+      if (META_ARGUMENTS.includes(key)) return
+
+      const field = aliases[key] || key
+      if (field in schema) {
+        resource.config[field] = this.toValue(expression)
+        return
+      }
+
+      const unresolved = this.getUnresolvedReferences(expression)
+      if (unresolved.length > 0) {
+        this.warnings.push(
+          `${resource.address}: dropped "${key}" because it references ${unresolved.join(", ")}, which was not imported`,
+        )
+        return
+      }
+      resource.extraAttributes[key] = this.toValue(expression)
+    })
+
+    const blockGroups: Record<string, HclBody[]> = {}
+    resource.body.blocks.forEach((block) => {
+      if (META_ARGUMENTS.includes(block.type)) return
+      blockGroups[block.type] = blockGroups[block.type] || []
+      blockGroups[block.type].push(block.body)
+    })
+
+    Object.entries(blockGroups).forEach(([key, bodies]) => {
+      const values = bodies.map((body) => this.bodyToValue(body))
+      const value = values.length === 1 ? values[0] : values
+      if (key in schema) {
+        resource.config[key] = value
+      } else {
+        resource.extraAttributes[key] = value
+      }
+    })
+  }
+
+  // Fold standalone resources the generator derives from a service back into that node
+  private foldHelperResource(block: HclBlock) {
+    const [type, name] = block.labels
+
+    if (type === "aws_s3_bucket_versioning") {
+      const bucket = this.findReferencedResource(block.body.attributes.bucket)
+      const configuration = block.body.blocks.find((b) => b.type === "versioning_configuration")
+      const status = configuration?.body.attributes.status
+      if (bucket && status?.kind === "template") {
+        bucket.config.versioning = status.value
+        return
+      }
+    }
+
+    if (type === "aws_s3_bucket_public_access_block") {
+      const bucket = this.findReferencedResource(block.body.attributes.bucket)
+      if (bucket) {
+        const blocked = ["block_public_acls", "block_public_policy", "ignore_public_acls", "restrict_public_buckets"]
+          .every((key) => {
+            const expression = block.body.attributes[key]
+            return expression?.kind === "literal" && expression.value === true
+          })
+        bucket.config.public_access = blocked ? "Blocked" : "Allowed"
+        return
+      }
+    }
+
+    this.warnings.push(`${type}.${name} has no matching service and was skipped`)
+  }
+
+  // Derive edges from references and depends_on between imported resources
+  private buildEdges(): Edge[] {
+    const byAddress = new Map(this.resources.map((resource) => [resource.address, resource]))
+    const edges: Edge[] = []
+    const seen = new Set<string>()
+
+    this.resources.forEach((resource) => {
+      collectBodyReferences(resource.body).forEach((reference) => {
+        const dependency = byAddress.get(reference)
+        if (!dependency || dependency === resource) return
+
+        const key = `${dependency.nodeId}->${resource.nodeId}`
+        if (seen.has(key)) return
+        seen.add(key)
+
+        edges.push(
+          createDependencyEdge(
+            { nodeId: dependency.nodeId, serviceId: dependency.service.id },
+            { nodeId: resource.nodeId, serviceId: resource.service.id },
+            getProviderFromTerraformType(resource.type),
+            `Imported from ${resource.address} reference`,
+          ),
+        )
+      })
+    })
+
+    return edges
+  }
+
+  private findReferencedResource(expression?: HclExpression): ImportedResource | undefined {
+    if (!expression) return undefined
+    const references = collectReferences(expression)
+    return this.resources.find((resource) => references.includes(resource.address))
+  }
+
+  private getUnresolvedReferences(expression: HclExpression): string[] {
+    const imported = new Set(this.resources.map((resource) => resource.address))
+    const unresolved = collectReferences(expression).filter((reference) => !imported.has(reference))
+
+    collectCode(expression).forEach((code) => {
+      const symbolic = code.match(/(?<![\w.])(?:var|local|data|module)\.[A-Za-z_][A-Za-z0-9_-]*/g) || []
+      // Only region-style variables are emitted by the generator
+      symbolic
+        .filter((reference) => reference !== "var.region" && reference !== "var.environment")
+        .forEach((reference) => unresolved.push(reference))
+    })
+
+    return Array.from(new Set(unresolved))
+  }
+
+  private toValue(expression: HclExpression): any {
+    switch (expression.kind) {
+      case "literal":
+      case "template":
+      case "heredoc":
+        return expression.value
+      case "tuple":
+        return expression.items.map((item) => this.toValue(item))
+      case "object":
+        return Object.fromEntries(expression.items.map((item) => [item.key, this.toValue(item.value)]))
+      case "traversal":
+        return REFERENCE_PREFIXES.some((prefix) => expression.raw.startsWith(prefix))
+          ? expression.raw
+          : `\${${expression.raw}}`
+      case "expression":
+        return `\${${expression.raw}}`
+    }
+  }
+
+  private bodyToValue(body: HclBody): Record<string, any> {
+    const value: Record<string, any> = {}
+    Object.entries(body.attributes).forEach(([key, expression]) => {
+      value[key] = this.toValue(expression)
+    })
+    body.blocks.forEach((block) => {
+      const nested = this.bodyToValue(block.body)
+      const existing = value[block.type]
+      if (existing === undefined) {
+        value[block.type] = nested
+      } else {
+        value[block.type] = Array.isArray(existing) ? [...existing, nested] : [existing, nested]
+      }
+    })
+    return value
+  }
+}
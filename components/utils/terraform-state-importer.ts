@@ -0,0 +1,243 @@
+import type { Edge, Node } from "@xyflow/react"
+import { ConfigLoader, type ServiceConfig } from "@/lib/config-loader"
+import { SENSITIVE_VALUE } from "@/lib/terraform-plan"
+import type { PlanResourceChange } from "@/types/deployment"
+import { layoutLayered } from "./canvas-layout"
+import {
+  ATTRIBUTE_ALIASES,
+  createDependencyEdge,
+  getProviderFromTerraformType,
+  type TerraformImportResult,
+} from "./terraform-importer"
+
+interface TerraformStateInstance {
+  index_key?: string | number
+  attributes?: Record<string, any>
+  sensitive_attributes?: { type: string; value: string }[][]
+  dependencies?: string[]
+}
+
+interface TerraformStateResource {
+  module?: string
+  mode: "managed" | "data"
+  type: string
+  name: string
+  instances: TerraformStateInstance[]
+}
+
+export interface TerraformState {
+  version: number
+  terraform_version?: string
+  resources: TerraformStateResource[]
+}
+
+interface StateNode {
+  address: string
+  nodeId: string
+  name: string
+  type: string
+  service: ServiceConfig
+  config: Record<string, any>
+  stateAttributes: Record<string, any>
+  dependencies: string[]
+}
+
+const SENSITIVE_PLACEHOLDER = "(sensitive)"
+
+export class TerraformStateImporter {
+  private stateNodes: StateNode[] = []
+  private warnings: string[] = []
+
+  /**
+   * Build canvas nodes and edges from a tfstate v4 document
+   */
+  async import(state: TerraformState | string): Promise<TerraformImportResult> {
+    this.stateNodes = []
+    this.warnings = []
+
+    const parsed: TerraformState = typeof state === "string" ? JSON.parse(state) : state
+    if (parsed.version !== 4) {
+      throw new Error(`Unsupported state version ${parsed.version}; only version 4 is supported`)
+    }
+
+    const helpers: { address: string; resource: TerraformStateResource }[] = []
+    for (const resource of parsed.resources || []) {
+      if (resource.mode !== "managed") continue
+
+      const address = this.getAddress(resource)
+      const service = await ConfigLoader.findServiceByTerraformType(resource.type)
+      if (!service) {
+        helpers.push({ address, resource })
+        continue
+      }
+
+      resource.instances.forEach((instance) => {
+        const suffix = instance.index_key !== undefined ? `_${instance.index_key}` : ""
+        const modulePrefix = resource.module ? `${resource.module.replace(/^module\./, "").replace(/\./g, "_")}_` : ""
+        const name = `${modulePrefix}${resource.name}${suffix}`
+
+        const stateAttributes = this.maskSensitive(instance)
+        this.stateNodes.push({
+          address,
+          nodeId: `tfstate_${resource.type}_${name}`,
+          name,
+          type: resource.type,
+          service,
+          config: this.mapConfig(resource.type, service, stateAttributes),
+          stateAttributes,
+          dependencies: instance.dependencies || [],
+        })
+      })
+    }
+
+    helpers.forEach(({ address, resource }) => this.foldHelperResource(address, resource))
+
+    const edges = this.buildEdges()
+    const positions = layoutLayered(
+      this.stateNodes.map((node) => node.nodeId),
+      edges,
+    )
+
+    const nodes: Node[] = this.stateNodes.map((stateNode) => ({
+      id: stateNode.nodeId,
+      type: "cloudService",
+      position: positions[stateNode.nodeId],
+      data: {
+        ...stateNode.service,
+        name: stateNode.name,
+        type: stateNode.service.id,
+        provider: getProviderFromTerraformType(stateNode.type),
+        config: stateNode.config,
+        terraformType: stateNode.type,
+        stateAttributes: stateNode.stateAttributes,
+      },
+    }))
+
+    return { nodes, edges, warnings: this.warnings }
+  }
+
+  // Copy deployed values into the schema fields they correspond to
+  private mapConfig(
+    terraformType: string,
+    service: ServiceConfig,
+    attributes: Record<string, any>,
+  ): Record<string, any> {
+    const config: Record<string, any> = { ...service.defaultConfig }
+    const schema = service.configSchema || {}
+    const aliases = ATTRIBUTE_ALIASES[terraformType] || {}
+
+    Object.entries(attributes).forEach(([key, value]) => {
+      const field = aliases[key] || key
+      if (!(field in schema) || value === SENSITIVE_PLACEHOLDER || !isFlatValue(value)) return
+      config[field] = value
+    })
+
+    return config
+  }
+
+  // Fold standalone resources the generator derives from a service back into that node
+  private foldHelperResource(address: string, resource: TerraformStateResource) {
+    const instance = resource.instances[0]
+    const bucket = this.stateNodes.find(
+      (node) => node.type === "aws_s3_bucket" && instance?.dependencies?.includes(node.address),
+    )
+
+    if (resource.type === "aws_s3_bucket_versioning" && bucket) {
+      const status = instance.attributes?.versioning_configuration?.[0]?.status
+      if (status) {
+        bucket.config.versioning = status
+        return
+      }
+    }
+
+    if (resource.type === "aws_s3_bucket_public_access_block" && bucket) {
+      const attributes = instance.attributes || {}
+      const blocked = ["block_public_acls", "block_public_policy", "ignore_public_acls", "restrict_public_buckets"]
+        .every((key) => attributes[key] === true)
+      bucket.config.public_access = blocked ? "Blocked" : "Allowed"
+      return
+    }
+
+    this.warnings.push(`${address} has no matching service and was skipped`)
+  }
+
+  private buildEdges(): Edge[] {
+    const edges: Edge[] = []
+    const seen = new Set<string>()
+
+    this.stateNodes.forEach((stateNode) => {
+      stateNode.dependencies.forEach((address) => {
+        this.stateNodes
+          .filter((dependency) => dependency.address === address && dependency !== stateNode)
+          .forEach((dependency) => {
+            const key = `${dependency.nodeId}->${stateNode.nodeId}`
+            if (seen.has(key)) return
+            seen.add(key)
+
+            edges.push(
+              createDependencyEdge(
+                { nodeId: dependency.nodeId, serviceId: dependency.service.id },
+                { nodeId: stateNode.nodeId, serviceId: stateNode.service.id },
+                getProviderFromTerraformType(stateNode.type),
+                `Deployed dependency of ${stateNode.address}`,
+              ),
+            )
+          })
+      })
+    })
+
+    return edges
+  }
+
+  // Replace top-level sensitive values and drop empty attributes
+  private maskSensitive(instance: TerraformStateInstance): Record<string, any> {
+    const sensitive = new Set(
+      (instance.sensitive_attributes || [])
+        .map((path) => path[0])
+        .filter((step) => step?.type === "get_attr")
+        .map((step) => step.value),
+    )
+
+    const attributes: Record<string, any> = {}
+    Object.entries(instance.attributes || {}).forEach(([key, value]) => {
+      if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) return
+      attributes[key] = sensitive.has(key) ? SENSITIVE_PLACEHOLDER : value
+    })
+    return attributes
+  }
+
+  private getAddress(resource: TerraformStateResource): string {
+    const address = `${resource.type}.${resource.name}`
+    return resource.module ? `${resource.module}.${address}` : address
+  }
+}
+
+/**
+ * Config updates that accept a drifted resource's deployed values into its node,
+ * keyed by schema field. Only attributes that changed and map onto a flat field
+ * are included; helper resources without a service of their own give none.
+ */
+export async function getDriftedConfig(change: PlanResourceChange): Promise<Record<string, any>> {
+  const service = await ConfigLoader.findServiceByTerraformType(change.type)
+  if (!service || !change.after) return {}
+
+  const schema = service.configSchema || {}
+  const aliases = ATTRIBUTE_ALIASES[change.type] || {}
+  const config: Record<string, any> = {}
+
+  Object.entries(change.after).forEach(([key, value]) => {
+    const field = aliases[key] || key
+    if (!(field in schema) || value === SENSITIVE_VALUE || !isFlatValue(value)) return
+    if (JSON.stringify(change.before?.[key]) === JSON.stringify(value)) return
+    config[field] = value
+  })
+
+  return config
+}
+
+// Nested blocks are stored as lists of objects and don't map onto flat schema fields
+function isFlatValue(value: any): boolean {
+  if (value === null) return false
+  if (typeof value === "object" && !Array.isArray(value)) return false
+  return !(Array.isArray(value) && value.some((item) => typeof item === "object"))
+}
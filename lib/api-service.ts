@@ -1,11 +1,143 @@
-import type { DeploymentRequest, DeploymentResult, DeploymentStatus, TerraformWorkspace } from '@/types/deployment'
+import type { BackendConfig, DeploymentRequest, DeploymentResult, DeploymentStatus, DriftReport, TerraformStreamEvent, TerraformWorkspace, WorkspaceLock } from '@/types/deployment'
+import { ConfigLoader } from '@/lib/config-loader'
+import { describeConfigErrors, validateNodeConfigs } from '@/lib/config-validator'
 import { CredentialManager } from '@/lib/credential-manager'
+import { applyEnvironment } from '@/lib/environments'
+import { describeProgress, getProgressPercent, TerraformProgressTracker } from '@/lib/terraform-progress'
+import { maskSecrets, maskSensitiveOutputs } from '@/lib/secret-masking'
 import type { Node, Edge } from '@xyflow/react'
 
 // In-memory storage for deployments (in production, use a database)
 const deployments: Map<string, DeploymentStatus> = new Map()
 const activeDeployments: Set<string> = new Set()
 
+// Identifies this tab as the holder of the workspace locks it takes
+const lockHolder = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+/**
+ * Raised when a workspace is locked by an operation from another tab
+ */
+export class WorkspaceLockedError extends Error {
+  constructor(message: string, public readonly lock: WorkspaceLock) {
+    super(message)
+    this.name = 'WorkspaceLockedError'
+  }
+}
+
+/**
+ * Mark a deployment as running and save it to the server-side history, so a
+ * server restart mid-deployment leaves a record behind
+ */
+function startDeployment(deploymentId: string): void {
+  activeDeployments.add(deploymentId)
+  saveDeploymentHistory(deploymentId)
+}
+
+/**
+ * Mark a deployment as no longer running and save its final status
+ */
+function finishDeployment(deploymentId: string): void {
+  activeDeployments.delete(deploymentId)
+  saveDeploymentHistory(deploymentId)
+}
+
+/**
+ * Stop a deployment flow once the user has cancelled it, instead of carrying on
+ * to the next terraform step
+ */
+function throwIfCancelled(deployment: DeploymentStatus): void {
+  if (isCancelled(deployment)) {
+    throw new Error('Deployment cancelled by user')
+  }
+}
+
+function isCancelled(deployment: DeploymentStatus): boolean {
+  return deployment.status === 'cancelled'
+}
+
+function saveDeploymentHistory(deploymentId: string): void {
+  const deployment = deployments.get(deploymentId)
+  if (!deployment) return
+
+  fetch('/api/deployments', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ deployment })
+  }).catch(error => console.warn('⚠️ Failed to save deployment history:', error))
+}
+
+/**
+ * Take the workspace lock for a multi-step operation, so another tab can't run
+ * terraform against the same state until it has finished
+ */
+async function lockWorkspace(workspaceId: string, operation: string): Promise<void> {
+  const response = await fetch(`/api/workspaces/${workspaceId}/lock`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ holder: lockHolder, operation })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    if (response.status === 409) {
+      throw new WorkspaceLockedError(errorData.error, errorData.lock)
+    }
+    throw new Error(errorData.error || 'Failed to lock workspace')
+  }
+}
+
+/**
+ * Release a workspace lock held by this tab, or whoever holds it with `force`
+ */
+async function unlockWorkspace(workspaceId: string, force: boolean = false): Promise<boolean> {
+  const query = force ? 'force=true' : `holder=${encodeURIComponent(lockHolder)}`
+  try {
+    const response = await fetch(`/api/workspaces/${workspaceId}/lock?${query}`, { method: 'DELETE' })
+    return response.ok
+  } catch (error) {
+    console.warn('⚠️ Failed to release workspace lock:', error)
+    return false
+  }
+}
+
+/**
+ * Append streamed terraform output to a deployment's logs as it arrives. With a
+ * tracker, resource progress is mapped onto the given range of the progress bar.
+ */
+function logStreamedOutput(
+  deployment: DeploymentStatus,
+  tracker?: TerraformProgressTracker,
+  range: [number, number] = [deployment.progress, deployment.progress]
+): (event: TerraformStreamEvent) => void {
+  return (event) => {
+    if (event.type === 'job') {
+      deployment.jobId = event.job.id
+      if (event.job.status === 'queued') {
+        deployment.logs.push('Waiting for another Terraform command in this workspace to finish...')
+      }
+    } else if (event.type === 'command') {
+      deployment.logs.push(`$ ${event.command}`)
+    } else if (event.type === 'output' && event.line.trim()) {
+      deployment.logs.push(event.line)
+
+      const progress = tracker?.update(event.line)
+      if (progress) {
+        const percent = getProgressPercent(progress)
+        if (percent !== null) {
+          deployment.progress = Math.round(range[0] + ((range[1] - range[0]) * percent) / 100)
+        }
+        deployment.resourceProgress = progress
+        deployment.message = describeProgress(progress)
+      }
+    }
+    deployment.updatedAt = new Date().toISOString()
+  }
+}
+
 /**
  * Helper to detect if nodes contain Supabase services
  */
@@ -101,9 +233,28 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     provider: request.provider,
     nodeCount: request.nodes.length,
     edgeCount: request.edges.length,
-    autoApprove: request.autoApprove
+    autoApprove: request.autoApprove,
+    environment: request.environment
   })
 
+  // Nothing is deployed while a node's configuration breaks its service's schema
+  const configErrors = await validateNodeConfigs(
+    applyEnvironment(request.nodes, request.environment),
+    (provider, serviceId) => ConfigLoader.loadServiceConfig(provider, serviceId)
+  )
+  if (configErrors.length > 0) {
+    const errorMessage = describeConfigErrors(configErrors)
+    console.error('❌ Invalid configuration:', configErrors)
+    return {
+      success: false,
+      deploymentId,
+      workspaceId: '',
+      error: errorMessage,
+      configErrors,
+      logs: [`Error: ${errorMessage}`]
+    }
+  }
+
   // Detect deployment type
   const hasSupabase = hasSupabaseNodes(request.nodes)
   const hasCloudProvider = hasCloudProviderNodes(request.nodes)
@@ -130,7 +281,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     }
     
     deployments.set(deploymentId, deployment)
-    activeDeployments.add(deploymentId)
+    startDeployment(deploymentId)
     
     try {
       deployment.status = 'applying'
@@ -149,7 +300,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
         deployment.updatedAt = new Date().toISOString()
         
         deployments.set(deploymentId, deployment)
-        activeDeployments.delete(deploymentId)
+        finishDeployment(deploymentId)
         
         return {
           success: true,
@@ -166,7 +317,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
         deployment.updatedAt = new Date().toISOString()
         
         deployments.set(deploymentId, deployment)
-        activeDeployments.delete(deploymentId)
+        finishDeployment(deploymentId)
         
         return {
           success: false,
@@ -185,7 +336,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.updatedAt = new Date().toISOString()
       
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       
       return {
         success: false,
@@ -213,7 +364,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     }
     
     deployments.set(deploymentId, deployment)
-    activeDeployments.add(deploymentId)
+    startDeployment(deploymentId)
     
     try {
       // Deploy Supabase first
@@ -257,7 +408,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.updatedAt = new Date().toISOString()
       
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       
       return {
         success: true,
@@ -275,7 +426,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.updatedAt = new Date().toISOString()
       
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       
       return {
         success: false,
@@ -302,11 +453,12 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
   }
 
   deployments.set(deploymentId, deployment)
-  activeDeployments.add(deploymentId)
+  startDeployment(deploymentId)
   console.log('✅ Deployment initialized and added to active deployments')
 
+  let lockedWorkspaceId: string | null = null
   try {
-    // Step 1: Create workspace
+    // Step 1: Create the workspace, or update the one the environment is already deployed to
     console.log('📁 Step 1: Creating workspace...')
     deployment.status = 'initializing'
     deployment.progress = 10
@@ -314,21 +466,41 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     deployment.logs.push('Creating workspace...')
     deployment.updatedAt = new Date().toISOString()
 
-    const workspacePayload = {
+    const existingWorkspace = request.projectId
+      ? await findProjectWorkspace(request.projectId, request.environment)
+      : undefined
+    if (existingWorkspace) {
+      // Don't rewrite the files under another operation running in the workspace
+      await lockWorkspace(existingWorkspace.id, 'deploy')
+      lockedWorkspaceId = existingWorkspace.id
+    }
+
+    const workspacePayload = existingWorkspace
+      ? {
+          workspaceId: existingWorkspace.id,
+          nodes: request.nodes,
+          edges: request.edges
+        }
+      : {
+          name: request.name,
+          provider: request.provider,
+          nodes: request.nodes,
+          edges: request.edges,
+          projectId: request.projectId,
+          environment: request.environment,
+          backend: request.backend
+        }
+    console.log(existingWorkspace ? '📤 Sending workspace update request:' : '📤 Sending workspace creation request:', {
+      workspaceId: existingWorkspace?.id,
       name: request.name,
       provider: request.provider,
-      nodes: request.nodes,
-      edges: request.edges
-    }
-    console.log('📤 Sending workspace creation request:', {
-      name: workspacePayload.name,
-      provider: workspacePayload.provider,
-      nodeCount: workspacePayload.nodes.length,
-      edgeCount: workspacePayload.edges.length
+      nodeCount: request.nodes.length,
+      edgeCount: request.edges.length,
+      backend: (existingWorkspace?.backend || request.backend)?.type || 'local'
     })
 
     const workspaceResponse = await fetch('/api/workspaces', {
-      method: 'POST',
+      method: existingWorkspace ? 'PUT' : 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
@@ -345,7 +517,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
 
     const workspaceData = await workspaceResponse.json()
     const workspace = workspaceData.workspace
-    console.log('✅ Workspace created successfully:', {
+    console.log(existingWorkspace ? '✅ Workspace updated successfully:' : '✅ Workspace created successfully:', {
       id: workspace.id,
       workingDirectory: workspace.workingDirectory,
       status: workspace.status
@@ -353,9 +525,15 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
 
     deployment.workspaceId = workspace.id
     deployment.workspace = workspace
-    deployment.logs.push(`Workspace created: ${workspace.id}`)
+    deployment.logs.push(`${existingWorkspace ? 'Workspace updated' : 'Workspace created'}: ${workspace.id}`)
     deployment.updatedAt = new Date().toISOString()
 
+    // Hold the workspace lock across every terraform step of the deployment
+    if (!lockedWorkspaceId) {
+      await lockWorkspace(workspace.id, 'deploy')
+      lockedWorkspaceId = workspace.id
+    }
+
     // Step 2: Initialize Terraform
     console.log('🔧 Step 2: Initializing Terraform...')
     deployment.status = 'initializing'
@@ -371,15 +549,14 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       workingDirectory: workspace.workingDirectory,
       credentials: awsCredentials ? { aws: awsCredentials } : undefined
     }
-    console.log('📤 Sending terraform init request:', initPayload)
+    console.log('📤 Sending terraform init request:', maskSecrets(initPayload))
 
-    const initResponse = await fetch('/api/terraform/init', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(initPayload)
-    })
+    const initResponse = await streamTerraformCommand(
+      '/api/terraform/init',
+      initPayload,
+      logStreamedOutput(deployment)
+    )
+    throwIfCancelled(deployment)
 
     console.log('📥 Terraform init response status:', initResponse.status, initResponse.statusText)
     
@@ -414,7 +591,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       }
       deployment.updatedAt = new Date().toISOString()
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       return {
         success: false,
         deploymentId,
@@ -438,7 +615,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       workingDirectory: workspace.workingDirectory,
       credentials: awsCredentials ? { aws: awsCredentials } : undefined
     }
-    console.log('📤 Sending terraform validate request:', validatePayload)
+    console.log('📤 Sending terraform validate request:', maskSecrets(validatePayload))
 
     const validateResponse = await fetch('/api/terraform/validate', {
       method: 'POST',
@@ -487,15 +664,14 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       planFile: `${workspace.workingDirectory}/terraform.tfplan`,
       credentials: awsCredentials ? { aws: awsCredentials } : undefined
     }
-    console.log('📤 Sending terraform plan request:', planPayload)
+    console.log('📤 Sending terraform plan request:', maskSecrets(planPayload))
 
-    const planResponse = await fetch('/api/terraform/plan', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(planPayload)
-    })
+    const planResponse = await streamTerraformCommand(
+      '/api/terraform/plan',
+      planPayload,
+      logStreamedOutput(deployment)
+    )
+    throwIfCancelled(deployment)
 
     console.log('📥 Terraform plan response status:', planResponse.status, planResponse.statusText)
     
@@ -507,7 +683,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.logs.push(`❌ Plan failed: ${errorData.error}`)
       deployment.updatedAt = new Date().toISOString()
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       return {
         success: false,
         deploymentId,
@@ -527,7 +703,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.logs.push(`❌ Plan command failed: ${planData.error || 'Unknown error'}`)
       deployment.updatedAt = new Date().toISOString()
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       return {
         success: false,
         deploymentId,
@@ -572,15 +748,16 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       autoApprove: request.autoApprove,
       credentials: awsCredentials ? { aws: awsCredentials } : undefined
     }
-    console.log('📤 Sending terraform apply request:', applyPayload)
+    console.log('📤 Sending terraform apply request:', maskSecrets(applyPayload))
 
-    const applyResponse = await fetch('/api/terraform/apply', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(applyPayload)
-    })
+    // A saved plan doesn't print its summary again, so seed the total from the plan step
+    const applyTracker = new TerraformProgressTracker(planData.plan?.plannedChanges)
+    const applyResponse = await streamTerraformCommand(
+      '/api/terraform/apply',
+      applyPayload,
+      logStreamedOutput(deployment, applyTracker, [60, 90])
+    )
+    throwIfCancelled(deployment)
 
     console.log('📥 Terraform apply response status:', applyResponse.status, applyResponse.statusText)
     
@@ -592,7 +769,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.logs.push(`❌ Apply failed: ${errorData.error}`)
       deployment.updatedAt = new Date().toISOString()
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       return {
         success: false,
         deploymentId,
@@ -612,7 +789,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       deployment.logs.push(`❌ Apply command failed: ${applyData.error || 'Unknown error'}`)
       deployment.updatedAt = new Date().toISOString()
       deployments.set(deploymentId, deployment)
-      activeDeployments.delete(deploymentId)
+      finishDeployment(deploymentId)
       return {
         success: false,
         deploymentId,
@@ -650,7 +827,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       workingDirectory: workspace.workingDirectory,
       credentials: awsCredentials ? { aws: awsCredentials } : undefined
     }
-    console.log('📤 Sending terraform output request:', outputPayload)
+    console.log('📤 Sending terraform output request:', maskSecrets(outputPayload))
 
     const outputResponse = await fetch('/api/terraform/output', {
       method: 'POST',
@@ -672,9 +849,6 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
         errorLength: outputData.error?.length || 0
       })
       
-      if (outputData.output) {
-        console.log('📋 Terraform output raw:', outputData.output)
-      }
       if (outputData.error) {
         console.warn('⚠️ Terraform output warnings/errors:', outputData.error)
       }
@@ -682,9 +856,10 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       if (outputData.success) {
         try {
           outputs = JSON.parse(outputData.output)
-          console.log('📊 Parsed terraform outputs:', outputs)
+          console.log('📊 Parsed terraform outputs:', maskSensitiveOutputs(outputs))
         } catch (e) {
           console.warn('⚠️ Could not parse outputs as JSON:', e)
+          console.log('📋 Terraform output raw:', outputData.output)
           deployment.logs.push('Warning: Could not parse outputs as JSON')
         }
       }
@@ -719,7 +894,7 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     }
 
     deployments.set(deploymentId, deployment)
-    activeDeployments.delete(deploymentId)
+    finishDeployment(deploymentId)
     console.log('🏁 Deployment process completed:', {
       deploymentId,
       workspaceId: workspace.id,
@@ -736,6 +911,16 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     }
 
   } catch (error) {
+    if (isCancelled(deployment)) {
+      return {
+        success: false,
+        deploymentId,
+        workspaceId: deployment.workspaceId,
+        error: 'Deployment cancelled by user',
+        logs: deployment.logs
+      }
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
     console.error('💥 Deployment failed with error:', {
       deploymentId,
@@ -746,10 +931,13 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
     deployment.status = 'failed'
     deployment.error = errorMessage
     deployment.message = `Deployment failed: ${errorMessage}`
+    if (error instanceof WorkspaceLockedError) {
+      deployment.conflictingLock = error.lock
+    }
     deployment.updatedAt = new Date().toISOString()
     deployment.logs.push(`Error: ${errorMessage}`)
     deployments.set(deploymentId, deployment)
-    activeDeployments.delete(deploymentId)
+    finishDeployment(deploymentId)
 
     return {
       success: false,
@@ -758,6 +946,117 @@ export async function deployInfrastructure(request: DeploymentRequest): Promise<
       error: errorMessage,
       logs: [errorMessage]
     }
+  } finally {
+    if (lockedWorkspaceId) {
+      await unlockWorkspace(lockedWorkspaceId)
+    }
+  }
+}
+
+/**
+ * Call a terraform route in streaming mode, passing each event to `onEvent` as
+ * it arrives. Resolves to a Response holding the JSON the route would have
+ * returned without streaming, so callers can treat both modes the same way.
+ */
+export async function streamTerraformCommand(
+  endpoint: string,
+  payload: Record<string, any>,
+  onEvent: (event: TerraformStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...payload, lockHolder, stream: true }),
+    signal
+  })
+
+  if (response.status === 409) {
+    const errorData = await response.json()
+    throw new WorkspaceLockedError(errorData.error, errorData.lock)
+  }
+
+  // Validation errors are returned before streaming starts
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    const messages = buffer.split('\n\n')
+    buffer = messages.pop() || ''
+
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n')
+      if (!data) continue
+
+      const event: TerraformStreamEvent = JSON.parse(data)
+      if (event.type === 'result') {
+        return new Response(JSON.stringify(event.result), {
+          status: event.status,
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
+      if (event.type === 'error') {
+        throw new Error(event.error)
+      }
+      onEvent(event)
+    }
+  }
+
+  throw new Error(`Terraform stream from ${endpoint} ended without a result`)
+}
+
+/**
+ * Run a speculative terraform plan for generated code without creating a workspace.
+ * With `remoteState`, the plan is made against the state stored under that key.
+ */
+export async function planInfrastructure(
+  terraformCode: string,
+  provider: string,
+  remoteState?: { backend: BackendConfig; stateKey: string }
+): Promise<{ success: boolean; plan?: NonNullable<DeploymentStatus['plan']>; error?: string }> {
+  try {
+    const awsCredentials = CredentialManager.getCredentials('aws')
+
+    const response = await fetch('/api/terraform/plan', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        terraformCode,
+        provider,
+        ...remoteState,
+        credentials: awsCredentials ? { aws: awsCredentials } : undefined
+      })
+    })
+
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      return { success: false, error: data.error || 'Terraform plan failed' }
+    }
+
+    return { success: true, plan: data.plan }
+  } catch (error) {
+    console.error('Error running terraform plan:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to run terraform plan'
+    }
   }
 }
 
@@ -777,24 +1076,72 @@ export function getAllDeployments(): DeploymentStatus[] {
   )
 }
 
+/**
+ * Load the deployment history saved on the server. Deployments from this
+ * session stay as they are, since they may still be running.
+ */
+export async function loadDeploymentHistory(): Promise<DeploymentStatus[]> {
+  try {
+    const response = await fetch('/api/deployments')
+    if (response.ok) {
+      const data = await response.json()
+      const history: DeploymentStatus[] = data.deployments || []
+      history.forEach(deployment => {
+        if (!deployments.has(deployment.id)) {
+          deployments.set(deployment.id, deployment)
+        }
+      })
+    }
+  } catch (error) {
+    console.error('Error loading deployment history:', error)
+  }
+
+  return getAllDeployments()
+}
+
 /**
  * Cancel a deployment
  */
 export function cancelDeployment(deploymentId: string): boolean {
   const deployment = deployments.get(deploymentId)
   if (deployment && (deployment.status === 'pending' || deployment.status === 'initializing' || 
-      deployment.status === 'planning' || deployment.status === 'applying')) {
+      deployment.status === 'planning' || deployment.status === 'applying' || deployment.status === 'destroying')) {
+    // Stop the terraform command on the server; the deployment flow notices the cancellation when it returns
+    if (deployment.jobId) {
+      fetch(`/api/jobs/${deployment.jobId}`, { method: 'DELETE' })
+        .catch(error => console.warn('⚠️ Failed to cancel terraform job:', error))
+    }
+
     deployment.status = 'cancelled'
     deployment.message = 'Deployment cancelled by user'
     deployment.updatedAt = new Date().toISOString()
     deployment.logs.push('Deployment cancelled by user')
     deployments.set(deploymentId, deployment)
-    activeDeployments.delete(deploymentId)
+    finishDeployment(deploymentId)
     return true
   }
   return false
 }
 
+/**
+ * Release the lock that blocked a deployment, e.g. one left behind by a tab that
+ * was closed mid-deployment. The deployment itself is not retried.
+ */
+export async function forceUnlockWorkspace(deploymentId: string): Promise<boolean> {
+  const deployment = deployments.get(deploymentId)
+  const lock = deployment?.conflictingLock
+  if (!deployment || !lock) return false
+
+  const released = await unlockWorkspace(lock.workspaceId, true)
+  if (released) {
+    deployment.conflictingLock = undefined
+    deployment.logs.push(`Force-released ${lock.operation} lock on workspace ${lock.workspaceId}`)
+    deployment.updatedAt = new Date().toISOString()
+    saveDeploymentHistory(deploymentId)
+  }
+  return released
+}
+
 /**
  * Destroy infrastructure
  */
@@ -828,10 +1175,14 @@ export async function destroyInfrastructure(workspaceId: string, autoApprove: bo
   }
 
   deployments.set(deploymentId, deployment)
-  activeDeployments.add(deploymentId)
+  startDeployment(deploymentId)
 
+  let locked = false
   try {
-    deployment.progress = 50
+    await lockWorkspace(workspaceId, 'destroy')
+    locked = true
+
+    deployment.progress = 10
     deployment.message = 'Destroying infrastructure...'
     deployment.logs.push('Running terraform destroy...')
     deployment.updatedAt = new Date().toISOString()
@@ -839,23 +1190,27 @@ export async function destroyInfrastructure(workspaceId: string, autoApprove: bo
     // Get AWS credentials for the destroy call
     const destroyCredentials = CredentialManager.getCredentials('aws')
 
-    const destroyResponse = await fetch('/api/terraform/destroy', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    const destroyResponse = await streamTerraformCommand(
+      '/api/terraform/destroy',
+      {
         workingDirectory: workspace.workingDirectory,
         autoApprove,
         credentials: destroyCredentials ? { aws: destroyCredentials } : undefined
-      })
-    })
+      },
+      logStreamedOutput(deployment, new TerraformProgressTracker(), [10, 95])
+    )
+    throwIfCancelled(deployment)
 
     if (!destroyResponse.ok) {
       const errorData = await destroyResponse.json()
       throw new Error(`Terraform destroy failed: ${errorData.error}`)
     }
 
+    const destroyData = await destroyResponse.json()
+    if (!destroyData.success) {
+      throw new Error(`Terraform destroy command failed: ${destroyData.error || 'Unknown error'}`)
+    }
+
     deployment.status = 'completed'
     deployment.progress = 100
     deployment.message = 'Infrastructure destroyed successfully!'
@@ -872,7 +1227,7 @@ export async function destroyInfrastructure(workspaceId: string, autoApprove: bo
     })
 
     deployments.set(deploymentId, deployment)
-    activeDeployments.delete(deploymentId)
+    finishDeployment(deploymentId)
 
     return {
       success: true,
@@ -882,14 +1237,27 @@ export async function destroyInfrastructure(workspaceId: string, autoApprove: bo
     }
 
   } catch (error) {
+    if (isCancelled(deployment)) {
+      return {
+        success: false,
+        deploymentId,
+        workspaceId,
+        error: 'Destruction cancelled by user',
+        logs: deployment.logs
+      }
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
     deployment.status = 'failed'
     deployment.error = errorMessage
     deployment.message = `Destruction failed: ${errorMessage}`
+    if (error instanceof WorkspaceLockedError) {
+      deployment.conflictingLock = error.lock
+    }
     deployment.updatedAt = new Date().toISOString()
     deployment.logs.push(`Error: ${errorMessage}`)
     deployments.set(deploymentId, deployment)
-    activeDeployments.delete(deploymentId)
+    finishDeployment(deploymentId)
 
     return {
       success: false,
@@ -898,9 +1266,310 @@ export async function destroyInfrastructure(workspaceId: string, autoApprove: bo
       error: errorMessage,
       logs: [errorMessage]
     }
+  } finally {
+    if (locked) {
+      await unlockWorkspace(workspaceId)
+    }
+  }
+}
+
+export type TargetedOperation = 'plan' | 'apply' | 'destroy'
+
+/**
+ * Run plan, apply or destroy against a deployed workspace with `-target` set to
+ * the given resource addresses. The workspace files are regenerated from the
+ * canvas first so a targeted plan or apply picks up edits made since the last
+ * deployment. Apply runs the plan it just saved, so exactly the reviewed changes
+ * are made.
+ */
+export async function runTargetedOperation(
+  workspaceId: string,
+  operation: TargetedOperation,
+  targets: string[],
+  nodes: Node[],
+  edges: Edge[]
+): Promise<DeploymentResult> {
+  const deploymentId = `${operation}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const summary = `targeted ${operation} of ${targets.length} resource(s)`
+
+  const deployment: DeploymentStatus = {
+    id: deploymentId,
+    workspaceId,
+    status: operation === 'destroy' ? 'destroying' : 'initializing',
+    progress: 0,
+    message: `Starting ${summary}...`,
+    logs: [`Starting ${summary}:`, ...targets.map(target => `  ${target}`)],
+    targets,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }
+
+  deployments.set(deploymentId, deployment)
+  startDeployment(deploymentId)
+
+  let locked = false
+  try {
+    const workspaceResponse = await fetch(`/api/workspaces/${workspaceId}`)
+    if (!workspaceResponse.ok) {
+      throw new Error('Workspace not found')
+    }
+    const workspace: TerraformWorkspace = (await workspaceResponse.json()).workspace
+    deployment.workspace = workspace
+
+    await lockWorkspace(workspaceId, `targeted-${operation}`)
+    locked = true
+
+    const awsCredentials = CredentialManager.getCredentials('aws')
+    const credentials = awsCredentials ? { aws: awsCredentials } : undefined
+
+    // Run one terraform step and return its result, failing on any error
+    const runStep = async (
+      command: string,
+      payload: Record<string, any>,
+      onEvent: (event: TerraformStreamEvent) => void
+    ) => {
+      const response = await streamTerraformCommand(`/api/terraform/${command}`, payload, onEvent)
+      throwIfCancelled(deployment)
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(`Terraform ${command} failed: ${data.error || 'Unknown error'}`)
+      }
+      return data
+    }
+
+    if (operation === 'destroy') {
+      deployment.progress = 10
+      deployment.message = 'Destroying selected resources...'
+      deployment.updatedAt = new Date().toISOString()
+
+      await runStep(
+        'destroy',
+        { workingDirectory: workspace.workingDirectory, autoApprove: true, targets, credentials },
+        logStreamedOutput(deployment, new TerraformProgressTracker(), [10, 95])
+      )
+    } else {
+      deployment.progress = 10
+      deployment.message = 'Updating workspace files...'
+      deployment.updatedAt = new Date().toISOString()
+
+      const filesResponse = await fetch('/api/workspaces', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workspaceId, nodes, edges })
+      })
+      if (!filesResponse.ok) {
+        const errorData = await filesResponse.json()
+        throw new Error(errorData.error || 'Failed to update workspace files')
+      }
+
+      deployment.progress = 20
+      deployment.message = 'Initializing Terraform...'
+      deployment.updatedAt = new Date().toISOString()
+      await runStep('init', { workingDirectory: workspace.workingDirectory, credentials }, logStreamedOutput(deployment))
+
+      deployment.status = 'planning'
+      deployment.progress = 40
+      deployment.message = 'Planning selected resources...'
+      deployment.updatedAt = new Date().toISOString()
+
+      const planFile = `${workspace.workingDirectory}/targeted.tfplan`
+      const planData = await runStep(
+        'plan',
+        { workingDirectory: workspace.workingDirectory, planFile, targets, credentials },
+        logStreamedOutput(deployment)
+      )
+      deployment.plan = planData.plan
+      if (planData.plan) {
+        deployment.logs.push(`Plan: ${planData.plan.toAdd} to add, ${planData.plan.toChange} to change, ${planData.plan.toDestroy} to destroy`)
+      }
+
+      if (operation === 'apply') {
+        deployment.status = 'applying'
+        deployment.progress = 60
+        deployment.message = 'Applying selected resources...'
+        deployment.updatedAt = new Date().toISOString()
+
+        await runStep(
+          'apply',
+          { workingDirectory: workspace.workingDirectory, planFile, credentials },
+          logStreamedOutput(deployment, new TerraformProgressTracker(planData.plan?.plannedChanges), [60, 95])
+        )
+
+        await fetch(`/api/workspaces/${workspaceId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ status: 'active' })
+        })
+      }
+    }
+
+    deployment.status = 'completed'
+    deployment.progress = 100
+    deployment.message = `Finished ${summary}`
+    deployment.logs.push(deployment.message)
+    deployment.updatedAt = new Date().toISOString()
+    finishDeployment(deploymentId)
+
+    return {
+      success: true,
+      deploymentId,
+      workspaceId,
+      logs: deployment.logs
+    }
+  } catch (error) {
+    if (isCancelled(deployment)) {
+      return {
+        success: false,
+        deploymentId,
+        workspaceId,
+        error: `Targeted ${operation} cancelled by user`,
+        logs: deployment.logs
+      }
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    deployment.status = 'failed'
+    deployment.error = errorMessage
+    deployment.message = `Targeted ${operation} failed: ${errorMessage}`
+    if (error instanceof WorkspaceLockedError) {
+      deployment.conflictingLock = error.lock
+    }
+    deployment.updatedAt = new Date().toISOString()
+    deployment.logs.push(`Error: ${errorMessage}`)
+    finishDeployment(deploymentId)
+
+    return {
+      success: false,
+      deploymentId,
+      workspaceId,
+      error: errorMessage,
+      logs: deployment.logs
+    }
+  } finally {
+    if (locked) {
+      await unlockWorkspace(workspaceId)
+    }
+  }
+}
+
+// Scheduled drift checks skip workspaces checked more recently than this
+export const DRIFT_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+export interface DriftActionResult {
+  success: boolean
+  drift?: DriftReport
+  workspace?: TerraformWorkspace
+  error?: string
+  lock?: WorkspaceLock
+}
+
+/**
+ * Run a drift action against a deployed workspace: `check` records changes made
+ * outside Cloudist, `accept` writes them into the state and `reapply` reverts them.
+ * `targets` limits accepting to some resource addresses.
+ */
+export async function runDriftAction(
+  workspaceId: string,
+  action: 'check' | 'accept' | 'reapply',
+  targets?: string[]
+): Promise<DriftActionResult> {
+  try {
+    const awsCredentials = CredentialManager.getCredentials('aws')
+    const response = await fetch(`/api/workspaces/${workspaceId}/drift`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action,
+        targets,
+        lockHolder,
+        credentials: awsCredentials ? { aws: awsCredentials } : undefined
+      })
+    })
+
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      return {
+        success: false,
+        drift: data.drift,
+        workspace: data.workspace,
+        error: data.drift?.error || data.error || `Drift ${action} failed`,
+        lock: data.lock
+      }
+    }
+
+    return { success: true, drift: data.drift, workspace: data.workspace }
+  } catch (error) {
+    console.error(`Error running drift ${action}:`, error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }
+  }
+}
+
+/**
+ * Move the state of a workspace to another backend with `terraform init -migrate-state`.
+ * `migrated` is false when the workspace already uses that backend.
+ */
+export async function migrateWorkspaceBackend(
+  workspaceId: string,
+  backend: BackendConfig
+): Promise<{ success: boolean; migrated?: boolean; workspace?: TerraformWorkspace; error?: string; lock?: WorkspaceLock }> {
+  try {
+    const awsCredentials = CredentialManager.getCredentials('aws')
+    const response = await fetch(`/api/workspaces/${workspaceId}/backend`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        backend,
+        lockHolder,
+        credentials: awsCredentials ? { aws: awsCredentials } : undefined
+      })
+    })
+
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      return { success: false, error: data.error || 'State migration failed', lock: data.lock }
+    }
+
+    return { success: true, migrated: data.migrated, workspace: data.workspace }
+  } catch (error) {
+    console.error('Error migrating workspace state:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' }
   }
 }
 
+/**
+ * Check every active workspace whose last drift check is older than `maxAgeMs`.
+ * Checks run one at a time; returns the workspaces with their latest reports.
+ */
+export async function checkStaleDrift(maxAgeMs: number = DRIFT_CHECK_INTERVAL_MS): Promise<TerraformWorkspace[]> {
+  const allWorkspaces = await getAllWorkspaces()
+  const cutoff = Date.now() - maxAgeMs
+
+  // Without credentials every check would fail, so wait until they are configured
+  if (!CredentialManager.hasCredentials('aws')) return allWorkspaces
+
+  for (const workspace of allWorkspaces) {
+    if (workspace.status !== 'active') continue
+    if (workspace.drift && new Date(workspace.drift.checkedAt).getTime() > cutoff) continue
+
+    const result = await runDriftAction(workspace.id, 'check')
+    if (result.workspace) {
+      Object.assign(workspace, result.workspace)
+    } else if (!result.success) {
+      console.warn('⚠️ Scheduled drift check failed:', { workspaceId: workspace.id, error: result.error })
+    }
+  }
+
+  return allWorkspaces
+}
+
 /**
  * Get workspace files
  */
@@ -917,6 +1586,35 @@ export async function getWorkspaceFiles(workspaceId: string): Promise<Record<str
   }
 }
 
+/**
+ * Get the parsed terraform.tfstate of a workspace
+ */
+export async function getWorkspaceState(workspaceId: string): Promise<any | null> {
+  try {
+    const response = await fetch(`/api/workspaces/${workspaceId}/state`)
+    if (!response.ok) return null
+
+    const data = await response.json()
+    return data.state || null
+  } catch (error) {
+    console.error('Error getting workspace state:', error)
+    return null
+  }
+}
+
+/**
+ * Find the workspace an environment of a project is deployed to. Failing to list
+ * the workspaces is an error, since deploying without one would duplicate the stack.
+ */
+async function findProjectWorkspace(projectId: string, environment?: string): Promise<TerraformWorkspace | undefined> {
+  const response = await fetch('/api/workspaces')
+  if (!response.ok) {
+    throw new Error('Failed to look up the workspaces of the project')
+  }
+  const workspaces: TerraformWorkspace[] = (await response.json()).workspaces || []
+  return workspaces.find(workspace => workspace.projectId === projectId && workspace.environment === environment)
+}
+
 /**
  * Get all workspaces
  */
@@ -3,8 +3,12 @@ export interface ConfigField {
   label: string
   description?: string
   options?: string[]
+  // Options saved configs may still have: accepted, but not offered for new values
+  deprecatedOptions?: string[]
   default?: any
   required?: boolean
+  // Holds a secret: masked in the UI and logs, and generated when left empty
+  secret?: boolean
   validation?: {
     min?: number
     max?: number
@@ -47,8 +51,30 @@ const PROVIDER_SERVICES: Record<string, string[]> = {
     'subnet',
     'vpc'
   ],
-  azure: ['vm'],
-  gcp: ['compute'],
+  azure: [
+    'app_service',
+    'blob',
+    'functions',
+    'key_vault',
+    'lb',
+    'nsg',
+    'sql',
+    'subnet',
+    'vm',
+    'vnet'
+  ],
+  gcp: [
+    'cloud_run',
+    'compute',
+    'firewall',
+    'functions',
+    'lb',
+    'network',
+    'pubsub',
+    'sql',
+    'storage',
+    'subnetwork'
+  ],
   supabase: ['database', 'auth'],
   stripe: ['payment']
 }
@@ -115,6 +141,20 @@ export class ConfigLoader {
     return null
   }
 
+  static async findServiceByTerraformType(terraformType: string): Promise<ServiceConfig | null> {
+    for (const provider of AVAILABLE_PROVIDERS) {
+      const services = PROVIDER_SERVICES[provider] || []
+      for (const serviceId of services) {
+        const config = await this.loadServiceConfig(provider, serviceId)
+        if (config?.terraformType === terraformType) {
+          return config
+        }
+      }
+    }
+
+    return null
+  }
+
   static clearCache(): void {
     this.configs.clear()
   }
@@ -0,0 +1,117 @@
+import type { Node } from '@xyflow/react'
+import type { ConfigField, ServiceConfig } from '@/lib/config-loader'
+import type { ConfigFieldError, NodeConfigErrors } from '@/types/deployment'
+
+// Values Terraform only knows when it applies them, interpolated like `${aws_vpc.main.id}`
+const EXPRESSION_PATTERN = /\$\{/
+
+// Providers whose services are also known by a prefixed id, e.g. `supabase_database`
+const PREFIXED_PROVIDERS = ['supabase', 'stripe']
+
+/**
+ * Load the schema of a service. The client fetches it through the config API and
+ * the server reads it from the config directory.
+ */
+export type ServiceConfigLoader = (provider: string, serviceId: string) => Promise<ServiceConfig | null>
+
+function isEmpty(value: any): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+/**
+ * Get the provider and id of the schema a service is described by, for ids that
+ * carry their provider like `supabase_database`
+ */
+export function getSchemaKey(provider: string, serviceId: string): { provider: string; serviceId: string } {
+  const prefix = PREFIXED_PROVIDERS.find((name) => serviceId.startsWith(`${name}_`)) ||
+    (serviceId.startsWith(`${provider}_`) ? provider : null)
+  return prefix ? { provider: prefix, serviceId: serviceId.slice(prefix.length + 1) } : { provider, serviceId }
+}
+
+/**
+ * Check a value against its field's schema. Empty values fall back to the field's
+ * default, as the configuration panel shows them.
+ */
+export function validateField(field: ConfigField, value: any): string | null {
+  if (isEmpty(value)) {
+    return field.required ? `${field.label} is required.` : null
+  }
+  if (typeof value === 'string' && EXPRESSION_PATTERN.test(value)) return null
+
+  // Options are compared as text, so a number like 256 matches the option "256"
+  const options = (field.options || []).map(String)
+  const accepted = [...options, ...(field.deprecatedOptions || []).map(String)]
+  if (field.type === 'select' && options.length > 0 && !accepted.includes(String(value))) {
+    return `${field.label} must be one of: ${options.join(', ')}.`
+  }
+  if (field.type === 'multiselect' && options.length > 0) {
+    const items: any[] = Array.isArray(value) ? value : String(value).split(',').map((item) => item.trim())
+    const invalid = items.filter((item) => !accepted.includes(String(item)))
+    if (invalid.length > 0) {
+      return `${field.label} can't include ${invalid.join(', ')}. It must be chosen from: ${options.join(', ')}.`
+    }
+  }
+
+  const { min, max, pattern } = field.validation || {}
+  if (field.type === 'number') {
+    const number = Number(value)
+    if (typeof value === 'boolean' || !Number.isFinite(number)) return `${field.label} must be a number.`
+    if ((min !== undefined && number < min) || (max !== undefined && number > max)) {
+      return min !== undefined && max !== undefined
+        ? `${field.label} must be between ${min} and ${max}.`
+        : min !== undefined ? `${field.label} must be at least ${min}.` : `${field.label} must be at most ${max}.`
+    }
+    return null
+  }
+  if (field.type === 'string') {
+    // Bounds of strings are on their length
+    const text = String(value)
+    if (pattern && !new RegExp(pattern).test(text)) return `${field.label} must match ${pattern}.`
+    if (min !== undefined && text.length < min) return `${field.label} must be at least ${min} characters long.`
+    if (max !== undefined && text.length > max) return `${field.label} must be at most ${max} characters long.`
+  }
+  return null
+}
+
+/**
+ * Check a configuration against the schema of its service
+ */
+export function validateConfig(schema: Record<string, ConfigField>, config: Record<string, any> = {}): ConfigFieldError[] {
+  return Object.entries(schema).flatMap(([key, field]) => {
+    const message = validateField(field, isEmpty(config[key]) ? field.default : config[key])
+    return message ? [{ field: key, label: field.label, message }] : []
+  })
+}
+
+/**
+ * Check the configuration of every node against its service's schema. Nodes of
+ * services without a schema aren't checked.
+ */
+export async function validateNodeConfigs(nodes: Node[], loadServiceConfig: ServiceConfigLoader): Promise<NodeConfigErrors[]> {
+  const results = await Promise.all(nodes.map(async (node): Promise<NodeConfigErrors | null> => {
+    const provider = node.data?.provider as string | undefined
+    const serviceId = (node.data?.id || node.data?.type) as string | undefined
+    if (!provider || !serviceId) return null
+
+    const key = getSchemaKey(provider, serviceId)
+    const serviceConfig = await loadServiceConfig(key.provider, key.serviceId)
+    if (!serviceConfig?.configSchema) return null
+
+    const errors = validateConfig(serviceConfig.configSchema, node.data.config as Record<string, any> | undefined)
+    return errors.length > 0 ? { nodeId: node.id, nodeName: String(node.data.name || node.id), errors } : null
+  }))
+  return results.filter((result): result is NodeConfigErrors => result !== null)
+}
+
+/**
+ * Summarize the errors of the nodes in one message, e.g. for a failed deployment
+ */
+export function describeConfigErrors(nodeErrors: NodeConfigErrors[]): string {
+  const details = nodeErrors.map(({ nodeName, errors }) => `${nodeName}: ${errors.map((error) => error.message).join(' ')}`)
+  return `Invalid configuration. ${details.join(' ')}`
+}
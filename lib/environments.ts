@@ -0,0 +1,77 @@
+import type { Node } from '@xyflow/react'
+
+// Config overrides of a node per environment: environment name → config field → value
+export type EnvironmentOverrides = Record<string, Record<string, any>>
+
+// Suggested when a project defines its first environments
+export const DEFAULT_ENVIRONMENTS = ['dev', 'staging', 'prod']
+
+// Environment names are used for directories and workspace names
+const ENVIRONMENT_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/
+
+export function isValidEnvironmentName(name: string): boolean {
+  return ENVIRONMENT_NAME_PATTERN.test(name)
+}
+
+/**
+ * Get the fields of a node overridden in an environment
+ */
+export function getEnvironmentOverrides(node: Node, environment?: string): Record<string, any> {
+  if (!environment) return {}
+  const overrides = node.data.environmentOverrides as EnvironmentOverrides | undefined
+  return overrides?.[environment] || {}
+}
+
+/**
+ * Get the config a node has in an environment: its own config with the
+ * environment's overrides applied. Without an environment this is the base config.
+ */
+export function getEffectiveConfig(node: Node, environment?: string): Record<string, any> {
+  return { ...((node.data.config as Record<string, any>) || {}), ...getEnvironmentOverrides(node, environment) }
+}
+
+/**
+ * Get the nodes as they are deployed to an environment. Each node carries the
+ * environment, which the generator adds to the names it makes up for the node.
+ */
+export function applyEnvironment(nodes: Node[], environment?: string): Node[] {
+  if (!environment) return nodes
+  return nodes.map(node => ({ ...node, data: { ...node.data, environment, config: getEffectiveConfig(node, environment) } }))
+}
+
+/**
+ * Set the config a node has in an environment. Values that differ from the base
+ * config are stored as overrides; values equal to it clear the override.
+ */
+export function setEffectiveConfig(node: Node, environment: string, config: Record<string, any>): Node {
+  const baseConfig = (node.data.config as Record<string, any>) || {}
+  const overrides = Object.fromEntries(
+    Object.entries(config).filter(([key, value]) => !isSameValue(value, baseConfig[key]))
+  )
+  return { ...node, data: { ...node.data, environmentOverrides: withOverrides(node, environment, overrides) } }
+}
+
+/**
+ * Remove the overrides of an environment, e.g. when the project no longer has it
+ */
+export function removeEnvironment(node: Node, environment: string): Node {
+  if (!(node.data.environmentOverrides as EnvironmentOverrides | undefined)?.[environment]) return node
+  return { ...node, data: { ...node.data, environmentOverrides: withOverrides(node, environment, {}) } }
+}
+
+function withOverrides(node: Node, environment: string, overrides: Record<string, any>): EnvironmentOverrides | undefined {
+  const { [environment]: _, ...others } = (node.data.environmentOverrides as EnvironmentOverrides | undefined) || {}
+  const environmentOverrides = Object.keys(overrides).length > 0 ? { ...others, [environment]: overrides } : others
+  return Object.keys(environmentOverrides).length > 0 ? environmentOverrides : undefined
+}
+
+// Config values are plain data, so lists and objects are equal when their contents are
+function isSameValue(a: any, b: any): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => isSameValue(item, b[index]))
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && isSameValue(a[key], b[key]))
+}
@@ -0,0 +1,525 @@
+/**
+ * Minimal HCL parser for importing hand-written Terraform configurations.
+ *
+ * It understands the structural subset of HCL that matters for mapping
+ * resources onto the canvas: blocks, attributes, literals, quoted templates,
+ * heredocs, tuples and objects. Anything more dynamic (function calls,
+ * operators, conditionals, for-expressions) is preserved as raw source text
+ * together with the resource references it mentions.
+ */
+
+export type HclExpression =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'template'; value: string }
+  | { kind: 'heredoc'; value: string }
+  | { kind: 'tuple'; items: HclExpression[] }
+  | { kind: 'object'; items: { key: string; value: HclExpression }[] }
+  | { kind: 'traversal'; raw: string }
+  // Built for generated configurations (see hcl-writer); parsed calls stay raw expressions
+  | { kind: 'call'; name: string; args: HclExpression[] }
+  | { kind: 'expression'; raw: string }
+
+export interface HclBlock {
+  type: string
+  labels: string[]
+  body: HclBody
+}
+
+export interface HclBody {
+  attributes: Record<string, HclExpression>
+  blocks: HclBlock[]
+}
+
+export class HclParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = 'HclParseError'
+  }
+}
+
+const BINARY_OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%']
+
+/**
+ * Parse an HCL document into its top-level body
+ */
+export function parseHCL(source: string): HclBody {
+  const parser = new Parser(source)
+  return parser.parseDocument()
+}
+
+/**
+ * Collect every `<type>.<name>` resource reference mentioned by an expression.
+ * `data.*`, `var.*`, `local.*` and `module.*` traversals are ignored.
+ */
+export function collectReferences(expression: HclExpression): string[] {
+  const references = new Set<string>()
+  const pattern = /(^|[^\w.])([a-z][a-z0-9]*_[a-z0-9_]+)\.([A-Za-z_][A-Za-z0-9_-]*)/g
+
+  collectCode(expression).forEach(code => {
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(code)) !== null) {
+      references.add(`${match[2]}.${match[3]}`)
+    }
+  })
+
+  return Array.from(references)
+}
+
+/**
+ * Collect the fragments of an expression that are code rather than literal
+ * text: traversals, raw expressions and the `${...}` interpolations of templates
+ */
+export function collectCode(expression: HclExpression): string[] {
+  const code: string[] = []
+
+  const visit = (expr: HclExpression) => {
+    switch (expr.kind) {
+      case 'template':
+      case 'heredoc':
+        code.push(...(expr.value.match(/[$%]\{[^}]*\}/g) || []))
+        break
+      case 'traversal':
+      case 'expression':
+        code.push(expr.raw)
+        break
+      case 'tuple':
+        expr.items.forEach(visit)
+        break
+      case 'call':
+        expr.args.forEach(visit)
+        break
+      case 'object':
+        expr.items.forEach(item => visit(item.value))
+        break
+    }
+  }
+
+  visit(expression)
+  return code
+}
+
+/**
+ * Collect references from every attribute of a body, including nested blocks
+ */
+export function collectBodyReferences(body: HclBody): string[] {
+  const references = new Set<string>()
+  Object.values(body.attributes).forEach(expr => {
+    collectReferences(expr).forEach(ref => references.add(ref))
+  })
+  body.blocks.forEach(block => {
+    collectBodyReferences(block.body).forEach(ref => references.add(ref))
+  })
+  return Array.from(references)
+}
+
+class Parser {
+  private pos = 0
+
+  constructor(private source: string) {}
+
+  parseDocument(): HclBody {
+    const body = this.parseBody(false)
+    this.skipTrivia(true)
+    if (!this.atEnd()) {
+      this.fail(`Unexpected character '${this.peek()}'`)
+    }
+    return body
+  }
+
+  private parseBody(nested: boolean): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] }
+
+    while (true) {
+      this.skipTrivia(true)
+      if (this.atEnd()) break
+      if (nested && this.peek() === '}') break
+
+      const name = this.readIdentifier()
+      if (!name) {
+        this.fail(`Expected attribute or block name, found '${this.peek()}'`)
+      }
+
+      this.skipTrivia(false)
+      if (this.peek() === '=' && this.peek(1) !== '=') {
+        this.pos++
+        this.skipTrivia(false)
+        body.attributes[name] = this.parseExpression(false)
+        this.expectLineEnd()
+        continue
+      }
+
+      const labels: string[] = []
+      while (this.peek() !== '{') {
+        if (this.peek() === '"') {
+          labels.push(this.readQuotedLabel())
+        } else {
+          const label = this.readIdentifier()
+          if (!label) {
+            this.fail(`Expected block label or '{' after '${name}'`)
+          }
+          labels.push(label)
+        }
+        this.skipTrivia(false)
+      }
+
+      this.pos++ // consume '{'
+      const blockBody = this.parseBody(true)
+      this.skipTrivia(true)
+      this.expect('}')
+      body.blocks.push({ type: name, labels, body: blockBody })
+      this.expectLineEnd()
+    }
+
+    return body
+  }
+
+  private parseExpression(multiline: boolean): HclExpression {
+    const start = this.pos
+    let expr = this.parseOperand(multiline)
+    let compound = false
+
+    while (true) {
+      const save = this.pos
+      this.skipTrivia(multiline)
+      const operator = BINARY_OPERATORS.find(op => this.source.startsWith(op, this.pos))
+      if (operator && !this.source.startsWith('//', this.pos) && !this.source.startsWith('/*', this.pos)) {
+        this.pos += operator.length
+        this.skipTrivia(true)
+        this.parseOperand(multiline)
+        compound = true
+        continue
+      }
+      if (this.peek() === '?') {
+        this.pos++
+        this.skipTrivia(true)
+        this.parseExpression(true)
+        this.skipTrivia(true)
+        this.expect(':')
+        this.skipTrivia(true)
+        this.parseExpression(multiline)
+        compound = true
+        continue
+      }
+      this.pos = save
+      break
+    }
+
+    if (compound) {
+      expr = { kind: 'expression', raw: this.source.slice(start, this.pos).trim() }
+    }
+    return expr
+  }
+
+  private parseOperand(multiline: boolean): HclExpression {
+    const start = this.pos
+    const ch = this.peek()
+    let expr: HclExpression
+
+    if (ch === '!' || (ch === '-' && !/[0-9]/.test(this.peek(1)))) {
+      this.pos++
+      this.skipTrivia(multiline)
+      this.parseOperand(multiline)
+      return { kind: 'expression', raw: this.source.slice(start, this.pos).trim() }
+    }
+
+    if (ch === '"') {
+      expr = this.parseTemplate()
+    } else if (ch === '<' && this.peek(1) === '<') {
+      expr = this.parseHeredoc()
+    } else if (ch === '-' || /[0-9]/.test(ch)) {
+      expr = this.parseNumber()
+    } else if (ch === '[') {
+      expr = this.parseTuple()
+    } else if (ch === '{') {
+      expr = this.parseObject()
+    } else if (ch === '(') {
+      this.skipBalanced('(', ')')
+      expr = { kind: 'expression', raw: this.source.slice(start, this.pos) }
+    } else {
+      const ident = this.readIdentifier()
+      if (!ident) {
+        this.fail(`Unexpected character '${ch}' in expression`)
+      }
+      if (ident === 'true' || ident === 'false') {
+        expr = { kind: 'literal', value: ident === 'true' }
+      } else if (ident === 'null') {
+        expr = { kind: 'literal', value: null }
+      } else if (this.peek() === '(') {
+        this.skipBalanced('(', ')')
+        expr = { kind: 'expression', raw: this.source.slice(start, this.pos) }
+      } else {
+        expr = { kind: 'traversal', raw: ident }
+      }
+    }
+
+    // Attribute access, indexing and splats
+    let traversed = false
+    while (true) {
+      if (this.peek() === '.' && /[A-Za-z_*0-9]/.test(this.peek(1))) {
+        this.pos++
+        if (this.peek() === '*') {
+          this.pos++
+        } else if (/[0-9]/.test(this.peek())) {
+          while (/[0-9]/.test(this.peek())) this.pos++
+        } else {
+          this.readIdentifier()
+        }
+        traversed = true
+      } else if (this.peek() === '[') {
+        this.skipBalanced('[', ']')
+        traversed = true
+      } else {
+        break
+      }
+    }
+
+    if (traversed) {
+      const raw = this.source.slice(start, this.pos)
+      return expr.kind === 'traversal' ? { kind: 'traversal', raw } : { kind: 'expression', raw }
+    }
+    return expr
+  }
+
+  private parseTemplate(): HclExpression {
+    this.expect('"')
+    let value = ''
+    while (!this.atEnd()) {
+      const ch = this.peek()
+      if (ch === '"') {
+        this.pos++
+        return { kind: 'template', value }
+      }
+      if (ch === '\n') {
+        this.fail('Unterminated string')
+      }
+      if (ch === '\\') {
+        const next = this.peek(1)
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' }
+        if (next in escapes) {
+          value += escapes[next]
+          this.pos += 2
+          continue
+        }
+        if (next === 'u' || next === 'U') {
+          const length = next === 'u' ? 4 : 8
+          const hex = this.source.slice(this.pos + 2, this.pos + 2 + length)
+          value += String.fromCodePoint(parseInt(hex, 16))
+          this.pos += 2 + length
+          continue
+        }
+        value += ch
+        this.pos++
+        continue
+      }
+      if ((ch === '$' || ch === '%') && this.peek(1) === '{') {
+        if (this.peek(-1) === ch && this.source[this.pos - 2] !== ch) {
+          // Escaped interpolation ($${ or %%{) is kept literally
+          value += '{'
+          this.pos += 2
+          continue
+        }
+        const start = this.pos
+        this.pos++
+        this.skipBalanced('{', '}')
+        value += this.source.slice(start, this.pos)
+        continue
+      }
+      value += ch
+      this.pos++
+    }
+    this.fail('Unterminated string')
+  }
+
+  private parseHeredoc(): HclExpression {
+    const match = /^<<(-?)([A-Za-z_][A-Za-z0-9_]*)[ \t]*\r?\n/.exec(this.source.slice(this.pos))
+    if (!match) {
+      this.fail('Malformed heredoc')
+    }
+    const indented = match[1] === '-'
+    const marker = match[2]
+    this.pos += match[0].length
+
+    const lines: string[] = []
+    while (!this.atEnd()) {
+      const lineEnd = this.source.indexOf('\n', this.pos)
+      const line = this.source.slice(this.pos, lineEnd === -1 ? undefined : lineEnd).replace(/\r$/, '')
+      this.pos = lineEnd === -1 ? this.source.length : lineEnd + 1
+      if (line.trim() === marker) {
+        // Leave the terminating newline for the attribute parser
+        if (lineEnd !== -1) this.pos = lineEnd
+        let content = lines
+        if (indented) {
+          const indent = Math.min(
+            ...lines.filter(l => l.trim()).map(l => l.length - l.trimStart().length)
+          )
+          content = lines.map(l => l.slice(Number.isFinite(indent) ? indent : 0))
+        }
+        return { kind: 'heredoc', value: content.join('\n') + (content.length > 0 ? '\n' : '') }
+      }
+      lines.push(line)
+    }
+    this.fail(`Unterminated heredoc '${marker}'`)
+  }
+
+  private parseNumber(): HclExpression {
+    const match = /^-?[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(this.source.slice(this.pos))
+    if (!match) {
+      this.fail('Malformed number')
+    }
+    this.pos += match[0].length
+    return { kind: 'literal', value: Number(match[0]) }
+  }
+
+  private parseTuple(): HclExpression {
+    const start = this.pos
+    this.expect('[')
+    this.skipTrivia(true)
+    if (this.source.startsWith('for ', this.pos)) {
+      this.pos = start
+      this.skipBalanced('[', ']')
+      return { kind: 'expression', raw: this.source.slice(start, this.pos) }
+    }
+
+    const items: HclExpression[] = []
+    while (this.peek() !== ']') {
+      items.push(this.parseExpression(true))
+      this.skipTrivia(true)
+      if (this.peek() === ',') {
+        this.pos++
+        this.skipTrivia(true)
+      } else if (this.peek() !== ']') {
+        this.fail(`Expected ',' or ']' in list, found '${this.peek()}'`)
+      }
+    }
+    this.pos++
+    return { kind: 'tuple', items }
+  }
+
+  private parseObject(): HclExpression {
+    const start = this.pos
+    this.expect('{')
+    this.skipTrivia(true)
+    if (this.source.startsWith('for ', this.pos)) {
+      this.pos = start
+      this.skipBalanced('{', '}')
+      return { kind: 'expression', raw: this.source.slice(start, this.pos) }
+    }
+
+    const items: { key: string; value: HclExpression }[] = []
+    while (this.peek() !== '}') {
+      let key: string
+      if (this.peek() === '"') {
+        key = this.readQuotedLabel()
+      } else if (this.peek() === '(') {
+        const keyStart = this.pos
+        this.skipBalanced('(', ')')
+        key = this.source.slice(keyStart, this.pos)
+      } else {
+        key = this.readIdentifier()
+        if (!key) {
+          this.fail(`Expected object key, found '${this.peek()}'`)
+        }
+      }
+      this.skipTrivia(false)
+      if (this.peek() !== '=' && this.peek() !== ':') {
+        this.fail(`Expected '=' or ':' after object key '${key}'`)
+      }
+      this.pos++
+      this.skipTrivia(true)
+      items.push({ key, value: this.parseExpression(true) })
+      this.skipTrivia(true)
+      if (this.peek() === ',') {
+        this.pos++
+        this.skipTrivia(true)
+      }
+    }
+    this.pos++
+    return { kind: 'object', items }
+  }
+
+  private readQuotedLabel(): string {
+    const expr = this.parseTemplate()
+    return expr.kind === 'template' ? expr.value : ''
+  }
+
+  private readIdentifier(): string {
+    const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(this.source.slice(this.pos, this.pos + 256))
+    if (!match) return ''
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  /**
+   * Skip a bracketed region, honouring nested brackets, strings and heredocs
+   */
+  private skipBalanced(open: string, close: string) {
+    this.expect(open)
+    let depth = 1
+    while (!this.atEnd() && depth > 0) {
+      const ch = this.peek()
+      if (ch === '"') {
+        this.parseTemplate()
+        continue
+      }
+      if (ch === '<' && this.peek(1) === '<' && /[-A-Za-z_]/.test(this.peek(2))) {
+        this.parseHeredoc()
+        continue
+      }
+      if (ch === '#' || (ch === '/' && (this.peek(1) === '/' || this.peek(1) === '*'))) {
+        this.skipTrivia(true)
+        continue
+      }
+      if (ch === open) depth++
+      else if (ch === close) depth--
+      this.pos++
+    }
+    if (depth > 0) {
+      this.fail(`Unbalanced '${open}'`)
+    }
+  }
+
+  private skipTrivia(newlines: boolean) {
+    while (!this.atEnd()) {
+      const ch = this.peek()
+      if (ch === ' ' || ch === '\t' || ch === '\r' || (newlines && ch === '\n')) {
+        this.pos++
+      } else if (ch === '#' || (ch === '/' && this.peek(1) === '/')) {
+        while (!this.atEnd() && this.peek() !== '\n') this.pos++
+      } else if (ch === '/' && this.peek(1) === '*') {
+        const end = this.source.indexOf('*/', this.pos + 2)
+        this.pos = end === -1 ? this.source.length : end + 2
+      } else {
+        break
+      }
+    }
+  }
+
+  private expectLineEnd() {
+    this.skipTrivia(false)
+    if (this.atEnd() || this.peek() === '\n') return
+    if (this.peek() === '}') return
+    this.fail(`Expected newline, found '${this.peek()}'`)
+  }
+
+  private expect(ch: string) {
+    if (this.peek() !== ch) {
+      this.fail(`Expected '${ch}', found '${this.atEnd() ? 'end of file' : this.peek()}'`)
+    }
+    this.pos++
+  }
+
+  private peek(offset: number = 0): string {
+    return this.source[this.pos + offset] ?? ''
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length
+  }
+
+  private fail(message: string): never {
+    const before = this.source.slice(0, this.pos)
+    const line = before.split('\n').length
+    const column = this.pos - before.lastIndexOf('\n')
+    throw new HclParseError(message, line, column)
+  }
+}
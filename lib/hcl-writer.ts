@@ -0,0 +1,296 @@
+/**
+ * HCL writer for generated Terraform configurations.
+ *
+ * It writes the syntax tree of `hcl-parser` back out as text, laid out the
+ * way `terraform fmt` would: two-space indentation, `=` aligned across runs
+ * of single-line attributes and one blank line between top-level blocks.
+ * The output depends only on the tree, so the same configuration always
+ * produces the same file.
+ *
+ * String semantics follow the parser: `template` and `heredoc` values are
+ * template source, so `${...}` in them interpolates, while string `literal`
+ * values are plain text and any `${` in them is escaped.
+ */
+
+import type { HclBlock, HclBody, HclExpression } from '@/lib/hcl-parser'
+
+const INDENT = '  '
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/
+
+export function literal(value: string | number | boolean | null): HclExpression {
+  return { kind: 'literal', value }
+}
+
+export function template(value: string): HclExpression {
+  return { kind: 'template', value }
+}
+
+export function heredoc(value: string): HclExpression {
+  return { kind: 'heredoc', value }
+}
+
+export function traversal(raw: string): HclExpression {
+  return { kind: 'traversal', raw }
+}
+
+export function expression(raw: string): HclExpression {
+  return { kind: 'expression', raw }
+}
+
+export function call(name: string, ...args: HclExpression[]): HclExpression {
+  return { kind: 'call', name, args }
+}
+
+export function tuple(items: HclExpression[]): HclExpression {
+  return { kind: 'tuple', items }
+}
+
+export function object(entries: Record<string, HclExpression>): HclExpression {
+  return { kind: 'object', items: Object.entries(entries).map(([key, value]) => ({ key, value })) }
+}
+
+export function block(type: string, labels: string[], body: Partial<HclBody> = {}): HclBlock {
+  return { type, labels, body: { attributes: body.attributes || {}, blocks: body.blocks || [] } }
+}
+
+/**
+ * Whether a value is already an HCL expression rather than plain data
+ */
+export function isHclExpression(value: unknown): value is HclExpression {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const expression = value as Record<string, unknown>
+  switch (expression.kind) {
+    case 'literal':
+      return 'value' in expression
+    case 'template':
+    case 'heredoc':
+      return typeof expression.value === 'string'
+    case 'traversal':
+    case 'expression':
+      return typeof expression.raw === 'string'
+    case 'call':
+      return typeof expression.name === 'string' && Array.isArray(expression.args)
+    case 'tuple':
+    case 'object':
+      return Array.isArray(expression.items)
+    default:
+      return false
+  }
+}
+
+/**
+ * Convert plain JSON data, e.g. an IAM policy passed to `jsonencode`, into an
+ * expression: objects become objects, arrays tuples and strings templates.
+ * Expressions nested in the data are kept as they are.
+ */
+export function toExpression(value: unknown): HclExpression {
+  if (isHclExpression(value)) return value
+  if (value === null || value === undefined) return literal(null)
+  if (typeof value === 'string') return template(value)
+  if (typeof value === 'number' || typeof value === 'boolean') return literal(value)
+  if (Array.isArray(value)) return tuple(value.map(toExpression))
+  return object(Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, toExpression(item)])
+  ))
+}
+
+/**
+ * Write top-level blocks, separated by blank lines
+ */
+export function writeHCL(blocks: HclBlock[]): string {
+  return blocks.map(b => writeBlock(b, 0).join('\n') + '\n').join('\n')
+}
+
+/**
+ * Write top-level attributes, e.g. the values of a `.tfvars` file
+ */
+export function writeAttributes(attributes: Record<string, HclExpression>): string {
+  return writeAssignments(Object.entries(attributes), 0).join('\n') + '\n'
+}
+
+/**
+ * Write an expression whose first line starts at the given nesting depth.
+ * Continuation lines carry their own indentation.
+ */
+export function writeExpression(expression: HclExpression, depth: number = 0): string {
+  switch (expression.kind) {
+    case 'literal':
+      if (typeof expression.value !== 'string') return String(expression.value)
+      // Plain text never interpolates
+      return expression.value.includes('\n')
+        ? writeHeredoc(expression.value.replace(/([$%])\{/g, '$1$1{'))
+        : `"${escapeTemplate(expression.value, false)}"`
+    case 'template':
+      return `"${escapeTemplate(expression.value)}"`
+    case 'heredoc':
+      return writeHeredoc(expression.value)
+    case 'traversal':
+    case 'expression':
+      return expression.raw
+    case 'call':
+      return writeCall(expression.name, expression.args, depth)
+    case 'tuple':
+      return writeTuple(expression.items, depth)
+    case 'object':
+      if (expression.items.length === 0) return '{}'
+      return [
+        '{',
+        ...writeAssignments(expression.items.map(item => [writeKey(item.key), item.value]), depth + 1),
+        `${INDENT.repeat(depth)}}`,
+      ].join('\n')
+  }
+}
+
+function writeBlock(hclBlock: HclBlock, depth: number): string[] {
+  const indent = INDENT.repeat(depth)
+  const header = [hclBlock.type, ...hclBlock.labels.map(label => `"${escapeTemplate(label, false)}"`)].join(' ')
+  const lines = [
+    ...writeAssignments(Object.entries(hclBlock.body.attributes), depth + 1),
+    ...hclBlock.body.blocks.flatMap(nested => writeBlock(nested, depth + 1)),
+  ]
+
+  if (lines.length === 0) return [`${indent}${header} {}`]
+  return [`${indent}${header} {`, ...lines, `${indent}}`]
+}
+
+/**
+ * Write `name = value` lines. Like `terraform fmt`, the `=` of consecutive
+ * attributes is aligned; a value that opens a bracket on its first line ends
+ * the run and is written with a single space.
+ */
+function writeAssignments(entries: [string, HclExpression][], depth: number): string[] {
+  const indent = INDENT.repeat(depth)
+  const lines: string[] = []
+  let run: [string, string][] = []
+
+  const flush = () => {
+    const width = Math.max(...run.map(([name]) => name.length))
+    run.forEach(([name, value]) => lines.push(`${indent}${name.padEnd(width)} = ${value}`))
+    run = []
+  }
+
+  entries.forEach(([name, expression]) => {
+    const value = writeExpression(expression, depth)
+    if (opensBracket(value.split('\n')[0])) {
+      flush()
+      lines.push(`${indent}${name} = ${value}`)
+    } else {
+      run.push([name, value])
+    }
+  })
+  flush()
+
+  return lines
+}
+
+function writeTuple(items: HclExpression[], depth: number): string {
+  const written = items.map(item => writeExpression(item, depth + 1))
+  if (written.every(item => !item.includes('\n'))) {
+    return `[${written.join(', ')}]`
+  }
+  return [
+    '[',
+    ...written.map(item => `${INDENT.repeat(depth + 1)}${item},`),
+    `${INDENT.repeat(depth)}]`,
+  ].join('\n')
+}
+
+function writeCall(name: string, args: HclExpression[], depth: number): string {
+  // A single multi-line argument hugs the parentheses, e.g. `jsonencode({ ... })`
+  const written = args.map(arg => writeExpression(arg, depth))
+  if (written.length <= 1 || written.every(arg => !arg.includes('\n'))) {
+    return `${name}(${written.join(', ')})`
+  }
+  return [
+    `${name}(`,
+    ...args.map(arg => `${INDENT.repeat(depth + 1)}${writeExpression(arg, depth + 1)},`),
+    `${INDENT.repeat(depth)})`,
+  ].join('\n')
+}
+
+function writeHeredoc(value: string): string {
+  const content = value.endsWith('\n') ? value : `${value}\n`
+  const lines = content.split('\n').map(line => line.trim())
+  let marker = 'EOT'
+  for (let i = 1; lines.includes(marker); i++) {
+    marker = `EOT${i}`
+  }
+  return `<<${marker}\n${content}${marker}`
+}
+
+function writeKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : `"${escapeTemplate(key, false)}"`
+}
+
+/**
+ * Escape the text of a quoted string. In templates `${...}` and `%{...}`
+ * sequences are code and are written as they are; in plain text they are
+ * escaped as `$${` and `%%{`.
+ */
+function escapeTemplate(value: string, interpolate: boolean = true): string {
+  let result = ''
+  let i = 0
+  while (i < value.length) {
+    const ch = value[i]
+    if ((ch === '$' || ch === '%') && value[i + 1] === '{') {
+      const end = interpolate ? findClosingBrace(value, i + 1) : -1
+      if (end !== -1) {
+        result += value.slice(i, end + 1)
+        i = end + 1
+        continue
+      }
+      if (!interpolate) {
+        result += ch
+      }
+    }
+    result += ch === '\\' ? '\\\\'
+      : ch === '"' ? '\\"'
+        : ch === '\n' ? '\\n'
+          : ch === '\r' ? '\\r'
+            : ch === '\t' ? '\\t'
+              : ch
+    i++
+  }
+  return result
+}
+
+function findClosingBrace(value: string, open: number): number {
+  let depth = 0
+  let inString = false
+  for (let i = open; i < value.length; i++) {
+    const ch = value[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}' && --depth === 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Whether a line leaves brackets open, i.e. starts a multi-line value
+ */
+function opensBracket(line: string): boolean {
+  let balance = 0
+  let inString = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if ('([{'.includes(ch)) {
+      balance++
+    } else if (')]}'.includes(ch)) {
+      balance--
+    }
+  }
+  return balance > 0
+}
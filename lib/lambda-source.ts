@@ -0,0 +1,208 @@
+import type { LambdaSource, LambdaSourceFile } from '@/types'
+
+// Runtimes new functions can be created with
+export const LAMBDA_RUNTIMES = [
+  'nodejs20.x',
+  'nodejs18.x',
+  'python3.12',
+  'python3.11',
+  'python3.9',
+  'java21',
+  'java17',
+  'java11',
+  'dotnet8',
+  'provided.al2023',
+  'provided.al2',
+]
+
+// Runtimes AWS no longer creates functions with, found in older projects
+const DEPRECATED_RUNTIMES = ['nodejs16.x', 'nodejs14.x', 'python3.8', 'python3.7', 'go1.x', 'java8', 'dotnet6']
+
+type RuntimeLanguage = 'nodejs' | 'python' | 'java' | 'dotnet' | 'custom'
+
+function getRuntimeLanguage(runtime: string): RuntimeLanguage {
+  if (runtime.startsWith('nodejs')) return 'nodejs'
+  if (runtime.startsWith('python')) return 'python'
+  if (runtime.startsWith('java')) return 'java'
+  if (runtime.startsWith('dotnet')) return 'dotnet'
+  return 'custom'
+}
+
+/**
+ * Whether functions of a runtime are built before packaging, so their source
+ * can't be edited on the canvas and has to come from a directory
+ */
+export function isCompiledRuntime(runtime: string): boolean {
+  const language = getRuntimeLanguage(runtime)
+  return language !== 'nodejs' && language !== 'python'
+}
+
+/**
+ * Get the handler of the starter function of a runtime
+ */
+export function getDefaultHandler(runtime: string): string {
+  switch (getRuntimeLanguage(runtime)) {
+    case 'python':
+      return 'lambda_function.lambda_handler'
+    case 'java':
+      return 'example.Handler::handleRequest'
+    case 'dotnet':
+      return 'Function::Function.Function::FunctionHandler'
+    case 'custom':
+      return 'bootstrap'
+    default:
+      return 'index.handler'
+  }
+}
+
+/**
+ * Get the files of the starter function of a runtime. Compiled runtimes have none.
+ */
+export function getStarterFiles(runtime: string): LambdaSourceFile[] {
+  switch (getRuntimeLanguage(runtime)) {
+    case 'nodejs':
+      return [{
+        filename: 'index.js',
+        content: `exports.handler = async (event) => {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'OPTIONS,POST,GET'
+    },
+    body: JSON.stringify({
+      message: 'Hello from Lambda!',
+      timestamp: new Date().toISOString(),
+      requestId: event.requestContext?.requestId || 'local',
+      input: event
+    })
+  };
+};
+`,
+      }]
+    case 'python':
+      return [{
+        filename: 'lambda_function.py',
+        content: `import json
+from datetime import datetime, timezone
+
+
+def lambda_handler(event, context):
+    print("Event:", json.dumps(event))
+
+    return {
+        "statusCode": 200,
+        "headers": {"Content-Type": "application/json"},
+        "body": json.dumps({
+            "message": "Hello from Lambda!",
+            "timestamp": datetime.now(timezone.utc).isoformat(),
+            "input": event,
+        }),
+    }
+`,
+      }]
+    default:
+      return []
+  }
+}
+
+/**
+ * Get the source packaged for a function: the node's own, or the starter
+ * function of its runtime when none was edited yet
+ */
+export function getLambdaSource(runtime: string, source?: LambdaSource): LambdaSource {
+  return source || { files: getStarterFiles(runtime) }
+}
+
+/**
+ * Check that a function's runtime can be deployed and that its handler points
+ * at a function in its source. Sources in a directory are only checked for the
+ * handler format, since the directory is read by Terraform when it runs.
+ */
+export function validateLambdaSource(runtime: string, handler: string | undefined, source?: LambdaSource): string[] {
+  const errors: string[] = []
+  const { files, directory } = getLambdaSource(runtime, source)
+
+  if (DEPRECATED_RUNTIMES.includes(runtime)) {
+    errors.push(`${runtime} is deprecated and can't be used for new functions`)
+  } else if (!LAMBDA_RUNTIMES.includes(runtime)) {
+    errors.push(`Unknown runtime: ${runtime}`)
+  }
+
+  if (directory !== undefined) {
+    if (!directory.trim()) {
+      errors.push('Enter the directory to package')
+    } else if (!/^(\/|[A-Za-z]:[\\/])/.test(directory.trim())) {
+      // Terraform runs in a workspace of its own, so relative paths point nowhere useful
+      errors.push('The source directory must be an absolute path')
+    }
+  } else if (isCompiledRuntime(runtime)) {
+    errors.push(`${runtime} functions are built before packaging; point at a directory with the built function`)
+  } else {
+    errors.push(...validateFiles(files))
+  }
+
+  const handlerError = validateHandler(getRuntimeLanguage(runtime), handler || getDefaultHandler(runtime), directory === undefined ? files : undefined)
+  if (handlerError) errors.push(handlerError)
+
+  return errors
+}
+
+function validateFiles(files: LambdaSourceFile[]): string[] {
+  if (files.length === 0) return ['Add at least one source file']
+
+  const errors: string[] = []
+  const seen = new Set<string>()
+  files.forEach((file) => {
+    const filename = file.filename.trim()
+    if (!filename) {
+      errors.push('Every source file needs a name')
+    } else if (filename.startsWith('/') || filename.split('/').includes('..')) {
+      errors.push(`${filename} must be a path inside the package`)
+    } else if (seen.has(filename)) {
+      errors.push(`${filename} is there twice`)
+    }
+    seen.add(filename)
+  })
+  return errors
+}
+
+// Handlers name a function in a module (`index.handler`), a class method (Java,
+// .NET) or, for custom runtimes, anything the bootstrap understands
+function validateHandler(language: RuntimeLanguage, handler: string, files?: LambdaSourceFile[]): string | null {
+  switch (language) {
+    case 'nodejs': {
+      const match = handler.match(/^([\w\-./]+)\.([A-Za-z_$][\w$]*)$/)
+      if (!match) return `Handler must be <file>.<function>, e.g. index.handler`
+      if (!files) return null
+      const file = files.find((f) => ['.js', '.mjs', '.cjs'].some((extension) => f.filename.trim() === `${match[1]}${extension}`))
+      if (!file) return `Handler ${handler} needs a file ${match[1]}.js`
+      if (!new RegExp(`\\b${match[2].replace(/\$/g, '\\$')}\\b`).test(file.content)) {
+        return `${file.filename} doesn't export ${match[2]}`
+      }
+      return null
+    }
+    case 'python': {
+      const match = handler.match(/^([\w.]+)\.([A-Za-z_]\w*)$/)
+      if (!match) return `Handler must be <module>.<function>, e.g. lambda_function.lambda_handler`
+      if (!files) return null
+      const filename = `${match[1].replace(/\./g, '/')}.py`
+      const file = files.find((f) => f.filename.trim() === filename)
+      if (!file) return `Handler ${handler} needs a file ${filename}`
+      if (!new RegExp(`^(async\\s+)?def\\s+${match[2]}\\s*\\(`, 'm').test(file.content)) {
+        return `${filename} doesn't define ${match[2]}()`
+      }
+      return null
+    }
+    case 'java':
+      return /^[\w.$]+(::\w+)?$/.test(handler) ? null : 'Handler must be <package>.<Class>::<method>'
+    case 'dotnet':
+      return /^[\w.]+(::[\w.]+::\w+)?$/.test(handler) ? null : 'Handler must be <Assembly>::<Namespace>.<Class>::<Method>'
+    default:
+      return handler.trim() ? null : 'Enter a handler'
+  }
+}
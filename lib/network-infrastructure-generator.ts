@@ -1,4 +1,6 @@
 import type { TerraformResource } from '@/components/utils/terraform-generator'
+import type { HclExpression } from '@/lib/hcl-parser'
+import { traversal } from '@/lib/hcl-writer'
 
 export interface NetworkRequirements {
   hasEC2: boolean
@@ -8,6 +10,82 @@ export interface NetworkRequirements {
   hasExistingVPC: boolean
 }
 
+export type SubnetTier = 'public' | 'private' | 'isolated'
+
+// Public subnets reach the internet through an internet gateway, private ones
+// through a NAT gateway, and isolated ones not at all
+export const SUBNET_TIERS: SubnetTier[] = ['public', 'private', 'isolated']
+
+export type NatGatewayMode = 'none' | 'single' | 'per_az'
+
+export interface NetworkPlanOptions {
+  // Prefix of the generated resource names
+  name: string
+  cidrBlock: string
+  azCount: number
+  tiers: SubnetTier[]
+  natGateways: NatGatewayMode
+}
+
+export interface PlannedSubnet {
+  name: string
+  tier: SubnetTier
+  // Index of the availability zone, 0 for the region's "a" zone
+  zone: number
+  cidrBlock: string
+}
+
+export interface NetworkPlan extends NetworkPlanOptions {
+  subnets: PlannedSubnet[]
+  errors: string[]
+}
+
+export const DEFAULT_NETWORK_OPTIONS: NetworkPlanOptions = {
+  name: 'main',
+  cidrBlock: '10.0.0.0/16',
+  azCount: 2,
+  tiers: ['public', 'private'],
+  natGateways: 'single',
+}
+
+// Every region has at least three availability zones, named with these letters
+const ZONE_LETTERS = ['a', 'b', 'c']
+const MAX_AZ_COUNT = ZONE_LETTERS.length
+
+interface Cidr {
+  address: number
+  prefix: number
+}
+
+function parseCidr(cidr: string): Cidr | null {
+  const match = cidr.trim().match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/)
+  if (!match) return null
+  const octets = match.slice(1, 5).map(Number)
+  const prefix = Number(match[5])
+  if (octets.some(octet => octet > 255) || prefix > 32) return null
+  return { address: octets.reduce((address, octet) => address * 256 + octet, 0), prefix }
+}
+
+function formatCidr(address: number, prefix: number): string {
+  return `${[24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.')}/${prefix}`
+}
+
+function networkAddress(address: number, prefix: number): number {
+  const size = 2 ** (32 - prefix)
+  return Math.floor(address / size) * size
+}
+
+function cidrsOverlap(a: Cidr, b: Cidr): boolean {
+  // Two blocks overlap when the larger one contains the start of the smaller one
+  const prefix = Math.min(a.prefix, b.prefix)
+  return networkAddress(a.address, prefix) === networkAddress(b.address, prefix)
+}
+
+// Resource names as they appear in tags, e.g. `app_vpc` → `app-vpc`
+function toLabel(name: string): string {
+  return name.replace(/_/g, '-')
+}
+
 export class NetworkInfrastructureGenerator {
   /**
    * Determines if VPC infrastructure is needed based on the services
@@ -34,246 +112,274 @@ export class NetworkInfrastructureGenerator {
   }
 
   /**
-   * Generates the required VPC infrastructure resources
+   * Plan the subnets of a VPC: every tier gets a subnet in each availability
+   * zone, split evenly from the VPC's CIDR block
    */
-  static generateVPCInfrastructure(): TerraformResource[] {
+  static planNetwork(options: Partial<NetworkPlanOptions> = {}): NetworkPlan {
+    const planOptions = { ...DEFAULT_NETWORK_OPTIONS, ...options }
+    const { name, cidrBlock, azCount, natGateways } = planOptions
+    const tiers = SUBNET_TIERS.filter(tier => planOptions.tiers.includes(tier))
+    const plan: NetworkPlan = { ...planOptions, tiers, subnets: [], errors: [] }
+
+    const vpc = parseCidr(cidrBlock)
+    if (!vpc) {
+      plan.errors.push(`${cidrBlock} is not a CIDR block, e.g. 10.0.0.0/16`)
+    } else if (vpc.prefix < 16 || vpc.prefix > 28) {
+      plan.errors.push('The VPC CIDR block must be between /16 and /28')
+    } else if (vpc.address !== networkAddress(vpc.address, vpc.prefix)) {
+      plan.errors.push(`${cidrBlock} has host bits set; did you mean ${formatCidr(networkAddress(vpc.address, vpc.prefix), vpc.prefix)}?`)
+    }
+    if (!Number.isInteger(azCount) || azCount < 1 || azCount > MAX_AZ_COUNT) {
+      plan.errors.push(`Use 1 to ${MAX_AZ_COUNT} availability zones`)
+    }
+    if (tiers.length === 0) {
+      plan.errors.push('Choose at least one subnet tier')
+    }
+    if (natGateways !== 'none' && tiers.includes('private') && !tiers.includes('public')) {
+      plan.errors.push('NAT gateways need a public tier to be placed in')
+    }
+    if (plan.errors.length > 0 || !vpc) return plan
+
+    // Tiers are laid out one after another, each with a subnet per zone
+    const newBits = Math.ceil(Math.log2(tiers.length * azCount))
+    const subnetPrefix = vpc.prefix + newBits
+    if (subnetPrefix > 28) {
+      plan.errors.push(`${cidrBlock} is too small for ${tiers.length * azCount} subnets; use a larger VPC CIDR block`)
+      return plan
+    }
+
+    tiers.forEach((tier, tierIndex) => {
+      for (let zone = 0; zone < azCount; zone++) {
+        const index = tierIndex * azCount + zone
+        plan.subnets.push({
+          name: `${name}_${tier}_${ZONE_LETTERS[zone]}`,
+          tier,
+          zone,
+          cidrBlock: formatCidr(vpc.address + index * 2 ** (32 - subnetPrefix), subnetPrefix),
+        })
+      }
+    })
+    return plan
+  }
+
+  /**
+   * Get the plan options of a VPC node from its config
+   */
+  static getPlanOptions(name: string, config: Record<string, any>): NetworkPlanOptions {
+    // Tiers are picked as one combination, e.g. "public,private"
+    const tiers: string[] = Array.isArray(config.subnet_tiers)
+      ? config.subnet_tiers
+      : typeof config.subnet_tiers === 'string' && config.subnet_tiers.trim()
+        ? config.subnet_tiers.split(',').map((tier: string) => tier.trim())
+        : DEFAULT_NETWORK_OPTIONS.tiers
+    return {
+      name,
+      cidrBlock: String(config.cidr_block || DEFAULT_NETWORK_OPTIONS.cidrBlock).trim(),
+      azCount: config.az_count === undefined || config.az_count === '' ? DEFAULT_NETWORK_OPTIONS.azCount : Number(config.az_count),
+      tiers: tiers.filter((tier): tier is SubnetTier => SUBNET_TIERS.includes(tier as SubnetTier)),
+      natGateways: ['none', 'single', 'per_az'].includes(config.nat_gateways) ? config.nat_gateways : DEFAULT_NETWORK_OPTIONS.natGateways,
+    }
+  }
+
+  /**
+   * Names of the other VPCs whose CIDR blocks overlap a VPC's. Overlapping VPCs
+   * can't be peered or routed to each other.
+   */
+  static findOverlappingVpcs(cidrBlock: string, otherVpcs: { name: string; cidrBlock: string }[]): string[] {
+    const vpc = parseCidr(cidrBlock)
+    if (!vpc) return []
+    return otherVpcs
+      .filter(other => {
+        const otherVpc = parseCidr(other.cidrBlock)
+        return !!otherVpc && cidrsOverlap(vpc, otherVpc)
+      })
+      .map(other => other.name)
+  }
+
+  /**
+   * Generates a VPC with the planned subnets, NAT gateways and route tables
+   */
+  static generateVPCInfrastructure(options: Partial<NetworkPlanOptions> = {}): TerraformResource[] {
+    const plan = this.planNetwork(options)
     return [
-      // VPC
       {
         type: 'aws_vpc',
-        name: 'main',
+        name: plan.name,
         config: {
-          cidr_block: '10.0.0.0/16',
+          cidr_block: plan.cidrBlock,
           enable_dns_hostnames: true,
           enable_dns_support: true,
           tags: {
-            Name: 'main-vpc',
+            Name: `${toLabel(plan.name)}-vpc`,
             Environment: 'terraform-generated',
           },
         },
         dependencies: [],
       },
+      ...this.generateNetworkResources(plan, `aws_vpc.${plan.name}.id`),
+    ]
+  }
 
-      // Internet Gateway
-      {
-        type: 'aws_internet_gateway',
-        name: 'main',
-        config: {
-          vpc_id: 'aws_vpc.main.id',
-          tags: {
-            Name: 'main-igw',
-            Environment: 'terraform-generated',
-          },
-        },
-        dependencies: ['aws_vpc.main'],
-      },
+  /**
+   * Generates the subnets, gateways and routing of a planned network in an
+   * existing VPC. Public subnets route to the internet gateway, private ones to
+   * their NAT gateway and isolated ones stay within the VPC.
+   *
+   * @param internetGateway - Address of an internet gateway already attached to the VPC
+   */
+  static generateNetworkResources(plan: NetworkPlan, vpcId: string, internetGateway?: string): TerraformResource[] {
+    if (plan.errors.length > 0) return []
 
-      // Public Subnet
-      {
-        type: 'aws_subnet',
-        name: 'public',
-        config: {
-          vpc_id: 'aws_vpc.main.id',
-          cidr_block: '10.0.1.0/24',
-          availability_zone: 'us-east-1a',
-          map_public_ip_on_launch: true,
-          tags: {
-            Name: 'public-subnet',
-            Environment: 'terraform-generated',
-          },
-        },
-        dependencies: ['aws_vpc.main'],
-      },
+    const { name } = plan
+    const label = toLabel(name)
+    const resources: TerraformResource[] = []
+    const tags = (suffix: string, extra: Record<string, string> = {}) => ({
+      Name: `${label}-${suffix}`,
+      ...extra,
+      Environment: 'terraform-generated',
+    })
+    const subnetsOf = (tier: SubnetTier) => plan.subnets.filter(subnet => subnet.tier === tier)
 
-      // Private Subnet
-      {
+    plan.subnets.forEach(subnet => {
+      resources.push({
         type: 'aws_subnet',
-        name: 'private',
+        name: subnet.name,
         config: {
-          vpc_id: 'aws_vpc.main.id',
-          cidr_block: '10.0.2.0/24',
-          availability_zone: 'us-east-1b',
-          map_public_ip_on_launch: false,
-          tags: {
-            Name: 'private-subnet',
-            Environment: 'terraform-generated',
-          },
+          vpc_id: traversal(vpcId),
+          cidr_block: subnet.cidrBlock,
+          availability_zone: `\${var.region}${ZONE_LETTERS[subnet.zone]}`,
+          map_public_ip_on_launch: subnet.tier === 'public',
+          tags: tags(`${subnet.tier}-${ZONE_LETTERS[subnet.zone]}`, { Tier: subnet.tier }),
         },
-        dependencies: ['aws_vpc.main'],
-      },
+        dependencies: [],
+      })
+    })
 
-      // Route Table for Public Subnet
-      {
-        type: 'aws_route_table',
-        name: 'public',
-        config: {
-          vpc_id: 'aws_vpc.main.id',
-          tags: {
-            Name: 'public-rt',
-            Environment: 'terraform-generated',
+    const associate = (routeTable: string, subnets: PlannedSubnet[]) => {
+      subnets.forEach(subnet => {
+        resources.push({
+          type: 'aws_route_table_association',
+          name: subnet.name,
+          config: {
+            subnet_id: traversal(`aws_subnet.${subnet.name}.id`),
+            route_table_id: traversal(`aws_route_table.${routeTable}.id`),
           },
-        },
-        dependencies: ['aws_vpc.main', 'aws_internet_gateway.main'],
-      },
-
-      // Route Table for Private Subnet
-      {
+          dependencies: [],
+        })
+      })
+    }
+    const routeTable = (tableName: string, suffix: string) => {
+      resources.push({
         type: 'aws_route_table',
-        name: 'private',
-        config: {
-          vpc_id: 'aws_vpc.main.id',
-          tags: {
-            Name: 'private-rt',
-            Environment: 'terraform-generated',
-          },
-        },
-        dependencies: ['aws_vpc.main'],
-      },
-
-      // Route for Public Subnet to Internet Gateway
-      {
+        name: tableName,
+        config: { vpc_id: traversal(vpcId), tags: tags(`${suffix}-rt`) },
+        dependencies: [],
+      })
+    }
+    const defaultRoute = (routeName: string, tableName: string, target: Record<string, HclExpression>) => {
+      resources.push({
         type: 'aws_route',
-        name: 'public_internet_gateway',
+        name: routeName,
         config: {
-          route_table_id: 'aws_route_table.public.id',
+          route_table_id: traversal(`aws_route_table.${tableName}.id`),
           destination_cidr_block: '0.0.0.0/0',
-          gateway_id: 'aws_internet_gateway.main.id',
+          ...target,
         },
-        dependencies: ['aws_route_table.public', 'aws_internet_gateway.main'],
-      },
+        dependencies: [],
+      })
+    }
 
-      // Route Table Association for Public Subnet
-      {
-        type: 'aws_route_table_association',
-        name: 'public',
-        config: {
-          subnet_id: 'aws_subnet.public.id',
-          route_table_id: 'aws_route_table.public.id',
-        },
-        dependencies: ['aws_subnet.public', 'aws_route_table.public'],
-      },
+    const publicSubnets = subnetsOf('public')
+    const gateway = internetGateway || `aws_internet_gateway.${name}`
+    if (publicSubnets.length > 0) {
+      if (!internetGateway) {
+        resources.push({
+          type: 'aws_internet_gateway',
+          name,
+          config: { vpc_id: traversal(vpcId), tags: tags('igw') },
+          dependencies: [],
+        })
+      }
+      routeTable(`${name}_public`, 'public')
+      defaultRoute(`${name}_public_internet`, `${name}_public`, { gateway_id: traversal(`${gateway}.id`) })
+      associate(`${name}_public`, publicSubnets)
+    }
 
-      // Route Table Association for Private Subnet
-      {
-        type: 'aws_route_table_association',
-        name: 'private',
-        config: {
-          subnet_id: 'aws_subnet.private.id',
-          route_table_id: 'aws_route_table.private.id',
-        },
-        dependencies: ['aws_subnet.private', 'aws_route_table.private'],
-      },
-    ]
-  }
+    const privateSubnets = subnetsOf('private')
+    if (privateSubnets.length > 0) {
+      // A NAT gateway per zone keeps private subnets online when another zone fails;
+      // a single shared one is cheaper
+      const natZones = plan.natGateways === 'per_az'
+        ? publicSubnets.map(subnet => subnet.zone)
+        : plan.natGateways === 'single' ? [0] : []
+      natZones.forEach(zone => {
+        const letter = ZONE_LETTERS[zone]
+        resources.push({
+          type: 'aws_eip',
+          name: `${name}_nat_${letter}`,
+          config: { domain: 'vpc', tags: tags(`nat-${letter}`) },
+          dependencies: [],
+        })
+        resources.push({
+          type: 'aws_nat_gateway',
+          name: `${name}_${letter}`,
+          config: {
+            allocation_id: traversal(`aws_eip.${name}_nat_${letter}.id`),
+            subnet_id: traversal(`aws_subnet.${name}_public_${letter}.id`),
+            tags: tags(`nat-${letter}`),
+          },
+          // NAT gateways only work once the VPC reaches the internet
+          dependencies: [gateway],
+        })
+      })
 
-  /**
-   * Generates default security group for VPC
-   */
-  static generateDefaultSecurityGroup(): TerraformResource {
-    return {
-      type: 'aws_security_group',
-      name: 'default',
-      config: {
-        name_prefix: 'default-sg-',
-        vpc_id: 'aws_vpc.main.id',
-        tags: {
-          Name: 'default-security-group',
-        },
-      },
-      dependencies: ['aws_vpc.main'],
+      if (plan.natGateways === 'per_az') {
+        privateSubnets.forEach(subnet => {
+          const letter = ZONE_LETTERS[subnet.zone]
+          routeTable(`${name}_private_${letter}`, `private-${letter}`)
+          defaultRoute(`${name}_private_${letter}_nat`, `${name}_private_${letter}`, { nat_gateway_id: traversal(`aws_nat_gateway.${name}_${letter}.id`) })
+          associate(`${name}_private_${letter}`, [subnet])
+        })
+      } else {
+        routeTable(`${name}_private`, 'private')
+        if (natZones.length > 0) {
+          defaultRoute(`${name}_private_nat`, `${name}_private`, { nat_gateway_id: traversal(`aws_nat_gateway.${name}_${ZONE_LETTERS[natZones[0]]}.id`) })
+        }
+        associate(`${name}_private`, privateSubnets)
+      }
     }
-  }
 
-  /**
-   * Generates security group rules as separate resources
-   */
-  static generateSecurityGroupRules(): TerraformResource[] {
-    return [
-      // SSH access
-      {
-        type: 'aws_security_group_rule',
-        name: 'default_ssh',
-        config: {
-          type: 'ingress',
-          from_port: 22,
-          to_port: 22,
-          protocol: 'tcp',
-          cidr_blocks: ['0.0.0.0/0'],
-          security_group_id: 'aws_security_group.default.id',
-        },
-        dependencies: ['aws_security_group.default'],
-      },
-      // HTTP access
-      {
-        type: 'aws_security_group_rule',
-        name: 'default_http',
-        config: {
-          type: 'ingress',
-          from_port: 80,
-          to_port: 80,
-          protocol: 'tcp',
-          cidr_blocks: ['0.0.0.0/0'],
-          security_group_id: 'aws_security_group.default.id',
-        },
-        dependencies: ['aws_security_group.default'],
-      },
-      // HTTPS access
-      {
-        type: 'aws_security_group_rule',
-        name: 'default_https',
-        config: {
-          type: 'ingress',
-          from_port: 443,
-          to_port: 443,
-          protocol: 'tcp',
-          cidr_blocks: ['0.0.0.0/0'],
-          security_group_id: 'aws_security_group.default.id',
-        },
-        dependencies: ['aws_security_group.default'],
-      },
-      // All outbound traffic
-      {
-        type: 'aws_security_group_rule',
-        name: 'default_egress_all',
-        config: {
-          type: 'egress',
-          from_port: 0,
-          to_port: 0,
-          protocol: '-1',
-          cidr_blocks: ['0.0.0.0/0'],
-          security_group_id: 'aws_security_group.default.id',
-        },
-        dependencies: ['aws_security_group.default'],
-      },
-    ]
+    const isolatedSubnets = subnetsOf('isolated')
+    if (isolatedSubnets.length > 0) {
+      routeTable(`${name}_isolated`, 'isolated')
+      associate(`${name}_isolated`, isolatedSubnets)
+    }
+
+    return resources
   }
 
   /**
-   * Gets the appropriate subnet reference based on service type
+   * Gets the tier a service is placed in: databases as far from the internet as
+   * the plan allows, functions and containers in private subnets, and instances
+   * and load balancers in public ones
    */
-  static getSubnetReference(serviceId: string): string {
-    switch (serviceId) {
-      case 'ec2':
-        // EC2 instances typically go in public subnet for easier access
-        return 'aws_subnet.public.id'
-      case 'rds':
-        // RDS instances should go in private subnet for security
-        return 'aws_subnet.private.id'
-      case 'lambda':
-        // Lambda functions don't need subnet specification by default
-        return 'aws_subnet.private.id'
-      case 'alb':
-        // ALBs typically use public subnets
-        return 'aws_subnet.public.id'
-      default:
-        return 'aws_subnet.public.id'
+  static getSubnetTier(serviceId: string, tiers: SubnetTier[]): SubnetTier | null {
+    const preferences: Record<string, SubnetTier[]> = {
+      rds: ['isolated', 'private', 'public'],
+      lambda: ['private', 'isolated', 'public'],
+      fargate: ['private', 'public', 'isolated'],
+      kubernetes: ['private', 'public', 'isolated'],
     }
+    return (preferences[serviceId] || ['public', 'private', 'isolated']).find(tier => tiers.includes(tier)) || null
   }
 
   /**
-   * Gets the default security group reference
+   * Gets the subnets of a planned network a service is placed in, one per zone
    */
-  static getSecurityGroupReference(): string {
-    return 'aws_security_group.default.id'
+  static getSubnetReferences(serviceId: string, plan: NetworkPlan): HclExpression[] {
+    const tier = this.getSubnetTier(serviceId, plan.tiers)
+    return plan.subnets
+      .filter(subnet => subnet.tier === tier)
+      .map(subnet => traversal(`aws_subnet.${subnet.name}.id`))
   }
 }
@@ -1,4 +1,5 @@
 import type { Node, Edge } from '@xyflow/react'
+import type { BackendConfig } from '@/types/deployment'
 
 export interface Project {
   id: string
@@ -9,6 +10,10 @@ export interface Project {
   lastModified: string
   status: "active" | "archived"
   createdAt: string
+  // Environments the canvas is deployed to, e.g. dev, staging and prod
+  environments?: string[]
+  // Where the project's workspaces keep their Terraform state; local when not set
+  backend?: BackendConfig
   canvasState?: {
     nodes: Node[]
     edges: Edge[]
@@ -74,6 +79,62 @@ export class ProjectCanvasUtils {
     }
   }
 
+  /**
+   * Get the environments a project is deployed to
+   */
+  static getEnvironments(projectId: string): string[] {
+    const project = this.getAllProjects().find(p => p.id === projectId)
+    return project?.environments || []
+  }
+
+  /**
+   * Save the environments a project is deployed to
+   */
+  static saveEnvironments(projectId: string, environments: string[]): void {
+    try {
+      const projects = this.getAllProjects()
+      const projectIndex = projects.findIndex(p => p.id === projectId)
+
+      if (projectIndex === -1) {
+        console.warn(`Project not found: ${projectId}`)
+        return
+      }
+
+      projects[projectIndex] = { ...projects[projectIndex], environments }
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects))
+    } catch (error) {
+      console.error('Failed to save project environments:', error)
+    }
+  }
+
+  /**
+   * Get the state backend of a project; undefined means local state
+   */
+  static getBackend(projectId: string): BackendConfig | undefined {
+    const project = this.getAllProjects().find(p => p.id === projectId)
+    return project?.backend
+  }
+
+  /**
+   * Save the state backend of a project
+   */
+  static saveBackend(projectId: string, backend: BackendConfig | undefined): void {
+    try {
+      const projects = this.getAllProjects()
+      const projectIndex = projects.findIndex(p => p.id === projectId)
+
+      if (projectIndex === -1) {
+        console.warn(`Project not found: ${projectId}`)
+        return
+      }
+
+      projects[projectIndex] = { ...projects[projectIndex], backend }
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects))
+    } catch (error) {
+      console.error('Failed to save project backend:', error)
+    }
+  }
+
   /**
    * Check if project has unsaved changes
    */
@@ -0,0 +1,45 @@
+// Shown in place of a secret
+export const MASKED_VALUE = '********'
+
+// Keys of credentials and secret config fields, e.g. `secretAccessKey` or `db_password`
+const SECRET_KEY_PATTERN = /password|secret|token|private_?key|access_?key|api_?key/i
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key)
+}
+
+/**
+ * Copy of a value for logging, with the values of secret keys masked at any depth
+ */
+export function maskSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskSecrets(item)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      isSecretKey(key) && item !== undefined && item !== null && item !== '' ? MASKED_VALUE : maskSecrets(item)
+    ])) as T
+  }
+  return value
+}
+
+/**
+ * Terraform code with the defaults of `sensitive = true` variables masked
+ */
+export function maskSensitiveCode(code: string): string {
+  return code.replace(/^variable "[^"]*" \{[\s\S]*?^\}/gm, (variable) => {
+    if (!/^\s*sensitive\s*=\s*true\s*$/m.test(variable)) return variable
+    return variable.replace(/^(\s*default\s*=\s*).*$/m, `$1"${MASKED_VALUE}"`)
+  })
+}
+
+/**
+ * Values of `terraform output -json` with the sensitive ones masked
+ */
+export function maskSensitiveOutputs(outputs: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(outputs).map(([name, output]) => [
+    name,
+    output?.sensitive ? { ...output, value: MASKED_VALUE } : output
+  ]))
+}
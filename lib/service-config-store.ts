@@ -0,0 +1,23 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { ServiceConfig } from '@/lib/config-loader'
+
+const CONFIG_DIRECTORY = path.join(process.cwd(), 'config')
+
+// Providers and services name files in the config directory, so nothing else may reach the disk
+const NAME_PATTERN = /^[a-z0-9_]+$/
+
+/**
+ * Read the config of a service from `config/<provider>/<serviceId>.json` on the server
+ */
+export async function loadServiceConfig(provider: string, serviceId: string): Promise<ServiceConfig | null> {
+  if (!NAME_PATTERN.test(provider) || !NAME_PATTERN.test(serviceId)) return null
+
+  try {
+    const fileContent = await fs.readFile(path.join(CONFIG_DIRECTORY, provider, `${serviceId}.json`), 'utf8')
+    return JSON.parse(fileContent)
+  } catch (error) {
+    console.warn(`Failed to load config for ${provider}/${serviceId}:`, error)
+    return null
+  }
+}
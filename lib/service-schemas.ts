@@ -0,0 +1,116 @@
+import type { ConfigField, ServiceConfig } from '@/lib/config-loader'
+import awsApiGateway from '@/config/aws/api_gateway.json'
+import awsCloudfront from '@/config/aws/cloudfront.json'
+import awsCloudwatch from '@/config/aws/cloudwatch.json'
+import awsCognito from '@/config/aws/cognito.json'
+import awsDynamodb from '@/config/aws/dynamodb.json'
+import awsEbs from '@/config/aws/ebs.json'
+import awsEc2 from '@/config/aws/ec2.json'
+import awsFargate from '@/config/aws/fargate.json'
+import awsInternetGateway from '@/config/aws/internet_gateway.json'
+import awsKubernetes from '@/config/aws/kubernetes.json'
+import awsLambda from '@/config/aws/lambda.json'
+import awsRds from '@/config/aws/rds.json'
+import awsS3 from '@/config/aws/s3.json'
+import awsSecretsManager from '@/config/aws/secrets_manager.json'
+import awsSecurityGroup from '@/config/aws/security_group.json'
+import awsSqs from '@/config/aws/sqs.json'
+import awsStepFunctions from '@/config/aws/step_functions.json'
+import awsSubnet from '@/config/aws/subnet.json'
+import awsVpc from '@/config/aws/vpc.json'
+import azureAppService from '@/config/azure/app_service.json'
+import azureBlob from '@/config/azure/blob.json'
+import azureFunctions from '@/config/azure/functions.json'
+import azureKeyVault from '@/config/azure/key_vault.json'
+import azureLb from '@/config/azure/lb.json'
+import azureNsg from '@/config/azure/nsg.json'
+import azureSql from '@/config/azure/sql.json'
+import azureSubnet from '@/config/azure/subnet.json'
+import azureVm from '@/config/azure/vm.json'
+import azureVnet from '@/config/azure/vnet.json'
+import gcpCloudRun from '@/config/gcp/cloud_run.json'
+import gcpCompute from '@/config/gcp/compute.json'
+import gcpFirewall from '@/config/gcp/firewall.json'
+import gcpFunctions from '@/config/gcp/functions.json'
+import gcpLb from '@/config/gcp/lb.json'
+import gcpNetwork from '@/config/gcp/network.json'
+import gcpPubsub from '@/config/gcp/pubsub.json'
+import gcpSql from '@/config/gcp/sql.json'
+import gcpStorage from '@/config/gcp/storage.json'
+import gcpSubnetwork from '@/config/gcp/subnetwork.json'
+import stripePayment from '@/config/stripe/payment.json'
+import supabaseAuth from '@/config/supabase/auth.json'
+import supabaseDatabase from '@/config/supabase/database.json'
+
+// Every service config, bundled so code that can't wait for the config API (like the
+// Terraform generator) reads the same schemas the configuration panel loads
+const SERVICE_CONFIGS = {
+  aws: {
+    api_gateway: awsApiGateway,
+    cloudfront: awsCloudfront,
+    cloudwatch: awsCloudwatch,
+    cognito: awsCognito,
+    dynamodb: awsDynamodb,
+    ebs: awsEbs,
+    ec2: awsEc2,
+    fargate: awsFargate,
+    internet_gateway: awsInternetGateway,
+    kubernetes: awsKubernetes,
+    lambda: awsLambda,
+    rds: awsRds,
+    s3: awsS3,
+    secrets_manager: awsSecretsManager,
+    security_group: awsSecurityGroup,
+    sqs: awsSqs,
+    step_functions: awsStepFunctions,
+    subnet: awsSubnet,
+    vpc: awsVpc,
+  },
+  azure: {
+    app_service: azureAppService,
+    blob: azureBlob,
+    functions: azureFunctions,
+    key_vault: azureKeyVault,
+    lb: azureLb,
+    nsg: azureNsg,
+    sql: azureSql,
+    subnet: azureSubnet,
+    vm: azureVm,
+    vnet: azureVnet,
+  },
+  gcp: {
+    cloud_run: gcpCloudRun,
+    compute: gcpCompute,
+    firewall: gcpFirewall,
+    functions: gcpFunctions,
+    lb: gcpLb,
+    network: gcpNetwork,
+    pubsub: gcpPubsub,
+    sql: gcpSql,
+    storage: gcpStorage,
+    subnetwork: gcpSubnetwork,
+  },
+  supabase: {
+    auth: supabaseAuth,
+    database: supabaseDatabase,
+  },
+  stripe: {
+    payment: stripePayment,
+  },
+} as unknown as Record<string, Record<string, ServiceConfig>>
+
+/**
+ * Get the config schema of a service, or undefined for services without one
+ */
+export function getServiceSchema(provider: string, serviceId: string): Record<string, ConfigField> | undefined {
+  return SERVICE_CONFIGS[provider]?.[serviceId]?.configSchema
+}
+
+/**
+ * Get the fields of a service flagged `secret` in its schema
+ */
+export function getSecretFieldKeys(provider: string, serviceId: string): string[] {
+  return Object.entries(getServiceSchema(provider, serviceId) || {})
+    .filter(([, field]) => field.secret)
+    .map(([key]) => key)
+}
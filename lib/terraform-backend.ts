@@ -0,0 +1,171 @@
+import type { HclExpression } from '@/lib/hcl-parser'
+import { block, literal, writeHCL } from '@/lib/hcl-writer'
+import type { BackendConfig } from '@/types/deployment'
+
+// File the backend block is written to in a workspace
+export const BACKEND_FILE = 'backend.tf'
+
+// Path of the built-in HTTP state server
+export const STATE_SERVER_PATH = '/api/state'
+
+// State keys are used as file names by the state server
+const STATE_KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/
+
+export const BACKEND_TYPES: { type: BackendConfig['type']; label: string }[] = [
+  { type: 'local', label: 'Local (workspace directory)' },
+  { type: 's3', label: 'Amazon S3 + DynamoDB lock' },
+  { type: 'gcs', label: 'Google Cloud Storage' },
+  { type: 'azurerm', label: 'Azure Storage' },
+  { type: 'http', label: 'HTTP' },
+]
+
+export function isRemoteBackend(backend?: BackendConfig): boolean {
+  return !!backend && backend.type !== 'local'
+}
+
+export function isValidStateKey(key: string): boolean {
+  return STATE_KEY_PATTERN.test(key)
+}
+
+/**
+ * Key a workspace's state is stored under. Workspaces of the same project
+ * environment share their state, so a new deployment picks up where the
+ * previous one left off; workspaces outside a project get a key of their own.
+ */
+export function getStateKey({ id, projectId, environment }: { id?: string; projectId?: string; environment?: string }): string {
+  const owner = projectId || id || 'default'
+  return `${owner}-${environment || 'default'}`.replace(/[^A-Za-z0-9_.-]/g, '_').replace(/^\./, '_')
+}
+
+/**
+ * Check a backend config, e.g. from a request body. Returns the problems found.
+ */
+export function validateBackendConfig(backend: any): string[] {
+  if (!backend || typeof backend !== 'object') return ['Backend must be an object']
+
+  const required: Record<string, string[]> = {
+    local: [],
+    s3: ['bucket', 'region'],
+    gcs: ['bucket'],
+    azurerm: ['resourceGroupName', 'storageAccountName', 'containerName'],
+    http: [],
+  }
+  const fields = required[backend.type]
+  if (!fields) return [`Unknown backend type: ${backend.type}`]
+
+  const errors = fields
+    .filter(field => typeof backend[field] !== 'string' || !backend[field].trim())
+    .map(field => `${field} is required for the ${backend.type} backend`)
+
+  if (backend.type === 'http' && backend.address) {
+    try {
+      const url = new URL(backend.address)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') errors.push('address must be an http(s) URL')
+    } catch (error) {
+      errors.push('address must be an http(s) URL')
+    }
+  }
+  return errors
+}
+
+/**
+ * Whether two backend configs keep state in the same place
+ */
+export function isSameBackend(a?: BackendConfig, b?: BackendConfig): boolean {
+  return JSON.stringify(normalizeBackend(a)) === JSON.stringify(normalizeBackend(b))
+}
+
+/**
+ * Write the `backend.tf` of a workspace. Local state needs no file, so this
+ * returns an empty string for it.
+ *
+ * `stateServerUrl` is the base URL of the built-in state server, used by HTTP
+ * backends without an address of their own.
+ */
+export function generateBackendCode(backend: BackendConfig | undefined, stateKey: string, stateServerUrl: string): string {
+  if (!backend || backend.type === 'local') return ''
+
+  let attributes: Record<string, HclExpression>
+  switch (backend.type) {
+    case 's3':
+      attributes = {
+        bucket: literal(backend.bucket),
+        key: literal(joinPath(backend.keyPrefix, stateKey, 'terraform.tfstate')),
+        region: literal(backend.region),
+        ...(backend.dynamodbTable && { dynamodb_table: literal(backend.dynamodbTable) }),
+        encrypt: literal(true),
+      }
+      break
+    case 'gcs':
+      attributes = {
+        bucket: literal(backend.bucket),
+        prefix: literal(joinPath(backend.prefix, stateKey)),
+      }
+      break
+    case 'azurerm':
+      attributes = {
+        resource_group_name: literal(backend.resourceGroupName),
+        storage_account_name: literal(backend.storageAccountName),
+        container_name: literal(backend.containerName),
+        key: literal(`${stateKey}.tfstate`),
+      }
+      break
+    case 'http': {
+      // State is at <address>/<key>, locked with POST and unlocked with DELETE on <address>/<key>/lock
+      const address = `${(backend.address || stateServerUrl).replace(/\/+$/, '')}/${encodeURIComponent(stateKey)}`
+      attributes = {
+        address: literal(address),
+        lock_address: literal(`${address}/lock`),
+        unlock_address: literal(`${address}/lock`),
+        lock_method: literal('POST'),
+        unlock_method: literal('DELETE'),
+      }
+      break
+    }
+  }
+
+  return '# Terraform state backend\n\n' + writeHCL([
+    block('terraform', [], { blocks: [block('backend', [backend.type], { attributes })] }),
+  ])
+}
+
+/**
+ * Base URL of the built-in state server as terraform reaches it from this server
+ */
+export function getStateServerUrl(origin: string): string {
+  return (process.env.TERRAFORM_STATE_SERVER_URL || `${origin}${STATE_SERVER_PATH}`).replace(/\/+$/, '')
+}
+
+/**
+ * Short description of a backend for the UI, e.g. `s3://bucket`
+ */
+export function describeBackend(backend?: BackendConfig): string {
+  switch (backend?.type) {
+    case 's3':
+      return `s3://${backend.bucket}`
+    case 'gcs':
+      return `gs://${backend.bucket}`
+    case 'azurerm':
+      return `azurerm://${backend.storageAccountName}/${backend.containerName}`
+    case 'http':
+      return backend.address || 'Built-in state server'
+    default:
+      return 'Local'
+  }
+}
+
+function normalizeBackend(backend?: BackendConfig): BackendConfig {
+  if (!backend) return { type: 'local' }
+  // Empty optional fields mean the same as missing ones
+  return Object.fromEntries(
+    Object.entries(backend).filter(([, value]) => value !== undefined && value !== '').sort(([a], [b]) => a.localeCompare(b))
+  ) as BackendConfig
+}
+
+function joinPath(...parts: (string | undefined)[]): string {
+  return parts
+    .filter((part): part is string => !!part)
+    .map(part => part.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/')
+}
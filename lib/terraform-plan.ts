@@ -0,0 +1,234 @@
+import type { PlanAction, PlanResourceChange } from '@/types/deployment'
+
+export type PlanChangeKind = 'create' | 'update' | 'replace' | 'delete' | 'read' | 'no-op'
+
+export interface PlanAttributeDiff {
+  path: string
+  before: any
+  after: any
+  change: 'added' | 'removed' | 'changed' | 'unchanged'
+  sensitive: boolean
+  unknown: boolean
+  forcesReplacement: boolean
+}
+
+export const SENSITIVE_VALUE = '(sensitive value)'
+export const UNKNOWN_VALUE = '(known after apply)'
+
+/**
+ * Convert the output of `terraform show -json <planfile>` into resource changes.
+ * Values at sensitive paths are redacted so they never leave the server.
+ */
+export function parsePlanJson(planJson: any): PlanResourceChange[] {
+  return toResourceChanges(planJson?.resource_changes || [])
+}
+
+/**
+ * Read the changes made outside Terraform from a `-refresh-only` plan. Each
+ * change's `before` is the recorded state and `after` the real infrastructure.
+ */
+export function parseDriftJson(planJson: any): PlanResourceChange[] {
+  return toResourceChanges(planJson?.resource_drift || [])
+}
+
+function toResourceChanges(changes: any[]): PlanResourceChange[] {
+  return changes
+    .filter(change => change.mode !== 'data')
+    .map(change => {
+      const beforeSensitive = normalizeMarkers(change.change?.before_sensitive)
+      const afterSensitive = normalizeMarkers(change.change?.after_sensitive)
+
+      return {
+        address: change.address,
+        moduleAddress: change.module_address,
+        type: change.type,
+        name: change.name,
+        index: change.index,
+        actions: change.change?.actions || ['no-op'],
+        before: redact(change.change?.before ?? null, beforeSensitive),
+        after: redact(change.change?.after ?? null, afterSensitive),
+        afterUnknown: normalizeMarkers(change.change?.after_unknown),
+        beforeSensitive,
+        afterSensitive,
+        replacePaths: change.change?.replace_paths,
+      }
+    })
+}
+
+/**
+ * Collapse Terraform's action list into the single kind shown to users
+ */
+export function getChangeKind(actions: PlanAction[]): PlanChangeKind {
+  if (actions.includes('create') && actions.includes('delete')) return 'replace'
+  if (actions.includes('create')) return 'create'
+  if (actions.includes('delete')) return 'delete'
+  if (actions.includes('update')) return 'update'
+  if (actions.includes('read')) return 'read'
+  return 'no-op'
+}
+
+/**
+ * Count changes the same way the "Plan: X to add" summary does
+ */
+export function summarizeResourceChanges(changes: PlanResourceChange[]): {
+  toAdd: number
+  toChange: number
+  toDestroy: number
+} {
+  let toAdd = 0
+  let toChange = 0
+  let toDestroy = 0
+
+  changes.forEach(change => {
+    switch (getChangeKind(change.actions)) {
+      case 'create':
+        toAdd++
+        break
+      case 'update':
+        toChange++
+        break
+      case 'delete':
+        toDestroy++
+        break
+      case 'replace':
+        toAdd++
+        toDestroy++
+        break
+    }
+  })
+
+  return { toAdd, toChange, toDestroy }
+}
+
+/**
+ * Group resource changes by the canvas node that generated them.
+ * Addresses are matched without their instance key, so `aws_instance.web[0]`
+ * maps to the node that generated `aws_instance.web`.
+ */
+export function groupChangesByNode(
+  changes: PlanResourceChange[],
+  addressMap: Record<string, string>
+): Record<string, PlanResourceChange[]> {
+  const grouped: Record<string, PlanResourceChange[]> = {}
+
+  changes.forEach(change => {
+    const address = change.address.replace(/\[[^\]]*\]$/, '')
+    const nodeId = addressMap[address]
+    if (!nodeId) return
+    grouped[nodeId] = grouped[nodeId] || []
+    grouped[nodeId].push(change)
+  })
+
+  return grouped
+}
+
+/**
+ * Summarize the changes to a node's resources (main and helper) as one kind
+ */
+export function getNodeChangeKind(changes: PlanResourceChange[]): PlanChangeKind {
+  const kinds = changes
+    .map(change => getChangeKind(change.actions))
+    .filter(kind => kind !== 'no-op' && kind !== 'read')
+
+  if (kinds.length === 0) return 'no-op'
+  if (kinds.includes('replace')) return 'replace'
+  if (kinds.every(kind => kind === 'create')) return 'create'
+  if (kinds.every(kind => kind === 'delete')) return 'delete'
+  return 'update'
+}
+
+/**
+ * Flatten a resource change into attribute-level differences
+ */
+export function diffResourceChange(change: PlanResourceChange, includeUnchanged: boolean = false): PlanAttributeDiff[] {
+  const diffs: PlanAttributeDiff[] = []
+  const replacePaths = (change.replacePaths || []).map(path => path.join('.'))
+
+  const walk = (before: any, after: any, path: (string | number)[]) => {
+    const key = path.join('.')
+    const sensitive = isMarked(change.beforeSensitive, path) || isMarked(change.afterSensitive, path)
+    const unknown = isMarked(change.afterUnknown, path)
+
+    const expandable = !sensitive && !unknown &&
+      (isContainer(before) || isContainer(after)) &&
+      (isContainer(before) || before == null) &&
+      (isContainer(after) || after == null)
+
+    if (expandable) {
+      const b = before ?? {}
+      const a = after ?? {}
+      // Unknown values are omitted from `after`, so include keys only present in after_unknown
+      const unknownMarkers = markerAt(change.afterUnknown, path)
+      const keys = new Set([
+        ...Object.keys(b),
+        ...Object.keys(a),
+        ...(isContainer(unknownMarkers) ? Object.keys(unknownMarkers) : []),
+      ])
+      if (keys.size > 0) {
+        const isList = Array.isArray(a) || Array.isArray(b)
+        keys.forEach(k => walk(b[k], a[k], [...path, isList ? Number(k) : k]))
+        return
+      }
+    }
+
+    const afterValue = unknown ? UNKNOWN_VALUE : after
+    let kind: PlanAttributeDiff['change']
+    if (before === undefined || before === null) {
+      kind = afterValue === undefined || afterValue === null ? 'unchanged' : 'added'
+    } else if (afterValue === undefined || afterValue === null) {
+      kind = 'removed'
+    } else {
+      kind = JSON.stringify(before) === JSON.stringify(afterValue) ? 'unchanged' : 'changed'
+    }
+
+    if (kind === 'unchanged' && !includeUnchanged) return
+
+    diffs.push({
+      path: key,
+      before,
+      after: afterValue,
+      change: kind,
+      sensitive,
+      unknown,
+      forcesReplacement: replacePaths.includes(key),
+    })
+  }
+
+  walk(change.before ?? {}, change.after ?? {}, [])
+  return diffs
+}
+
+function normalizeMarkers(markers: any): Record<string, any> {
+  return markers && typeof markers === 'object' ? markers : {}
+}
+
+function isContainer(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object'
+}
+
+function markerAt(markers: any, path: (string | number)[]): any {
+  let current = markers
+  for (const step of path) {
+    if (current === true) return true
+    if (!isContainer(current)) return undefined
+    current = current[step as any]
+  }
+  return current
+}
+
+function isMarked(markers: any, path: (string | number)[]): boolean {
+  return markerAt(markers, path) === true
+}
+
+function redact(value: any, sensitive: any): any {
+  if (sensitive === true) return SENSITIVE_VALUE
+  if (!isContainer(value) || !isContainer(sensitive)) return value
+
+  const result: any = Array.isArray(value) ? [...value] : { ...value }
+  Object.keys(sensitive).forEach(key => {
+    if (key in result) {
+      result[key] = redact(result[key], sensitive[key])
+    }
+  })
+  return result
+}
@@ -0,0 +1,124 @@
+import type { TerraformProgress } from '@/types/deployment'
+
+type ProgressAction = NonNullable<TerraformProgress['lastEvent']>['action']
+
+const STARTED_ACTIONS: Record<string, ProgressAction> = {
+  Creating: 'create',
+  Modifying: 'update',
+  Destroying: 'delete',
+  Reading: 'read',
+}
+
+const COMPLETED_ACTIONS: Record<string, ProgressAction> = {
+  Creation: 'create',
+  Modifications: 'update',
+  Destruction: 'delete',
+  Read: 'read',
+}
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g
+
+/**
+ * Remove terminal colour codes from a line of Terraform output
+ */
+export function stripAnsi(line: string): string {
+  return line.replace(ANSI_PATTERN, '')
+}
+
+/**
+ * Work out apply/destroy progress from Terraform's human-readable output.
+ * The total comes from the "Plan: X to add" summary, or from the caller when
+ * applying a saved plan (which doesn't print one). Data source reads are
+ * reported but not counted, matching the plan summary.
+ */
+export class TerraformProgressTracker {
+  private progress: TerraformProgress
+
+  constructor(total?: number) {
+    this.progress = { total, completed: 0, inProgress: [] }
+  }
+
+  getProgress(): TerraformProgress {
+    return this.progress
+  }
+
+  /**
+   * Feed one line of output. Returns the new progress when the line changed it.
+   */
+  update(rawLine: string): TerraformProgress | null {
+    const line = stripAnsi(rawLine).trim()
+
+    const plan = line.match(/^Plan: (\d+) to add, (\d+) to change, (\d+) to destroy/)
+    if (plan) {
+      const total = parseInt(plan[1]) + parseInt(plan[2]) + parseInt(plan[3])
+      return this.set({ total })
+    }
+
+    const started = line.match(/^(.+?): (Creating|Modifying|Destroying|Reading)\.\.\./)
+    if (started) {
+      const address = started[1]
+      return this.set({
+        inProgress: [...this.progress.inProgress.filter(a => a !== address), address],
+        lastEvent: { address, action: STARTED_ACTIONS[started[2]], phase: 'started' },
+      })
+    }
+
+    const completed = line.match(/^(.+?): (Creation|Modifications|Destruction|Read) complete/)
+    if (completed) {
+      const address = completed[1]
+      const action = COMPLETED_ACTIONS[completed[2]]
+      return this.set({
+        completed: this.progress.completed + (action === 'read' ? 0 : 1),
+        inProgress: this.progress.inProgress.filter(a => a !== address),
+        lastEvent: { address, action, phase: 'completed' },
+      })
+    }
+
+    // The final summary is authoritative, e.g. when a resource finished without a completion line
+    const applied = line.match(/^Apply complete! Resources: (\d+) added, (\d+) changed, (\d+) destroyed/)
+    if (applied) {
+      const done = parseInt(applied[1]) + parseInt(applied[2]) + parseInt(applied[3])
+      return this.set({ completed: done, total: this.progress.total ?? done, inProgress: [] })
+    }
+
+    const destroyed = line.match(/^Destroy complete! Resources: (\d+) destroyed/)
+    if (destroyed) {
+      const done = parseInt(destroyed[1])
+      return this.set({ completed: done, total: this.progress.total ?? done, inProgress: [] })
+    }
+
+    return null
+  }
+
+  private set(changes: Partial<TerraformProgress>): TerraformProgress {
+    this.progress = { ...this.progress, ...changes }
+    return this.progress
+  }
+}
+
+/**
+ * Percentage of planned resource changes that have completed, if the total is known
+ */
+export function getProgressPercent(progress: TerraformProgress): number | null {
+  if (progress.total === undefined) return null
+  if (progress.total === 0) return 100
+  return Math.min(100, Math.round((progress.completed / progress.total) * 100))
+}
+
+/**
+ * One-line description of the latest event, e.g. "Creating aws_s3_bucket.assets (2/5)"
+ */
+export function describeProgress(progress: TerraformProgress): string {
+  const counts = progress.total !== undefined ? ` (${progress.completed}/${progress.total})` : ''
+  const event = progress.lastEvent
+  if (!event) return `Waiting for Terraform${counts}`
+
+  const verbs: Record<ProgressAction, [string, string]> = {
+    create: ['Creating', 'Created'],
+    update: ['Modifying', 'Modified'],
+    delete: ['Destroying', 'Destroyed'],
+    read: ['Reading', 'Read'],
+  }
+  const [started, done] = verbs[event.action]
+  return `${event.phase === 'started' ? started : done} ${event.address}${counts}`
+}
@@ -0,0 +1,360 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { randomUUID } from 'crypto'
+import { resolve as resolvePath } from 'path'
+import type { TerraformJob } from '@/types/deployment'
+
+export interface TerraformCommandResult {
+  success: boolean
+  output: string
+  error?: string
+  exitCode: number
+  jobId?: string
+}
+
+export interface TerraformRunOptions {
+  timeoutMs?: number
+  maxOutputBytes?: number
+  // Called with each chunk of output as it arrives
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void
+  // Called once the job is created, before it starts (it may wait in the queue)
+  onJob?: (job: TerraformJob) => void
+  // Aborting cancels the job, e.g. when the client disconnects
+  signal?: AbortSignal
+  // Keep the output out of the job record, which status lookups return for an hour.
+  // For output only the caller needs, like the full plan from `terraform show -json`.
+  privateOutput?: boolean
+}
+
+export type TerraformExecutor = (
+  command: string,
+  args: string[],
+  workingDirectory: string,
+  env?: NodeJS.ProcessEnv,
+  options?: TerraformRunOptions
+) => Promise<TerraformCommandResult>
+
+// Per-command defaults; override with TERRAFORM_<COMMAND>_TIMEOUT_MS or TERRAFORM_TIMEOUT_MS
+const DEFAULT_TIMEOUTS_MS: Record<string, number> = {
+  init: 10 * 60 * 1000,
+  plan: 15 * 60 * 1000,
+  apply: 60 * 60 * 1000,
+  destroy: 60 * 60 * 1000,
+}
+const FALLBACK_TIMEOUT_MS = 2 * 60 * 1000
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024
+
+// How long terraform gets to stop gracefully after SIGINT before it is sent SIGTERM
+const CANCEL_GRACE_MS = Number(process.env.TERRAFORM_CANCEL_GRACE_MS) || 30 * 1000
+
+// Finished jobs are kept for status lookups for this long
+const FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000
+
+interface JobEntry {
+  job: TerraformJob
+  env: NodeJS.ProcessEnv
+  options: TerraformRunOptions
+  maxOutputBytes: number
+  process?: ChildProcess
+  cancelRequested: boolean
+  timedOut: boolean
+  finish: (result: TerraformCommandResult) => void
+}
+
+interface RunnerState {
+  jobs: Map<string, JobEntry>
+  // Job ids per working directory; the first entry is the one running
+  queues: Map<string, string[]>
+}
+
+// Next.js may bundle this module once per route, so keep one runner per process
+const processState = globalThis as typeof globalThis & { terraformRunner?: RunnerState }
+const runner: RunnerState = processState.terraformRunner ||
+  (processState.terraformRunner = { jobs: new Map(), queues: new Map() })
+
+/**
+ * Resolve the timeout for a terraform command from options, environment and defaults
+ */
+export function getCommandTimeout(command: string, timeoutMs?: number): number {
+  if (timeoutMs) return timeoutMs
+  const configured = Number(process.env[`TERRAFORM_${command.toUpperCase()}_TIMEOUT_MS`]) ||
+    Number(process.env.TERRAFORM_TIMEOUT_MS)
+  return configured || DEFAULT_TIMEOUTS_MS[command] || FALLBACK_TIMEOUT_MS
+}
+
+// A resource address such as `aws_s3_bucket.assets`, `module.app.aws_iam_role.lambda` or `aws_instance.web[0]`
+const RESOURCE_ADDRESS_PATTERN = /^[A-Za-z0-9_.\-]+(\[[^\]\s]+\])?$/
+
+/**
+ * Turn a request's resource targets into `-target` arguments. Returns null when
+ * any target is not a resource address.
+ */
+export function getTargetArgs(targets: unknown = []): string[] | null {
+  if (!Array.isArray(targets)) return null
+  if (!targets.every(target => typeof target === 'string' && RESOURCE_ADDRESS_PATTERN.test(target))) return null
+  return targets.map(target => `-target=${target}`)
+}
+
+/**
+ * Queue a terraform command. Commands for the same working directory run one at
+ * a time in submission order, so state is never touched by two processes at once.
+ */
+export function submitTerraformJob(
+  command: string,
+  args: string[],
+  workingDirectory: string,
+  env: NodeJS.ProcessEnv = process.env,
+  options: TerraformRunOptions = {}
+): { job: TerraformJob; result: Promise<TerraformCommandResult> } {
+  pruneFinishedJobs()
+
+  const job: TerraformJob = {
+    id: `job_${randomUUID()}`,
+    command,
+    args,
+    workingDirectory,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    timeoutMs: getCommandTimeout(command, options.timeoutMs),
+    output: '',
+  }
+
+  const result = new Promise<TerraformCommandResult>((resolve) => {
+    runner.jobs.set(job.id, {
+      job,
+      env,
+      options,
+      maxOutputBytes: options.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES,
+      cancelRequested: false,
+      timedOut: false,
+      finish: resolve,
+    })
+  })
+
+  const queueKey = resolvePath(workingDirectory)
+  const queue = runner.queues.get(queueKey) || []
+  queue.push(job.id)
+  runner.queues.set(queueKey, queue)
+
+  if (queue.length > 1) {
+    console.log('⏳ Terraform job queued behind running job:', {
+      jobId: job.id,
+      command,
+      workingDirectory,
+      position: queue.length - 1
+    })
+  }
+
+  options.onJob?.(job)
+
+  if (options.signal?.aborted) {
+    cancelJob(job.id)
+  } else {
+    options.signal?.addEventListener('abort', () => cancelJob(job.id), { once: true })
+    if (queue.length === 1) {
+      startJob(job.id)
+    }
+  }
+
+  return { job, result }
+}
+
+/**
+ * Run a terraform command through the queue and wait for it to finish
+ */
+export const executeTerraformCommand: TerraformExecutor = async (command, args, workingDirectory, env, options) => {
+  return submitTerraformJob(command, args, workingDirectory, env, options).result
+}
+
+export function getJob(jobId: string): TerraformJob | undefined {
+  return runner.jobs.get(jobId)?.job
+}
+
+/**
+ * Cancel a job. Queued jobs are dropped; running ones get SIGINT so terraform can
+ * stop gracefully (and release its state lock), then SIGTERM if it doesn't exit.
+ */
+export function cancelJob(jobId: string): TerraformJob | undefined {
+  const entry = runner.jobs.get(jobId)
+  if (!entry) return undefined
+
+  const { job } = entry
+  if (job.status === 'queued') {
+    entry.cancelRequested = true
+    completeJob(entry, { success: false, output: '', error: 'Cancelled before it started', exitCode: 130 })
+  } else if (job.status === 'running' && !entry.cancelRequested) {
+    console.warn('🛑 Cancelling terraform job:', { jobId, command: job.command })
+    entry.cancelRequested = true
+    interrupt(entry)
+  }
+
+  return job
+}
+
+function startJob(jobId: string) {
+  const entry = runner.jobs.get(jobId)
+  if (!entry) return
+
+  const { job } = entry
+  const fullCommand = `terraform ${job.command} ${job.args.join(' ')}`.trim()
+  job.status = 'running'
+  job.startedAt = new Date().toISOString()
+
+  console.log('🚀 Executing command:', {
+    jobId,
+    command: fullCommand,
+    workingDirectory: job.workingDirectory,
+    timeoutMs: job.timeoutMs,
+    timestamp: job.startedAt
+  })
+
+  let output = ''
+  let error = ''
+  let outputTruncated = false
+  let errorTruncated = false
+
+  const terraform = spawn('terraform', [job.command, ...job.args], {
+    cwd: job.workingDirectory,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: entry.env
+  })
+  entry.process = terraform
+
+  const timeoutId = setTimeout(() => {
+    entry.timedOut = true
+    console.error('⏰ Terraform command timed out:', { jobId, command: fullCommand, timeoutMs: job.timeoutMs })
+    interrupt(entry)
+  }, job.timeoutMs)
+
+  terraform.stdout?.on('data', (data) => {
+    const chunk = data.toString()
+    entry.options.onOutput?.('stdout', chunk)
+
+    if (output.length + chunk.length > entry.maxOutputBytes) {
+      if (!outputTruncated) {
+        output += chunk.substring(0, entry.maxOutputBytes - output.length)
+        output += '\n\n[... Output truncated due to size limit ...]\n'
+        outputTruncated = true
+        console.warn('⚠️ Terraform stdout truncated at max size:', entry.maxOutputBytes)
+      }
+    } else {
+      output += chunk
+    }
+    if (!entry.options.privateOutput) {
+      job.output = output
+    }
+  })
+
+  terraform.stderr?.on('data', (data) => {
+    const chunk = data.toString()
+    entry.options.onOutput?.('stderr', chunk)
+
+    if (error.length + chunk.length > entry.maxOutputBytes) {
+      if (!errorTruncated) {
+        error += chunk.substring(0, entry.maxOutputBytes - error.length)
+        error += '\n\n[... Error output truncated due to size limit ...]\n'
+        errorTruncated = true
+        console.warn('⚠️ Terraform stderr truncated at max size:', entry.maxOutputBytes)
+      }
+    } else {
+      error += chunk
+    }
+  })
+
+  terraform.on('close', (code) => {
+    clearTimeout(timeoutId)
+
+    console.log('🏁 Terraform command finished:', {
+      jobId,
+      command: fullCommand,
+      exitCode: code,
+      timedOut: entry.timedOut,
+      cancelled: entry.cancelRequested,
+      outputLength: output.length,
+      errorLength: error.length
+    })
+
+    if (entry.timedOut) {
+      completeJob(entry, {
+        success: false,
+        output,
+        error: `Command timed out after ${job.timeoutMs}ms. ${error}`,
+        exitCode: 124
+      })
+    } else if (entry.cancelRequested) {
+      completeJob(entry, {
+        success: false,
+        output,
+        error: error ? `Command cancelled. ${error}` : 'Command cancelled',
+        exitCode: 130
+      })
+    } else {
+      completeJob(entry, {
+        success: code === 0,
+        output,
+        error: error || (code !== 0 ? `Terraform exited with code ${code}` : undefined),
+        exitCode: code ?? 1
+      })
+    }
+  })
+
+  terraform.on('error', (err) => {
+    clearTimeout(timeoutId)
+    console.error('💥 Terraform spawn error:', {
+      jobId,
+      command: fullCommand,
+      error: err.message,
+      code: (err as any).code
+    })
+    completeJob(entry, { success: false, output, error: err.message, exitCode: 1 })
+  })
+}
+
+function interrupt(entry: JobEntry) {
+  const terraform = entry.process
+  if (!terraform || terraform.exitCode !== null) return
+
+  terraform.kill('SIGINT')
+  setTimeout(() => {
+    if (terraform.exitCode === null && terraform.signalCode === null) {
+      console.warn('⚠️ Terraform did not stop after SIGINT, sending SIGTERM:', { jobId: entry.job.id })
+      terraform.kill('SIGTERM')
+    }
+  }, CANCEL_GRACE_MS)
+}
+
+function completeJob(entry: JobEntry, result: TerraformCommandResult) {
+  const { job } = entry
+  if (job.finishedAt) return
+
+  job.status = entry.timedOut
+    ? 'timed_out'
+    : entry.cancelRequested
+      ? 'cancelled'
+      : result.success ? 'succeeded' : 'failed'
+  job.finishedAt = new Date().toISOString()
+  job.exitCode = result.exitCode
+  job.error = result.error
+  entry.process = undefined
+  entry.finish({ ...result, jobId: job.id })
+
+  // Start the next job waiting on this working directory
+  const queueKey = resolvePath(job.workingDirectory)
+  const queue = runner.queues.get(queueKey) || []
+  const wasRunning = queue[0] === job.id
+  const remaining = queue.filter(id => id !== job.id)
+  if (remaining.length > 0) {
+    runner.queues.set(queueKey, remaining)
+    if (wasRunning) startJob(remaining[0])
+  } else {
+    runner.queues.delete(queueKey)
+  }
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS
+  runner.jobs.forEach((entry, jobId) => {
+    if (entry.job.finishedAt && new Date(entry.job.finishedAt).getTime() < cutoff) {
+      runner.jobs.delete(jobId)
+    }
+  })
+}
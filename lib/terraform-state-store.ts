@@ -0,0 +1,121 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs'
+import path from 'path'
+import { isValidStateKey } from '@/lib/terraform-backend'
+
+// Outside terraform-workspaces, whose directories the workspace registry adopts
+export const STATE_DIRECTORY = path.join(process.cwd(), 'terraform-state')
+
+// Lock info terraform sends when locking state; only `ID` is relied on
+export interface StateLockInfo {
+  ID: string
+  Operation?: string
+  Who?: string
+  Created?: string
+  [key: string]: unknown
+}
+
+export type StateLockResult =
+  | { acquired: true; lock: StateLockInfo }
+  | { acquired: false; lock: StateLockInfo }
+
+/**
+ * State files of the built-in HTTP state server, one per state key, with the
+ * lock of a state in a file next to it. Meant for local testing of remote
+ * state; production projects should use a cloud backend.
+ */
+export class TerraformStateStore {
+  read(key: string): string | null {
+    const statePath = this.getStatePath(key)
+    return existsSync(statePath) ? readFileSync(statePath, 'utf8') : null
+  }
+
+  write(key: string, content: string): void {
+    mkdirSync(STATE_DIRECTORY, { recursive: true })
+    // Write to a temporary file first so a crash mid-write never truncates the state
+    const statePath = this.getStatePath(key)
+    const tempFile = `${statePath}.${process.pid}.tmp`
+    writeFileSync(tempFile, content, 'utf8')
+    renameSync(tempFile, statePath)
+  }
+
+  delete(key: string): boolean {
+    return removeFile(this.getStatePath(key))
+  }
+
+  getLock(key: string): StateLockInfo | null {
+    const lockPath = this.getLockPath(key)
+    if (!existsSync(lockPath)) return null
+    try {
+      return JSON.parse(readFileSync(lockPath, 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      // Unreadable lock files still block; an empty ID can only be force-unlocked by deleting the file
+      console.warn('⚠️ State lock file is unreadable:', { lockPath, error })
+      return { ID: '' }
+    }
+  }
+
+  /**
+   * Lock a state. The lock file is created exclusively, so two terraform runs
+   * can never both hold it.
+   */
+  lock(key: string, info: StateLockInfo): StateLockResult {
+    mkdirSync(STATE_DIRECTORY, { recursive: true })
+    try {
+      writeFileSync(this.getLockPath(key), JSON.stringify(info, null, 2), { encoding: 'utf8', flag: 'wx' })
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error
+
+      const existing = this.getLock(key)
+      if (!existing) {
+        // Unlocked between the failed create and the read; try again
+        return this.lock(key, info)
+      }
+      console.warn('🔒 Terraform state is locked:', { key, requested: info.ID, held: existing.ID })
+      return { acquired: false, lock: existing }
+    }
+
+    console.log('🔒 Terraform state locked:', { key, id: info.ID, operation: info.Operation })
+    return { acquired: true, lock: info }
+  }
+
+  /**
+   * Unlock a state held under the given lock ID. `terraform force-unlock`
+   * sends the ID of the lock it breaks, so it goes through here as well.
+   */
+  unlock(key: string, id: string): { released: boolean; lock: StateLockInfo | null } {
+    const existing = this.getLock(key)
+    if (!existing) return { released: true, lock: null }
+    if (existing.ID !== id) return { released: false, lock: existing }
+
+    removeFile(this.getLockPath(key))
+    console.log('🔓 Terraform state unlocked:', { key, id })
+    return { released: true, lock: null }
+  }
+
+  private getStatePath(key: string): string {
+    return path.join(STATE_DIRECTORY, `${checkKey(key)}.tfstate`)
+  }
+
+  private getLockPath(key: string): string {
+    return path.join(STATE_DIRECTORY, `${checkKey(key)}.lock.json`)
+  }
+}
+
+function checkKey(key: string): string {
+  // Keys come from URLs; never let one point outside the state directory
+  if (!isValidStateKey(key)) throw new Error(`Invalid state key: ${key}`)
+  return key
+}
+
+function removeFile(filePath: string): boolean {
+  try {
+    unlinkSync(filePath)
+    return true
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error
+    return false
+  }
+}
+
+export const stateStore = new TerraformStateStore()
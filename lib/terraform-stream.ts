@@ -0,0 +1,91 @@
+import { stripAnsi } from '@/lib/terraform-progress'
+import { executeTerraformCommand, type TerraformExecutor } from '@/lib/terraform-runner'
+import type { TerraformStreamEvent } from '@/types/deployment'
+
+/**
+ * Run a terraform route handler with its commands streamed to the client as
+ * Server-Sent Events. Output lines are sent as they are printed; the JSON the
+ * route would normally respond with is sent as a final `result` event.
+ * Closing the connection cancels the running command.
+ */
+export function streamTerraformResponse(
+  handler: (execute: TerraformExecutor) => Promise<Response>
+): Response {
+  const encoder = new TextEncoder()
+  const abortController = new AbortController()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: TerraformStreamEvent) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+      }
+
+      const run = async () => {
+        try {
+          const response = await handler(createStreamingExecutor(send, abortController.signal))
+          send({ type: 'result', status: response.status, result: await response.json() })
+        } catch (error) {
+          console.error('💥 Error in streamed terraform command:', error)
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Terraform command failed' })
+        } finally {
+          if (!closed) {
+            closed = true
+            controller.close()
+          }
+        }
+      }
+
+      run()
+    },
+    cancel() {
+      console.warn('⚠️ Client disconnected from terraform stream')
+      closed = true
+      abortController.abort()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
+/**
+ * Create an executor that forwards each line of terraform output as it arrives
+ */
+function createStreamingExecutor(
+  send: (event: TerraformStreamEvent) => void,
+  signal: AbortSignal
+): TerraformExecutor {
+  return async (command, args, workingDirectory, env, options) => {
+    const pending = { stdout: '', stderr: '' }
+
+    const result = await executeTerraformCommand(command, args, workingDirectory, env, {
+      ...options,
+      signal,
+      onJob: (job) => {
+        send({ type: 'job', job })
+        send({ type: 'command', command: `terraform ${command} ${args.join(' ')}`.trim() })
+      },
+      onOutput: (stream, chunk) => {
+        // Only forward complete lines; keep the remainder until the next chunk
+        const lines = (pending[stream] + chunk).split(/\r?\n/)
+        pending[stream] = lines.pop() || ''
+        lines.forEach(line => send({ type: 'output', stream, line: stripAnsi(line) }))
+      }
+    })
+
+    ;(['stdout', 'stderr'] as const).forEach(stream => {
+      if (pending[stream]) {
+        send({ type: 'output', stream, line: stripAnsi(pending[stream]) })
+      }
+    })
+
+    return result
+  }
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto'
+import { existsSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs'
+import { NextResponse } from 'next/server'
+import path from 'path'
+import { workspaces } from '@/lib/workspace-registry'
+import type { TerraformWorkspace, WorkspaceLock } from '@/types/deployment'
+
+const LOCK_FILE = '.workspace.lock'
+
+export type WorkspaceLockResult =
+  | { acquired: true; lock: WorkspaceLock; release: () => void }
+  | { acquired: false; lock: WorkspaceLock }
+
+/**
+ * Get the lock currently held on a workspace, if any
+ */
+export function getWorkspaceLock(workspaceId: string): WorkspaceLock | null {
+  const workspace = workspaces.get(workspaceId)
+  if (!workspace) return null
+  return readLock(workspace)
+}
+
+/**
+ * Take the advisory lock on a workspace. The lock is a file in the workspace
+ * directory created exclusively, so two requests can never both acquire it.
+ * A holder that already owns the lock gets it again without a second file, and
+ * only the outermost acquisition releases it.
+ */
+export function acquireWorkspaceLock(
+  workspace: TerraformWorkspace,
+  holder: string | undefined,
+  operation: string
+): WorkspaceLockResult {
+  const lock: WorkspaceLock = {
+    workspaceId: workspace.id,
+    // Requests without a holder never share a lock with anyone
+    holder: holder || `request_${randomUUID()}`,
+    operation,
+    startedAt: new Date().toISOString(),
+  }
+
+  try {
+    writeFileSync(getLockPath(workspace), JSON.stringify(lock, null, 2), { encoding: 'utf8', flag: 'wx' })
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') throw error
+
+    const existing = readLock(workspace)
+    if (!existing) {
+      // Released between the failed create and the read; try again
+      return acquireWorkspaceLock(workspace, holder, operation)
+    }
+    if (existing.holder === lock.holder) {
+      return { acquired: true, lock: existing, release: () => {} }
+    }
+
+    console.warn('🔒 Workspace is locked:', { requested: lock, held: existing })
+    return { acquired: false, lock: existing }
+  }
+
+  console.log('🔒 Workspace locked:', lock)
+  return { acquired: true, lock, release: () => releaseWorkspaceLock(workspace, lock.holder) }
+}
+
+/**
+ * Release a workspace lock. Without `force`, only its holder can release it.
+ */
+export function releaseWorkspaceLock(
+  workspace: TerraformWorkspace,
+  holder?: string,
+  force: boolean = false
+): boolean {
+  const existing = readLock(workspace)
+  if (!existing) return false
+  if (!force && existing.holder !== holder) return false
+
+  try {
+    unlinkSync(getLockPath(workspace))
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error
+    return false
+  }
+
+  if (force) {
+    console.warn('🔓 Workspace lock force-released:', existing)
+  } else {
+    console.log('🔓 Workspace unlocked:', { workspaceId: workspace.id, operation: existing.operation })
+  }
+  return true
+}
+
+/**
+ * Lock the workspace a terraform route is about to run in. Directories that
+ * don't belong to a workspace (e.g. temporary plan directories) need no lock.
+ */
+export function lockWorkingDirectory(
+  workingDirectory: string | undefined,
+  holder: string | undefined,
+  operation: string
+): WorkspaceLockResult | null {
+  if (!workingDirectory) return null
+
+  const resolved = path.resolve(workingDirectory)
+  const workspace = workspaces.values().find(
+    candidate => path.resolve(candidate.workingDirectory) === resolved
+  )
+  if (!workspace) return null
+  return acquireWorkspaceLock(workspace, holder, operation)
+}
+
+/**
+ * 409 response for a request that conflicts with a held lock
+ */
+export function workspaceLockedResponse(lock: WorkspaceLock): NextResponse {
+  return NextResponse.json(
+    {
+      error: `Workspace is locked by another ${lock.operation} operation started at ${lock.startedAt}`,
+      lock
+    },
+    { status: 409 }
+  )
+}
+
+function getLockPath(workspace: TerraformWorkspace): string {
+  return path.join(workspace.workingDirectory, LOCK_FILE)
+}
+
+function readLock(workspace: TerraformWorkspace): WorkspaceLock | null {
+  const lockPath = getLockPath(workspace)
+  if (!existsSync(lockPath)) return null
+
+  try {
+    return JSON.parse(readFileSync(lockPath, 'utf8'))
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null
+    // Unreadable lock files still block; report what we can so it can be force-unlocked
+    console.warn('⚠️ Workspace lock file is unreadable:', { lockPath, error })
+    return {
+      workspaceId: workspace.id,
+      holder: 'unknown',
+      operation: 'unknown',
+      startedAt: statSync(lockPath).mtime.toISOString(),
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs'
+import path from 'path'
+import { isRemoteBackend } from '@/lib/terraform-backend'
+import type { DeploymentStatus, TerraformWorkspace } from '@/types/deployment'
+
+export const WORKSPACES_DIRECTORY = path.join(process.cwd(), 'terraform-workspaces')
+const REGISTRY_FILE = path.join(WORKSPACES_DIRECTORY, 'registry.json')
+
+// Keep the registry file small enough to rewrite on every change
+const MAX_DEPLOYMENT_RECORDS = 200
+const MAX_LOG_LINES = 1000
+
+const RUNNING_STATUSES: DeploymentStatus['status'][] = ['pending', 'initializing', 'planning', 'applying', 'destroying']
+
+// Next.js may bundle this module once per route, so track reconciliation per process
+const processState = globalThis as typeof globalThis & { workspaceRegistryReconciled?: boolean }
+
+interface RegistryData {
+  version: 1
+  workspaces: TerraformWorkspace[]
+  deployments: DeploymentStatus[]
+}
+
+/**
+ * File-backed registry of Terraform workspaces and deployment history.
+ *
+ * Records live in `terraform-workspaces/registry.json` next to the workspace
+ * directories. The file is re-read on every access so route modules that Next.js
+ * bundles separately always see the same data. The first access in a server
+ * process reconciles the registry with the directories on disk.
+ */
+export class WorkspaceRegistry {
+  get(id: string): TerraformWorkspace | undefined {
+    return this.read().workspaces.find(workspace => workspace.id === id)
+  }
+
+  set(id: string, workspace: TerraformWorkspace): void {
+    const data = this.read()
+    const index = data.workspaces.findIndex(existing => existing.id === id)
+    if (index >= 0) {
+      data.workspaces[index] = workspace
+    } else {
+      data.workspaces.push(workspace)
+    }
+    this.save(data)
+  }
+
+  delete(id: string): boolean {
+    const data = this.read()
+    const remaining = data.workspaces.filter(workspace => workspace.id !== id)
+    if (remaining.length === data.workspaces.length) return false
+    this.save({ ...data, workspaces: remaining })
+    return true
+  }
+
+  values(): TerraformWorkspace[] {
+    return this.read().workspaces
+  }
+
+  /**
+   * The workspace an environment of a project is deployed to. Each environment has
+   * one, so redeploying it updates the same state.
+   */
+  findByProject(projectId: string, environment?: string): TerraformWorkspace | undefined {
+    return this.read().workspaces.find(workspace => workspace.projectId === projectId && workspace.environment === environment)
+  }
+
+  /**
+   * Deployment history, newest first, optionally for a single workspace
+   */
+  getDeployments(workspaceId?: string): DeploymentStatus[] {
+    return this.read().deployments
+      .filter(deployment => !workspaceId || deployment.workspaceId === workspaceId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  /**
+   * Insert or update a deployment record. Logs are trimmed to their tail and
+   * per-resource plan changes are dropped, since the workspace state covers them.
+   */
+  recordDeployment(deployment: DeploymentStatus): void {
+    const data = this.read()
+
+    // Saves are fire-and-forget from the client, so never let an older snapshot win
+    const existing = data.deployments.find(record => record.id === deployment.id)
+    if (existing && new Date(existing.updatedAt).getTime() > new Date(deployment.updatedAt).getTime()) {
+      return
+    }
+
+    const record: DeploymentStatus = {
+      ...deployment,
+      logs: deployment.logs.slice(-MAX_LOG_LINES),
+      plan: deployment.plan ? { ...deployment.plan, resourceChanges: undefined } : undefined,
+    }
+
+    const deployments = [record, ...data.deployments.filter(existing => existing.id !== deployment.id)]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, MAX_DEPLOYMENT_RECORDS)
+
+    this.save({ ...data, deployments })
+  }
+
+  /**
+   * Bring the registry in line with the workspace directories on disk:
+   * - directories without a record (e.g. created before the registry existed) are adopted
+   * - active workspaces whose directory or terraform.tfstate is missing are marked failed
+   *   (workspaces with a remote backend have no local state to check)
+   * - deployments still marked as running were interrupted by a restart and are marked failed
+   */
+  reconcile(): { adopted: string[]; failed: string[]; interrupted: string[] } {
+    const data = this.load()
+    const adopted: string[] = []
+    const failed: string[] = []
+    const interrupted: string[] = []
+
+    data.workspaces.forEach(workspace => {
+      const hasState = isRemoteBackend(workspace.backend)
+        ? existsSync(workspace.workingDirectory)
+        : existsSync(path.join(workspace.workingDirectory, 'terraform.tfstate'))
+      if (workspace.status === 'active' && !hasState) {
+        workspace.status = 'failed'
+        failed.push(workspace.id)
+      }
+    })
+
+    const known = new Set(data.workspaces.map(workspace => path.resolve(workspace.workingDirectory)))
+    if (existsSync(WORKSPACES_DIRECTORY)) {
+      readdirSync(WORKSPACES_DIRECTORY, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !known.has(path.resolve(WORKSPACES_DIRECTORY, entry.name)))
+        .forEach(entry => {
+          const workspace = adoptWorkspaceDirectory(path.join(WORKSPACES_DIRECTORY, entry.name))
+          data.workspaces.push(workspace)
+          adopted.push(workspace.id)
+          if (workspace.status === 'failed') failed.push(workspace.id)
+        })
+    }
+
+    data.deployments.forEach(deployment => {
+      if (RUNNING_STATUSES.includes(deployment.status)) {
+        deployment.status = 'failed'
+        deployment.error = 'Interrupted by a server restart'
+        deployment.message = `Deployment failed: ${deployment.error}`
+        deployment.updatedAt = new Date().toISOString()
+        interrupted.push(deployment.id)
+      }
+    })
+
+    if (adopted.length > 0 || failed.length > 0 || interrupted.length > 0) {
+      console.log('🔄 Reconciled workspace registry with disk:', { adopted, failed, interrupted })
+      this.save(data)
+    }
+
+    return { adopted, failed, interrupted }
+  }
+
+  private read(): RegistryData {
+    if (!processState.workspaceRegistryReconciled) {
+      processState.workspaceRegistryReconciled = true
+      try {
+        this.reconcile()
+      } catch (error) {
+        console.error('⚠️ Failed to reconcile workspace registry:', error)
+      }
+    }
+    return this.load()
+  }
+
+  private load(): RegistryData {
+    if (!existsSync(REGISTRY_FILE)) {
+      return { version: 1, workspaces: [], deployments: [] }
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(REGISTRY_FILE, 'utf8'))
+      return {
+        version: 1,
+        workspaces: Array.isArray(data.workspaces) ? data.workspaces : [],
+        deployments: Array.isArray(data.deployments) ? data.deployments : [],
+      }
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it on the next save
+      const backup = `${REGISTRY_FILE}.corrupt-${Date.now()}`
+      console.error('❌ Workspace registry is unreadable, moving it aside:', { backup, error })
+      renameSync(REGISTRY_FILE, backup)
+      return { version: 1, workspaces: [], deployments: [] }
+    }
+  }
+
+  private save(data: RegistryData): void {
+    mkdirSync(WORKSPACES_DIRECTORY, { recursive: true })
+    // Write to a temporary file first so a crash mid-write never truncates the registry
+    const tempFile = `${REGISTRY_FILE}.${process.pid}.tmp`
+    writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf8')
+    renameSync(tempFile, REGISTRY_FILE)
+  }
+}
+
+/**
+ * Build a record for a workspace directory the registry doesn't know about
+ */
+function adoptWorkspaceDirectory(workingDirectory: string): TerraformWorkspace {
+  const id = path.basename(workingDirectory)
+  const statePath = path.join(workingDirectory, 'terraform.tfstate')
+  const created = statSync(workingDirectory)
+
+  let status: TerraformWorkspace['status'] = 'failed'
+  let lastDeployed: string | undefined
+  if (existsSync(statePath)) {
+    try {
+      const state = JSON.parse(readFileSync(statePath, 'utf8'))
+      status = Array.isArray(state.resources) && state.resources.length > 0 ? 'active' : 'destroyed'
+      lastDeployed = statSync(statePath).mtime.toISOString()
+    } catch (error) {
+      console.warn('⚠️ Could not read state of unregistered workspace:', { workingDirectory, error })
+    }
+  }
+
+  return {
+    id,
+    name: id,
+    provider: detectProvider(workingDirectory),
+    workingDirectory,
+    createdAt: (created.birthtimeMs > 0 ? created.birthtime : created.mtime).toISOString(),
+    status,
+    lastDeployed,
+  }
+}
+
+/**
+ * Infer the cloud provider from the generated terraform.tf
+ */
+function detectProvider(workingDirectory: string): string {
+  const configPath = path.join(workingDirectory, 'terraform.tf')
+  if (!existsSync(configPath)) return 'aws'
+
+  const config = readFileSync(configPath, 'utf8')
+  if (config.includes('hashicorp/google')) return 'gcp'
+  if (config.includes('hashicorp/azurerm')) return 'azure'
+  return 'aws'
+}
+
+export const workspaces = new WorkspaceRegistry()
@@ -10,9 +10,32 @@ export interface CloudServiceNodeData extends Record<string, unknown> {
   provider: string
   config?: Record<string, any>
   terraformType?: string
+  // Attributes imported from existing Terraform that the service schema doesn't model
+  extraAttributes?: Record<string, any>
+  // Deployed attributes (ARNs, IPs, IDs) read back from a terraform.tfstate file
+  stateAttributes?: Record<string, any>
+  // Module group the node is exported into, drawn by grouping nodes on the canvas
+  group?: string
+  // Config values that differ per environment: environment name → config field → value
+  environmentOverrides?: Record<string, Record<string, any>>
+  // Config fields promoted to Terraform variables, with the schema of each field
+  parameters?: Record<string, ConfigField>
+  // Source code of a Lambda function, packaged into its deployment archive
+  source?: LambdaSource
   onDelete?: () => void
 }
 
+export interface LambdaSourceFile {
+  filename: string
+  content: string
+}
+
+// Files edited on the canvas, or a directory on the machine running Terraform
+export interface LambdaSource {
+  files: LambdaSourceFile[]
+  directory?: string
+}
+
 export interface CloudServiceNodeProps {
   onDoubleClick?: (nodeData: CloudServiceNodeData) => void
 }
@@ -22,6 +45,39 @@ export interface ConnectionEdgeData extends Record<string, unknown> {
   relationship?: string
   description?: string
   bidirectional?: boolean
+  // Policy document replacing the one generated for the edge's IAM permissions
+  policy?: IamPolicyDocument
+  // Network access between services with security groups; unset fields take the
+  // target's defaults, e.g. the port of a database's engine
+  port?: string
+  protocol?: NetworkProtocol
+  direction?: TrafficDirection
+}
+
+export type NetworkProtocol = "tcp" | "udp" | "icmp" | "all"
+
+// Which end of an edge opens connections: the source, the target or both
+export type TrafficDirection = "forward" | "reverse" | "both"
+
+export interface NetworkRule {
+  // A single port or a range, e.g. "5432" or "8000-8100"
+  port: string
+  protocol: NetworkProtocol
+  direction: TrafficDirection
+}
+
+export interface IamPolicyStatement {
+  Sid?: string
+  Effect: "Allow" | "Deny"
+  Principal?: Record<string, string | string[]>
+  Action: string | string[]
+  Resource: string | string[]
+  Condition?: Record<string, Record<string, string | string[]>>
+}
+
+export interface IamPolicyDocument {
+  Version: "2012-10-17"
+  Statement: IamPolicyStatement[]
 }
 
 // Service Definition Types
@@ -41,8 +97,12 @@ export interface ConfigField {
   label: string
   description?: string
   options?: string[]
+  // Options saved configs may still have: accepted, but not offered for new values
+  deprecatedOptions?: string[]
   default?: any
   required?: boolean
+  // Holds a secret: masked in the UI and logs, and generated when left empty
+  secret?: boolean
   validation?: {
     min?: number
     max?: number
@@ -61,9 +121,22 @@ export interface ConfigurationPanelProps {
     provider: string
     terraformType?: string
     config?: Record<string, any>
+    stateAttributes?: Record<string, any>
+    parameters?: Record<string, ConfigField>
+    source?: LambdaSource
   } | null
+  // Environment being edited; `nodeData.config` then holds the effective values and
+  // fields that differ from `baseConfig` are shown as overrides
+  environment?: string
+  baseConfig?: Record<string, any>
   serviceConfig: any | null
   onConfigUpdate: (config: Record<string, any>) => void
+  // Called when fields are promoted to, or taken back from, Terraform variables
+  onParametersUpdate?: (parameters: Record<string, ConfigField>) => void
+  // Called when the source code of a Lambda function is edited
+  onSourceUpdate?: (source: LambdaSource) => void
+  // The canvas's other VPCs, checked against a VPC's CIDR block for overlaps
+  otherVpcs?: { name: string; cidrBlock: string }[]
   onSave?: () => void
 }
 
@@ -6,8 +6,24 @@ export interface DeploymentRequest {
   nodes: Node[]
   edges: Edge[]
   autoApprove?: boolean
+  // Dashboard project the canvas belongs to, recorded on the workspace
+  projectId?: string
+  // Environment of the project to deploy; each environment gets its own workspace
+  environment?: string
+  // Where the project keeps its Terraform state; local state when not set
+  backend?: BackendConfig
 }
 
+// Terraform state backend of a project. Every workspace of the project stores its
+// state under a key of its own, see `getStateKey` in lib/terraform-backend.
+export type BackendConfig =
+  | { type: 'local' }
+  | { type: 's3'; bucket: string; region: string; keyPrefix?: string; dynamodbTable?: string }
+  | { type: 'gcs'; bucket: string; prefix?: string }
+  | { type: 'azurerm'; resourceGroupName: string; storageAccountName: string; containerName: string }
+  // Without an address, state is kept by the built-in state server at /api/state
+  | { type: 'http'; address?: string }
+
 export interface DeploymentStatus {
   id: string
   workspaceId: string
@@ -17,6 +33,14 @@ export interface DeploymentStatus {
   logs: string[]
   outputs?: Record<string, any>
   error?: string
+  // Live resource progress while terraform apply/destroy output is streaming
+  resourceProgress?: TerraformProgress
+  // Server-side job of the terraform command currently running, used for cancellation
+  jobId?: string
+  // Lock held by someone else that stopped this deployment, so it can be force-unlocked
+  conflictingLock?: WorkspaceLock
+  // Resource addresses a targeted plan/apply/destroy was limited to
+  targets?: string[]
   createdAt: string
   updatedAt: string
   plan?: {
@@ -25,6 +49,7 @@ export interface DeploymentStatus {
     toChange: number
     toDestroy: number
     planOutput: string
+    resourceChanges?: PlanResourceChange[]
   }
   workspace?: {
     id: string
@@ -43,9 +68,24 @@ export interface DeploymentResult {
   workspaceId: string
   outputs?: Record<string, any>
   error?: string
+  // Fields of the nodes whose configuration kept the deployment from starting
+  configErrors?: NodeConfigErrors[]
   logs: string[]
 }
 
+// A config field whose value breaks its schema, see lib/config-validator.ts
+export interface ConfigFieldError {
+  field: string
+  label: string
+  message: string
+}
+
+export interface NodeConfigErrors {
+  nodeId: string
+  nodeName: string
+  errors: ConfigFieldError[]
+}
+
 export interface TerraformWorkspace {
   id: string
   name: string
@@ -54,5 +94,84 @@ export interface TerraformWorkspace {
   createdAt: string
   status: 'active' | 'destroyed' | 'failed'
   lastDeployed?: string
+  projectId?: string
+  // Project environment deployed to this workspace
+  environment?: string
+  // Backend the workspace's state is in; local terraform.tfstate when not set
+  backend?: BackendConfig
+  // Result of the latest drift check, for active workspaces
+  drift?: DriftReport
+}
+
+// Changes made to deployed resources outside Cloudist, from `terraform plan -refresh-only`.
+// For each resource, `before` is the recorded state and `after` what is actually deployed.
+export interface DriftReport {
+  checkedAt: string
+  status: 'in-sync' | 'drifted' | 'error'
+  resources: PlanResourceChange[]
+  error?: string
+}
+
+// Advisory lock on a workspace while a terraform operation is running against it
+export interface WorkspaceLock {
+  workspaceId: string
+  // Identifies the browser tab that took the lock
+  holder: string
+  operation: string
+  startedAt: string
+}
+
+export type PlanAction = 'no-op' | 'create' | 'read' | 'update' | 'delete'
+
+export interface PlanResourceChange {
+  address: string
+  moduleAddress?: string
+  type: string
+  name: string
+  index?: string | number
+  actions: PlanAction[]
+  before: Record<string, any> | null
+  after: Record<string, any> | null
+  afterUnknown: Record<string, any>
+  beforeSensitive: Record<string, any>
+  afterSensitive: Record<string, any>
+  replacePaths?: (string | number)[][]
+}
+
+export interface TerraformProgress {
+  total?: number
+  completed: number
+  // Resource addresses with an operation currently in flight
+  inProgress: string[]
+  lastEvent?: {
+    address: string
+    action: 'create' | 'update' | 'delete' | 'read'
+    phase: 'started' | 'completed'
+  }
+}
+
+export type TerraformJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed_out'
+
+// A terraform command run by the server-side runner, as reported by /api/jobs/[id]
+export interface TerraformJob {
+  id: string
+  command: string
+  args: string[]
+  workingDirectory: string
+  status: TerraformJobStatus
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  timeoutMs: number
+  exitCode?: number
+  output: string
+  error?: string
 }
 
+// Events sent by the terraform routes when called with `stream: true`
+export type TerraformStreamEvent =
+  | { type: 'job'; job: TerraformJob }
+  | { type: 'command'; command: string }
+  | { type: 'output'; stream: 'stdout' | 'stderr'; line: string }
+  | { type: 'result'; status: number; result: any }
+  | { type: 'error'; error: string }